@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getApiKey } from '@/lib/api/config';
 import { handleApiError } from '@/lib/api/error-handler';
 import { NASAAPIError } from '@/lib/types/nasa-api';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 /**
  * GET /api/apod
@@ -37,7 +38,7 @@ export async function GET(request: NextRequest) {
     const url = `${baseUrl}?${params.toString()}`;
 
     // Fetch from NASA API
-    const response = await fetch(url, {
+    const response = await upstreamFetch(url, {
       headers: {
         'Accept': 'application/json',
       },
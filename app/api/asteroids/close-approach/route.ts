@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
+import { fromJulianDate } from '@/lib/utils/time-scales';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface CADResponse {
   signature: {
@@ -15,7 +17,8 @@ interface CADResponse {
 
 interface CloseApproach {
   date: string;
-  dateCalendar: string;
+  dateCalendar: string; // TDB
+  time: string; // UTC (ISO 8601)
   distance: number;
   distanceAU: number;
   distanceLunar: number;
@@ -67,7 +70,7 @@ export async function GET(request: NextRequest) {
     const cadUrl = `https://ssd-api.jpl.nasa.gov/cad.api?des=${encodeURIComponent(des)}&date-min=${dateMin}&date-max=${dateMax}&dist-max=${distMax}&sort=date`;
 
     const fetchCADData = async (): Promise<CADResponse> => {
-      const response = await fetch(cadUrl, {
+      const response = await upstreamFetch(cadUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
@@ -129,6 +132,7 @@ export async function GET(request: NextRequest) {
       return {
         date: record[fieldIndices['jd']] as string,
         dateCalendar: record[fieldIndices['cd']] as string,
+        time: fromJulianDate(parseFloat(record[fieldIndices['jd']] as string), 'TDB').toISOString(),
         distance: distAU,
         distanceAU: distAU,
         distanceLunar: distLunar,
@@ -146,8 +150,8 @@ export async function GET(request: NextRequest) {
 
     // Separate into past and future
     const now = new Date();
-    const futureApproaches = approaches.filter(a => new Date(a.dateCalendar) > now);
-    const pastApproaches = approaches.filter(a => new Date(a.dateCalendar) <= now);
+    const futureApproaches = approaches.filter(a => new Date(a.time) > now);
+    const pastApproaches = approaches.filter(a => new Date(a.time) <= now);
 
     // Find closest approach overall
     const closestApproach = approaches.length > 0
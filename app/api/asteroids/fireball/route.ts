@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface FireballResponse {
   signature: {
@@ -37,7 +38,7 @@ export async function GET(request: NextRequest) {
     }
 
     const fetchFireballData = async (): Promise<FireballResponse> => {
-      const response = await fetch(fireballUrl, {
+      const response = await upstreamFetch(fireballUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface NHATSResponse {
   signature?: {
@@ -80,7 +81,7 @@ export async function GET(request: NextRequest) {
     const nhatsUrl = `https://ssd-api.jpl.nasa.gov/nhats.api?des=${encodeURIComponent(des)}`;
 
     const fetchNHATSData = async (): Promise<NHATSResponse> => {
-      const response = await fetch(nhatsUrl, {
+      const response = await upstreamFetch(nhatsUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
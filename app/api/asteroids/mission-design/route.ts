@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
+import { fromModifiedJulianDate } from '@/lib/utils/time-scales';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface MissionDesignResponse {
   signature: {
@@ -22,8 +24,8 @@ interface MissionDesignResponse {
 interface Mission {
   cd: string; // Launch date (calendar)
   ca: string; // Arrival date (calendar)
-  mjd0: number; // Launch MJD
-  mjdf: number; // Arrival MJD
+  mjd0: number; // Launch MJD (TDB)
+  mjdf: number; // Arrival MJD (TDB)
   tof: number; // Time of flight (days)
   vinf: number; // Launch V-infinity (km/s)
   c3: number; // Launch energy (km²/s²)
@@ -36,6 +38,8 @@ interface Mission {
   // Enriched properties
   launchDate?: string;
   arrivalDate?: string;
+  launchTime?: string; // UTC (ISO 8601)
+  arrivalTime?: string; // UTC (ISO 8601)
   durationDays?: number;
   durationYears?: string;
   launchVelocity?: number;
@@ -117,7 +121,7 @@ export async function GET(request: NextRequest) {
     const missionUrl = `https://ssd-api.jpl.nasa.gov/mdesign.api?${queryParams.toString()}`;
 
     const fetchMissionData = async (): Promise<MissionDesignResponse> => {
-      const response = await fetch(missionUrl, {
+      const response = await upstreamFetch(missionUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
@@ -172,13 +176,15 @@ export async function GET(request: NextRequest) {
         approach: 0, // Not provided in accessible mode
         launchDate: record[fieldIndices['date0']] as string,
         arrivalDate: record[fieldIndices['datef']] as string,
+        launchTime: toUtcTime(record[fieldIndices['MJD0']] as number),
+        arrivalTime: toUtcTime(record[fieldIndices['MJDF']] as number),
         durationDays: record[fieldIndices['tof']] as number,
         durationYears: ((record[fieldIndices['tof']] as number) / 365.25).toFixed(2),
         launchVelocity: record[fieldIndices['vinf_dep']] as number,
         launchEnergy: record[fieldIndices['c3_dep']] as number,
         totalDeltaV: record[fieldIndices['dv_tot']] as number,
         missionComplexity: getMissionComplexity(record[fieldIndices['dv_tot']] as number, record[fieldIndices['tof']] as number),
-        launchWindow: getSeasonFromDate(record[fieldIndices['date0']] as string),
+        launchWindow: getSeasonFromMJD(record[fieldIndices['MJD0']] as number),
       }));
     }
 
@@ -187,13 +193,15 @@ export async function GET(request: NextRequest) {
       ...mission,
       launchDate: mission.cd,
       arrivalDate: mission.ca,
+      launchTime: toUtcTime(mission.mjd0),
+      arrivalTime: toUtcTime(mission.mjdf),
       durationDays: mission.tof,
       durationYears: (mission.tof / 365.25).toFixed(2),
       launchVelocity: mission.vinf,
       launchEnergy: mission.c3,
       totalDeltaV: mission.dv,
       missionComplexity: getMissionComplexity(mission.dv, mission.tof),
-      launchWindow: getSeasonFromDate(mission.cd),
+      launchWindow: getSeasonFromMJD(mission.mjd0),
     }));
 
     // Use parsed missions from accessible mode, or enriched missions from mode Q
@@ -255,11 +263,18 @@ function getMissionComplexity(deltaV: number, durationDays: number): string {
 }
 
 /**
- * Get season from date string
+ * UTC time (ISO 8601) of a Mission Design MJD, which is in TDB (sent as a number or string)
  */
-function getSeasonFromDate(dateString: string): string {
-  const date = new Date(dateString);
-  const month = date.getMonth() + 1;
+function toUtcTime(mjd: number | string): string | undefined {
+  const value = Number(mjd);
+  return Number.isFinite(value) ? fromModifiedJulianDate(value, 'TDB').toISOString() : undefined;
+}
+
+/**
+ * Get season from a launch MJD (TDB)
+ */
+function getSeasonFromMJD(mjd: number | string): string {
+  const month = fromModifiedJulianDate(Number(mjd), 'TDB').getUTCMonth() + 1;
 
   if (month >= 3 && month <= 5) return 'Spring';
   if (month >= 6 && month <= 8) return 'Summer';
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getApiKey } from '@/lib/api/config';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface CloseApproachData {
   close_approach_date: string;
@@ -84,7 +85,7 @@ export async function GET(request: NextRequest) {
     const url = `${baseUrl}?${params.toString()}`;
 
     const fetchNeoWsData = async (): Promise<NeoWsResponse> => {
-      const response = await fetch(url, {
+      const response = await upstreamFetch(url, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 // Note: NHATS API returns nested structures, using 'any' for flexibility
 interface NHATSResponse {
@@ -29,7 +30,7 @@ export async function GET(_request: NextRequest) {
     const nhatsUrl = 'https://ssd-api.jpl.nasa.gov/nhats.api';
 
     const fetchNHATSData = async () => {
-      const response = await fetch(nhatsUrl, {
+      const response = await upstreamFetch(nhatsUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
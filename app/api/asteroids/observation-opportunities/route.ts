@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
+import { propagate, type KeplerianElements } from '@/lib/utils/kepler';
+import { heliocentricDistance } from '@/lib/utils/planetary-ephemeris';
+import { fromJulianDate } from '@/lib/utils/time-scales';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface CADResponse {
   signature: {
@@ -18,6 +22,12 @@ interface SBDBResponse {
     fullname?: string;
     des?: string;
   };
+  orbit?: {
+    elements: Array<{
+      name: string;
+      value: string;
+    }>;
+  };
   phys_par?: Array<{
     name: string;
     value: string;
@@ -36,6 +46,24 @@ interface ObservationWindow {
   observabilityRating: number;
 }
 
+/**
+ * Heliocentric ecliptic elements from the SBDB orbit, or null when any is missing
+ */
+function toKeplerianElements(orbit: SBDBResponse['orbit']): KeplerianElements | null {
+  const value = (name: string) =>
+    parseFloat(orbit?.elements.find((element) => element.name === name)?.value ?? '');
+
+  const elements = {
+    q: value('q'),
+    e: value('e'),
+    i: value('i'),
+    Omega: value('om'),
+    omega: value('w'),
+    tp: value('tp'), // Julian Date (TDB)
+  };
+  return Object.values(elements).some(isNaN) ? null : elements;
+}
+
 /**
  * GET /api/asteroids/observation-opportunities
  * Calculates observation opportunities based on close approaches and magnitude
@@ -67,8 +95,8 @@ export async function GET(request: NextRequest) {
 
     const fetchData = async () => {
       const [cadResponse, sbdbResponse] = await Promise.all([
-        fetch(cadUrl, { headers: { 'User-Agent': 'DeepSix-Asteroid-Tracker' } }),
-        fetch(sbdbUrl, { headers: { 'User-Agent': 'DeepSix-Asteroid-Tracker' } }),
+        upstreamFetch(cadUrl, { headers: { 'User-Agent': 'DeepSix-Asteroid-Tracker' } }),
+        upstreamFetch(sbdbUrl, { headers: { 'User-Agent': 'DeepSix-Asteroid-Tracker' } }),
       ]);
 
       if (!cadResponse.ok) {
@@ -109,6 +137,7 @@ export async function GET(request: NextRequest) {
     });
 
     const windows: ObservationWindow[] = [];
+    const elements = toKeplerianElements(sbdbData.orbit);
 
     for (const record of cadData.data) {
       const dateStr = record[fieldIndices['cd']] as string;
@@ -119,8 +148,12 @@ export async function GET(request: NextRequest) {
       // m = H + 5*log10(delta*r) - 2.5*log10(phi(alpha))
       // Simplified: assuming phase angle ~0 for close approaches, phi ≈ 1
       // m ≈ H + 5*log10(delta*r)
-      // Where delta = distance to Earth, r = distance to Sun (assume ~1 AU for NEOs)
-      const r = 1.0; // Approximate distance to Sun in AU
+      // Where delta = distance to Earth, r = distance to Sun at the approach: from the
+      // orbit when SBDB has one, otherwise Earth's own (the object is close to Earth)
+      const jd = parseFloat(record[fieldIndices['jd']] as string);
+      const r = elements
+        ? Math.hypot(...propagate(elements, jd).position)
+        : heliocentricDistance('earth', fromJulianDate(jd, 'TDB'));
       const apparentMagnitude = hRecord + 5 * Math.log10(distAU * r);
 
       // Determine visibility category and equipment
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface RadarResponse {
   signature: {
@@ -85,7 +86,7 @@ export async function GET(request: NextRequest) {
     const radarUrl = `https://ssd-api.jpl.nasa.gov/sb_radar.api${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
 
     const fetchRadarData = async (): Promise<RadarResponse> => {
-      const response = await fetch(radarUrl, {
+      const response = await upstreamFetch(radarUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
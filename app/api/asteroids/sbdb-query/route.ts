@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface SBDBQueryResponse {
   signature: {
@@ -83,7 +84,7 @@ export async function GET(request: NextRequest) {
     const sbdbQueryUrl = `https://ssd-api.jpl.nasa.gov/sbdb_query.api?${queryParams.toString()}`;
 
     const fetchSBDBQueryData = async (): Promise<SBDBQueryResponse> => {
-      const response = await fetch(sbdbQueryUrl, {
+      const response = await upstreamFetch(sbdbQueryUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
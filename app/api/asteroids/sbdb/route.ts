@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface SBDBResponse {
   signature: {
@@ -78,7 +79,7 @@ export async function GET(request: NextRequest) {
     const sbdbUrl = `https://ssd-api.jpl.nasa.gov/sbdb.api?sstr=${encodeURIComponent(sstr)}&phys-par=true&full-prec=false`;
 
     const fetchSBDBData = async (): Promise<SBDBResponse> => {
-      const response = await fetch(sbdbUrl, {
+      const response = await upstreamFetch(sbdbUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface ScoutResponse {
   signature: {
@@ -52,7 +53,7 @@ export async function GET(request: NextRequest) {
     }
 
     const fetchScoutData = async (): Promise<ScoutResponse> => {
-      const response = await fetch(scoutUrl, {
+      const response = await upstreamFetch(scoutUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
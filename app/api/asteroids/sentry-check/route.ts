@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface SentryResponse {
   signature: {
@@ -64,7 +65,7 @@ export async function GET(request: NextRequest) {
     const sentryUrl = `https://ssd-api.jpl.nasa.gov/sentry.api?des=${encodeURIComponent(des)}`;
 
     const fetchSentryData = async (): Promise<SentryResponse> => {
-      const response = await fetch(sentryUrl, {
+      const response = await upstreamFetch(sentryUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 interface SentryObject {
   des: string;
@@ -36,7 +37,7 @@ export async function GET() {
     const sentryUrl = 'https://ssd-api.jpl.nasa.gov/sentry.api';
 
     const fetchSentryData = async (): Promise<SentryResponse> => {
-      const response = await fetch(sentryUrl, {
+      const response = await upstreamFetch(sentryUrl, {
         headers: {
           'User-Agent': 'DeepSix-Asteroid-Tracker',
         },
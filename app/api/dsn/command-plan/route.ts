@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ephemerisCache } from '@/lib/services/ephemeris-cache';
+import { handleApiError, invalidParameter, parseTime, withTimeout } from '@/lib/api/error-handler';
+import { DEFAULT_ELEVATION_MASK } from '@/lib/utils/dsn-visibility';
+import {
+  COMMAND_SEARCH_HOURS,
+  planCommandRoundTrip,
+  planningSpanMs,
+} from '@/lib/utils/command-planner';
+import { isSpacecraftId, SPACECRAFT_ID_LIST } from '@/lib/types/horizons';
+
+const C_KM_S = 299792.458;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_TURNAROUND_MINUTES = 24 * 60;
+
+/**
+ * GET /api/dsn/command-plan
+ * Plans a command round trip: the first DSN uplink opportunity at or after the
+ * desired time, arrival at the spacecraft, and the earliest reception of the
+ * reply at each complex
+ *
+ * Query Parameters:
+ * - spacecraft: Spacecraft ID (required, e.g. voyager-1)
+ * - time: Desired command time, ISO 8601 or epoch ms (default: now)
+ * - turnaround: Onboard minutes between command arrival and reply (default: 0)
+ * - mask: Elevation mask in degrees (default: 10, range: 0-45)
+ *
+ * Light time on each leg is solved from geocentric Horizons state vectors.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const spacecraft = searchParams.get('spacecraft')?.toLowerCase().trim();
+    if (!spacecraft || !isSpacecraftId(spacecraft)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message: 'The "spacecraft" parameter must be one of the Horizons-tracked spacecraft',
+          availableSpacecraft: SPACECRAFT_ID_LIST,
+        },
+        { status: 400 }
+      );
+    }
+
+    const time = parseTime(searchParams.get('time'));
+    if (time === null) {
+      return invalidParameter('"time" must be an ISO 8601 date or epoch milliseconds');
+    }
+
+    const turnaround = parseFloat(searchParams.get('turnaround') || '0');
+    if (isNaN(turnaround) || turnaround < 0 || turnaround > MAX_TURNAROUND_MINUTES) {
+      return invalidParameter(
+        `"turnaround" must be between 0 and ${MAX_TURNAROUND_MINUTES} minutes`
+      );
+    }
+
+    const maskParam = parseFloat(searchParams.get('mask') || String(DEFAULT_ELEVATION_MASK));
+    const elevationMask = isNaN(maskParam)
+      ? DEFAULT_ELEVATION_MASK
+      : Math.min(Math.max(maskParam, 0), 45);
+
+    const requestedTime = new Date(time ?? Date.now());
+    const turnaroundMs = turnaround * 60000;
+
+    // Light time at the requested time sizes the table the plan needs
+    const state = await withTimeout(ephemerisCache.getState(spacecraft, requestedTime), 10000);
+    const lightTimeMs = (Math.hypot(state.x, state.y, state.z) / C_KM_S) * 1000;
+
+    const start = new Date(requestedTime.getTime() - HOUR_MS);
+    const stop = new Date(requestedTime.getTime() + planningSpanMs(lightTimeMs, turnaroundMs));
+    const { vectors, source } = await withTimeout(
+      ephemerisCache.getVectors(spacecraft, start, stop),
+      10000
+    );
+
+    const plan = planCommandRoundTrip(vectors, requestedTime, { elevationMask, turnaroundMs });
+
+    return NextResponse.json({
+      success: true,
+      spacecraft,
+      requestedTime: requestedTime.toISOString(),
+      turnaroundMinutes: turnaround,
+      elevationMask,
+      plan,
+      ...(!plan && {
+        message: `No DSN complex can reach ${spacecraft} within ${COMMAND_SEARCH_HOURS} hours`,
+      }),
+      source,
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'DSN Command Plan API');
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSpacecraftId, SPACECRAFT_ID_LIST, type SpacecraftId } from '@/lib/types/horizons';
+import { handleApiError, invalidParameter, withTimeout } from '@/lib/api/error-handler';
+import { conjunctionForecaster } from '@/lib/services/conjunction-forecast';
+import { DEFAULT_CONJUNCTION_THRESHOLDS } from '@/lib/utils/solar-conjunction';
+
+const MAX_DAYS = 365;
+const MAX_THRESHOLDS = 4;
+const MAX_THRESHOLD_DEGREES = 30;
+
+/**
+ * GET /api/dsn/conjunctions
+ * Forecasts solar conjunctions: periods when the Sun-Earth-Probe angle drops below
+ * a threshold and DSN links degrade (or stop) as the signal passes the Sun
+ *
+ * Query Parameters:
+ * - spacecraft: Spacecraft ID (default: every Horizons-tracked spacecraft)
+ * - thresholds: Comma-separated SEP thresholds in degrees (default: 2,5; up to 4 values)
+ * - days: Forecast window in days (default: 365, range: 7-365)
+ *
+ * Angles come from geocentric and heliocentric Horizons state vectors at a 12-hour step.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const spacecraft = searchParams.get('spacecraft')?.toLowerCase().trim();
+    let spacecraftIds: SpacecraftId[] | undefined;
+    if (spacecraft) {
+      if (!isSpacecraftId(spacecraft)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid Parameter',
+            message: 'The "spacecraft" parameter must be one of the Horizons-tracked spacecraft',
+            availableSpacecraft: SPACECRAFT_ID_LIST,
+          },
+          { status: 400 }
+        );
+      }
+      spacecraftIds = [spacecraft];
+    }
+
+    const thresholdsParam = searchParams.get('thresholds');
+    const thresholds = thresholdsParam
+      ? [...new Set(thresholdsParam.split(',').map((value) => parseFloat(value)))]
+      : DEFAULT_CONJUNCTION_THRESHOLDS;
+    if (
+      thresholds.length > MAX_THRESHOLDS ||
+      thresholds.some((t) => isNaN(t) || t <= 0 || t > MAX_THRESHOLD_DEGREES)
+    ) {
+      return invalidParameter(
+        `"thresholds" must be up to ${MAX_THRESHOLDS} angles between 0 and ${MAX_THRESHOLD_DEGREES} degrees`
+      );
+    }
+
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get('days') || '') || MAX_DAYS, 7),
+      MAX_DAYS
+    );
+
+    const forecasts = await withTimeout(
+      conjunctionForecaster.getForecasts(spacecraftIds, {
+        days,
+        thresholds,
+      }),
+      20000
+    );
+
+    // A single spacecraft that could not be forecast is an error, not an empty list
+    if (spacecraft && 'error' in forecasts[0]) {
+      throw new Error(forecasts[0].error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      days,
+      thresholds: [...thresholds].sort((a, b) => a - b),
+      forecasts,
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'DSN Conjunctions API');
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ephemerisCache } from '@/lib/services/ephemeris-cache';
+import { handleApiError, retryWithBackoff, withTimeout } from '@/lib/api/error-handler';
+import { fetchDSNSnapshot } from '@/lib/api/dsn-xml';
+import { analyzeDoppler, type DopplerResidual } from '@/lib/utils/doppler';
+import { findSpacecraftById, resolveDSNTarget } from '@/lib/utils/spacecraft-registry';
+import { isSpacecraftId, SPACECRAFT_ID_LIST } from '@/lib/types/horizons';
+import type { DSNTarget } from '@/lib/api/dsn';
+
+// Use Node.js runtime for XML parsing
+export const runtime = 'nodejs';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * GET /api/dsn/doppler
+ * Compares the downlink frequencies in the live DSN feed with the coherent
+ * Doppler predicted from Horizons state vectors
+ *
+ * Query Parameters:
+ * - spacecraft: Spacecraft ID (required, e.g. voyager-1)
+ *
+ * Links are two-way when the receiving dish also transmits, three-way when another
+ * dish does, and one-way (no prediction) otherwise.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const spacecraft = searchParams.get('spacecraft')?.toLowerCase().trim();
+    const entry = spacecraft ? findSpacecraftById(spacecraft) : undefined;
+    if (!spacecraft || !entry || !isSpacecraftId(spacecraft)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message: 'The "spacecraft" parameter must be one of the Horizons-tracked spacecraft',
+          availableSpacecraft: SPACECRAFT_ID_LIST,
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = await retryWithBackoff(() => fetchDSNSnapshot());
+    const matches = (target: DSNTarget) => resolveDSNTarget(target)?.id === entry.id;
+
+    const targets = data.stations.flatMap((s) =>
+      s.dishes.flatMap((d) => d.targets.filter(matches))
+    );
+
+    let residuals: DopplerResidual[] = [];
+    if (targets.length > 0) {
+      // Cover the upleg transmit time, one round-trip light time before reception
+      const rtltMs = Math.max(...targets.map((t) => (t.rtlt || 0) * 1000));
+      const start = new Date(data.timestamp - rtltMs - HOUR_MS);
+      const stop = new Date(data.timestamp + HOUR_MS);
+
+      const { vectors } = await withTimeout(
+        ephemerisCache.getVectors(spacecraft, start, stop),
+        10000
+      );
+
+      residuals = analyzeDoppler(data, vectors, matches);
+    }
+
+    return NextResponse.json({
+      success: true,
+      spacecraft,
+      tracked: targets.length > 0,
+      residuals,
+      snapshotTime: new Date(data.timestamp).toISOString(),
+      dataSource: 'NASA Deep Space Network, JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'DSN Doppler API');
+  }
+}
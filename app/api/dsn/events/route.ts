@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, invalidParameter, parseTime } from '@/lib/api/error-handler';
+import { dsnHistory } from '@/lib/services/dsn-history';
+import {
+  detectDSNEventsInSeries,
+  DSN_EVENT_LABELS,
+  type DSNEventType,
+} from '@/lib/utils/dsn-events';
+
+// Use Node.js runtime for filesystem access
+export const runtime = 'nodejs';
+
+const DEFAULT_WINDOW_MS = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_LIMIT = 1000;
+
+/**
+ * GET /api/dsn/events
+ * Contact events detected by diffing consecutive recorded DSN snapshots (newest first)
+ *
+ * Query Parameters:
+ * - since / from: Range start, ISO 8601 or epoch ms (default: 6 hours before "to")
+ * - to: Range end, ISO 8601 or epoch ms (default: now)
+ * - spacecraft: Spacecraft code (e.g. VGR2)
+ * - complex: Complex code (gdscc, mdscc, cdscc)
+ * - type: Comma-separated event types (acquisition-of-signal, loss-of-signal,
+ *   data-rate-change, band-change, array-formed, array-dissolved)
+ * - limit: Maximum events returned (default: 200, max: 1000)
+ *
+ * Dashboards can poll with "since" set to the newest event timestamp they have seen:
+ * the snapshot at "since" is only used as the baseline, so no event is returned twice.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const from = parseTime(searchParams.get('since') || searchParams.get('from'));
+    const to = parseTime(searchParams.get('to'));
+    if (from === null || to === null) {
+      return invalidParameter('Time parameters must be ISO 8601 dates or epoch milliseconds');
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      return invalidParameter('The "since" parameter must be before "to"');
+    }
+
+    const types = searchParams
+      .get('type')
+      ?.split(',')
+      .map((t) => t.trim())
+      .filter(Boolean);
+    const invalidType = types?.find((t) => !(t in DSN_EVENT_LABELS));
+    if (invalidType) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message: `Unknown event type "${invalidType}"`,
+          availableTypes: Object.keys(DSN_EVENT_LABELS),
+        },
+        { status: 400 }
+      );
+    }
+
+    const end = to ?? Date.now();
+    const start = from ?? end - DEFAULT_WINDOW_MS;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '200') || 200, MAX_LIMIT);
+    const spacecraft = searchParams.get('spacecraft')?.toUpperCase();
+    const complex = searchParams.get('complex')?.toLowerCase();
+
+    const snapshots = await dsnHistory.getSnapshots(start, end);
+    const events = detectDSNEventsInSeries(snapshots)
+      .filter((event) => !types || types.includes(event.type as DSNEventType))
+      .filter(
+        (event) => !spacecraft || event.spacecraft?.toUpperCase().split(', ').includes(spacecraft)
+      )
+      .filter((event) => !complex || event.station.toLowerCase() === complex)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+
+    return NextResponse.json({
+      success: true,
+      count: events.length,
+      snapshotsAnalyzed: snapshots.length,
+      events,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'DSN Events API');
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, invalidParameter, parseTime } from '@/lib/api/error-handler';
+import { dsnHistory } from '@/lib/services/dsn-history';
+
+// Use Node.js runtime for filesystem access
+export const runtime = 'nodejs';
+
+const MAX_LIMIT = 5000;
+
+/**
+ * GET /api/dsn/history
+ * Queries recorded DSN snapshots as dish/target contact records (newest first)
+ *
+ * Query Parameters:
+ * - spacecraft: Spacecraft code or target name (e.g. VGR2)
+ * - complex: Complex code or name (gdscc, mdscc, cdscc, Goldstone, Madrid, Canberra)
+ * - dish: Dish name (e.g. DSS43)
+ * - from: Range start, ISO 8601 or epoch ms (default: 24 hours before "to")
+ * - to: Range end, ISO 8601 or epoch ms (default: now)
+ * - limit: Maximum records returned (default: 500, max: 5000)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const from = parseTime(searchParams.get('from'));
+    const to = parseTime(searchParams.get('to'));
+    if (from === null || to === null) {
+      return invalidParameter(
+        'The "from" and "to" parameters must be ISO 8601 dates or epoch milliseconds'
+      );
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      return invalidParameter('The "from" parameter must be before "to"');
+    }
+
+    const limit = Math.min(parseInt(searchParams.get('limit') || '500') || 500, MAX_LIMIT);
+
+    const records = await dsnHistory.query({
+      spacecraft: searchParams.get('spacecraft') || undefined,
+      complex: searchParams.get('complex') || undefined,
+      dish: searchParams.get('dish') || undefined,
+      from,
+      to,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      count: records.length,
+      records,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'DSN History API');
+  }
+}
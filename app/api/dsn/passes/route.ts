@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ephemerisCache } from '@/lib/services/ephemeris-cache';
+import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import {
+  DSN_COMPLEXES,
+  DEFAULT_ELEVATION_MASK,
+  predictPasses,
+  vectorToRaDec,
+} from '@/lib/utils/dsn-visibility';
+import { isSpacecraftId, SPACECRAFT_ID_LIST } from '@/lib/types/horizons';
+
+const MAX_DAYS = 14;
+
+/**
+ * GET /api/dsn/passes
+ * Predicts when each DSN complex can see a spacecraft
+ *
+ * Query Parameters:
+ * - spacecraft: Spacecraft ID (required, e.g. voyager-1)
+ * - days: Prediction window in days (default: 3, max: 14)
+ * - mask: Elevation mask in degrees (default: 10, range: 0-45)
+ *
+ * RA/Dec comes from geocentric Horizons state vectors in the ICRF equatorial frame,
+ * served from the ephemeris cache.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const spacecraft = searchParams.get('spacecraft')?.toLowerCase().trim();
+    if (!spacecraft || !isSpacecraftId(spacecraft)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message: 'The "spacecraft" parameter must be one of the Horizons-tracked spacecraft',
+          availableSpacecraft: SPACECRAFT_ID_LIST,
+        },
+        { status: 400 }
+      );
+    }
+
+    const days = Math.min(Math.max(parseFloat(searchParams.get('days') || '3') || 3, 1), MAX_DAYS);
+    const maskParam = parseFloat(searchParams.get('mask') || String(DEFAULT_ELEVATION_MASK));
+    const elevationMask = isNaN(maskParam)
+      ? DEFAULT_ELEVATION_MASK
+      : Math.min(Math.max(maskParam, 0), 45);
+
+    const start = new Date();
+    start.setUTCMinutes(0, 0, 0);
+    const stop = new Date(start.getTime() + days * 86400000);
+
+    const { vectors, source } = await withTimeout(
+      ephemerisCache.getVectors(spacecraft, start, stop),
+      10000
+    );
+
+    const track = vectors
+      .filter((v) => v.time >= start && v.time <= stop)
+      .map((v) => ({ time: v.time, ...vectorToRaDec(v.x, v.y, v.z) }));
+
+    const passes = Object.values(DSN_COMPLEXES).map((complex) => ({
+      complex: complex.code,
+      name: complex.name,
+      passes: predictPasses(track, complex, { elevationMask }),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      spacecraft,
+      start: start.toISOString(),
+      stop: stop.toISOString(),
+      elevationMask,
+      complexes: passes,
+      source,
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'DSN Passes API');
+  }
+}
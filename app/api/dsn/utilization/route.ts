@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, invalidParameter, parseTime } from '@/lib/api/error-handler';
+import { dsnHistory } from '@/lib/services/dsn-history';
+import { aggregateUtilization, utilizationToCSV } from '@/lib/utils/dsn-utilization';
+
+// Use Node.js runtime for filesystem access
+export const runtime = 'nodejs';
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * GET /api/dsn/utilization
+ * Per-complex and per-dish antenna utilization aggregated from recorded DSN snapshots
+ *
+ * Query Parameters:
+ * - from: Range start, ISO 8601 or epoch ms (default: 24 hours before "to")
+ * - to: Range end, ISO 8601 or epoch ms (default: now)
+ * - complex: Complex code (gdscc, mdscc, cdscc)
+ * - format: json (default) or csv (served as a file download)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const from = parseTime(searchParams.get('from'));
+    const to = parseTime(searchParams.get('to'));
+    if (from === null || to === null) {
+      return invalidParameter('Time parameters must be ISO 8601 dates or epoch milliseconds');
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      return invalidParameter('The "from" parameter must be before "to"');
+    }
+
+    const format = searchParams.get('format') || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return invalidParameter('format must be "json" or "csv"');
+    }
+
+    const end = to ?? Date.now();
+    const start = from ?? end - DEFAULT_WINDOW_MS;
+    const complex = searchParams.get('complex')?.toLowerCase();
+
+    const snapshots = await dsnHistory.getSnapshots(start, end);
+    const stats = aggregateUtilization(snapshots, start, end);
+    if (complex) {
+      stats.complexes = stats.complexes.filter((c) => c.station === complex);
+      stats.dishes = stats.dishes.filter((d) => d.station === complex);
+    }
+
+    if (format === 'csv') {
+      const date = new Date(end).toISOString().slice(0, 10);
+      return new NextResponse(utilizationToCSV(stats), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="dsn-utilization-${date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...stats,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'DSN Utilization API');
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getObserverTable, SPACECRAFT_IDS } from '@/lib/api/horizons-client';
+import { handleApiError, invalidParameter, parseTime, withTimeout } from '@/lib/api/error-handler';
+import { countSamples, formatStep, parseStep } from '@/lib/services/trajectory-cache';
+import { HorizonsResultError, isSpacecraftId, type ObserverSite } from '@/lib/types/horizons';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SAMPLES = 1000;
+
+// Horizons COMMAND values we pass through: designations, numbers, names and DES= forms
+const COMMAND_PATTERN = /^[A-Za-z0-9 /;=.'()-]{1,40}$/;
+
+// Horizons START_TIME/STOP_TIME format (UTC, minute precision)
+function formatHorizonsUtc(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
+
+/**
+ * GET /api/ephemeris/observer
+ * Where to point a telescope: RA/Dec, altitude/azimuth, magnitude, solar elongation
+ * and phase angle of any Horizons target from JPL Horizons OBSERVER tables
+ *
+ * Query Parameters:
+ * - target: Spacecraft ID (e.g. voyager-1) or a Horizons designation such as
+ *           "C/2025 N1" (3I/ATLAS), "433;" (Eros) or "499" (Mars)
+ * - lat, lon: Observer geodetic latitude and east longitude in degrees (default: geocenter)
+ * - elevation: Observer height above the ellipsoid in meters (default: 0)
+ * - start: Table start, ISO 8601 or epoch ms (default: now)
+ * - stop: Table end, ISO 8601 or epoch ms (default: 24 hours after "start")
+ * - step: Row spacing such as 10m, 1h or 1d (default: 1h)
+ *
+ * Altitude/azimuth and sky conditions need a site; they are null for the geocenter.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const targetParam = searchParams.get('target')?.trim();
+    if (!targetParam) {
+      return invalidParameter('"target" is required');
+    }
+
+    const spacecraftId = targetParam.toLowerCase();
+    const command = isSpacecraftId(spacecraftId) ? SPACECRAFT_IDS[spacecraftId] : targetParam;
+    if (!COMMAND_PATTERN.test(command)) {
+      return invalidParameter('"target" must be a spacecraft ID or a Horizons designation');
+    }
+
+    const latParam = searchParams.get('lat');
+    const lonParam = searchParams.get('lon');
+    let site: ObserverSite | null = null;
+
+    if (latParam !== null || lonParam !== null) {
+      const latitude = parseFloat(latParam ?? '');
+      const longitude = parseFloat(lonParam ?? '');
+      const elevation = parseFloat(searchParams.get('elevation') || '0');
+
+      if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+        return invalidParameter('"lat" must be between -90 and 90 degrees');
+      }
+      if (isNaN(longitude) || longitude < -180 || longitude > 360) {
+        return invalidParameter('"lon" must be between -180 and 360 degrees');
+      }
+      if (isNaN(elevation) || elevation < -500 || elevation > 10000) {
+        return invalidParameter('"elevation" must be between -500 and 10000 meters');
+      }
+
+      site = { latitude, longitude, elevationKm: elevation / 1000 };
+    }
+
+    const startTime = parseTime(searchParams.get('start'));
+    const stopTime = parseTime(searchParams.get('stop'));
+    if (startTime === null || stopTime === null) {
+      return invalidParameter('"start" and "stop" must be ISO 8601 dates or epoch milliseconds');
+    }
+
+    const start = new Date(startTime ?? Date.now());
+    const stop = new Date(stopTime ?? start.getTime() + DAY_MS);
+    if (start >= stop) {
+      return invalidParameter('"start" must be before "stop"');
+    }
+
+    const stepMinutes = parseStep(searchParams.get('step') || '1h');
+    if (!stepMinutes) {
+      return invalidParameter('"step" must look like 10m, 1h or 1d');
+    }
+
+    const sampleCount = countSamples(start, stop, stepMinutes);
+    if (sampleCount > MAX_SAMPLES) {
+      return invalidParameter(
+        `The requested span and step give ${sampleCount} rows; the maximum is ${MAX_SAMPLES}. Use a larger step or a shorter span.`
+      );
+    }
+
+    const rows = await withTimeout(
+      getObserverTable(command, site, {
+        startTime: formatHorizonsUtc(start),
+        stopTime: formatHorizonsUtc(stop),
+        stepSize: formatStep(stepMinutes),
+      }),
+      15000
+    );
+
+    return NextResponse.json({
+      success: true,
+      target: targetParam,
+      command,
+      observer: site ?? 'geocenter',
+      step: formatStep(stepMinutes),
+      rows,
+      count: rows.length,
+      units: {
+        angles: 'degrees',
+        range: 'AU',
+        rangeRate: 'km/s',
+      },
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    // Horizons answered but could not resolve the target or build the table
+    if (error instanceof HorizonsResultError && error.code !== 'malformed-result') {
+      const ambiguous = error.code === 'ambiguous-target';
+      return NextResponse.json(
+        {
+          success: false,
+          error: ambiguous ? 'Ambiguous Target' : 'No Ephemeris',
+          code: error.code,
+          message: error.message,
+          ...(ambiguous && { matches: error.matches }),
+        },
+        { status: ambiguous ? 400 : 404 }
+      );
+    }
+    return handleApiError(error, 'Observer Ephemeris API');
+  }
+}
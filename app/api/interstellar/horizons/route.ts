@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { parseElementsResult, parseObserverResult } from '@/lib/api/horizons-parser';
+import {
+  HorizonsResultError,
+  type ObserverRow,
+  type OsculatingElements,
+} from '@/lib/types/horizons';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
-export const runtime = 'edge';
+export const runtime = 'nodejs';
 
 const HORIZONS_API_BASE = 'https://ssd.jpl.nasa.gov/api/horizons.api';
 const AU_TO_KM = 149597870.7;
@@ -146,6 +153,7 @@ export async function GET(request: NextRequest) {
       START_TIME: startTime || now.toISOString().split('T')[0],
       STOP_TIME: stopTime || tomorrow.toISOString().split('T')[0],
       STEP_SIZE: stepSize,
+      CSV_FORMAT: 'YES',
       // No QUANTITIES - let Horizons provide default columns
     });
 
@@ -160,14 +168,16 @@ export async function GET(request: NextRequest) {
       START_TIME: startTime || now.toISOString().split('T')[0],
       STOP_TIME: stopTime || tomorrow.toISOString().split('T')[0],
       STEP_SIZE: stepSize,
+      OUT_UNITS: 'AU-D',
+      CSV_FORMAT: 'YES',
     });
 
     // Fetch both ephemeris types
     const [observerResponse, elementsResponse] = await Promise.all([
-      fetch(`${HORIZONS_API_BASE}?${observerParams.toString()}`, {
+      upstreamFetch(`${HORIZONS_API_BASE}?${observerParams.toString()}`, {
         next: { revalidate: 3600 }, // Cache for 1 hour
       }),
-      fetch(`${HORIZONS_API_BASE}?${elementsParams.toString()}`, {
+      upstreamFetch(`${HORIZONS_API_BASE}?${elementsParams.toString()}`, {
         next: { revalidate: 3600 }, // Cache for 1 hour
       }),
     ]);
@@ -207,17 +217,29 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Parse elements data (orbital parameters)
-    let orbitalElements = null;
+    // Parse elements data (orbital parameters); the sky position does not depend on it
+    let orbitalElements: OsculatingElements | null = null;
     if (elementsResponse.ok) {
       const elementsData = await elementsResponse.json();
       if (elementsData.result) {
-        orbitalElements = parseOrbitalElements(elementsData.result);
+        try {
+          [orbitalElements] = parseElementsResult(elementsData.result);
+        } catch (error) {
+          if (!(error instanceof HorizonsResultError)) throw error;
+        }
       }
     }
 
     // Parse ephemeris data from result text
-    const ephemeris = parseHorizonsResult(observerData.result, orbitalElements);
+    let ephemeris: Partial<InterstellarPosition> | null = null;
+    let ephemerisError: { code: string; message: string } | undefined;
+    try {
+      const [row] = parseObserverResult(observerData.result);
+      ephemeris = toInterstellarPosition(row, orbitalElements);
+    } catch (error) {
+      if (!(error instanceof HorizonsResultError)) throw error;
+      ephemerisError = { code: error.code, message: error.message };
+    }
 
     // Build response
     return NextResponse.json({
@@ -240,6 +262,7 @@ export async function GET(request: NextRequest) {
         lastUpdated: objectInfo.lastUpdated,
       },
       ephemeris: ephemeris || {},
+      ...(ephemerisError && { ephemerisError }),
       rawData: observerData.result, // Include for debugging
       dataSource: 'NASA JPL Horizons System',
       timestamp: new Date().toISOString(),
@@ -259,207 +282,58 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Parse orbital elements from Horizons ELEMENTS ephemeris
+ * Format degrees as space-separated sexagesimal ('HH MM SS.ss' for hours, '+DD MM SS.s')
  */
-function parseOrbitalElements(resultText: string) {
-  try {
-    const soeIndex = resultText.indexOf('$$SOE');
-    const eoeIndex = resultText.indexOf('$$EOE');
-
-    if (soeIndex === -1 || eoeIndex === -1) {
-      console.log('No SOE/EOE markers in ELEMENTS result');
-      return null;
-    }
-
-    const ephemerisBlock = resultText.substring(soeIndex + 5, eoeIndex).trim();
-    const lines = ephemerisBlock.split('\n').filter(line => line.trim());
-
-    if (lines.length === 0) {
-      console.log('No data lines in ELEMENTS result');
-      return null;
-    }
-
-    // Parse first data line (most recent elements)
-    const dataLine = lines[0].trim();
-    console.log('Parsing ELEMENTS line:', dataLine);
-
-    // Horizons ELEMENTS format typically has comma-separated values
-    // Standard format: JDTDB, Calendar Date, EC, QR, IN, OM, W, Tp, N, MA, TA, A, AD, PR
-    const parts = dataLine.includes(',') ? dataLine.split(',').map(p => p.trim()) : dataLine.split(/\s+/);
-
-    // Extract orbital elements (try multiple column positions)
-    let eccentricity = 0;
-    let perihelionDistanceAU = 0;
-    let inclinationDeg = 0;
-    let distanceFromSunAU = 0;
-
-    // Look for eccentricity (typically 3rd column, value > 1 for hyperbolic)
-    for (let i = 2; i < Math.min(parts.length, 8); i++) {
-      const val = parseFloat(parts[i]);
-      if (!isNaN(val) && val > 0.5 && val < 50) {
-        eccentricity = val;
-        break;
-      }
-    }
-
-    // Look for perihelion distance (QR, typically after EC)
-    for (let i = 3; i < Math.min(parts.length, 9); i++) {
-      const val = parseFloat(parts[i]);
-      if (!isNaN(val) && val > 0 && val < 10) {
-        perihelionDistanceAU = val;
-        break;
-      }
-    }
-
-    // Look for inclination (IN, typically after QR, value 0-180 degrees)
-    for (let i = 4; i < Math.min(parts.length, 10); i++) {
-      const val = parseFloat(parts[i]);
-      if (!isNaN(val) && val >= 0 && val <= 180) {
-        inclinationDeg = val;
-        break;
-      }
-    }
-
-    // Try to find current distance from Sun (R, typically later in line)
-    for (let i = 10; i < Math.min(parts.length, 15); i++) {
-      const val = parseFloat(parts[i]);
-      if (!isNaN(val) && val > 0 && val < 100) {
-        distanceFromSunAU = val;
-        break;
-      }
-    }
-
-    return {
-      eccentricity,
-      perihelionDistanceAU,
-      inclinationDeg,
-      distanceFromSunAU,
-    };
-  } catch (error) {
-    console.error('Error parsing orbital elements:', error);
-    return null;
+function formatSexagesimal(degrees: number, hours: boolean): string {
+  if (!isFinite(degrees)) return 'N/A';
+
+  // Round once in seconds so 59.999 carries into the minutes
+  const precision = hours ? 100 : 10;
+  const totalSeconds =
+    Math.round(Math.abs(hours ? degrees / 15 : degrees) * 3600 * precision) / precision;
+  const whole = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const secondsText = seconds.toFixed(hours ? 2 : 1).padStart(hours ? 5 : 4, '0');
+
+  if (hours) {
+    return `${pad(whole)} ${pad(minutes)} ${secondsText}`;
   }
+  return `${degrees < 0 ? '-' : '+'}${pad(whole)} ${pad(minutes)} ${secondsText}`;
 }
 
 /**
- * Parse Horizons ephemeris result text
- * Extracts position, velocity, and visual data
- * Dynamically identifies columns from header line
+ * Build the ephemeris summary from the first OBSERVER row and the osculating elements
  */
-function parseHorizonsResult(
-  resultText: string,
-  orbitalElements: { eccentricity: number; perihelionDistanceAU: number; inclinationDeg: number; distanceFromSunAU: number } | null
-): Partial<InterstellarPosition> | null {
-  try {
-    console.log('=== Starting Horizons OBSERVER parsing ===');
-
-    // Horizons returns data in a specific text format
-    // Look for the ephemeris table ($$SOE to $$EOE markers)
-    const soeIndex = resultText.indexOf('$$SOE');
-    const eoeIndex = resultText.indexOf('$$EOE');
-
-    if (soeIndex === -1 || eoeIndex === -1) {
-      console.error('No $$SOE or $$EOE markers found');
-      return null;
-    }
-
-    // Look for column headers (usually a few lines before $$SOE)
-    const headerSection = resultText.substring(0, soeIndex);
-    const headerLines = headerSection.split('\n');
-
-    // Find the line with column names (usually contains "R.A." or "Date")
-    let columnHeaderLine = '';
-    for (let i = headerLines.length - 1; i >= Math.max(0, headerLines.length - 10); i--) {
-      const line = headerLines[i];
-      if (line.includes('R.A.') || line.includes('DEC') || line.includes('Date')) {
-        columnHeaderLine = line;
-        console.log('Found column header:', line);
-        break;
-      }
-    }
-
-    const ephemerisBlock = resultText.substring(soeIndex + 5, eoeIndex).trim();
-    const lines = ephemerisBlock.split('\n').filter(line => line.trim());
-
-    if (lines.length === 0) {
-      console.error('No data lines found between $$SOE and $$EOE');
-      return null;
-    }
-
-    console.log('Column headers:', columnHeaderLine);
-    console.log('Number of data lines:', lines.length);
-
-    // Parse first data line (most recent position)
-    const dataLine = lines[0].trim();
-    console.log('Data line:', dataLine);
-
-    // Extract timestamp from the beginning of the line (format: YYYY-MMM-DD HH:MM)
-    const dateMatch = dataLine.match(/(\d{4}-\w{3}-\d{2}\s+\d{2}:\d{2})/);
-    const timestamp = dateMatch ? new Date(dateMatch[1]).toISOString() : new Date().toISOString();
-    console.log('Timestamp:', timestamp);
-
-    // Extract RA: format is HH MM SS.SS (with or without spaces)
-    // Could be: "12 34 56.78" or "12:34:56.78" or "12h34m56.78s"
-    const raMatch = dataLine.match(/(\d{1,2}[\s:h]\d{2}[\s:m]\d{2}\.\d+[s]?)/);
-    const ra = raMatch ? raMatch[1].replace(/[hms:]/g, ' ').trim() : 'N/A';
-    console.log('RA:', ra);
-
-    // Extract DEC: format is +/-DD MM SS.S
-    const decMatch = dataLine.match(/([+-]\d{1,2}[\s:d]\d{2}[\s:m]\d{2}\.\d+[s]?)/);
-    const dec = decMatch ? decMatch[1].replace(/[dms:]/g, ' ').trim() : 'N/A';
-    console.log('DEC:', dec);
-
-    // Extract all decimal numbers from the line for distance/magnitude extraction
-    const numbers = dataLine.match(/\b\d+\.\d+\b/g)?.map(n => parseFloat(n)) || [];
-    console.log('Found numeric values:', numbers);
-
-    // Identify magnitude (typically between 0-30, often appears early)
-    let magnitude = 99;
-    for (const num of numbers) {
-      if (num >= 0 && num <= 30 && num !== parseFloat(ra.split(' ')[0])) {
-        magnitude = num;
-        console.log('Identified magnitude:', magnitude);
-        break;
-      }
-    }
-
-    // Identify distances (typically > 0.5 AU)
-    const distances = numbers.filter(n => n > 0.5 && n < 100);
-    console.log('Potential distances (AU):', distances);
-
-    // First large value is likely Earth distance, second is likely Sun distance
-    const earthDistance = distances[0] || 0;
-    const sunDistance = distances[1] || distances[0] || 0;
-
-    console.log('Earth distance:', earthDistance, 'AU');
-    console.log('Sun distance:', sunDistance, 'AU');
-
-    return {
-      timestamp,
-      position: {
-        ra: ra,
-        dec: dec,
-        distanceFromSunAU: sunDistance || orbitalElements?.distanceFromSunAU || 0,
-        distanceFromEarthAU: earthDistance,
-        distanceFromEarthKm: earthDistance * AU_TO_KM,
-      },
-      velocity: {
-        totalKmS: 0, // Would need VECTORS ephemeris type for accurate velocity
-        radialVelocityKmS: 0,
-      },
-      orbital: {
-        eccentricity: orbitalElements?.eccentricity || 0,
-        perihelionDistanceAU: orbitalElements?.perihelionDistanceAU || 0,
-        inclinationDeg: orbitalElements?.inclinationDeg || 0,
-      },
-      visual: {
-        magnitude: magnitude,
-        phaseAngleDeg: 0,
-        illuminationPercent: 0,
-      },
-    };
-  } catch (error) {
-    console.error('Error parsing Horizons result:', error);
-    return null;
-  }
+function toInterstellarPosition(
+  row: ObserverRow,
+  orbitalElements: OsculatingElements | null
+): Partial<InterstellarPosition> {
+  const range = isFinite(row.range) ? row.range : 0;
+
+  return {
+    timestamp: row.time.toISOString(),
+    position: {
+      ra: formatSexagesimal(row.ra, true),
+      dec: formatSexagesimal(row.dec, false),
+      distanceFromSunAU: row.heliocentricRange ?? 0,
+      distanceFromEarthAU: range,
+      distanceFromEarthKm: range * AU_TO_KM,
+    },
+    velocity: {
+      totalKmS: 0, // Would need VECTORS ephemeris type for accurate velocity
+      radialVelocityKmS: isFinite(row.rangeRate) ? row.rangeRate : 0,
+    },
+    orbital: {
+      eccentricity: orbitalElements?.eccentricity || 0,
+      perihelionDistanceAU: orbitalElements?.periapsisDistance || 0,
+      inclinationDeg: orbitalElements?.inclination || 0,
+    },
+    visual: {
+      magnitude: row.magnitude ?? 99,
+      phaseAngleDeg: row.phaseAngle ?? 0,
+      illuminationPercent: row.illumination ?? 0,
+    },
+  };
 }
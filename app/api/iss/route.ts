@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
+
+export const runtime = 'nodejs';
+
+const ISS_POSITION_URL = 'https://api.wheretheiss.at/v1/satellites/25544';
+const ASTRONAUTS_URL = 'http://api.open-notify.org/astros.json';
+
+interface Astronaut {
+  name: string;
+  craft: string;
+}
+
+/**
+ * Current ISS crew, or null when Open Notify is unavailable
+ */
+async function fetchISSCrew(): Promise<Astronaut[] | null> {
+  try {
+    const response = await withTimeout(upstreamFetch(ASTRONAUTS_URL), 5000);
+    if (!response.ok) return null;
+
+    const data: { people: Astronaut[] } = await response.json();
+    return data.people.filter((person) => person.craft === 'ISS');
+  } catch (error) {
+    console.error('ISS crew fetch error:', error);
+    return null;
+  }
+}
+
+/**
+ * GET /api/iss
+ * Returns the live ISS position from wheretheiss.at and the crew on board from Open Notify.
+ * Proxied so both calls go through the record/replay layer; `crew` is null when the
+ * crew service fails, since the position is the primary data.
+ */
+export async function GET() {
+  try {
+    const [positionResponse, crew] = await Promise.all([
+      withTimeout(upstreamFetch(ISS_POSITION_URL), 5000),
+      fetchISSCrew(),
+    ]);
+
+    if (!positionResponse.ok) {
+      throw new Error(
+        `wheretheiss.at returned ${positionResponse.status}: ${positionResponse.statusText}`
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      position: await positionResponse.json(),
+      crew,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'ISS API');
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { calculateSol, formatSolDisplay, getSolMilestone } from '@/lib/utils/mars-sol';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 type RoverName = 'perseverance' | 'curiosity' | 'opportunity' | 'spirit';
 
@@ -197,7 +198,7 @@ async function fetchPerseverancePhotos(limit: number = 50): Promise<RoverPhoto[]
     const url = `https://mars.nasa.gov/rss/api/?feed=raw_images&category=mars2020&feedtype=json&num=${limit}`;
     console.log(`Fetching Perseverance photos from official NASA Mars 2020 RSS API`);
 
-    const response = await fetch(url);
+    const response = await upstreamFetch(url);
     if (!response.ok) {
       console.error(`NASA Mars 2020 RSS API error: ${response.status} ${response.statusText}`);
       return [];
@@ -249,7 +250,7 @@ async function fetchCuriosityPhotos(limit: number = 50): Promise<RoverPhoto[]> {
     const url = `https://mars.nasa.gov/api/v1/raw_image_items/?order=sol+desc%2Cinstrument_sort+asc%2Csample_type_sort+asc%2Cdate_taken+desc&per_page=${limit}&page=0&mission=msl`;
     console.log(`Fetching Curiosity photos from official NASA MSL API`);
 
-    const response = await fetch(url);
+    const response = await upstreamFetch(url);
     if (!response.ok) {
       console.error(`NASA MSL API error: ${response.status} ${response.statusText}`);
       return [];
@@ -309,7 +310,7 @@ async function fetchRoverPhotosFromImagesAPI(
     const url = `https://images-api.nasa.gov/search?q=${rover}+rover+mars+raw&media_type=image&year_start=${startYear}`;
     console.log(`Fetching ${roverName} photos from NASA Images API`);
 
-    const response = await fetch(url);
+    const response = await upstreamFetch(url);
     if (!response.ok) {
       console.error(`NASA Images API error: ${response.status} ${response.statusText}`);
       return [];
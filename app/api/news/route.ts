@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { newsCache } from '@/lib/services/news-cache';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 interface NewsItem {
   id: string;
@@ -217,7 +218,7 @@ async function fetchRSSFeed(feed: RSSFeed): Promise<NewsItem[]> {
 
     console.log(`Fetching RSS feed: ${feed.url}`);
 
-    const response = await fetch(feed.url, {
+    const response = await upstreamFetch(feed.url, {
       headers: {
         'User-Agent': 'DeepSix News Aggregator 1.0'
       },
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, invalidParameter, parseTime, withTimeout } from '@/lib/api/error-handler';
+import { solarSystemScene } from '@/lib/services/solar-system-scene';
+import { countSamples, formatStep } from '@/lib/services/trajectory-cache';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TARGET_SAMPLES = 400;
+const MAX_SPAN_YEARS = 100;
+
+// Steps tried in order, finest first (minutes): 6 hours to 60 days
+const STEPS = [360, 720, 1440, 2880, 7200, 14400, 43200, 86400];
+
+/**
+ * GET /api/solar-system
+ * Heliocentric tracks for the 3D solar system view: planets, Horizons-tracked
+ * spacecraft, selected asteroids and the interstellar objects
+ *
+ * Query Parameters:
+ * - start: Window start, ISO 8601 or epoch ms (default: one year ago)
+ * - stop: Window end, ISO 8601 or epoch ms (default: one year ahead)
+ *
+ * Samples are [epoch ms, x, y, z (AU), vx, vy, vz (AU/day)] in the ecliptic J2000
+ * frame. The step is the finest giving up to 400 samples per body (6 hours to 60 days).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const startTime = parseTime(searchParams.get('start'));
+    const stopTime = parseTime(searchParams.get('stop'));
+    if (startTime === null || stopTime === null) {
+      return invalidParameter('"start" and "stop" must be ISO 8601 dates or epoch milliseconds');
+    }
+
+    const now = Date.now();
+    const start = new Date(startTime ?? now - 365 * DAY_MS);
+    const stop = new Date(stopTime ?? now + 365 * DAY_MS);
+    if (start >= stop) {
+      return invalidParameter('"start" must be before "stop"');
+    }
+    if (stop.getTime() - start.getTime() > MAX_SPAN_YEARS * 365.25 * DAY_MS) {
+      return invalidParameter(`The window can span at most ${MAX_SPAN_YEARS} years`);
+    }
+
+    const stepMinutes =
+      STEPS.find((step) => countSamples(start, stop, step) <= TARGET_SAMPLES) ??
+      STEPS[STEPS.length - 1];
+
+    // One Horizons table per body on a cold cache
+    const scene = await withTimeout(solarSystemScene.getScene(start, stop, stepMinutes), 30000);
+
+    return NextResponse.json({
+      success: true,
+      start: scene.start.toISOString(),
+      stop: scene.stop.toISOString(),
+      step: formatStep(scene.stepMinutes),
+      frame: 'ecliptic J2000',
+      units: { position: 'AU', velocity: 'AU/day' },
+      bodies: scene.bodies,
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Solar System API');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSpacecraftId, SPACECRAFT_ID_LIST } from '@/lib/types/horizons';
+import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { orbitEventDetector } from '@/lib/services/orbit-events';
+
+/**
+ * GET /api/spacecraft/[id]/events
+ * Orbit events detected in the Horizons trajectory: perihelia, aphelia and closest
+ * approaches to the bodies listed for the mission in lib/data/missions.json
+ *
+ * The window runs from a year ago to five years ahead, clipped to the spacecraft's
+ * ephemeris. Results are cached for 12 hours.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const spacecraftId = id?.toLowerCase().trim();
+
+    if (!spacecraftId || !isSpacecraftId(spacecraftId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message: 'Orbit events are available for Horizons-tracked spacecraft only',
+          availableSpacecraft: SPACECRAFT_ID_LIST,
+        },
+        { status: 400 }
+      );
+    }
+
+    // First scans fetch a table per body plus fine tables around each flyby
+    const { start, stop, events } = await withTimeout(
+      orbitEventDetector.getEvents(spacecraftId),
+      30000
+    );
+
+    return NextResponse.json({
+      success: true,
+      spacecraftId,
+      start: start.toISOString(),
+      stop: stop.toISOString(),
+      events,
+      count: events.length,
+      units: { distance: 'km', velocity: 'km/s' },
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Spacecraft Events API');
+  }
+}
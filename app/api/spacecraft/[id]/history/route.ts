@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, invalidParameter, parseTime, withTimeout } from '@/lib/api/error-handler';
+import { spacecraftHistory } from '@/lib/services/spacecraft-history';
+import { countSamples, parseStep } from '@/lib/services/trajectory-cache';
+import { isSpacecraftId, SPACECRAFT_ID_LIST } from '@/lib/types/horizons';
+import { historyToCSV } from '@/lib/utils/spacecraft-history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SAMPLES = 2000;
+const DEFAULT_TARGET_SAMPLES = 500;
+const MAX_SPAN_YEARS = 100;
+
+// Steps tried in order when none is given (minutes): 1 hour to 30 days
+const AUTO_STEPS = [60, 120, 360, 720, 1440, 2880, 7200, 14400, 43200];
+
+/**
+ * GET /api/spacecraft/[id]/history
+ * Distance from Earth and Sun, speed and one-way light time over a span, from JPL
+ * Horizons
+ *
+ * Query Parameters:
+ * - start: Series start, ISO 8601 or epoch ms (default: one year before "stop")
+ * - stop: Series end, ISO 8601 or epoch ms (default: now); may be in the future
+ * - step: Sample spacing such as 6h or 1d (default: finest step giving up to 500 samples)
+ * - format: json (default) or csv (served as a file download)
+ *
+ * The span is clipped to the spacecraft's ephemeris coverage; "start" and "stop" in
+ * the response give the span actually returned. At most 2000 samples.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const spacecraftId = id?.toLowerCase().trim();
+
+    if (!spacecraftId || !isSpacecraftId(spacecraftId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message: 'History is available for Horizons-tracked spacecraft only',
+          availableSpacecraft: SPACECRAFT_ID_LIST,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const stopTime = parseTime(searchParams.get('stop'));
+    const startTime = parseTime(searchParams.get('start'));
+    if (stopTime === null || startTime === null) {
+      return invalidParameter('"start" and "stop" must be ISO 8601 dates or epoch milliseconds');
+    }
+
+    const stop = new Date(stopTime ?? Date.now());
+    const start = new Date(startTime ?? stop.getTime() - 365 * DAY_MS);
+    if (start >= stop) {
+      return invalidParameter('"start" must be before "stop"');
+    }
+    if (stop.getTime() - start.getTime() > MAX_SPAN_YEARS * 365.25 * DAY_MS) {
+      return invalidParameter(`The span can be at most ${MAX_SPAN_YEARS} years`);
+    }
+
+    const format = searchParams.get('format') || 'json';
+    if (format !== 'json' && format !== 'csv') {
+      return invalidParameter('"format" must be "json" or "csv"');
+    }
+
+    const stepParam = searchParams.get('step');
+    let stepMinutes: number;
+    if (stepParam) {
+      const parsed = parseStep(stepParam);
+      if (!parsed) {
+        return invalidParameter('"step" must look like 30m, 6h or 1d');
+      }
+      stepMinutes = parsed;
+    } else {
+      stepMinutes =
+        AUTO_STEPS.find((step) => countSamples(start, stop, step) <= DEFAULT_TARGET_SAMPLES) ??
+        AUTO_STEPS[AUTO_STEPS.length - 1];
+    }
+
+    const sampleCount = countSamples(start, stop, stepMinutes);
+    if (sampleCount > MAX_SAMPLES) {
+      return invalidParameter(
+        `The requested span and step give ${sampleCount} samples; the maximum is ${MAX_SAMPLES}. Use a larger step or a shorter span.`
+      );
+    }
+
+    const history = await withTimeout(
+      spacecraftHistory.getHistory(spacecraftId, start, stop, stepMinutes),
+      20000
+    );
+
+    if (format === 'csv') {
+      const span = `${history.start.slice(0, 10)}-to-${history.stop.slice(0, 10)}`;
+      return new NextResponse(historyToCSV(history), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${spacecraftId}-history-${span}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...history,
+      count: history.points.length,
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Spacecraft History API');
+  }
+}
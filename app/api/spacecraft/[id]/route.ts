@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
-  getSpacecraftPosition,
   getSpacecraftPositionEnhanced,
   calculateCommunicationDelay,
 } from '@/lib/api/spacecraft-positions';
 import {
   handleApiError,
-  FALLBACK_DATA,
+  getSpacecraftFallback,
   validateSpacecraftId,
   getAvailableSpacecraftIds,
   withTimeout,
@@ -45,7 +44,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
     const spacecraftId = resolvedParams.id.toLowerCase().trim();
 
-    // Try enhanced version with Horizons API first, wrapped in timeout
+    // Horizons ephemeris cache first (static data as last resort), wrapped in timeout
     const positionData = await withTimeout(
       getSpacecraftPositionEnhanced(spacecraftId),
       10000 // 10 second timeout for Horizons API
@@ -53,14 +52,13 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
     if (!positionData) {
       // Check if we have fallback data for this spacecraft
-      const fallbackData =
-        FALLBACK_DATA.spacecraft[spacecraftId as keyof typeof FALLBACK_DATA.spacecraft];
+      const fallbackData = getSpacecraftFallback(spacecraftId);
       if (fallbackData) {
         return NextResponse.json(
           {
             ...fallbackData,
             distanceFromEarth: fallbackData.distance.km,
-            distanceFromSun: fallbackData.distance.km * 1.05,
+            distanceFromSun: null,
             success: false,
           },
           { status: 503 }
@@ -116,7 +114,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       velocity: positionData.velocity || { kms: 0, kmh: 0 },
       coordinates: positionData.coordinates || { lat: 0, lon: 0 },
       distanceFromEarth: positionData.distance?.km || 0,
-      distanceFromSun: (positionData.distance?.km || 0) * 1.05, // Approximate
+      distanceFromSun: positionData.distanceFromSunKm,
       communicationDelay: {
         oneWay: positionData.distance?.lightTime || 'Unknown',
         roundTrip: calculateSafeRoundTrip(
@@ -131,6 +129,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
           ),
         },
       },
+      source: positionData.source,
       dataSource: positionData.dataSource || 'Unknown',
       _realData: true,
       success: true,
@@ -142,16 +141,13 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     if (error instanceof Error && error.message.includes('timed out')) {
       try {
         const resolvedParams = await params;
-        const fallbackData =
-          FALLBACK_DATA.spacecraft[
-            resolvedParams.id?.toLowerCase() as keyof typeof FALLBACK_DATA.spacecraft
-          ];
+        const fallbackData = getSpacecraftFallback(resolvedParams.id ?? '');
         if (fallbackData) {
           return NextResponse.json(
             {
               ...fallbackData,
               distanceFromEarth: fallbackData.distance.km,
-              distanceFromSun: fallbackData.distance.km * 1.05,
+              distanceFromSun: null,
               error: 'Request Timeout',
               message: 'Request timed out, showing cached data',
               success: false,
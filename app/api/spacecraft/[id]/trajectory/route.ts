@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, invalidParameter, parseTime, withTimeout } from '@/lib/api/error-handler';
+import {
+  countSamples,
+  parseStep,
+  trajectoryCache,
+  TRAJECTORY_CENTERS,
+  TRAJECTORY_FRAMES,
+  type TrajectoryCenter,
+  type TrajectoryFrame,
+} from '@/lib/services/trajectory-cache';
+import { isSpacecraftId, SPACECRAFT_ID_LIST } from '@/lib/types/horizons';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SAMPLES = 2000;
+const DEFAULT_TARGET_SAMPLES = 500;
+
+// Steps tried in order when none is given (minutes)
+const AUTO_STEPS = [10, 30, 60, 120, 360, 720, 1440, 2880, 7200, 14400, 43200];
+
+/**
+ * GET /api/spacecraft/[id]/trajectory
+ * Time series of state vectors from JPL Horizons
+ *
+ * Query Parameters:
+ * - start: Series start, ISO 8601 or epoch ms (default: 30 days before "stop")
+ * - stop: Series end, ISO 8601 or epoch ms (default: now)
+ * - step: Sample spacing such as 30m, 6h or 1d (default: coarsest step giving up to 500 samples)
+ * - center: earth (geocentric, default) or sun (heliocentric)
+ * - frame: ecliptic (default) or equatorial (ICRF)
+ *
+ * Start and stop are aligned to the step, then clipped to the spacecraft's ephemeris
+ * coverage (launch, end of a predicted trajectory). At most 2000 samples are returned.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const spacecraftId = id?.toLowerCase().trim();
+
+    if (!spacecraftId || !isSpacecraftId(spacecraftId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message: 'Trajectories are available for Horizons-tracked spacecraft only',
+          availableSpacecraft: SPACECRAFT_ID_LIST,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const stopTime = parseTime(searchParams.get('stop'));
+    const startTime = parseTime(searchParams.get('start'));
+    if (stopTime === null || startTime === null) {
+      return invalidParameter('"start" and "stop" must be ISO 8601 dates or epoch milliseconds');
+    }
+
+    const stop = new Date(stopTime ?? Date.now());
+    const start = new Date(startTime ?? stop.getTime() - 30 * DAY_MS);
+    if (start >= stop) {
+      return invalidParameter('"start" must be before "stop"');
+    }
+
+    const center = (searchParams.get('center') || 'earth').toLowerCase();
+    if (!(center in TRAJECTORY_CENTERS)) {
+      return invalidParameter(
+        `"center" must be one of: ${Object.keys(TRAJECTORY_CENTERS).join(', ')}`
+      );
+    }
+
+    const frame = (searchParams.get('frame') || 'ecliptic').toLowerCase();
+    if (!(frame in TRAJECTORY_FRAMES)) {
+      return invalidParameter(
+        `"frame" must be one of: ${Object.keys(TRAJECTORY_FRAMES).join(', ')}`
+      );
+    }
+
+    const stepParam = searchParams.get('step');
+    let stepMinutes: number;
+    if (stepParam) {
+      const parsed = parseStep(stepParam);
+      if (!parsed) {
+        return invalidParameter('"step" must look like 30m, 6h or 1d');
+      }
+      stepMinutes = parsed;
+    } else {
+      stepMinutes =
+        AUTO_STEPS.find((step) => countSamples(start, stop, step) <= DEFAULT_TARGET_SAMPLES) ??
+        AUTO_STEPS[AUTO_STEPS.length - 1];
+    }
+
+    const sampleCount = countSamples(start, stop, stepMinutes);
+    if (sampleCount > MAX_SAMPLES) {
+      return invalidParameter(
+        `The requested span and step give ${sampleCount} samples; the maximum is ${MAX_SAMPLES}. Use a larger step or a shorter span.`
+      );
+    }
+
+    const { trajectory, cached } = await withTimeout(
+      trajectoryCache.get({
+        spacecraftId,
+        start,
+        stop,
+        stepMinutes,
+        center: center as TrajectoryCenter,
+        frame: frame as TrajectoryFrame,
+      }),
+      15000
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...trajectory,
+      count: trajectory.samples.length,
+      units: { position: 'km', velocity: 'km/s' },
+      cached,
+      dataSource: 'JPL Horizons API',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Spacecraft Trajectory API');
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleApiError, withTimeout } from '@/lib/api/error-handler';
+import { spacecraftComparison } from '@/lib/services/spacecraft-comparison';
+import { findMissionById, getPositionTrackedIds } from '@/lib/utils/mission-catalog';
+import { MAX_COMPARED, MIN_COMPARED, parseComparisonIds } from '@/lib/utils/spacecraft-comparison';
+
+// Use Node.js runtime for XML parsing and the DSN history files
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/spacecraft/compare
+ * Side-by-side comparison of tracked spacecraft: launch date, mission elapsed time,
+ * distances, speed, light time, last DSN contact and upcoming events
+ *
+ * Query Parameters:
+ * - ids: Two to five spacecraft IDs, comma-separated (e.g. voyager-1,voyager-2)
+ *
+ * Rows come back in the order requested. Sources that fail leave empty cells and a
+ * warning rather than failing the comparison.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const ids = parseComparisonIds(searchParams.get('ids'));
+    const available = getPositionTrackedIds();
+
+    const unknown = ids.filter((id) => !available.includes(id));
+    if (ids.length < MIN_COMPARED || ids.length > MAX_COMPARED || unknown.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid Parameter',
+          message:
+            unknown.length > 0
+              ? `Not tracked: ${unknown.join(', ')}`
+              : `"ids" must list ${MIN_COMPARED} to ${MAX_COMPARED} spacecraft`,
+          availableSpacecraft: available,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Cold orbit-event scans and conjunction forecasts each need Horizons tables
+    const { rows, warnings } = await withTimeout(
+      spacecraftComparison.compare(ids.map((id) => findMissionById(id)!)),
+      25000
+    );
+
+    return NextResponse.json({
+      success: true,
+      spacecraft: rows,
+      warnings,
+      count: rows.length,
+      dataSource: 'JPL Horizons API, NASA Deep Space Network',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleApiError(error, 'Spacecraft Comparison API');
+  }
+}
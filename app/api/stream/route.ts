@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { liveStreamHub } from '@/lib/services/live-stream';
+
+// Long-lived connection with server-side polling timers
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_MS = 15000;
+
+/**
+ * GET /api/stream
+ * Server-Sent Events channel for live DSN and spacecraft data
+ *
+ * Events:
+ * - snapshot: Full state on connect ({ dsn, spacecraft, timestamp })
+ * - dsn: DSN dish-level diff (see DSNDiff in lib/utils/live-diff.ts)
+ * - spacecraft: Spacecraft diff ({ updated, removed, timestamp })
+ *
+ * Hosts that cap function duration close the stream periodically; EventSource
+ * reconnects automatically and receives a fresh snapshot.
+ */
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+      let unsubscribe: (() => void) | null = null;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      cleanup = close;
+
+      request.signal.addEventListener('abort', close);
+
+      // Tell EventSource how long to wait before reconnecting
+      send('retry: 5000\n\n');
+
+      unsubscribe = await liveStreamHub.subscribe((event, data) => {
+        send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      });
+
+      // The client may have gone away while the first snapshot was loading
+      if (closed) {
+        unsubscribe();
+      }
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -1,45 +1,57 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { dsnService, type DSNData } from '@/lib/api/dsn';
+import { useDSN } from '@/hooks/use-dsn';
 import { SignalVisualizer } from '@/components/dsn/SignalVisualizer';
 import { MissionControlDashboard } from '@/components/dsn/MissionControlDashboard';
 import { StationList } from '@/components/dsn/StationList';
+import { PassSchedule } from '@/components/dsn/PassSchedule';
+import { CommandPlanner } from '@/components/dsn/CommandPlanner';
+import { ConjunctionWarnings } from '@/components/dsn/ConjunctionWarnings';
+import { ContactEventFeed } from '@/components/dsn/ContactEventFeed';
+import { UtilizationPanel } from '@/components/dsn/UtilizationPanel';
+import { detectDSNEvents, type DSNEvent } from '@/lib/utils/dsn-events';
 import { formatLocalDateTime } from '@/lib/utils/datetime';
 
 export default function DeepSpaceNetworkPage() {
-  const [dsnData, setDsnData] = useState<DSNData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  // Live updates are pushed over /api/stream, falling back to polling every 10 seconds
+  const { dsnData, isLoading: loading, error: fetchError, lastUpdate, isLive } = useDSN({
+    subscribe: true,
+  });
+  const error = fetchError ? 'Failed to fetch DSN data' : null;
   const [viewMode, setViewMode] = useState<'standard' | 'mission-control'>('standard');
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [events, setEvents] = useState<DSNEvent[]>([]);
+  const previousDataRef = useRef<DSNData | null>(null);
+
+  const addEvents = (newEvents: DSNEvent[]) => {
+    if (newEvents.length === 0) return;
+    setEvents((prev) => {
+      const seen = new Set(prev.map((e) => e.id));
+      return [...newEvents.filter((e) => !seen.has(e.id)), ...prev]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, 200);
+    });
+  };
 
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const data = await dsnService.fetchDSNStatus();
-        setDsnData(data);
-        setLastUpdate(new Date());
-        setError(null);
-      } catch (err) {
-        setError('Failed to fetch DSN data');
-        console.error(err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    // Initial fetch
-    fetchData();
-
-    // Set up polling every 10 seconds
-    const interval = setInterval(fetchData, 10000);
-
-    return () => clearInterval(interval);
+    // Seed the event feed with recently recorded transitions
+    fetch('/api/dsn/events?limit=50')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => result?.events && addEvents(result.events))
+      .catch((err) => console.error('Failed to load DSN events:', err));
   }, []);
 
+  useEffect(() => {
+    if (!dsnData) return;
+    if (previousDataRef.current && previousDataRef.current.timestamp !== dsnData.timestamp) {
+      addEvents(detectDSNEvents(previousDataRef.current, dsnData));
+    }
+    previousDataRef.current = dsnData;
+  }, [dsnData]);
+
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen();
@@ -107,7 +119,8 @@ export default function DeepSpaceNetworkPage() {
               Real-time communication status with spacecraft across the solar system
             </p>
             <p className="text-sm text-gray-500 mt-2">
-              Last updated: {formatLocalDateTime(lastUpdate, { showDate: false })} • Updates every 10 seconds
+              Last updated: {lastUpdate ? formatLocalDateTime(lastUpdate, { showDate: false }) : '—'} •{' '}
+              {isLive ? 'Live stream' : 'Updates every 10 seconds'}
             </p>
           </div>
           
@@ -184,6 +197,10 @@ export default function DeepSpaceNetworkPage() {
                   signalType={target.downSignal ? 'downlink' : 'uplink'}
                   spacecraftName={dsnService.formatSpacecraftName(sc.spacecraft)}
                   isActive={true}
+                  dishName={dish?.name}
+                  band={target.downSignal?.band}
+                  rangeKm={target.downlegRange}
+                  elevation={dish?.elevationAngle}
                 />
               );
             })}
@@ -191,7 +208,60 @@ export default function DeepSpaceNetworkPage() {
         </motion.div>
       )}
 
+      {/* Contact Events */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.35 }}
+        className="mb-8"
+      >
+        <h2 className="text-2xl font-bold mb-4">Link Activity</h2>
+        <ContactEventFeed events={events} />
+      </motion.div>
+
+      {/* Antenna Utilization */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.4 }}
+        className="mb-8"
+      >
+        <h2 className="text-2xl font-bold mb-4">Network Load</h2>
+        <UtilizationPanel />
+      </motion.div>
+
+      {/* Pass Predictions */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.45 }}
+        className="mb-8"
+      >
+        <h2 className="text-2xl font-bold mb-4">Upcoming Passes</h2>
+        <PassSchedule />
+      </motion.div>
 
+      {/* Command Planning */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.5 }}
+        className="mb-8"
+      >
+        <h2 className="text-2xl font-bold mb-4">Command Planning</h2>
+        <CommandPlanner />
+      </motion.div>
+
+      {/* Solar Conjunctions */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.55 }}
+        className="mb-8"
+      >
+        <h2 className="text-2xl font-bold mb-4">Solar Conjunctions</h2>
+        <ConjunctionWarnings />
+      </motion.div>
     </div>
   );
 }
@@ -0,0 +1,38 @@
+import { Metadata } from 'next';
+import { SpacecraftComparison } from '@/components/mission-data/SpacecraftComparison';
+import { parseComparisonIds } from '@/lib/utils/spacecraft-comparison';
+
+export const metadata: Metadata = {
+  title: 'Compare Spacecraft - Distance, Speed and DSN Contact Side by Side | DeepSix',
+  description:
+    'Compare two to five tracked spacecraft side by side: launch date, mission elapsed time, distance from Earth and the Sun, speed, light time, last Deep Space Network contact and upcoming events.',
+};
+
+interface ComparePageProps {
+  searchParams: Promise<{ ids?: string | string[] }>;
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { ids } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-black via-blue-950/10 to-black px-4 md:px-6 lg:px-8 py-12">
+      <div className="w-full max-w-7xl mx-auto">
+        {/* Hero Section */}
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold text-white mb-4">
+            Compare <span className="text-blue-400">Spacecraft</span>
+          </h1>
+          <p className="text-xl text-gray-400 max-w-3xl mx-auto">
+            Put up to five spacecraft side by side. The address bar always holds the current
+            selection, so a comparison can be shared or dropped into a presentation as a link.
+          </p>
+        </div>
+
+        <SpacecraftComparison
+          initialIds={parseComparisonIds(Array.isArray(ids) ? ids.join(',') : ids)}
+        />
+      </div>
+    </main>
+  );
+}
@@ -3,154 +3,19 @@
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { RoverIcon, ProbeIcon, SolarIcon, SatelliteIcon } from '@/components/icons/MissionIcons';
+import { getMissionPages, PHASE_LABELS } from '@/lib/utils/mission-catalog';
 
-const missions = [
-  {
-    id: 'perseverance',
-    name: 'Mars Perseverance',
-    description: 'Exploring Jezero Crater for signs of ancient life',
-    status: 'Active',
-    type: 'Mars Rover',
-    icon: RoverIcon,
-    color: 'from-red-500 to-orange-600',
-  },
-  {
-    id: 'curiosity',
-    name: 'Mars Curiosity',
-    description: 'Analyzing Gale Crater geology and climate',
-    status: 'Active',
-    type: 'Mars Rover',
-    icon: RoverIcon,
-    color: 'from-orange-500 to-red-600',
-  },
-  {
-    id: 'insight',
-    name: 'Mars InSight',
-    description: 'Studied Mars&apos; deep interior and seismic activity',
-    status: 'Ended',
-    type: 'Mars Lander',
-    icon: SatelliteIcon,
-    color: 'from-red-600 to-gray-600',
-    endDate: 'Dec 15, 2022',
-  },
-  {
-    id: 'voyager-1',
-    name: 'Voyager 1',
-    description: 'Humanity&apos;s furthest spacecraft in interstellar space',
-    status: 'Active',
-    type: 'Deep Space',
-    icon: ProbeIcon,
-    color: 'from-purple-500 to-indigo-600',
-  },
-  {
-    id: 'voyager-2',
-    name: 'Voyager 2',
-    description: 'Grand Tour veteran exploring interstellar space',
-    status: 'Active',
-    type: 'Deep Space',
-    icon: ProbeIcon,
-    color: 'from-indigo-500 to-purple-600',
-  },
-  {
-    id: 'parker-solar-probe',
-    name: 'Parker Solar Probe',
-    description: 'Completed primary mission with 24 perihelion passes, now in extended operations',
-    status: 'Extended',
-    type: 'Solar',
-    icon: SolarIcon,
-    color: 'from-yellow-500 to-orange-600',
-  },
-  {
-    id: 'mars-reconnaissance-orbiter',
-    name: 'Mars Reconnaissance Orbiter',
-    description: 'High-resolution imaging and surface analysis for 19+ years',
-    status: 'Active',
-    type: 'Mars Orbiter',
-    icon: SatelliteIcon,
-    color: 'from-red-500 to-orange-500',
-  },
-  {
-    id: 'maven',
-    name: 'MAVEN',
-    description: 'Studying Mars atmospheric escape and climate evolution',
-    status: 'Active',
-    type: 'Mars Orbiter',
-    icon: SatelliteIcon,
-    color: 'from-orange-500 to-red-500',
-  },
-  {
-    id: 'mars-odyssey',
-    name: '2001 Mars Odyssey',
-    description: 'Record holder: 24+ years as longest-serving planetary orbiter',
-    status: 'Active',
-    type: 'Mars Orbiter',
-    icon: SatelliteIcon,
-    color: 'from-red-600 to-orange-600',
-  },
-  {
-    id: 'james-webb-space-telescope',
-    name: 'James Webb Space Telescope',
-    description: 'Revolutionary infrared observatory exploring deep space',
-    status: 'Active',
-    type: 'Space Observatory',
-    icon: SatelliteIcon,
-    color: 'from-blue-500 to-purple-600',
-  },
-  {
-    id: 'new-horizons',
-    name: 'New Horizons',
-    description: 'Exploring the Kuiper Belt after Pluto flyby',
-    status: 'Extended',
-    type: 'Deep Space',
-    icon: ProbeIcon,
-    color: 'from-cyan-500 to-blue-600',
-  },
-  {
-    id: 'juno',
-    name: 'Juno',
-    description: 'Studying Jupiter\'s interior and magnetic field',
-    status: 'Extended',
-    type: 'Jupiter Orbiter',
-    icon: SatelliteIcon,
-    color: 'from-amber-500 to-orange-600',
-  },
-  {
-    id: 'europa-clipper',
-    name: 'Europa Clipper',
-    description: 'En route to Jupiter - completed Mars gravity assist March 2025',
-    status: 'En Route',
-    type: 'Jupiter System',
-    icon: ProbeIcon,
-    color: 'from-blue-400 to-cyan-500',
-  },
-  {
-    id: 'lucy',
-    name: 'Lucy',
-    description: 'Visited 2 of 8 Trojan asteroids - Eurybates arrival August 2027',
-    status: 'En Route',
-    type: 'Asteroid Mission',
-    icon: ProbeIcon,
-    color: 'from-purple-400 to-pink-500',
-  },
-  {
-    id: 'psyche',
-    name: 'Psyche',
-    description: 'En route to metallic asteroid Psyche',
-    status: 'En Route',
-    type: 'Asteroid Mission',
-    icon: ProbeIcon,
-    color: 'from-gray-400 to-slate-600',
-  },
-  {
-    id: 'osiris-apex',
-    name: 'OSIRIS-APEX',
-    description: 'En route to asteroid Apophis after Bennu success',
-    status: 'En Route',
-    type: 'Asteroid Mission',
-    icon: ProbeIcon,
-    color: 'from-emerald-500 to-green-600',
-  },
-];
+const MISSION_ICONS = {
+  rover: RoverIcon,
+  probe: ProbeIcon,
+  solar: SolarIcon,
+  satellite: SatelliteIcon,
+};
+
+const missions = getMissionPages().map((mission) => ({
+  ...mission,
+  icon: MISSION_ICONS[mission.page.icon],
+}));
 
 export default function MissionsPage() {
   return (
@@ -162,6 +27,12 @@ export default function MissionsPage() {
         <p className="text-gray-400 text-lg">
           Track NASA&apos;s ongoing exploration of our solar system and beyond
         </p>
+        <Link
+          href="/missions/compare"
+          className="inline-block mt-3 text-sm text-blue-400 hover:text-blue-300"
+        >
+          Compare spacecraft side by side →
+        </Link>
       </motion.div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -175,32 +46,32 @@ export default function MissionsPage() {
             <Link href={`/missions/${mission.id}`}>
               <div className="bg-gray-900 rounded-lg border border-gray-800 p-6 hover:border-blue-500 transition-all duration-300 cursor-pointer group">
                 <div className="flex items-start justify-between mb-4">
-                  <div className={`h-12 w-12 rounded-lg bg-gradient-to-br ${mission.color} p-0.5`}>
+                  <div className={`h-12 w-12 rounded-lg bg-gradient-to-br ${mission.page.color} p-0.5`}>
                     <div className="h-full w-full rounded-lg bg-gray-900/80 flex items-center justify-center">
                       <mission.icon className="text-white" size={24} />
                     </div>
                   </div>
                   <span
                     className={`px-2 py-1 rounded-full text-xs font-semibold uppercase tracking-wider whitespace-nowrap ${
-                      mission.status === 'Active'
+                      mission.phase === 'active'
                         ? 'bg-green-500/20 text-green-400'
-                        : mission.status === 'Extended'
+                        : mission.phase === 'extended'
                         ? 'bg-blue-500/20 text-blue-400'
-                        : mission.status === 'En Route'
+                        : mission.phase === 'en-route'
                         ? 'bg-orange-500/20 text-orange-400'
                         : 'bg-gray-500/20 text-gray-400'
                     }`}
                   >
-                    {mission.status}
+                    {PHASE_LABELS[mission.phase]}
                   </span>
                 </div>
 
                 <h2 className="text-xl font-semibold mb-2 group-hover:text-blue-400 transition-colors">
                   {mission.name}
                 </h2>
-                <p className="text-gray-400 text-sm mb-3">{mission.description}</p>
+                <p className="text-gray-400 text-sm mb-3">{mission.page.summary}</p>
                 <div className="flex items-center justify-between">
-                  <span className="text-xs text-gray-500">{mission.type}</span>
+                  <span className="text-xs text-gray-500">{mission.page.category}</span>
                   <span className="text-blue-400 group-hover:translate-x-1 transition-transform">
                     →
                   </span>
@@ -3,6 +3,7 @@
 import { motion } from 'framer-motion';
 import { SolTracker } from '@/components/dashboard/SolTracker';
 import { MissionTracker } from '@/components/dashboard/MissionTracker';
+import { getTrackedMissions } from '@/lib/utils/mission-catalog';
 
 // Data source badge component
 function DataSourceBadge({ source, className = "" }: { source: string; className?: string }) {
@@ -60,12 +61,9 @@ export default function Home() {
           <DataSourceBadge source="NASA JPL Horizons System" />
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-          <MissionTracker mission="voyager1" variant="detailed" />
-          <MissionTracker mission="voyager2" variant="detailed" />
-          <MissionTracker mission="parker" variant="detailed" />
-          <MissionTracker mission="newhorizons" variant="detailed" />
-          <MissionTracker mission="juno" variant="detailed" />
-          <MissionTracker mission="jwst" variant="detailed" />
+          {getTrackedMissions('deep-space').map((mission) => (
+            <MissionTracker key={mission.id} mission={mission.id} variant="detailed" />
+          ))}
         </div>
       </motion.div>
 
@@ -81,9 +79,9 @@ export default function Home() {
           <DataSourceBadge source="NASA JPL Horizons System" />
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-          <MissionTracker mission="mro" variant="detailed" />
-          <MissionTracker mission="maven" variant="detailed" />
-          <MissionTracker mission="odyssey" variant="detailed" />
+          {getTrackedMissions('mars-orbiters').map((mission) => (
+            <MissionTracker key={mission.id} mission={mission.id} variant="detailed" />
+          ))}
         </div>
       </motion.div>
 
@@ -99,10 +97,9 @@ export default function Home() {
           <DataSourceBadge source="NASA JPL Horizons System" />
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
-          <MissionTracker mission="europaclipper" variant="detailed" />
-          <MissionTracker mission="lucy" variant="detailed" />
-          <MissionTracker mission="psyche" variant="detailed" />
-          <MissionTracker mission="osirisapex" variant="detailed" />
+          {getTrackedMissions('en-route').map((mission) => (
+            <MissionTracker key={mission.id} mission={mission.id} variant="detailed" />
+          ))}
         </div>
       </motion.div>
 
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { SolTracker } from '@/components/dashboard/SolTracker';
 import { MissionTracker } from '@/components/dashboard/MissionTracker';
+import { getTrackedMissions } from '@/lib/utils/mission-catalog';
 import { DashboardHero } from '@/components/dashboard/DashboardHero';
 import { FeaturedMission } from '@/components/dashboard/FeaturedMission';
 import { TabNavigation, useTabState } from '@/components/ui/TabNavigation';
@@ -128,12 +129,9 @@ export default function Home() {
                 <DataSourceBadge source="NASA JPL Horizons System" />
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-                <MissionTracker mission="voyager1" variant="detailed" />
-                <MissionTracker mission="voyager2" variant="detailed" />
-                <MissionTracker mission="parker" variant="detailed" />
-                <MissionTracker mission="newhorizons" variant="detailed" />
-                <MissionTracker mission="juno" variant="detailed" />
-                <MissionTracker mission="jwst" variant="detailed" />
+                {getTrackedMissions('deep-space').map((mission) => (
+                  <MissionTracker key={mission.id} mission={mission.id} variant="detailed" />
+                ))}
               </div>
             </div>
           )}
@@ -166,7 +164,7 @@ export default function Home() {
               <CollapsibleSection
                 title="Mars Orbiters"
                 description="Spacecraft orbiting Mars for communications and observation"
-                badge={3}
+                badge={getTrackedMissions('mars-orbiters').length}
                 badgeColor="red"
                 defaultExpanded={false}
                 storageKey="dashboard-mars-orbiters-expanded"
@@ -178,9 +176,9 @@ export default function Home() {
                   <DataSourceBadge source="NASA JPL Horizons System" />
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
-                  <MissionTracker mission="mro" variant="detailed" />
-                  <MissionTracker mission="maven" variant="detailed" />
-                  <MissionTracker mission="odyssey" variant="detailed" />
+                  {getTrackedMissions('mars-orbiters').map((mission) => (
+                    <MissionTracker key={mission.id} mission={mission.id} variant="detailed" />
+                  ))}
                 </div>
               </CollapsibleSection>
             </div>
@@ -196,10 +194,9 @@ export default function Home() {
                 <DataSourceBadge source="NASA JPL Horizons System" />
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
-                <MissionTracker mission="europaclipper" variant="detailed" />
-                <MissionTracker mission="lucy" variant="detailed" />
-                <MissionTracker mission="psyche" variant="detailed" />
-                <MissionTracker mission="osirisapex" variant="detailed" />
+                {getTrackedMissions('en-route').map((mission) => (
+                  <MissionTracker key={mission.id} mission={mission.id} variant="detailed" />
+                ))}
               </div>
             </div>
           )}
@@ -0,0 +1,35 @@
+import { Metadata } from 'next';
+import { SolarSystemExplorer } from '@/components/solar-system/SolarSystemExplorer';
+
+export const metadata: Metadata = {
+  title: 'Solar System in 3D - Planets, Spacecraft and Interstellar Objects | DeepSix',
+  description:
+    'Explore the solar system in 3D with positions from NASA JPL Horizons. Scrub through time to follow Voyager, Parker Solar Probe, the planets, asteroids and interstellar visitors.',
+};
+
+export default function SolarSystemPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-black via-blue-950/10 to-black px-4 md:px-6 lg:px-8 py-12">
+      <div className="w-full mx-auto">
+        {/* Hero Section */}
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold text-white mb-4">
+            Solar System <span className="text-blue-400">in 3D</span>
+          </h1>
+          <p className="text-xl text-gray-400 max-w-3xl mx-auto">
+            Every planet, tracked spacecraft, asteroid and interstellar visitor where JPL Horizons
+            puts it. Drag the timeline to travel through time, click a label to follow it.
+          </p>
+        </div>
+
+        <SolarSystemExplorer />
+
+        <p className="mt-6 text-sm text-gray-500 text-center max-w-3xl mx-auto">
+          The logarithmic scale compresses distance from the Sun so that Parker Solar Probe inside
+          Mercury&apos;s orbit and Voyager 1 beyond 160 AU share one view. Directions are kept true;
+          switch to linear to see real proportions.
+        </p>
+      </div>
+    </main>
+  );
+}
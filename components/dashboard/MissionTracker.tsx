@@ -12,7 +12,8 @@ import {
 } from '@/lib/utils/mission-tracking';
 
 interface MissionTrackerProps {
-  mission: 'voyager1' | 'voyager2' | 'parker' | 'newhorizons' | 'mro' | 'maven' | 'odyssey' | 'jwst' | 'juno' | 'europaclipper' | 'lucy' | 'psyche' | 'osirisapex';
+  /** Mission catalog ID of an entry with a tracker card */
+  mission: string;
   variant?: 'compact' | 'detailed' | 'minimal';
   showCommunicationDelay?: boolean;
   showMilestone?: boolean;
@@ -59,7 +60,7 @@ export function MissionTracker({
   const milestone = getMissionMilestone(mission, missionData);
   const isActive = missionData.status === 'active';
   const isExtended = missionData.status === 'extended';
-  const isEnRoute = missionData.status === 'en_route';
+  const isEnRoute = missionData.status === 'en-route';
 
   if (variant === 'minimal') {
     return (
@@ -149,23 +150,7 @@ export function MissionTracker({
   }
 
   // Detailed variant
-  // Map mission names to the correct URL paths
-  const missionUrlMap: Record<string, string> = {
-    voyager1: 'voyager-1',
-    voyager2: 'voyager-2',
-    parker: 'parker-solar-probe',
-    newhorizons: 'new-horizons',
-    mro: 'mars-reconnaissance-orbiter',
-    maven: 'maven',
-    odyssey: 'mars-odyssey',
-    jwst: 'james-webb-space-telescope',
-    juno: 'juno',
-    europaclipper: 'europa-clipper',
-    lucy: 'lucy',
-    psyche: 'psyche',
-    osirisapex: 'osiris-apex'
-  };
-  const missionPath = `/missions/${missionUrlMap[mission] || mission}`;
+  const missionPath = `/missions/${mission}`;
   
   return (
     <Link href={missionPath} className="block">
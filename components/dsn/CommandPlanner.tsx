@@ -0,0 +1,321 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { SPACECRAFT_ID_LIST, type SpacecraftId } from '@/lib/types/horizons';
+import { formatLocalDateTime, formatUTC } from '@/lib/utils/datetime';
+
+interface ReplyReceptionData {
+  complex: string;
+  name: string;
+  signalArrival: string;
+  receiveTime: string | null;
+  inViewOnArrival: boolean;
+  lightTimeMs: number;
+}
+
+interface CommandPlanData {
+  requestedTime: string;
+  uplink: {
+    complex: string;
+    name: string;
+    transmitTime: string;
+    windowEnd: string | null;
+    waitMs: number;
+  };
+  uplinkLightTimeMs: number;
+  arrivalTime: string;
+  replyTime: string;
+  downlink: ReplyReceptionData[];
+  firstReceiveTime: string | null;
+}
+
+interface CommandPlanResponse {
+  success: boolean;
+  plan: CommandPlanData | null;
+  message?: string;
+  source: string;
+}
+
+interface TimelineEvent {
+  key: string;
+  label: string;
+  detail: string;
+  time: string;
+  color: string;
+}
+
+const COMPLEX_COLORS: Record<string, string> = {
+  gdscc: 'bg-blue-400',
+  mdscc: 'bg-green-400',
+  cdscc: 'bg-purple-400',
+};
+
+const TURNAROUND_OPTIONS = [0, 5, 15, 60];
+
+const formatSpacecraftId = (id: string) =>
+  id
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+function buildEvents(plan: CommandPlanData, turnaroundMinutes: number): TimelineEvent[] {
+  const events: TimelineEvent[] = [
+    {
+      key: 'requested',
+      label: 'Command ready',
+      detail: 'Desired send time',
+      time: plan.requestedTime,
+      color: 'bg-gray-400',
+    },
+    {
+      key: 'uplink',
+      label: `Uplink from ${plan.uplink.name}`,
+      detail:
+        plan.uplink.waitMs > 0
+          ? `Waits ${formatDuration(plan.uplink.waitMs)} for the pass to begin`
+          : 'Spacecraft already in view',
+      time: plan.uplink.transmitTime,
+      color: 'bg-yellow-400',
+    },
+    {
+      key: 'arrival',
+      label: 'Command arrives',
+      detail: `One-way light time ${formatDuration(plan.uplinkLightTimeMs)}`,
+      time: plan.arrivalTime,
+      color: 'bg-orange-400',
+    },
+  ];
+
+  if (turnaroundMinutes > 0) {
+    events.push({
+      key: 'reply',
+      label: 'Reply sent',
+      detail: `After ${turnaroundMinutes} min onboard`,
+      time: plan.replyTime,
+      color: 'bg-pink-400',
+    });
+  }
+
+  for (const reception of plan.downlink) {
+    if (!reception.receiveTime) continue;
+    events.push({
+      key: reception.complex,
+      label: `Reply at ${reception.name}`,
+      detail: reception.inViewOnArrival
+        ? `In view on arrival • ${formatDuration(reception.lightTimeMs)} downleg`
+        : `Below horizon on arrival, heard at next rise`,
+      time: reception.receiveTime,
+      color: COMPLEX_COLORS[reception.complex] || 'bg-gray-400',
+    });
+  }
+
+  return events.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+export function CommandPlanner() {
+  const [spacecraft, setSpacecraft] = useState<SpacecraftId>(SPACECRAFT_ID_LIST[0]);
+  const [commandTime, setCommandTime] = useState(''); // datetime-local value; empty means now
+  const [turnaround, setTurnaround] = useState(0);
+  const [data, setData] = useState<CommandPlanResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchPlan() {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ spacecraft, turnaround: String(turnaround) });
+        if (commandTime) params.set('time', new Date(commandTime).toISOString());
+
+        const response = await fetch(`/api/dsn/command-plan?${params}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to plan the command');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to plan the command');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchPlan();
+    return () => {
+      cancelled = true;
+    };
+  }, [spacecraft, commandTime, turnaround]);
+
+  const plan = data?.plan ?? null;
+  const events = plan ? buildEvents(plan, turnaround) : [];
+  const timelineStart = events.length > 0 ? new Date(events[0].time).getTime() : 0;
+  const timelineSpan =
+    events.length > 0
+      ? Math.max(new Date(events[events.length - 1].time).getTime() - timelineStart, 1)
+      : 1;
+  const toPercent = (time: string) =>
+    ((new Date(time).getTime() - timelineStart) / timelineSpan) * 100;
+
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-sm rounded-lg border border-gray-700 p-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-white">Command Round-Trip Planner</h3>
+          <p className="text-sm text-gray-400">
+            First uplink window, arrival, and reply reception from Horizons light time
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={spacecraft}
+            onChange={(e) => setSpacecraft(e.target.value as SpacecraftId)}
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          >
+            {SPACECRAFT_ID_LIST.map((id) => (
+              <option key={id} value={id}>
+                {formatSpacecraftId(id)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="datetime-local"
+            value={commandTime}
+            onChange={(e) => setCommandTime(e.target.value)}
+            aria-label="Command time (local)"
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          />
+          <select
+            value={turnaround}
+            onChange={(e) => setTurnaround(parseInt(e.target.value))}
+            aria-label="Onboard turnaround"
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          >
+            {TURNAROUND_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0 ? 'Immediate reply' : `${minutes} min turnaround`}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !data ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-10 bg-gray-700 rounded"></div>
+          <div className="h-24 bg-gray-700 rounded"></div>
+        </div>
+      ) : error || !data ? (
+        <p className="text-red-400 text-sm">{error || 'Command plan unavailable'}</p>
+      ) : !plan ? (
+        <p className="text-yellow-400 text-sm">{data.message}</p>
+      ) : (
+        <div className={`space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-sm text-gray-400">Uplink</p>
+              <p className="font-mono text-yellow-400">
+                {formatLocalDateTime(plan.uplink.transmitTime, { showSeconds: false })}
+              </p>
+              <p className="text-xs text-gray-500">
+                {plan.uplink.name}
+                {plan.uplink.windowEnd &&
+                  ` until ${formatLocalDateTime(plan.uplink.windowEnd, { showDate: false, showSeconds: false })}`}
+              </p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-sm text-gray-400">Arrival at spacecraft</p>
+              <p className="font-mono text-orange-400">
+                {formatLocalDateTime(plan.arrivalTime, { showSeconds: false })}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatDuration(plan.uplinkLightTimeMs)} one-way
+              </p>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <p className="text-sm text-gray-400">First reply on Earth</p>
+              <p className="font-mono text-blue-400">
+                {plan.firstReceiveTime
+                  ? formatLocalDateTime(plan.firstReceiveTime, { showSeconds: false })
+                  : 'Beyond window'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {plan.firstReceiveTime &&
+                  `${formatDuration(new Date(plan.firstReceiveTime).getTime() - new Date(plan.requestedTime).getTime())} after the desired time`}
+              </p>
+            </div>
+          </div>
+
+          {/* Timeline */}
+          <div>
+            <div className="relative h-3 bg-gray-800/50 rounded-full border border-gray-700 mx-2">
+              {events.map((event) => (
+                <motion.div
+                  key={event.key}
+                  initial={{ opacity: 0, scale: 0 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3 h-3 rounded-full ring-2 ring-gray-900 ${event.color}`}
+                  style={{ left: `${toPercent(event.time)}%` }}
+                  title={`${event.label}: ${formatUTC(event.time)}`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>{formatUTC(events[0].time, { showSeconds: false })}</span>
+              <span>{formatUTC(events[events.length - 1].time, { showSeconds: false })}</span>
+            </div>
+          </div>
+
+          {/* Event list */}
+          <ol className="space-y-3">
+            {events.map((event) => (
+              <li key={event.key} className="flex items-start gap-3">
+                <span className={`mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0 ${event.color}`} />
+                <div className="flex-1">
+                  <p className="text-sm text-white">{event.label}</p>
+                  <p className="text-xs text-gray-500">{event.detail}</p>
+                </div>
+                <span className="font-mono text-xs text-gray-300">
+                  {formatLocalDateTime(event.time)}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          {plan.downlink.some((reception) => !reception.receiveTime) && (
+            <p className="text-xs text-gray-500">
+              Complexes without a time do not see the spacecraft within the planning window.
+            </p>
+          )}
+          {data.source === 'horizons-cache-stale' && (
+            <p className="text-xs text-yellow-500">
+              Horizons is unreachable; light times come from the last cached ephemeris.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { findMissionById } from '@/lib/utils/mission-catalog';
+import { formatLocalDate } from '@/lib/utils/datetime';
+
+interface ConjunctionPeriodData {
+  threshold: number;
+  start: string | null;
+  end: string | null;
+  minAngle: number;
+  minAngleTime: string;
+}
+
+interface ConjunctionForecastData {
+  spacecraftId: string;
+  currentAngle?: number;
+  closestApproach?: { time: string; angle: number };
+  periods?: ConjunctionPeriodData[];
+  error?: string;
+}
+
+interface ConjunctionResponse {
+  success: boolean;
+  days: number;
+  thresholds: number[];
+  forecasts: ConjunctionForecastData[];
+}
+
+interface ConjunctionWarningsProps {
+  /** Show one spacecraft as a warning banner (renders nothing when clear) */
+  spacecraftId?: string;
+  className?: string;
+}
+
+const spacecraftName = (id: string) => findMissionById(id)?.name ?? id;
+
+/**
+ * The tightest threshold means contact is likely lost; wider ones mean a degraded link
+ */
+function severity(threshold: number, thresholds: number[]) {
+  return threshold === thresholds[0]
+    ? {
+        label: 'Contact loss likely',
+        badge: 'bg-red-500/20 text-red-400',
+        border: 'border-red-500/40',
+      }
+    : {
+        label: 'Degraded link',
+        badge: 'bg-yellow-500/20 text-yellow-400',
+        border: 'border-yellow-500/40',
+      };
+}
+
+function formatPeriod(period: ConjunctionPeriodData): string {
+  if (!period.start && !period.end) return 'Throughout the forecast window';
+  if (!period.start) return `Now until ${formatLocalDate(period.end!)}`;
+  if (!period.end) return `From ${formatLocalDate(period.start)}`;
+  return `${formatLocalDate(period.start)} – ${formatLocalDate(period.end)}`;
+}
+
+function PeriodRow({
+  period,
+  thresholds,
+}: {
+  period: ConjunctionPeriodData;
+  thresholds: number[];
+}) {
+  const level = severity(period.threshold, thresholds);
+  const ongoing = !period.start || new Date(period.start).getTime() <= Date.now();
+
+  return (
+    <div
+      className={`flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg bg-gray-800/50 border ${level.border}`}
+    >
+      <div>
+        <p className="text-sm text-white">
+          {formatPeriod(period)}
+          {ongoing && <span className="ml-2 text-xs text-red-300">(in progress)</span>}
+        </p>
+        <p className="text-xs text-gray-500">
+          SEP below {period.threshold}° • minimum {period.minAngle.toFixed(2)}° on{' '}
+          {formatLocalDate(period.minAngleTime)}
+        </p>
+      </div>
+      <span className={`px-2 py-0.5 rounded text-xs whitespace-nowrap ${level.badge}`}>
+        {level.label}
+      </span>
+    </div>
+  );
+}
+
+export function ConjunctionWarnings({ spacecraftId, className = '' }: ConjunctionWarningsProps) {
+  const [data, setData] = useState<ConjunctionResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchForecast() {
+      setLoading(true);
+      try {
+        const query = spacecraftId ? `?spacecraft=${spacecraftId}` : '';
+        const response = await fetch(`/api/dsn/conjunctions${query}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to forecast solar conjunctions');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to forecast solar conjunctions');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchForecast();
+    return () => {
+      cancelled = true;
+    };
+  }, [spacecraftId]);
+
+  // Mission page: a warning banner only when a conjunction is coming up
+  if (spacecraftId) {
+    const forecast = data?.forecasts[0];
+    if (loading || error || !data || !forecast?.periods?.length) return null;
+
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`rounded-lg p-6 bg-gradient-to-r from-yellow-900/20 via-gray-900 to-red-900/20 border border-yellow-500/30 ${className}`}
+      >
+        <h3 className="text-lg font-semibold text-yellow-300 mb-1">☀️ Solar Conjunction Ahead</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          {spacecraftName(forecast.spacecraftId)} passes close to the Sun as seen from Earth within
+          the next {data.days} days. Communications degrade or stop during these periods.
+        </p>
+        <div className="space-y-2">
+          {forecast.periods.map((period, index) => (
+            <PeriodRow key={index} period={period} thresholds={data.thresholds} />
+          ))}
+        </div>
+      </motion.div>
+    );
+  }
+
+  const forecasts = data?.forecasts ?? [];
+  const affected = forecasts.filter((forecast) => forecast.periods?.length);
+  const clear = forecasts.filter((forecast) => forecast.periods && forecast.periods.length === 0);
+  const failed = forecasts.filter((forecast) => forecast.error);
+
+  return (
+    <div
+      className={`bg-gray-900/50 backdrop-blur-sm rounded-lg border border-gray-700 p-6 ${className}`}
+    >
+      <div className="mb-6">
+        <h3 className="text-xl font-bold text-white">Solar Conjunction Forecast</h3>
+        <p className="text-sm text-gray-400">
+          Sun-Earth-Probe angles over the next {data?.days ?? 365} days from Horizons vectors
+          {data && ` • thresholds ${data.thresholds.map((t) => `${t}°`).join(', ')}`}
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-12 bg-gray-700 rounded"></div>
+          <div className="h-12 bg-gray-700 rounded"></div>
+        </div>
+      ) : error || !data ? (
+        <p className="text-red-400 text-sm">{error || 'Conjunction forecast unavailable'}</p>
+      ) : (
+        <div className="space-y-6">
+          {affected.length === 0 ? (
+            <p className="text-sm text-green-400">
+              No tracked spacecraft comes within {data.thresholds[data.thresholds.length - 1]}° of
+              the Sun in this window.
+            </p>
+          ) : (
+            affected.map((forecast) => (
+              <div key={forecast.spacecraftId}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-white">
+                    {spacecraftName(forecast.spacecraftId)}
+                  </span>
+                  <span className="text-xs text-gray-500 font-mono">
+                    SEP now {forecast.currentAngle?.toFixed(1)}°
+                  </span>
+                </div>
+                <div className="space-y-2">
+                  {forecast.periods!.map((period, index) => (
+                    <PeriodRow key={index} period={period} thresholds={data.thresholds} />
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+
+          {clear.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-500 mb-2">Clear of the Sun all window</p>
+              <div className="flex flex-wrap gap-2">
+                {clear.map((forecast) => (
+                  <span
+                    key={forecast.spacecraftId}
+                    className="px-2 py-1 rounded bg-gray-800/50 text-xs text-gray-300"
+                    title={
+                      forecast.closestApproach &&
+                      `Closest: ${forecast.closestApproach.angle.toFixed(1)}° on ${formatLocalDate(forecast.closestApproach.time)}`
+                    }
+                  >
+                    {spacecraftName(forecast.spacecraftId)} • {forecast.currentAngle?.toFixed(0)}°
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {failed.length > 0 && (
+            <p className="text-xs text-yellow-500">
+              No forecast for {failed.map((f) => spacecraftName(f.spacecraftId)).join(', ')}:
+              Horizons did not respond.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
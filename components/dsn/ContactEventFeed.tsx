@@ -0,0 +1,69 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { DSN_EVENT_LABELS, type DSNEvent, type DSNEventType } from '@/lib/utils/dsn-events';
+import { formatLocalDateTime, formatRelativeTime } from '@/lib/utils/datetime';
+
+interface ContactEventFeedProps {
+  events: DSNEvent[];
+  maxItems?: number;
+}
+
+const EVENT_STYLES: Record<DSNEventType, { icon: string; className: string }> = {
+  'acquisition-of-signal': {
+    icon: '▲',
+    className: 'text-green-400 border-green-600/50 bg-green-900/20',
+  },
+  'loss-of-signal': { icon: '▼', className: 'text-red-400 border-red-600/50 bg-red-900/20' },
+  'data-rate-change': { icon: '⇅', className: 'text-blue-400 border-blue-600/50 bg-blue-900/20' },
+  'band-change': { icon: '≋', className: 'text-cyan-400 border-cyan-600/50 bg-cyan-900/20' },
+  'array-formed': { icon: '⊕', className: 'text-purple-400 border-purple-600/50 bg-purple-900/20' },
+  'array-dissolved': {
+    icon: '⊖',
+    className: 'text-yellow-400 border-yellow-600/50 bg-yellow-900/20',
+  },
+};
+
+export function ContactEventFeed({ events, maxItems = 50 }: ContactEventFeedProps) {
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-sm rounded-lg border border-gray-700 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-white">Contact Events</h3>
+        <span className="text-xs text-gray-500">{events.length} detected</span>
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No transitions detected yet. Events appear as links start, stop or change.
+          </p>
+        ) : (
+          <AnimatePresence initial={false}>
+            {events.slice(0, maxItems).map((event) => {
+              const style = EVENT_STYLES[event.type];
+              return (
+                <motion.div
+                  key={event.id}
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0 }}
+                  className={`p-2 rounded border text-xs ${style.className}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold">
+                      {style.icon} {DSN_EVENT_LABELS[event.type]}
+                    </span>
+                    <span className="text-gray-500" title={formatLocalDateTime(event.timestamp)}>
+                      {formatRelativeTime(event.timestamp)}
+                    </span>
+                  </div>
+                  <p className="text-gray-300 mt-1">{event.message}</p>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { DopplerResidual } from '@/lib/utils/doppler';
+
+interface DopplerData {
+  tracked: boolean;
+  residuals: DopplerResidual[];
+  snapshotTime: string;
+}
+
+interface DopplerResidualsProps {
+  spacecraftId: string;
+  className?: string;
+}
+
+const MODE_LABELS: Record<DopplerResidual['mode'], string> = {
+  'two-way': '2-way',
+  'three-way': '3-way',
+  'one-way': '1-way',
+};
+
+const formatMHz = (hz: number | null | undefined) =>
+  hz === null || hz === undefined ? '—' : `${(hz / 1e6).toFixed(3)} MHz`;
+
+function formatHz(hz: number): string {
+  const abs = Math.abs(hz);
+  const sign = hz > 0 ? '+' : hz < 0 ? '−' : '';
+  if (abs >= 1e6) return `${sign}${(abs / 1e6).toFixed(2)} MHz`;
+  if (abs >= 1e3) return `${sign}${(abs / 1e3).toFixed(1)} kHz`;
+  return `${sign}${abs.toFixed(0)} Hz`;
+}
+
+const formatRangeRate = (kms: number | null) =>
+  kms === null ? '—' : `${kms >= 0 ? '+' : ''}${kms.toFixed(3)} km/s`;
+
+export function DopplerResiduals({ spacecraftId, className = '' }: DopplerResidualsProps) {
+  const [data, setData] = useState<DopplerData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchResiduals() {
+      try {
+        const response = await fetch(`/api/dsn/doppler?spacecraft=${spacecraftId}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to compute Doppler residuals');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load Doppler residuals');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchResiduals();
+
+    // The DSN feed refreshes every few seconds; once a minute is plenty here
+    const interval = setInterval(fetchResiduals, 60 * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [spacecraftId]);
+
+  return (
+    <div className={`rounded-lg p-6 bg-gray-900 border border-gray-700 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-lg font-semibold text-white">Doppler Residuals</h4>
+          <p className="text-xs text-gray-500">
+            Reported DSN downlink frequency vs. prediction from Horizons range rate
+          </p>
+        </div>
+        {data && (
+          <span className="text-xs text-gray-500 font-mono">
+            {new Date(data.snapshotTime).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-4 bg-gray-700 rounded w-48"></div>
+          <div className="h-4 bg-gray-700 rounded w-64"></div>
+        </div>
+      ) : error || !data ? (
+        <p className="text-red-400 text-sm">{error || 'Doppler residuals unavailable'}</p>
+      ) : !data.tracked || data.residuals.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No active downlink from the DSN right now. Residuals appear while a dish is receiving.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {data.residuals.map((link) => (
+            <motion.div
+              key={`${link.station}-${link.dish}`}
+              initial={{ opacity: 0, y: 5 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="p-3 bg-gray-800/50 rounded-lg text-sm"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-white font-medium">
+                  {link.stationName} • {link.dish}
+                </span>
+                <span className="px-2 py-0.5 rounded text-xs bg-blue-500/20 text-blue-300">
+                  {MODE_LABELS[link.mode]} {link.uplinkBand ? `${link.uplinkBand}/` : ''}
+                  {link.downlinkBand}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+                <div>
+                  <p className="text-gray-500">Uplink</p>
+                  <p className="font-mono text-orange-400">
+                    {formatMHz(link.uplinkFrequencyHz)}
+                    {link.mode === 'three-way' && link.uplinkDish && (
+                      <span className="text-gray-500"> ({link.uplinkDish})</span>
+                    )}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Downlink reported</p>
+                  <p className="font-mono text-green-400">{formatMHz(link.observedFrequencyHz)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Downlink predicted</p>
+                  <p className="font-mono text-gray-300">{formatMHz(link.expectedFrequencyHz)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Range rate ↑ / ↓</p>
+                  <p className="font-mono text-gray-300">
+                    {formatRangeRate(link.uplegRangeRate)} /{' '}
+                    {formatRangeRate(link.downlegRangeRate)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="mt-2 pt-2 border-t border-gray-700 text-xs">
+                {link.residualHz === null ? (
+                  <span className="text-gray-500">
+                    {link.mode === 'one-way'
+                      ? 'One-way link: no uplink reference, so no frequency prediction'
+                      : 'Prediction unavailable for this link'}
+                  </span>
+                ) : (
+                  <span className="flex flex-wrap gap-x-4 gap-y-1">
+                    <span>
+                      <span className="text-gray-500">Residual </span>
+                      <span
+                        className={`font-mono ${
+                          link.withinResolution ? 'text-green-400' : 'text-yellow-400'
+                        }`}
+                      >
+                        {formatHz(link.residualHz)}
+                      </span>
+                      {link.residualRangeRate !== null && (
+                        <span className="font-mono text-gray-400">
+                          {' '}
+                          ({link.residualRangeRate >= 0 ? '+' : ''}
+                          {link.residualRangeRate.toFixed(1)} m/s)
+                        </span>
+                      )}
+                    </span>
+                    {link.resolutionHz !== null && (
+                      <span className="text-gray-500">
+                        {link.withinResolution ? 'Within' : 'Exceeds'} feed rounding of ±
+                        {formatHz(link.resolutionHz).replace('+', '')}
+                      </span>
+                    )}
+                  </span>
+                )}
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,7 @@ import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Sphere, Line } from '@react-three/drei';
 import * as THREE from 'three';
 import type { DSNStation } from '@/lib/api/dsn';
-
-const STATION_LOCATIONS: Record<string, { lat: number; lon: number }> = {
-  gdscc: { lat: 35.4, lon: -116.9 }, // Goldstone, California
-  mdscc: { lat: 40.4, lon: -4.2 },    // Madrid, Spain
-  cdscc: { lat: -35.4, lon: 148.9 }   // Canberra, Australia
-};
+import { DSN_COMPLEXES as STATION_LOCATIONS } from '@/lib/utils/dsn-visibility';
 
 function Earth({ stations }: { stations: DSNStation[] }) {
   const meshRef = useRef<THREE.Mesh>(null);
@@ -2,12 +2,7 @@
 
 import { motion } from 'framer-motion';
 import type { DSNStation } from '@/lib/api/dsn';
-
-const STATION_LOCATIONS: Record<string, { lat: number; lon: number; name: string; region: string }> = {
-  gdscc: { lat: 35.4, lon: -116.9, name: 'Goldstone', region: 'California, USA' },
-  mdscc: { lat: 40.4, lon: -4.2, name: 'Madrid', region: 'Spain' },
-  cdscc: { lat: -35.4, lon: 149.0, name: 'Canberra', region: 'Australia' }
-};
+import { DSN_COMPLEXES as STATION_LOCATIONS } from '@/lib/utils/dsn-visibility';
 
 interface EarthMap2DProps {
   stations: DSNStation[];
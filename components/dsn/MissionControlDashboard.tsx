@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { DSNData } from '@/lib/api/dsn';
+import { SpacecraftLink } from '@/components/dsn/SpacecraftLink';
+import { SkyPlotPanel } from '@/components/dsn/SkyPlot';
 
 interface MissionControlDashboardProps {
   dsnData: DSNData;
@@ -167,7 +169,11 @@ export function MissionControlDashboard({
                   <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
                   <div>
                     <p className="text-sm font-medium text-white">
-                      {comm.targets[0]?.spacecraft?.[0] || 'Unknown'}
+                      {comm.targets[0] ? (
+                        <SpacecraftLink target={comm.targets[0]} showPosition={false} />
+                      ) : (
+                        'Unknown'
+                      )}
                     </p>
                     <p className="text-xs text-gray-400">
                       {comm.station} • {comm.dish}
@@ -278,6 +284,11 @@ export function MissionControlDashboard({
           </motion.div>
         ))}
       </div>
+
+      {/* Antenna Pointing */}
+      <div className="mt-4">
+        <SkyPlotPanel dsnData={dsnData} />
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { SPACECRAFT_ID_LIST, type SpacecraftId } from '@/lib/types/horizons';
+import { formatLocalDateTime, formatUTC } from '@/lib/utils/datetime';
+
+interface PassWindowData {
+  complex: string;
+  rise: string | null;
+  set: string | null;
+  maxElevation: number;
+  maxElevationTime: string;
+  riseAzimuth: number | null;
+  setAzimuth: number | null;
+}
+
+interface PassScheduleData {
+  success: boolean;
+  spacecraft: string;
+  start: string;
+  stop: string;
+  elevationMask: number;
+  complexes: Array<{
+    complex: string;
+    name: string;
+    passes: PassWindowData[];
+  }>;
+}
+
+const COMPLEX_COLORS: Record<string, string> = {
+  gdscc: 'bg-blue-500/60 border-blue-400',
+  mdscc: 'bg-green-500/60 border-green-400',
+  cdscc: 'bg-purple-500/60 border-purple-400',
+};
+
+const formatSpacecraftId = (id: string) =>
+  id
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+export function PassSchedule() {
+  const [spacecraft, setSpacecraft] = useState<SpacecraftId>(SPACECRAFT_ID_LIST[0]);
+  const [days, setDays] = useState(3);
+  const [data, setData] = useState<PassScheduleData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchPasses() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/dsn/passes?spacecraft=${spacecraft}&days=${days}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to fetch pass predictions');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load pass predictions');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchPasses();
+    return () => {
+      cancelled = true;
+    };
+  }, [spacecraft, days]);
+
+  const windowStart = data ? new Date(data.start).getTime() : 0;
+  const windowSpan = data ? new Date(data.stop).getTime() - windowStart : 1;
+  const toPercent = (time: string | null, fallback: number) =>
+    (((time ? new Date(time).getTime() : fallback) - windowStart) / windowSpan) * 100;
+
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-sm rounded-lg border border-gray-700 p-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-white">Pass Schedule</h3>
+          <p className="text-sm text-gray-400">
+            Predicted visibility above {data?.elevationMask ?? 10}° elevation from each complex
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={spacecraft}
+            onChange={(e) => setSpacecraft(e.target.value as SpacecraftId)}
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          >
+            {SPACECRAFT_ID_LIST.map((id) => (
+              <option key={id} value={id}>
+                {formatSpacecraftId(id)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value))}
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          >
+            {[1, 3, 7, 14].map((d) => (
+              <option key={d} value={d}>
+                {d} day{d !== 1 ? 's' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading && !data ? (
+        <div className="animate-pulse space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-10 bg-gray-700 rounded"></div>
+          ))}
+        </div>
+      ) : error || !data ? (
+        <p className="text-red-400 text-sm">{error || 'Pass predictions unavailable'}</p>
+      ) : (
+        <div className={`space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          {/* Timeline */}
+          <div className="space-y-3">
+            {data.complexes.map((complex) => (
+              <div key={complex.complex} className="flex items-center gap-3">
+                <span className="w-24 text-sm text-gray-300">{complex.name}</span>
+                <div className="relative flex-1 h-8 bg-gray-800/50 rounded border border-gray-700">
+                  {/* Day boundaries */}
+                  {Array.from({ length: days - 1 }, (_, i) => (
+                    <div
+                      key={i}
+                      className="absolute top-0 bottom-0 border-l border-gray-700/70"
+                      style={{ left: `${((i + 1) / days) * 100}%` }}
+                    />
+                  ))}
+                  {complex.passes.map((pass, idx) => {
+                    const left = toPercent(pass.rise, windowStart);
+                    const right = toPercent(pass.set, windowStart + windowSpan);
+                    return (
+                      <motion.div
+                        key={idx}
+                        initial={{ opacity: 0, scaleX: 0 }}
+                        animate={{ opacity: 1, scaleX: 1 }}
+                        className={`absolute top-1 bottom-1 rounded border ${COMPLEX_COLORS[complex.complex] || 'bg-gray-500/60 border-gray-400'}`}
+                        style={{ left: `${left}%`, width: `${Math.max(right - left, 0.5)}%` }}
+                        title={`Max ${pass.maxElevation.toFixed(1)}° at ${formatLocalDateTime(pass.maxElevationTime, { showSeconds: false })}`}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            <div className="flex justify-between text-xs text-gray-500 pl-28">
+              <span>{formatUTC(data.start, { showSeconds: false })}</span>
+              <span>{formatUTC(data.stop, { showSeconds: false })}</span>
+            </div>
+          </div>
+
+          {/* Pass table */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4">Complex</th>
+                  <th className="py-2 pr-4">Rise</th>
+                  <th className="py-2 pr-4">Max Elevation</th>
+                  <th className="py-2 pr-4">Set</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.complexes
+                  .flatMap((complex) =>
+                    complex.passes.map((pass) => ({ ...pass, name: complex.name }))
+                  )
+                  .sort(
+                    (a, b) =>
+                      new Date(a.rise || data.start).getTime() -
+                      new Date(b.rise || data.start).getTime()
+                  )
+                  .map((pass, idx) => (
+                    <tr key={idx} className="border-b border-gray-800 text-gray-300">
+                      <td className="py-2 pr-4 font-medium text-white">{pass.name}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {pass.rise
+                          ? formatLocalDateTime(pass.rise, { showSeconds: false })
+                          : 'In view'}
+                        {pass.riseAzimuth !== null && (
+                          <span className="text-gray-500">
+                            {' '}
+                            • Az {pass.riseAzimuth.toFixed(0)}°
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {pass.maxElevation.toFixed(1)}°
+                        <span className="text-gray-500">
+                          {' '}
+                          @{' '}
+                          {formatLocalDateTime(pass.maxElevationTime, {
+                            showDate: false,
+                            showSeconds: false,
+                          })}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {pass.set
+                          ? formatLocalDateTime(pass.set, { showSeconds: false })
+                          : 'Beyond window'}
+                        {pass.setAzimuth !== null && (
+                          <span className="text-gray-500"> • Az {pass.setAzimuth.toFixed(0)}°</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
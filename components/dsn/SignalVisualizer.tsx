@@ -1,7 +1,8 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
+import { estimateLinkBudget, marginColor } from '@/lib/utils/link-budget';
 
 interface SignalVisualizerProps {
   dataRate: number;
@@ -10,6 +11,11 @@ interface SignalVisualizerProps {
   signalType: 'uplink' | 'downlink';
   spacecraftName: string;
   isActive: boolean;
+  /** Link budget inputs; the margin is shown for downlinks when these are known */
+  dishName?: string;
+  band?: string;
+  rangeKm?: number;
+  elevation?: number;
 }
 
 export function SignalVisualizer({
@@ -18,12 +24,21 @@ export function SignalVisualizer({
   power,
   signalType,
   spacecraftName,
-  isActive
+  isActive,
+  dishName,
+  band,
+  rangeKm,
+  elevation
 }: SignalVisualizerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const [audioEnabled, setAudioEnabled] = useState(false);
 
+  const linkBudget = useMemo(() => {
+    if (signalType !== 'downlink' || !dishName) return null;
+    return estimateLinkBudget({ dishName, band, frequency, power, dataRate, rangeKm, elevation });
+  }, [signalType, dishName, band, frequency, power, dataRate, rangeKm, elevation]);
+
   useEffect(() => {
     if (!canvasRef.current || !isActive) return;
 
@@ -154,7 +169,7 @@ export function SignalVisualizer({
         className="w-full h-24 rounded bg-gray-950"
       />
 
-      <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+      <div className={`grid ${linkBudget ? 'grid-cols-4' : 'grid-cols-3'} gap-2 mt-2 text-xs`}>
         <div>
           <p className="text-gray-500">Data Rate</p>
           <p className="font-mono text-green-400">{formatDataRate(dataRate)}</p>
@@ -165,8 +180,29 @@ export function SignalVisualizer({
         </div>
         <div>
           <p className="text-gray-500">Power</p>
-          <p className="font-mono text-yellow-400">{power.toFixed(1)} W</p>
+          <p className="font-mono text-yellow-400">{power.toFixed(1)} dBm</p>
         </div>
+        {linkBudget && (
+          <div
+            title={[
+              `${linkBudget.dishClass} ${linkBudget.band}-band, G/T ${linkBudget.gOverTDb.toFixed(1)} dB/K`,
+              `System noise ${linkBudget.systemNoiseK.toFixed(0)} K`,
+              `C/N0 ${linkBudget.cn0DbHz.toFixed(1)} dB-Hz`,
+              linkBudget.ebN0Db !== null ? `Eb/N0 ${linkBudget.ebN0Db.toFixed(1)} dB` : 'Carrier only',
+              linkBudget.freeSpaceLossDb !== null
+                ? `Free-space loss ${linkBudget.freeSpaceLossDb.toFixed(1)} dB`
+                : null,
+            ]
+              .filter(Boolean)
+              .join('\n')}
+          >
+            <p className="text-gray-500">{linkBudget.marginKind === 'data' ? 'Link Margin' : 'Carrier Margin'}</p>
+            <p className={`font-mono ${marginColor(linkBudget.marginDb)}`}>
+              {linkBudget.marginDb >= 0 ? '+' : ''}
+              {linkBudget.marginDb.toFixed(1)} dB
+            </p>
+          </div>
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { DSNData, DSNDish, DSNStation } from '@/lib/api/dsn';
+import { DEFAULT_ELEVATION_MASK } from '@/lib/utils/dsn-visibility';
+import { isSignalActive } from '@/lib/utils/dsn-events';
+import { getSpacecraftDisplayName } from '@/lib/utils/spacecraft-registry';
+
+interface SkyPlotProps {
+  station: DSNStation;
+  /** Elevation mask drawn as the horizon limit (degrees) */
+  elevationMask?: number;
+  /** Number of recent pointing samples kept per dish */
+  trailLength?: number;
+  size?: number;
+}
+
+interface PointingSample {
+  azimuth: number;
+  elevation: number;
+}
+
+const RING_ELEVATIONS = [0, 30, 60];
+const CARDINALS = [
+  { label: 'N', azimuth: 0 },
+  { label: 'E', azimuth: 90 },
+  { label: 'S', azimuth: 180 },
+  { label: 'W', azimuth: 270 },
+];
+
+// Target code of the first active link on a dish (ignores the 'DSN' placeholder)
+function activeTarget(dish: DSNDish): string | null {
+  const target = dish.targets.find(
+    (t) =>
+      t.name !== 'DSN' &&
+      ((t.downSignal && isSignalActive(t.downSignal)) || (t.upSignal && isSignalActive(t.upSignal)))
+  );
+  return target ? target.spacecraft?.[0] || target.name : null;
+}
+
+/**
+ * Polar azimuth/elevation plot of where each dish at a complex is pointing.
+ * Zenith is the center, the horizon is the outer ring, north is up and east is right.
+ */
+export function SkyPlot({
+  station,
+  elevationMask = DEFAULT_ELEVATION_MASK,
+  trailLength = 30,
+  size = 240,
+}: SkyPlotProps) {
+  const [trails, setTrails] = useState<Record<string, PointingSample[]>>({});
+
+  // Append the latest pointing of each dish whenever the live feed updates
+  useEffect(() => {
+    setTrails((previous) => {
+      const next: Record<string, PointingSample[]> = {};
+      station.dishes.forEach((dish) => {
+        const trail = previous[dish.name] || [];
+        const last = trail[trail.length - 1];
+        const sample = { azimuth: dish.azimuthAngle, elevation: dish.elevationAngle };
+        const moved =
+          !last || last.azimuth !== sample.azimuth || last.elevation !== sample.elevation;
+        next[dish.name] = moved ? [...trail, sample].slice(-trailLength) : trail;
+      });
+      return next;
+    });
+  }, [station, trailLength]);
+
+  const center = size / 2;
+  const radius = size / 2 - 18;
+
+  const project = (azimuth: number, elevation: number) => {
+    const r = ((90 - Math.max(0, Math.min(90, elevation))) / 90) * radius;
+    const theta = (azimuth * Math.PI) / 180;
+    return { x: center + r * Math.sin(theta), y: center - r * Math.cos(theta) };
+  };
+
+  const maskRadius = ((90 - elevationMask) / 90) * radius;
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`${station.friendlyName} antenna pointing`}
+    >
+      {/* Below the elevation mask */}
+      <circle cx={center} cy={center} r={radius} className="fill-red-900/20" />
+      <circle cx={center} cy={center} r={maskRadius} className="fill-gray-950" />
+      <circle
+        cx={center}
+        cy={center}
+        r={maskRadius}
+        className="fill-none stroke-red-500/50"
+        strokeDasharray="4 3"
+      >
+        <title>{`Elevation mask ${elevationMask}°`}</title>
+      </circle>
+
+      {/* Elevation rings and cardinal axes */}
+      {RING_ELEVATIONS.map((elevation) => (
+        <circle
+          key={elevation}
+          cx={center}
+          cy={center}
+          r={((90 - elevation) / 90) * radius}
+          className="fill-none stroke-gray-700"
+        />
+      ))}
+      <line
+        x1={center}
+        y1={center - radius}
+        x2={center}
+        y2={center + radius}
+        className="stroke-gray-800"
+      />
+      <line
+        x1={center - radius}
+        y1={center}
+        x2={center + radius}
+        y2={center}
+        className="stroke-gray-800"
+      />
+      {CARDINALS.map(({ label, azimuth }) => {
+        const { x, y } = project(azimuth, -8);
+        return (
+          <text
+            key={label}
+            x={x}
+            y={y}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            className="fill-gray-500 text-[10px]"
+          >
+            {label}
+          </text>
+        );
+      })}
+
+      {/* Dishes */}
+      {station.dishes.map((dish) => {
+        const trail = trails[dish.name] || [];
+        const target = activeTarget(dish);
+        const { x, y } = project(dish.azimuthAngle, dish.elevationAngle);
+        const color = target ? 'rgb(74, 222, 128)' : 'rgb(107, 114, 128)';
+        const label = dish.name.replace('DSS', '');
+
+        return (
+          <g key={dish.name}>
+            {/* Fading trail, oldest segment most transparent */}
+            {trail.slice(1).map((sample, i) => {
+              const from = project(trail[i].azimuth, trail[i].elevation);
+              const to = project(sample.azimuth, sample.elevation);
+              return (
+                <line
+                  key={i}
+                  x1={from.x}
+                  y1={from.y}
+                  x2={to.x}
+                  y2={to.y}
+                  stroke={color}
+                  strokeWidth={1.5}
+                  strokeOpacity={((i + 1) / trail.length) * 0.6}
+                />
+              );
+            })}
+            <circle cx={x} cy={y} r={4} fill={color}>
+              <title>
+                {`${dish.name}: az ${dish.azimuthAngle.toFixed(1)}°, el ${dish.elevationAngle.toFixed(1)}°` +
+                  (target ? ` → ${getSpacecraftDisplayName(target)}` : ' (idle)')}
+              </title>
+            </circle>
+            <text x={x + 6} y={y - 6} className="fill-gray-300 text-[9px] font-mono">
+              {target ? `${label} ${target}` : label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+interface SkyPlotPanelProps {
+  dsnData: DSNData;
+  elevationMask?: number;
+}
+
+/**
+ * Sky plots for every complex, sized to drop into the Mission Control grid
+ */
+export function SkyPlotPanel({
+  dsnData,
+  elevationMask = DEFAULT_ELEVATION_MASK,
+}: SkyPlotPanelProps) {
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 border border-gray-800">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-white">Antenna Pointing</h3>
+        <div className="flex items-center gap-3 text-xs text-gray-400">
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-green-400"></span> Tracking
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-gray-500"></span> Idle
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 border-t border-dashed border-red-500"></span> {elevationMask}°
+            mask
+          </span>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {dsnData.stations.map((station) => (
+          <div key={station.name}>
+            <p className="text-sm text-center text-gray-300 mb-1">{station.friendlyName}</p>
+            <SkyPlot station={station} elevationMask={elevationMask} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
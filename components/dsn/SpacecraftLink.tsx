@@ -0,0 +1,56 @@
+'use client';
+
+import Link from 'next/link';
+import type { DSNTarget } from '@/lib/api/dsn';
+import {
+  getLivePositionPath,
+  getMissionPath,
+  resolveDSNTarget,
+} from '@/lib/utils/spacecraft-registry';
+
+interface SpacecraftLinkProps {
+  target: DSNTarget;
+  className?: string;
+  /** Show the live position link next to the name when available */
+  showPosition?: boolean;
+}
+
+/**
+ * DSN target name resolved through the spacecraft registry, linked to its mission page
+ */
+export function SpacecraftLink({
+  target,
+  className = '',
+  showPosition = true,
+}: SpacecraftLinkProps) {
+  const code = target.spacecraft?.[0] || target.name;
+  const entry = resolveDSNTarget(target);
+
+  if (!entry) {
+    return <span className={className}>{code}</span>;
+  }
+
+  const missionPath = getMissionPath(entry);
+  const positionPath = showPosition ? getLivePositionPath(entry) : null;
+
+  return (
+    <span className={`inline-flex items-center gap-2 ${className}`}>
+      {missionPath ? (
+        <Link href={missionPath} className="hover:underline" title={`${code} • View mission`}>
+          {entry.name}
+        </Link>
+      ) : (
+        <span title={code}>{entry.name}</span>
+      )}
+      {positionPath && (
+        <Link
+          href={positionPath}
+          className="text-xs font-normal text-gray-400 hover:text-cyan-400"
+          title="Live position from JPL Horizons"
+        >
+          📍 position
+        </Link>
+      )}
+    </span>
+  );
+}
@@ -2,42 +2,17 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
+import { useOrbitEvents } from '@/hooks/use-spacecraft';
+import { findSpacecraftByDSNCode } from '@/lib/utils/spacecraft-registry';
+import { calculateMissionData } from '@/lib/utils/mission-tracking';
+import { mergeOrbitEvents } from '@/lib/utils/orbit-events';
 
 interface SpacecraftData {
-  name: string;
   launchDate: Date;
   distance: number; // AU
-  signalDelay: number; // seconds
-  milestones: { date: Date; event: string; distance?: number }[];
+  milestones: { date: Date; event: string; distance?: number; current?: boolean }[];
 }
 
-const SPACECRAFT_INFO: Record<string, Omit<SpacecraftData, 'signalDelay'>> = {
-  'VGR1': {
-    name: 'Voyager 1',
-    launchDate: new Date('1977-09-05'),
-    distance: 164.7,
-    milestones: [
-      { date: new Date('1979-03-05'), event: 'Jupiter Flyby', distance: 5.2 },
-      { date: new Date('1980-11-12'), event: 'Saturn Flyby', distance: 9.5 },
-      { date: new Date('1990-02-14'), event: 'Pale Blue Dot Photo', distance: 40.5 },
-      { date: new Date('2012-08-25'), event: 'Entered Interstellar Space', distance: 121 },
-      { date: new Date('2025-01-01'), event: 'Current Position', distance: 164.7 }
-    ]
-  },
-  'VGR2': {
-    name: 'Voyager 2',
-    launchDate: new Date('1977-08-20'),
-    distance: 137.6,
-    milestones: [
-      { date: new Date('1979-07-09'), event: 'Jupiter Flyby', distance: 5.2 },
-      { date: new Date('1981-08-25'), event: 'Saturn Flyby', distance: 9.5 },
-      { date: new Date('1986-01-24'), event: 'Uranus Flyby', distance: 19.2 },
-      { date: new Date('1989-08-25'), event: 'Neptune Flyby', distance: 30.1 },
-      { date: new Date('2018-11-05'), event: 'Entered Interstellar Space', distance: 119 }
-    ]
-  }
-};
-
 interface SpacecraftTimelineProps {
   spacecraftCode: string;
   isActive: boolean;
@@ -48,8 +23,31 @@ export function SpacecraftTimeline({ spacecraftCode, isActive }: SpacecraftTimel
   const [simulatingMessage, setSimulatingMessage] = useState(false);
   const [messageText, setMessageText] = useState('');
 
-  const spacecraft = SPACECRAFT_INFO[spacecraftCode];
-  if (!spacecraft) return null;
+  const entry = findSpacecraftByDSNCode(spacecraftCode);
+  const { events } = useOrbitEvents(entry?.horizons ? entry.id : undefined);
+  const journey =
+    entry &&
+    mergeOrbitEvents(entry.milestones, events).filter(
+      (milestone) => milestone.distanceAu !== undefined
+    );
+  if (!entry?.tracker || !journey?.length) return null;
+
+  const now = new Date();
+  const distance =
+    calculateMissionData(entry.id, now).currentDistance ?? entry.tracker.distanceAu ?? 0;
+  const spacecraft: SpacecraftData & { name: string } = {
+    name: entry.name,
+    launchDate: new Date(entry.launchDate),
+    distance,
+    milestones: [
+      ...journey.map((milestone) => ({
+        date: new Date(milestone.date),
+        event: milestone.event,
+        distance: milestone.distanceAu,
+      })),
+      { date: now, event: 'Current Position', distance, current: true },
+    ].sort((a, b) => a.date.getTime() - b.date.getTime()),
+  };
 
   const AU_TO_KM = 149597870.7;
   const SPEED_OF_LIGHT = 299792.458; // km/s
@@ -141,7 +139,7 @@ export function SpacecraftTimeline({ spacecraftCode, isActive }: SpacecraftTimel
               className="relative flex items-center mb-3"
             >
               <div className={`absolute left-3 w-2 h-2 rounded-full ${
-                index === spacecraft.milestones.length - 1 
+                milestone.current
                   ? 'bg-green-400 animate-pulse' 
                   : 'bg-blue-400'
               }`}></div>
@@ -3,6 +3,8 @@
 import { motion } from 'framer-motion';
 import type { DSNStation } from '@/lib/api/dsn';
 import { formatTimeInTimezone, getTimezoneAbbreviation } from '@/lib/utils/datetime';
+import { estimateLinkBudget, marginColor } from '@/lib/utils/link-budget';
+import { SpacecraftLink } from '@/components/dsn/SpacecraftLink';
 
 interface StationListProps {
   stations: DSNStation[];
@@ -172,7 +174,7 @@ export function StationList({ stations }: StationListProps) {
                             <span>Elevation:</span>
                             <span className="font-mono text-white">{dish.elevationAngle.toFixed(1)}°</span>
                           </div>
-                          {dish.windSpeed && (
+                          {dish.windSpeed !== undefined && (
                             <div className="flex justify-between">
                               <span>Wind:</span>
                               <span className="font-mono text-white">{dish.windSpeed} km/h</span>
@@ -185,36 +187,59 @@ export function StationList({ stations }: StationListProps) {
                           <div className="border-t border-gray-700 pt-2 space-y-2">
                             {dish.targets
                               .filter(t => t.spacecraft && t.spacecraft.length > 0 && t.spacecraft[0] !== 'DSN')
-                              .map((target, idx) => (
-                                <div key={idx} className="text-xs">
-                                  <div className="font-semibold text-blue-400 mb-1">
-                                    {target.spacecraft?.[0] || target.name}
-                                  </div>
-                                  {target.downSignal && target.downSignal.active && (
-                                    <div className="flex items-center gap-2 text-green-400">
-                                      <span>↓</span>
-                                      <span>{formatDataRate(target.downSignal.dataRate)}</span>
-                                      {target.downSignal.band && (
-                                        <span className="text-gray-500">({target.downSignal.band}-band)</span>
-                                      )}
-                                    </div>
-                                  )}
-                                  {target.upSignal && target.upSignal.active && (
-                                    <div className="flex items-center gap-2 text-orange-400">
-                                      <span>↑</span>
-                                      <span>{formatDataRate(target.upSignal.dataRate)}</span>
-                                      {target.upSignal.band && (
-                                        <span className="text-gray-500">({target.upSignal.band}-band)</span>
-                                      )}
-                                    </div>
-                                  )}
-                                  {target.rtlt && parseFloat(target.rtlt) > 0 && (
-                                    <div className="text-gray-500 mt-1">
-                                      Round-trip: {(parseFloat(target.rtlt) / 60).toFixed(1)} min
+                              .map((target, idx) => {
+                                const linkBudget = target.downSignal?.active
+                                  ? estimateLinkBudget({
+                                      dishName: dish.name,
+                                      band: target.downSignal.band,
+                                      frequency: target.downSignal.frequency,
+                                      power: target.downSignal.power,
+                                      dataRate: target.downSignal.dataRate,
+                                      rangeKm: target.downlegRange,
+                                      elevation: dish.elevationAngle,
+                                    })
+                                  : null;
+
+                                return (
+                                  <div key={idx} className="text-xs">
+                                    <div className="font-semibold text-blue-400 mb-1">
+                                      <SpacecraftLink target={target} />
                                     </div>
-                                  )}
-                                </div>
-                              ))}
+                                    {target.downSignal && target.downSignal.active && (
+                                      <div className="flex items-center gap-2 text-green-400">
+                                        <span>↓</span>
+                                        <span>{formatDataRate(target.downSignal.dataRate)}</span>
+                                        {target.downSignal.band && (
+                                          <span className="text-gray-500">({target.downSignal.band}-band)</span>
+                                        )}
+                                        {linkBudget && (
+                                          <span
+                                            className={`ml-auto font-mono ${marginColor(linkBudget.marginDb)}`}
+                                            title={`Estimated ${linkBudget.marginKind} margin (${linkBudget.dishClass}, C/N0 ${linkBudget.cn0DbHz.toFixed(1)} dB-Hz)`}
+                                          >
+                                            {linkBudget.marginDb >= 0 ? '+' : ''}
+                                            {linkBudget.marginDb.toFixed(1)} dB
+                                          </span>
+                                        )}
+                                      </div>
+                                    )}
+                                    {target.upSignal && target.upSignal.active && (
+                                      <div className="flex items-center gap-2 text-orange-400">
+                                        <span>↑</span>
+                                        <span>{formatDataRate(target.upSignal.dataRate)}</span>
+                                        {target.upSignal.band && (
+                                          <span className="text-gray-500">({target.upSignal.band}-band)</span>
+                                        )}
+                                      </div>
+                                    )}
+                                    {target.rtlt !== undefined && target.rtlt > 0 && (
+                                      <div className="text-gray-500 mt-1">
+                                        Round-trip: {(target.rtlt / 60).toFixed(1)} min
+                                      </div>
+                                    )}
+                                  </div>
+                                );
+                              })}
                           </div>
                         )}
                       </div>
@@ -0,0 +1,246 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { DSNUtilization, SpacecraftUtilization } from '@/lib/utils/dsn-utilization';
+import { getSpacecraftDisplayName } from '@/lib/utils/spacecraft-registry';
+
+const RANGES = [
+  { label: '6 hours', hours: 6 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+const COMPLEX_COLORS: Record<string, string> = {
+  gdscc: 'bg-blue-500',
+  mdscc: 'bg-green-500',
+  cdscc: 'bg-purple-500',
+};
+
+const formatHours = (hours: number) =>
+  hours < 10 ? hours.toFixed(1) : Math.round(hours).toString();
+
+function UtilizationBar({ value, color }: { value: number; color: string }) {
+  return (
+    <div className="h-2 bg-gray-800 rounded overflow-hidden">
+      <div className={`h-full ${color}`} style={{ width: `${Math.min(value * 100, 100)}%` }} />
+    </div>
+  );
+}
+
+function SpacecraftShares({ spacecraft }: { spacecraft: SpacecraftUtilization[] }) {
+  if (spacecraft.length === 0) return <span className="text-gray-600">—</span>;
+
+  return (
+    <span className="text-gray-400">
+      {spacecraft.slice(0, 3).map((sc, idx) => (
+        <span key={sc.spacecraft} title={`${formatHours(sc.hours)} h`}>
+          {idx > 0 && ', '}
+          {getSpacecraftDisplayName(sc.spacecraft)} {Math.round(sc.share * 100)}%
+        </span>
+      ))}
+      {spacecraft.length > 3 && <span className="text-gray-600"> +{spacecraft.length - 3}</span>}
+    </span>
+  );
+}
+
+export function UtilizationPanel() {
+  const [hours, setHours] = useState(24);
+  const [data, setData] = useState<DSNUtilization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Round the window end to the minute so export links match the data shown
+  const [windowEnd, setWindowEnd] = useState(() => Math.floor(Date.now() / 60000) * 60000);
+  const windowStart = windowEnd - hours * 60 * 60 * 1000;
+  const query = `from=${windowStart}&to=${windowEnd}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchUtilization() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/dsn/utilization?${query}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to fetch utilization statistics');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load utilization statistics');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchUtilization();
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const changeRange = (value: number) => {
+    setHours(value);
+    setWindowEnd(Math.floor(Date.now() / 60000) * 60000);
+  };
+
+  return (
+    <div className="bg-gray-900/50 backdrop-blur-sm rounded-lg border border-gray-700 p-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-white">Antenna Utilization</h3>
+          <p className="text-sm text-gray-400">
+            Tracking time per complex and dish from recorded snapshots
+            {data ? ` (${data.snapshots} samples)` : ''}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={hours}
+            onChange={(e) => changeRange(parseInt(e.target.value))}
+            className="bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-white"
+          >
+            {RANGES.map((range) => (
+              <option key={range.hours} value={range.hours}>
+                Last {range.label}
+              </option>
+            ))}
+          </select>
+          <a
+            href={`/api/dsn/utilization?${query}`}
+            download="dsn-utilization.json"
+            className="px-3 py-2 text-sm bg-gray-800 border border-gray-700 rounded text-gray-300 hover:bg-gray-700"
+          >
+            JSON
+          </a>
+          <a
+            href={`/api/dsn/utilization?${query}&format=csv`}
+            className="px-3 py-2 text-sm bg-gray-800 border border-gray-700 rounded text-gray-300 hover:bg-gray-700"
+          >
+            CSV
+          </a>
+        </div>
+      </div>
+
+      {loading && !data ? (
+        <div className="animate-pulse space-y-3">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-10 bg-gray-700 rounded"></div>
+          ))}
+        </div>
+      ) : error || !data ? (
+        <p className="text-red-400 text-sm">{error || 'Utilization statistics unavailable'}</p>
+      ) : data.snapshots === 0 ? (
+        <p className="text-sm text-gray-500">
+          No snapshots recorded in this window yet. Statistics build up while the DSN page or live
+          stream is in use.
+        </p>
+      ) : (
+        <div className={`space-y-4 ${loading ? 'opacity-50' : ''}`}>
+          {data.complexes.map((complex) => {
+            const color = COMPLEX_COLORS[complex.station] || 'bg-gray-500';
+            const dishes = data.dishes
+              .filter((dish) => dish.station === complex.station)
+              .sort((a, b) => b.utilization - a.utilization);
+            const isExpanded = expanded === complex.station;
+
+            return (
+              <div key={complex.station} className="border border-gray-700 rounded-lg">
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : complex.station)}
+                  className="w-full p-4 text-left hover:bg-gray-800/50 transition-colors"
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-semibold text-white">
+                      {complex.stationName || complex.station}
+                      <span className="ml-2 text-xs text-gray-500">{complex.dishCount} dishes</span>
+                    </span>
+                    <span className="text-sm font-mono text-gray-300">
+                      {Math.round(complex.utilization * 100)}% busy
+                    </span>
+                  </div>
+                  <UtilizationBar value={complex.utilization} color={color} />
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+                    <span>
+                      Tracked {formatHours(complex.trackedHours)} of{' '}
+                      {formatHours(complex.sampledHours)} antenna-hours
+                    </span>
+                    <span className="text-green-400">↓ {formatHours(complex.downlinkHours)} h</span>
+                    <span className="text-orange-400">↑ {formatHours(complex.uplinkHours)} h</span>
+                    <SpacecraftShares spacecraft={complex.spacecraft} />
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    className="border-t border-gray-700 p-4 overflow-x-auto"
+                  >
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-700">
+                          <th className="py-2 pr-4">Dish</th>
+                          <th className="py-2 pr-4 w-32">Utilization</th>
+                          <th className="py-2 pr-4">Hours/day</th>
+                          <th className="py-2 pr-4">↓ / ↑ hours</th>
+                          <th className="py-2">Spacecraft share</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {dishes.map((dish) => {
+                          const days = Math.max(dish.sampledHours / 24, 1 / 24);
+                          return (
+                            <tr key={dish.dish} className="border-b border-gray-800 text-gray-300">
+                              <td className="py-2 pr-4 font-mono">{dish.dish}</td>
+                              <td className="py-2 pr-4">
+                                <div className="flex items-center gap-2">
+                                  <div className="flex-1">
+                                    <UtilizationBar value={dish.utilization} color={color} />
+                                  </div>
+                                  <span className="font-mono w-10 text-right">
+                                    {Math.round(dish.utilization * 100)}%
+                                  </span>
+                                </div>
+                              </td>
+                              <td className="py-2 pr-4 font-mono">
+                                {formatHours(Math.min(dish.trackedHours / days, 24))}
+                              </td>
+                              <td className="py-2 pr-4 font-mono">
+                                <span className="text-green-400">
+                                  {formatHours(dish.downlinkHours)}
+                                </span>
+                                {' / '}
+                                <span className="text-orange-400">
+                                  {formatHours(dish.uplinkHours)}
+                                </span>
+                              </td>
+                              <td className="py-2">
+                                <SpacecraftShares spacecraft={dish.spacecraft} />
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </motion.div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
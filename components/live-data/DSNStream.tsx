@@ -3,29 +3,49 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { ListSkeleton } from '@/components/ui/loading-skeleton';
-
-interface DSNConnection {
-  spacecraft: string;
-  station: string;
-  dish: string;
-  dataRate: number;
-  frequency: number;
-  power: number;
-  signalType: string;
-  timestamp: string;
-}
+import { useLiveStream } from '@/hooks/use-live-stream';
+import { getDSNConnections, type DSNConnection } from '@/lib/api/dsn';
+import { findSpacecraftByDSNCode, findSpacecraftById } from '@/lib/utils/spacecraft-registry';
 
 interface DSNStreamProps {
   missionFilter?: string;
+  /** Use the /api/stream push channel, polling only while it is unavailable */
+  subscribe?: boolean;
 }
 
-export function DSNStream({ missionFilter }: DSNStreamProps) {
+export function DSNStream({ missionFilter, subscribe = true }: DSNStreamProps) {
   const [connections, setConnections] = useState<DSNConnection[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const live = useLiveStream(subscribe);
+  const streaming = live.connected && !!live.dsn;
 
   useEffect(() => {
+    if (live.connected && live.dsn) {
+      setConnections(filterConnections(getDSNConnections(live.dsn)));
+      setLoading(false);
+    }
+  }, [live.connected, live.dsn, missionFilter]);
+
+  // Match connections to the mission through the spacecraft registry
+  function filterConnections(all: DSNConnection[]): DSNConnection[] {
+    if (!missionFilter) return all;
+
+    const entry = findSpacecraftById(missionFilter);
+    if (!entry) return all;
+
+    return all.filter(
+      (conn) =>
+        findSpacecraftByDSNCode(conn.spacecraft)?.id === entry.id ||
+        conn.spacecraft.toUpperCase() === entry.name.toUpperCase()
+    );
+  }
+
+  useEffect(() => {
+    // The live stream pushes updates; only poll until it has delivered DSN state
+    if (streaming) return;
+
     async function fetchDSNData(isRefresh = false) {
       try {
         if (isRefresh) {
@@ -43,35 +63,7 @@ export function DSNStream({ missionFilter }: DSNStreamProps) {
 
         if (data && data.connections) {
           // Filter connections based on mission if filter is provided
-          let filteredConnections = data.connections;
-
-          if (missionFilter) {
-            // Map mission IDs to spacecraft names - more flexible matching
-            const missionMapping: Record<string, string[]> = {
-              perseverance: ['MARS2020', 'M20', 'PERSEVERANCE', 'MARS 2020', 'PERCY'],
-              curiosity: ['MSL', 'CURIOSITY', 'MARS SCIENCE', 'MARS_SCIENCE'],
-              'voyager-1': ['VOYAGER1', 'VGR1', 'VOYAGER 1', 'VOYAGER_1', 'VGR 1'],
-              'voyager-2': ['VOYAGER2', 'VGR2', 'VOYAGER 2', 'VOYAGER_2', 'VGR 2'],
-              'parker-solar-probe': ['PSP', 'PARKER', 'PARKER SOLAR', 'SOLAR PROBE', 'SPP'],
-            };
-
-            const searchTerms = missionMapping[missionFilter] || [];
-
-            if (searchTerms.length > 0) {
-              filteredConnections = data.connections.filter((conn: DSNConnection) => {
-                const spacecraftUpper = conn.spacecraft.toUpperCase().replace(/[-_]/g, ' ');
-                return searchTerms.some((term) => spacecraftUpper.includes(term));
-              });
-
-              // Debug logging
-              console.log(`DSN Filter: ${missionFilter}`);
-              console.log(
-                'Available spacecraft:',
-                data.connections.map((c: DSNConnection) => c.spacecraft)
-              );
-              console.log('Filtered connections:', filteredConnections.length);
-            }
-          }
+          const filteredConnections = filterConnections(data.connections);
 
           setConnections(filteredConnections);
           setError(
@@ -94,7 +86,7 @@ export function DSNStream({ missionFilter }: DSNStreamProps) {
     fetchDSNData();
     const interval = setInterval(() => fetchDSNData(true), 30000); // Update every 30 seconds
     return () => clearInterval(interval);
-  }, [missionFilter]);
+  }, [missionFilter, streaming]);
 
   const getSignalStrength = (power: number) => {
     if (power > -100) return 'text-green-400';
@@ -30,18 +30,14 @@ export function ISSTracker() {
   useEffect(() => {
     async function fetchISSData() {
       try {
-        // Fetch ISS position (real-time, no auth required)
-        const posResponse = await fetch('https://api.wheretheiss.at/v1/satellites/25544');
-        if (posResponse.ok) {
-          const posData = await posResponse.json();
-          setPosition(posData);
-        }
-
-        // Fetch crew data (real-time, no auth required)
-        const crewResponse = await fetch('http://api.open-notify.org/astros.json');
-        if (crewResponse.ok) {
-          const crewData = await crewResponse.json();
-          setCrew(crewData.people.filter((person: ISSCrew) => person.craft === 'ISS'));
+        // Position and crew come through our proxy (wheretheiss.at and Open Notify)
+        const response = await fetch('/api/iss');
+        if (response.ok) {
+          const data: { position: ISSPosition; crew: ISSCrew[] | null } = await response.json();
+          setPosition(data.position);
+          if (data.crew) {
+            setCrew(data.crew);
+          }
         }
       } catch (error) {
         console.error('Failed to fetch ISS data:', error);
@@ -0,0 +1,404 @@
+'use client';
+
+import { useEffect, useState, type ReactNode } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { formatRelativeTime } from '@/lib/utils/datetime';
+import {
+  findMissionById,
+  formatMilestoneDate,
+  getPositionTrackedIds,
+  PHASE_LABELS,
+} from '@/lib/utils/mission-catalog';
+import { calculateCommunicationDelay } from '@/lib/utils/mission-tracking';
+import { getMissionPath } from '@/lib/utils/spacecraft-registry';
+import {
+  CONTACT_LOOKBACK_DAYS,
+  MAX_COMPARED,
+  MIN_COMPARED,
+  type SpacecraftComparisonRow,
+} from '@/lib/utils/spacecraft-comparison';
+
+interface ComparisonResponse {
+  success: boolean;
+  spacecraft: SpacecraftComparisonRow[];
+  warnings: string[];
+  message?: string;
+}
+
+interface SpacecraftComparisonProps {
+  /** Selection from the page URL */
+  initialIds: string[];
+}
+
+type ChartMetric =
+  | 'earthDistanceKm'
+  | 'sunDistanceKm'
+  | 'geocentricSpeedKms'
+  | 'lightTimeSeconds'
+  | 'missionElapsedDays';
+
+const AU_KM = 149597870.7;
+
+// Column and bar color of each selected spacecraft, by position in the selection
+const COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa'];
+
+const AVAILABLE = getPositionTrackedIds().map((id) => {
+  const mission = findMissionById(id);
+  return { id, name: mission?.name ?? id, path: mission ? getMissionPath(mission) : null };
+});
+
+const formatDistance = (km: number | null) =>
+  km === null
+    ? '—'
+    : km >= 0.1 * AU_KM
+      ? `${(km / AU_KM).toFixed(2)} AU`
+      : `${Math.round(km).toLocaleString('en-US')} km`;
+
+const formatElapsed = (days: number, years: number) =>
+  years >= 1
+    ? `${years} years (${days.toLocaleString('en-US')} days)`
+    : `${days.toLocaleString('en-US')} days`;
+
+const CHART_METRICS: Record<
+  ChartMetric,
+  { label: string; format: (row: SpacecraftComparisonRow) => string }
+> = {
+  earthDistanceKm: { label: 'From Earth', format: (row) => formatDistance(row.earthDistanceKm) },
+  sunDistanceKm: { label: 'From Sun', format: (row) => formatDistance(row.sunDistanceKm) },
+  geocentricSpeedKms: {
+    label: 'Speed',
+    format: (row) =>
+      row.geocentricSpeedKms === null ? '—' : `${row.geocentricSpeedKms.toFixed(2)} km/s`,
+  },
+  lightTimeSeconds: {
+    label: 'Light time',
+    format: (row) =>
+      row.earthDistanceKm === null
+        ? '—'
+        : calculateCommunicationDelay(row.earthDistanceKm / AU_KM).formattedDelay,
+  },
+  missionElapsedDays: {
+    label: 'Mission elapsed',
+    format: (row) => formatElapsed(row.missionElapsedDays, row.missionElapsedYears),
+  },
+};
+
+const CHART_METRIC_IDS = Object.keys(CHART_METRICS) as ChartMetric[];
+
+/**
+ * Side-by-side comparison of two to five tracked spacecraft. The selection is kept in
+ * the URL (?ids=a,b,c) so a comparison can be shared as a link.
+ */
+export function SpacecraftComparison({ initialIds }: SpacecraftComparisonProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string[]>(() =>
+    initialIds.filter((id) => AVAILABLE.some((s) => s.id === id)).slice(0, MAX_COMPARED)
+  );
+  const [data, setData] = useState<ComparisonResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [chartMetric, setChartMetric] = useState<ChartMetric>('earthDistanceKm');
+  const [logScale, setLogScale] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  const ids = selected.join(',');
+  const selectedCount = selected.length;
+
+  // Keep the URL in step with the selection so the address bar is the share link
+  useEffect(() => {
+    router.replace(ids ? `/missions/compare?ids=${ids}` : '/missions/compare', { scroll: false });
+  }, [ids, router]);
+
+  useEffect(() => {
+    if (selectedCount < MIN_COMPARED) return;
+    let cancelled = false;
+
+    async function fetchComparison() {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/spacecraft/compare?ids=${ids}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to compare spacecraft');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load comparison');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchComparison();
+    return () => {
+      cancelled = true;
+    };
+  }, [ids, selectedCount]);
+
+  const toggle = (id: string) => {
+    setSelected((current) =>
+      current.includes(id)
+        ? current.filter((s) => s !== id)
+        : current.length < MAX_COMPARED
+          ? [...current, id]
+          : current
+    );
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked; the address bar still holds the link
+    }
+  };
+
+  // Rows in selection order; a response for an older selection is ignored
+  const rows = selected
+    .map((id) => data?.spacecraft.find((row) => row.id === id))
+    .filter((row): row is SpacecraftComparisonRow => !!row);
+  const colorOf = (id: string) => COLORS[selected.indexOf(id) % COLORS.length];
+  const pathOf = (id: string) => AVAILABLE.find((s) => s.id === id)?.path ?? null;
+
+  const tableRows: Array<{ label: string; cell: (row: SpacecraftComparisonRow) => ReactNode }> = [
+    { label: 'Status', cell: (row) => PHASE_LABELS[row.phase] },
+    { label: 'Location', cell: (row) => row.location ?? '—' },
+    {
+      label: 'Launch date',
+      cell: (row) =>
+        new Date(row.launchDate).toLocaleDateString('en-US', {
+          year: 'numeric',
+          month: 'short',
+          day: 'numeric',
+          timeZone: 'UTC',
+        }),
+    },
+    { label: 'Mission elapsed', cell: CHART_METRICS.missionElapsedDays.format },
+    { label: 'Distance from Earth', cell: CHART_METRICS.earthDistanceKm.format },
+    { label: 'Distance from Sun', cell: CHART_METRICS.sunDistanceKm.format },
+    { label: 'Speed (relative to Earth)', cell: CHART_METRICS.geocentricSpeedKms.format },
+    { label: 'One-way light time', cell: CHART_METRICS.lightTimeSeconds.format },
+    {
+      label: 'Last DSN contact',
+      cell: (row) =>
+        row.lastContact ? (
+          <span>
+            <span className={row.lastContact.live ? 'text-green-400' : ''}>
+              {row.lastContact.live ? 'In contact now' : formatRelativeTime(row.lastContact.time)}
+            </span>
+            <span className="block text-xs text-gray-500">
+              {row.lastContact.station} • {row.lastContact.dish}
+            </span>
+          </span>
+        ) : (
+          <span className="text-gray-500">None in the last {CONTACT_LOOKBACK_DAYS} days</span>
+        ),
+    },
+    {
+      label: 'Upcoming events',
+      cell: (row) =>
+        row.upcomingEvents.length === 0 ? (
+          <span className="text-gray-500">None scheduled</span>
+        ) : (
+          <ul className="space-y-1">
+            {row.upcomingEvents.map((event) => (
+              <li key={`${event.date}-${event.title}`}>
+                <span className="font-mono text-xs text-blue-400">
+                  {formatMilestoneDate({
+                    date: event.date,
+                    event: event.title,
+                    estimated: event.estimated,
+                  })}
+                </span>{' '}
+                {event.title}
+              </li>
+            ))}
+          </ul>
+        ),
+    },
+  ];
+
+  // Bar lengths; the log scale keeps Parker near 1 AU visible next to Voyager past 160
+  const chartValues = rows.map((row) => row[chartMetric]);
+  const present = chartValues.filter((v): v is number => v !== null && v > 0);
+  const max = present.length > 0 ? Math.max(...present) : 1;
+  const floor = present.length > 0 ? Math.min(...present) / 10 : 1;
+  const barWidth = (value: number | null) => {
+    if (value === null || value <= 0) return 0;
+    if (!logScale) return (value / max) * 100;
+    return (Math.log(value / floor) / Math.log(max / floor)) * 100;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Selection */}
+      <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <p className="text-sm text-gray-400">
+            Pick {MIN_COMPARED} to {MAX_COMPARED} spacecraft ({selected.length} selected)
+          </p>
+          <button
+            onClick={copyLink}
+            disabled={selected.length < MIN_COMPARED}
+            className="px-3 py-1.5 text-sm bg-gray-800 border border-gray-700 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-50"
+          >
+            {copied ? 'Link copied' : 'Copy link'}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {AVAILABLE.map((spacecraft) => {
+            const isSelected = selected.includes(spacecraft.id);
+            return (
+              <button
+                key={spacecraft.id}
+                onClick={() => toggle(spacecraft.id)}
+                disabled={!isSelected && selected.length >= MAX_COMPARED}
+                className={`px-3 py-1 rounded-full text-sm border disabled:opacity-40 ${
+                  isSelected
+                    ? 'bg-gray-800 text-white'
+                    : 'border-gray-700 text-gray-400 hover:text-white'
+                }`}
+                style={isSelected ? { borderColor: colorOf(spacecraft.id) } : undefined}
+              >
+                {spacecraft.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {selected.length < MIN_COMPARED ? (
+        <p className="text-gray-500 text-center py-12">
+          Select at least {MIN_COMPARED} spacecraft to compare them.
+        </p>
+      ) : error && rows.length === 0 ? (
+        <p className="text-red-400 text-sm">{error}</p>
+      ) : rows.length === 0 ? (
+        <div className="animate-pulse h-64 bg-gray-900 rounded-lg border border-gray-700"></div>
+      ) : (
+        <div className={`space-y-6 ${loading ? 'opacity-50' : ''}`}>
+          {/* Table */}
+          <div className="bg-gray-900 rounded-lg border border-gray-700 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="p-3 text-left text-gray-500 font-normal w-44"></th>
+                  {rows.map((row) => (
+                    <th key={row.id} className="p-3 text-left align-top">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="w-2.5 h-2.5 rounded-full"
+                          style={{ backgroundColor: colorOf(row.id) }}
+                        />
+                        {pathOf(row.id) ? (
+                          <Link href={pathOf(row.id)!} className="text-white hover:text-blue-400">
+                            {row.name}
+                          </Link>
+                        ) : (
+                          <span className="text-white">{row.name}</span>
+                        )}
+                        <button
+                          onClick={() => toggle(row.id)}
+                          className="ml-auto text-gray-500 hover:text-white"
+                          aria-label={`Remove ${row.name}`}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {tableRows.map(({ label, cell }) => (
+                  <tr key={label} className="border-b border-gray-800 last:border-0">
+                    <td className="p-3 text-gray-500 align-top">{label}</td>
+                    {rows.map((row) => (
+                      <td key={row.id} className="p-3 text-gray-200 align-top">
+                        {cell(row)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Chart */}
+          <div className="bg-gray-900 rounded-lg border border-gray-700 p-4">
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {CHART_METRIC_IDS.map((metric) => (
+                <button
+                  key={metric}
+                  onClick={() => setChartMetric(metric)}
+                  className={`px-3 py-1 rounded text-sm ${
+                    chartMetric === metric
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:text-white'
+                  }`}
+                >
+                  {CHART_METRICS[metric].label}
+                </button>
+              ))}
+              <label className="ml-auto flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={logScale}
+                  onChange={(e) => setLogScale(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                Logarithmic scale
+              </label>
+            </div>
+            <div className="space-y-3">
+              {rows.map((row) => (
+                <div key={row.id} className="grid grid-cols-[10rem_1fr_9rem] items-center gap-3">
+                  <span className="text-sm text-gray-300 truncate">{row.name}</span>
+                  <div className="h-4 bg-gray-800 rounded overflow-hidden">
+                    <div
+                      className="h-full rounded transition-all duration-500"
+                      style={{
+                        width: `${barWidth(row[chartMetric])}%`,
+                        backgroundColor: colorOf(row.id),
+                      }}
+                    />
+                  </div>
+                  <span className="text-sm font-mono text-right text-white">
+                    {CHART_METRICS[chartMetric].format(row)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Sources */}
+          <div className="text-xs text-gray-500 space-y-1">
+            {rows.map((row) =>
+              row.positionSource || row.warnings.length > 0 ? (
+                <p key={row.id}>
+                  {row.name}: {row.positionSource ?? 'no position'}
+                  {row.warnings.length > 0 && (
+                    <span className="text-yellow-500"> ({row.warnings.join('; ')})</span>
+                  )}
+                </p>
+              ) : null
+            )}
+            {data && data.warnings.length > 0 && (
+              <p className="text-yellow-500">{data.warnings.join('; ')}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,526 @@
+'use client';
+
+import { useEffect, useMemo, useState, type MouseEvent } from 'react';
+import { formatUTC } from '@/lib/utils/datetime';
+import {
+  HISTORY_METRICS,
+  type HistoryMetric,
+  type HistoryPoint,
+  type SpacecraftHistory,
+} from '@/lib/utils/spacecraft-history';
+
+interface HistoryResponse extends SpacecraftHistory {
+  success: boolean;
+  count: number;
+  message?: string;
+}
+
+interface SpacecraftHistoryChartProps {
+  spacecraftId: string;
+  /** Enables the "Since launch" range (ISO date) */
+  launchDate?: string;
+  className?: string;
+}
+
+interface Span {
+  start: number;
+  stop: number;
+}
+
+interface DisplayUnit {
+  unit: string;
+  divisor: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const AU_KM = 149597870.7;
+
+// Chart geometry (SVG user units; the chart scales to its container)
+const WIDTH = 800;
+const HEIGHT = 280;
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 64 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// Shortest span a drag can zoom to; the API's finest automatic step is an hour
+const MIN_ZOOM_MS = 6 * HOUR_MS;
+
+const RANGES: Array<{ id: string; label: string; span: (now: number) => Span }> = [
+  { id: 'month', label: 'Past 30 days', span: (now) => ({ start: now - 30 * DAY_MS, stop: now }) },
+  { id: 'year', label: 'Past year', span: (now) => ({ start: now - 365 * DAY_MS, stop: now }) },
+  {
+    id: 'decade',
+    label: 'Past 10 years',
+    span: (now) => ({ start: now - 3652 * DAY_MS, stop: now }),
+  },
+  {
+    id: 'next-year',
+    label: 'Next year',
+    span: (now) => ({ start: now, stop: now + 365 * DAY_MS }),
+  },
+  {
+    id: 'next-decade',
+    label: 'Next 10 years',
+    span: (now) => ({ start: now, stop: now + 3652 * DAY_MS }),
+  },
+];
+
+const METRICS = Object.keys(HISTORY_METRICS) as HistoryMetric[];
+
+// Round to the hour so export links and cache keys stay stable between renders
+const currentHour = () => Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+
+function displayUnit(metric: HistoryMetric, value: number): DisplayUnit {
+  if (metric === 'earthDistanceKm' || metric === 'sunDistanceKm') {
+    if (value >= 0.1 * AU_KM) return { unit: 'AU', divisor: AU_KM };
+    if (value >= 1e6) return { unit: 'million km', divisor: 1e6 };
+    return { unit: 'km', divisor: 1 };
+  }
+  if (metric === 'lightTimeSeconds') {
+    if (value >= 2 * 3600) return { unit: 'hours', divisor: 3600 };
+    if (value >= 120) return { unit: 'minutes', divisor: 60 };
+    return { unit: 'seconds', divisor: 1 };
+  }
+  return { unit: 'km/s', divisor: 1 };
+}
+
+function formatNumber(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1000) return Math.round(value).toLocaleString('en-US');
+  return value.toFixed(abs >= 10 ? 2 : 3);
+}
+
+function formatMetric(metric: HistoryMetric, value: number): string {
+  const { unit, divisor } = displayUnit(metric, value);
+  return `${formatNumber(value / divisor)} ${unit}`;
+}
+
+/**
+ * About `count` round-numbered ticks covering [min, max]
+ */
+function niceTicks(min: number, max: number, count: number): { values: number[]; digits: number } {
+  const raw = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= raw) ?? 10 * magnitude;
+  const digits = Math.max(0, -Math.floor(Math.log10(step)));
+
+  const values: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9; value += step) {
+    values.push(Number(value.toFixed(digits)));
+  }
+  return { values, digits };
+}
+
+function formatAxisTime(time: number, spanMs: number): string {
+  const options: Intl.DateTimeFormatOptions =
+    spanMs > 3 * 365 * DAY_MS
+      ? { year: 'numeric' }
+      : spanMs > 90 * DAY_MS
+        ? { month: 'short', year: 'numeric' }
+        : spanMs > 3 * DAY_MS
+          ? { month: 'short', day: 'numeric' }
+          : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false };
+  return new Date(time).toLocaleString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+const toDateInput = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Distance from Earth and Sun, speed and light time over a chosen span from Horizons.
+ * Drag across the chart to zoom (the zoomed span is fetched again at a finer step),
+ * hover for readouts; the export links download exactly the span shown.
+ */
+export function SpacecraftHistoryChart({
+  spacecraftId,
+  launchDate,
+  className = '',
+}: SpacecraftHistoryChartProps) {
+  const ranges = useMemo(() => {
+    const launch = launchDate ? Date.parse(launchDate) : NaN;
+    if (isNaN(launch)) return RANGES;
+    return [
+      ...RANGES.slice(0, 3),
+      {
+        id: 'launch',
+        label: 'Since launch',
+        span: (now: number) => ({ start: launch, stop: now }),
+      },
+      ...RANGES.slice(3),
+    ];
+  }, [launchDate]);
+
+  const [rangeId, setRangeId] = useState('year');
+  const [baseSpan, setBaseSpan] = useState<Span>(() => RANGES[1].span(currentHour()));
+  const [span, setSpan] = useState<Span>(baseSpan);
+  const [metric, setMetric] = useState<HistoryMetric>('earthDistanceKm');
+
+  const [data, setData] = useState<HistoryResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
+  const query = `start=${span.start}&stop=${span.stop}`;
+  const endpoint = `/api/spacecraft/${spacecraftId}/history?${query}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchHistory() {
+      setLoading(true);
+      try {
+        const response = await fetch(endpoint);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to fetch trajectory history');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+          setHoverIndex(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load trajectory history');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint]);
+
+  const selectRange = (id: string) => {
+    const range = ranges.find((r) => r.id === id);
+    if (!range) return;
+    const next = range.span(currentHour());
+    setRangeId(id);
+    setBaseSpan(next);
+    setSpan(next);
+  };
+
+  const setCustomDate = (edge: keyof Span, value: string) => {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    if (isNaN(time)) return;
+    const next = { ...span, [edge]: time };
+    if (next.start >= next.stop) return;
+    setRangeId('custom');
+    setBaseSpan(next);
+    setSpan(next);
+  };
+
+  const points = useMemo<HistoryPoint[]>(() => data?.points ?? [], [data]);
+  const times = useMemo(() => points.map((p) => Date.parse(p.time)), [points]);
+
+  const chart = useMemo(() => {
+    if (points.length < 2) return null;
+
+    const values = points.map((p) => p[metric]);
+    const unit = displayUnit(metric, Math.max(...values));
+    const scaled = values.map((v) => v / unit.divisor);
+
+    let min = Math.min(...scaled);
+    let max = Math.max(...scaled);
+    const pad = (max - min) * 0.05 || Math.abs(max) * 0.01 || 1;
+    min -= pad;
+    max += pad;
+
+    const first = times[0];
+    const last = times[times.length - 1];
+    const x = (time: number) => MARGIN.left + ((time - first) / (last - first)) * PLOT_WIDTH;
+    const y = (value: number) => MARGIN.top + ((max - value) / (max - min)) * PLOT_HEIGHT;
+
+    const path = scaled
+      .map((v, k) => `${k === 0 ? 'M' : 'L'}${x(times[k]).toFixed(1)},${y(v).toFixed(1)}`)
+      .join(' ');
+
+    return { unit, scaled, first, last, x, y, path, yTicks: niceTicks(min, max, 5) };
+  }, [points, times, metric]);
+
+  // Time under the pointer, clamped to the plotted span
+  const timeAt = (event: MouseEvent<SVGSVGElement>): number | null => {
+    if (!chart) return null;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const f = Math.min(Math.max((svgX - MARGIN.left) / PLOT_WIDTH, 0), 1);
+    return chart.first + f * (chart.last - chart.first);
+  };
+
+  const nearestIndex = (time: number): number => {
+    let low = 0;
+    let high = times.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (times[mid] <= time) low = mid;
+      else high = mid;
+    }
+    return time - times[low] < times[high] - time ? low : high;
+  };
+
+  const handleMouseMove = (event: MouseEvent<SVGSVGElement>) => {
+    const time = timeAt(event);
+    if (time === null) return;
+    setHoverIndex(nearestIndex(time));
+    if (drag) setDrag({ ...drag, to: time });
+  };
+
+  const handleMouseUp = () => {
+    if (!drag) return;
+    const start = Math.round(Math.min(drag.from, drag.to) / MINUTE_MS) * MINUTE_MS;
+    const stop = Math.round(Math.max(drag.from, drag.to) / MINUTE_MS) * MINUTE_MS;
+    setDrag(null);
+    if (stop - start >= MIN_ZOOM_MS) setSpan({ start, stop });
+  };
+
+  const zoomed = span.start !== baseSpan.start || span.stop !== baseSpan.stop;
+  const clipped =
+    !loading && data && (Date.parse(data.start) > span.start || Date.parse(data.stop) < span.stop);
+  const hovered = hoverIndex !== null ? points[hoverIndex] : undefined;
+  const now = Date.now();
+
+  return (
+    <div className={`rounded-lg p-6 bg-gray-900 border border-gray-700 ${className}`}>
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3 mb-4">
+        <div>
+          <h4 className="text-lg font-semibold text-white">Distance &amp; Velocity History</h4>
+          <p className="text-xs text-gray-500">
+            JPL Horizons trajectory, times in UTC{data ? ` (${data.step} step)` : ''}. Drag across
+            the chart to zoom.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <a
+            href={endpoint}
+            download={`${spacecraftId}-history.json`}
+            className="px-3 py-1.5 text-sm bg-gray-800 border border-gray-700 rounded text-gray-300 hover:bg-gray-700"
+          >
+            JSON
+          </a>
+          <a
+            href={`${endpoint}&format=csv`}
+            className="px-3 py-1.5 text-sm bg-gray-800 border border-gray-700 rounded text-gray-300 hover:bg-gray-700"
+          >
+            CSV
+          </a>
+        </div>
+      </div>
+
+      {/* Range */}
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {ranges.map((range) => (
+          <button
+            key={range.id}
+            onClick={() => selectRange(range.id)}
+            className={`px-3 py-1 rounded text-sm ${
+              rangeId === range.id
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-800 text-gray-300 hover:text-white'
+            }`}
+          >
+            {range.label}
+          </button>
+        ))}
+        <span className="flex items-center gap-1 text-sm text-gray-400">
+          <input
+            type="date"
+            value={toDateInput(span.start)}
+            onChange={(e) => setCustomDate('start', e.target.value)}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+            aria-label="Range start (UTC)"
+          />
+          to
+          <input
+            type="date"
+            value={toDateInput(span.stop)}
+            onChange={(e) => setCustomDate('stop', e.target.value)}
+            className="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+            aria-label="Range end (UTC)"
+          />
+        </span>
+        {zoomed && (
+          <button
+            onClick={() => setSpan(baseSpan)}
+            className="px-3 py-1 rounded text-sm bg-gray-800 text-blue-300 hover:text-white"
+          >
+            Reset zoom
+          </button>
+        )}
+      </div>
+
+      {/* Metric */}
+      <div className="flex flex-wrap gap-1 mb-3 border-b border-gray-700">
+        {METRICS.map((m) => (
+          <button
+            key={m}
+            onClick={() => setMetric(m)}
+            className={`px-3 py-1.5 text-sm -mb-px border-b-2 ${
+              metric === m
+                ? 'border-blue-400 text-white'
+                : 'border-transparent text-gray-400 hover:text-white'
+            }`}
+          >
+            {HISTORY_METRICS[m].label}
+          </button>
+        ))}
+      </div>
+
+      {error && !data ? (
+        <p className="text-red-400 text-sm">{error}</p>
+      ) : loading && !data ? (
+        <div className="animate-pulse h-64 bg-gray-800 rounded"></div>
+      ) : !chart ? (
+        <p className="text-sm text-gray-500 py-8 text-center">
+          Horizons has no trajectory for this spacecraft in the selected range.
+        </p>
+      ) : (
+        <div className={loading ? 'opacity-50' : ''}>
+          <p className="text-xs text-gray-400 mb-1">
+            {HISTORY_METRICS[metric].description} ({chart.unit.unit})
+          </p>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto select-none cursor-crosshair"
+            onMouseDown={(e) => {
+              const time = timeAt(e);
+              if (time !== null) setDrag({ from: time, to: time });
+            }}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => {
+              setHoverIndex(null);
+              setDrag(null);
+            }}
+          >
+            {/* Value grid */}
+            {chart.yTicks.values.map((value) => (
+              <g key={value}>
+                <line
+                  x1={MARGIN.left}
+                  x2={WIDTH - MARGIN.right}
+                  y1={chart.y(value)}
+                  y2={chart.y(value)}
+                  stroke="#374151"
+                  strokeWidth={1}
+                />
+                <text
+                  x={MARGIN.left - 8}
+                  y={chart.y(value) + 4}
+                  textAnchor="end"
+                  fontSize={11}
+                  fill="#9ca3af"
+                >
+                  {value.toFixed(chart.yTicks.digits)}
+                </text>
+              </g>
+            ))}
+
+            {/* Time axis */}
+            {[0, 1, 2, 3, 4, 5].map((k) => {
+              const time = chart.first + (k / 5) * (chart.last - chart.first);
+              return (
+                <text
+                  key={k}
+                  x={chart.x(time)}
+                  y={HEIGHT - 8}
+                  textAnchor={k === 0 ? 'start' : k === 5 ? 'end' : 'middle'}
+                  fontSize={11}
+                  fill="#9ca3af"
+                >
+                  {formatAxisTime(time, chart.last - chart.first)}
+                </text>
+              );
+            })}
+
+            {/* Past and predicted parts of the span */}
+            {now > chart.first && now < chart.last && (
+              <g>
+                <line
+                  x1={chart.x(now)}
+                  x2={chart.x(now)}
+                  y1={MARGIN.top}
+                  y2={HEIGHT - MARGIN.bottom}
+                  stroke="#f59e0b"
+                  strokeDasharray="4 4"
+                />
+                <text x={chart.x(now) + 4} y={MARGIN.top + 10} fontSize={10} fill="#f59e0b">
+                  Now
+                </text>
+              </g>
+            )}
+
+            <path d={chart.path} fill="none" stroke="#60a5fa" strokeWidth={2} />
+
+            {drag && (
+              <rect
+                x={chart.x(Math.min(drag.from, drag.to))}
+                y={MARGIN.top}
+                width={Math.abs(chart.x(drag.to) - chart.x(drag.from))}
+                height={PLOT_HEIGHT}
+                fill="#3b82f6"
+                fillOpacity={0.15}
+              />
+            )}
+
+            {hoverIndex !== null && (
+              <g>
+                <line
+                  x1={chart.x(times[hoverIndex])}
+                  x2={chart.x(times[hoverIndex])}
+                  y1={MARGIN.top}
+                  y2={HEIGHT - MARGIN.bottom}
+                  stroke="#6b7280"
+                />
+                <circle
+                  cx={chart.x(times[hoverIndex])}
+                  cy={chart.y(chart.scaled[hoverIndex])}
+                  r={4}
+                  fill="#60a5fa"
+                />
+              </g>
+            )}
+          </svg>
+
+          {/* Readout */}
+          <div className="mt-2 min-h-[3rem] text-xs">
+            {hovered ? (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1">
+                <span className="font-mono text-white col-span-2 md:col-span-3">
+                  {formatUTC(hovered.time, { showSeconds: false })}
+                </span>
+                {METRICS.map((m) => (
+                  <span key={m} className={m === metric ? 'text-blue-300' : 'text-gray-400'}>
+                    {HISTORY_METRICS[m].description}:{' '}
+                    <span className="font-mono">{formatMetric(m, hovered[m])}</span>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <span className="text-gray-500">
+                {points.length} samples from {formatUTC(points[0].time, { showTime: false })} to{' '}
+                {formatUTC(points[points.length - 1].time, { showTime: false })}
+              </span>
+            )}
+          </div>
+
+          {clipped && (
+            <p className="mt-2 text-xs text-yellow-500">
+              Horizons only covers part of this range for this spacecraft; the chart and exports are
+              cut to its ephemeris.
+            </p>
+          )}
+          {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
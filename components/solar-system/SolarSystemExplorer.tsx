@@ -0,0 +1,359 @@
+'use client';
+
+import { useEffect, useMemo, useState, type ComponentType } from 'react';
+import { formatLocalDate } from '@/lib/utils/datetime';
+import {
+  stateAt,
+  type DistanceScale,
+  type SceneBody,
+  type SceneBodyKind,
+} from '@/lib/utils/solar-system-scene';
+import type { SolarSystemScene3DProps } from './SolarSystemScene3D';
+
+interface SceneResponse {
+  success: boolean;
+  start: string;
+  stop: string;
+  step: string;
+  bodies: SceneBody[];
+  message?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AU_KM = 149597870.7;
+
+const RANGES = [
+  {
+    id: 'now',
+    label: '±1 year',
+    start: () => Date.now() - 365 * DAY_MS,
+    stop: () => Date.now() + 365 * DAY_MS,
+  },
+  {
+    id: 'decade',
+    label: 'Next 10 years',
+    start: () => Date.now(),
+    stop: () => Date.now() + 3652 * DAY_MS,
+  },
+  { id: 'voyager', label: 'Since 1977', start: () => Date.UTC(1977, 8, 6), stop: () => Date.now() },
+] as const;
+
+type RangeId = (typeof RANGES)[number]['id'];
+
+// Playback rates (days of scene time per second)
+const SPEEDS = [1, 10, 30, 100, 365];
+
+const KIND_LABELS: Record<SceneBodyKind, string> = {
+  planet: 'Planets',
+  spacecraft: 'Spacecraft',
+  asteroid: 'Asteroids',
+  interstellar: 'Interstellar Objects',
+};
+
+export function SolarSystemExplorer() {
+  const [Scene3D, setScene3D] = useState<ComponentType<SolarSystemScene3DProps> | null>(null);
+  const [range, setRange] = useState<RangeId>('now');
+  const [data, setData] = useState<SceneResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [time, setTime] = useState(() => Date.now());
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1]);
+  const [scale, setScale] = useState<DistanceScale>('log');
+  const [showOrbits, setShowOrbits] = useState(true);
+  const [focusId, setFocusId] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Only load Three.js components on client side
+    import('./SolarSystemScene3D').then((mod) => {
+      setScene3D(() => mod.default);
+    });
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchScene() {
+      setLoading(true);
+      setPlaying(false);
+      try {
+        const selected = RANGES.find((r) => r.id === range)!;
+        const start = Math.round(selected.start());
+        const stop = Math.round(selected.stop());
+        const response = await fetch(`/api/solar-system?start=${start}&stop=${stop}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || 'Failed to load solar system ephemerides');
+        }
+
+        if (!cancelled) {
+          setData(result);
+          setError(null);
+          // Open at the present when it is in the window, otherwise at the start
+          const now = Date.now();
+          const first = Date.parse(result.start);
+          const last = Date.parse(result.stop);
+          setTime(now >= first && now <= last ? now : first);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load solar system ephemerides');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchScene();
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const bounds = useMemo(
+    () => (data ? { start: Date.parse(data.start), stop: Date.parse(data.stop) } : null),
+    [data]
+  );
+
+  useEffect(() => {
+    if (!playing || !bounds) return;
+
+    const interval = setInterval(() => {
+      setTime((current) => {
+        const next = current + speed * DAY_MS * 0.05;
+        if (next >= bounds.stop) {
+          setPlaying(false);
+          return bounds.stop;
+        }
+        return next;
+      });
+    }, 50);
+
+    return () => clearInterval(interval);
+  }, [playing, speed, bounds]);
+
+  const bodies = data?.bodies ?? [];
+  const focused = bodies.find((body) => body.id === focusId);
+  const focusedState = focused && stateAt(focused.samples, time);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <div className="lg:col-span-3 space-y-4">
+        <div className="relative h-[600px] bg-black rounded-lg border border-gray-700 overflow-hidden">
+          {Scene3D && data ? (
+            <Scene3D
+              bodies={bodies}
+              time={time}
+              scale={scale}
+              showOrbits={showOrbits}
+              focusId={focusId}
+              onFocus={setFocusId}
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center">
+              <div className={error ? 'text-red-400' : 'text-gray-400'}>
+                {error ||
+                  (loading
+                    ? 'Loading ephemerides from JPL Horizons...'
+                    : 'Loading 3D visualization...')}
+              </div>
+            </div>
+          )}
+          {loading && data && (
+            <div className="absolute top-3 right-3 px-3 py-1 rounded bg-gray-900/80 text-xs text-gray-300">
+              Loading...
+            </div>
+          )}
+        </div>
+
+        {/* Time scrubber */}
+        <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-4">
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <button
+              onClick={() => {
+                if (bounds && time >= bounds.stop) setTime(bounds.start);
+                setPlaying(!playing);
+              }}
+              disabled={!bounds}
+              className="px-4 py-1.5 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 text-sm"
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <select
+              value={speed}
+              onChange={(e) => setSpeed(Number(e.target.value))}
+              className="px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-white text-sm"
+              aria-label="Playback speed"
+            >
+              {SPEEDS.map((s) => (
+                <option key={s} value={s}>
+                  {s} days/s
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setTime(Date.now())}
+              disabled={!bounds || Date.now() < bounds.start || Date.now() > bounds.stop}
+              className="px-3 py-1.5 bg-gray-800 border border-gray-700 text-gray-300 rounded hover:text-white disabled:opacity-50 text-sm"
+            >
+              Now
+            </button>
+            <span className="ml-auto font-mono text-lg text-white">
+              {formatLocalDate(new Date(time))}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={bounds?.start ?? 0}
+            max={bounds?.stop ?? 1}
+            step={DAY_MS / 4}
+            value={time}
+            onChange={(e) => {
+              setPlaying(false);
+              setTime(Number(e.target.value));
+            }}
+            disabled={!bounds}
+            className="w-full accent-blue-500"
+            aria-label="Scene date"
+          />
+          {bounds && (
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>{formatLocalDate(new Date(bounds.start))}</span>
+              <span>Horizons step: {data?.step}</span>
+              <span>{formatLocalDate(new Date(bounds.stop))}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="space-y-4">
+        <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-4 space-y-4">
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Time bounds</p>
+            <div className="flex flex-wrap gap-2">
+              {RANGES.map((r) => (
+                <button
+                  key={r.id}
+                  onClick={() => setRange(r.id)}
+                  className={`px-3 py-1 rounded text-sm ${
+                    range === r.id
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:text-white'
+                  }`}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Distance scale</p>
+            <div className="flex gap-2">
+              {(['log', 'linear'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setScale(mode)}
+                  className={`px-3 py-1 rounded text-sm ${
+                    scale === mode
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:text-white'
+                  }`}
+                >
+                  {mode === 'log' ? 'Logarithmic' : 'Linear'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={showOrbits}
+              onChange={(e) => setShowOrbits(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Show orbits and trajectories
+          </label>
+        </div>
+
+        {focused && (
+          <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-white">{focused.name}</h3>
+              <button
+                onClick={() => setFocusId(null)}
+                className="text-xs text-gray-400 hover:text-white"
+              >
+                Release
+              </button>
+            </div>
+            {focusedState ? (
+              <dl className="grid grid-cols-2 gap-y-1 text-sm">
+                <dt className="text-gray-500">From the Sun</dt>
+                <dd className="text-right font-mono text-white">
+                  {Math.hypot(...focusedState.position).toFixed(3)} AU
+                </dd>
+                <dt className="text-gray-500">Speed</dt>
+                <dd className="text-right font-mono text-white">
+                  {((Math.hypot(...focusedState.velocity) * AU_KM) / 86400).toFixed(2)} km/s
+                </dd>
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">No ephemeris at this date</p>
+            )}
+          </div>
+        )}
+
+        <div className="bg-gray-900/50 rounded-lg border border-gray-700 p-4 max-h-[420px] overflow-y-auto">
+          <button
+            onClick={() => setFocusId('sun')}
+            className={`w-full text-left px-2 py-1 rounded text-sm mb-2 ${
+              focusId === 'sun'
+                ? 'bg-yellow-500/20 text-yellow-300'
+                : 'text-gray-300 hover:bg-gray-800'
+            }`}
+          >
+            ☀️ Sun
+          </button>
+          {(Object.keys(KIND_LABELS) as SceneBodyKind[]).map((kind) => {
+            const group = bodies.filter((body) => body.kind === kind);
+            if (group.length === 0) return null;
+
+            return (
+              <div key={kind} className="mb-3">
+                <p className="text-xs text-gray-500 mb-1">{KIND_LABELS[kind]}</p>
+                {group.map((body) => {
+                  const present = !!stateAt(body.samples, time);
+                  return (
+                    <button
+                      key={body.id}
+                      onClick={() => setFocusId(body.id)}
+                      disabled={!present}
+                      title={body.error}
+                      className={`w-full flex items-center gap-2 text-left px-2 py-1 rounded text-sm disabled:opacity-40 ${
+                        focusId === body.id
+                          ? 'bg-gray-700 text-white'
+                          : 'text-gray-300 hover:bg-gray-800'
+                      }`}
+                    >
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: body.color }}
+                      />
+                      {body.name}
+                      {body.error && (
+                        <span className="ml-auto text-xs text-yellow-500">unavailable</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useMemo, useRef, type ComponentRef, type RefObject } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { Html, Line, OrbitControls, Stars } from '@react-three/drei';
+import * as THREE from 'three';
+import type { Vec3 } from '@/lib/utils/kepler';
+import {
+  osculatingOrbit,
+  sceneRadius,
+  stateAt,
+  toScene,
+  type DistanceScale,
+  type SceneBody,
+} from '@/lib/utils/solar-system-scene';
+
+export interface SolarSystemScene3DProps {
+  bodies: SceneBody[];
+  /** Scene epoch (ms) */
+  time: number;
+  scale: DistanceScale;
+  showOrbits: boolean;
+  /** Body the camera follows ('sun' for the origin, null to move freely) */
+  focusId: string | null;
+  onFocus: (id: string | null) => void;
+}
+
+// Reference distances drawn as faint rings (AU)
+const DISTANCE_RINGS = [1, 5, 30, 100];
+
+function circle(radius: number, segments: number = 128): Vec3[] {
+  return Array.from({ length: segments + 1 }, (_, i) => {
+    const angle = (i / segments) * Math.PI * 2;
+    return [radius * Math.cos(angle), 0, radius * Math.sin(angle)] as Vec3;
+  });
+}
+
+function Sun({ onFocus }: { onFocus: () => void }) {
+  return (
+    <group>
+      <pointLight intensity={2} distance={0} decay={0} />
+      <mesh onClick={onFocus}>
+        <sphereGeometry args={[0.4, 32, 32]} />
+        <meshBasicMaterial color="#fde047" />
+      </mesh>
+      <mesh>
+        <sphereGeometry args={[0.6, 32, 32]} />
+        <meshBasicMaterial color="#f59e0b" transparent opacity={0.15} />
+      </mesh>
+    </group>
+  );
+}
+
+function DistanceRings({ scale }: { scale: DistanceScale }) {
+  return (
+    <group>
+      {DISTANCE_RINGS.map((au) => {
+        const radius = sceneRadius(au, scale);
+        return (
+          <group key={au}>
+            <Line points={circle(radius)} color="#374151" lineWidth={1} transparent opacity={0.4} />
+            <Html position={[radius, 0, 0]} center style={{ pointerEvents: 'none' }}>
+              <span className="text-[10px] text-gray-600 whitespace-nowrap">{au} AU</span>
+            </Html>
+          </group>
+        );
+      })}
+    </group>
+  );
+}
+
+/**
+ * Keeps the orbit controls centred on the focused body, moving the camera with it
+ */
+function CameraRig({
+  controls,
+  target,
+}: {
+  controls: RefObject<ComponentRef<typeof OrbitControls> | null>;
+  target: Vec3 | null;
+}) {
+  const goal = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((state, delta) => {
+    const orbit = controls.current;
+    if (!orbit || !target) return;
+
+    goal.set(target[0], target[1], target[2]);
+    const step = goal.sub(orbit.target).multiplyScalar(Math.min(1, delta * 4));
+    orbit.target.add(step);
+    state.camera.position.add(step);
+    orbit.update();
+  });
+
+  return null;
+}
+
+export default function SolarSystemScene3D({
+  bodies,
+  time,
+  scale,
+  showOrbits,
+  focusId,
+  onFocus,
+}: SolarSystemScene3DProps) {
+  const controls = useRef<ComponentRef<typeof OrbitControls>>(null);
+
+  // Sampled tracks only change with the data or the scale
+  const tracks = useMemo(
+    () =>
+      new Map(
+        bodies
+          .filter((body) => body.samples.length > 1)
+          .map((body) => [
+            body.id,
+            body.samples.map((sample) => toScene([sample[1], sample[2], sample[3]], scale)),
+          ])
+      ),
+    [bodies, scale]
+  );
+
+  const placed = useMemo(
+    () =>
+      bodies.flatMap((body) => {
+        const state = stateAt(body.samples, time);
+        if (!state) return [];
+
+        // Closed orbits are drawn whole from the osculating elements; spacecraft and
+        // interstellar objects follow their sampled tracks instead
+        const orbit =
+          showOrbits && (body.kind === 'planet' || body.kind === 'asteroid')
+            ? osculatingOrbit(state, time).map((point) => toScene(point, scale))
+            : [];
+
+        return [{ body, position: toScene(state.position, scale), orbit }];
+      }),
+    [bodies, time, scale, showOrbits]
+  );
+
+  const focusTarget: Vec3 | null =
+    focusId === 'sun'
+      ? [0, 0, 0]
+      : (placed.find(({ body }) => body.id === focusId)?.position ?? null);
+
+  return (
+    <Canvas camera={{ position: [0, 35, 45], fov: 50, near: 0.01, far: 5000 }}>
+      <color attach="background" args={['#000000']} />
+      <ambientLight intensity={0.3} />
+      <Stars radius={1500} depth={100} count={4000} factor={6} fade />
+
+      <Sun onFocus={() => onFocus('sun')} />
+      <DistanceRings scale={scale} />
+
+      {placed.map(({ body, position, orbit }) => {
+        const focused = body.id === focusId;
+        const track = tracks.get(body.id);
+
+        return (
+          <group key={body.id}>
+            {orbit.length > 1 && (
+              <Line points={orbit} color={body.color} lineWidth={1} transparent opacity={0.35} />
+            )}
+            {showOrbits && body.kind !== 'planet' && body.kind !== 'asteroid' && track && (
+              <Line
+                points={track}
+                color={body.color}
+                lineWidth={focused ? 2 : 1}
+                transparent
+                opacity={focused ? 0.9 : 0.5}
+              />
+            )}
+
+            <mesh position={position}>
+              <sphereGeometry args={[body.kind === 'planet' ? 0.15 : 0.08, 16, 16]} />
+              <meshStandardMaterial
+                color={body.color}
+                emissive={body.color}
+                emissiveIntensity={0.4}
+              />
+            </mesh>
+
+            <Html position={position} zIndexRange={[10, 0]}>
+              <button
+                onClick={() => onFocus(focused ? null : body.id)}
+                className={`ml-2 -mt-2 px-1.5 py-0.5 rounded text-[11px] whitespace-nowrap transition-colors ${
+                  focused
+                    ? 'bg-white/20 text-white ring-1 ring-white/60'
+                    : 'text-gray-300 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                {body.name}
+              </button>
+            </Html>
+          </group>
+        );
+      })}
+
+      <OrbitControls ref={controls} enablePan enableZoom enableRotate minDistance={0.5} />
+      <CameraRig controls={controls} target={focusTarget} />
+    </Canvas>
+  );
+}
@@ -10,6 +10,7 @@ const navItems = [
   { label: 'Missions', href: '/missions' },
   { label: 'Asteroids', href: '/asteroids' },
   { label: 'Interstellar', href: '/interstellar' },
+  { label: 'Solar System', href: '/solar-system' },
   { label: 'News', href: '/news' },
   { label: 'DSN', href: '/dsn' },
   { label: 'About', href: '/about' },
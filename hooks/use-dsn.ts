@@ -0,0 +1,38 @@
+/**
+ * React hook for live Deep Space Network status
+ */
+
+import useSWR from 'swr';
+import { dsnService, type DSNData } from '@/lib/api/dsn';
+import { useLiveStream } from '@/hooks/use-live-stream';
+
+/**
+ * Hook to get the current DSN snapshot
+ * With `subscribe`, updates are pushed by /api/stream; polling is used as the fallback.
+ */
+export function useDSN(options: { subscribe?: boolean; refreshInterval?: number } = {}) {
+  const { subscribe = false, refreshInterval = 10000 } = options; // 10 seconds default
+  const live = useLiveStream(subscribe);
+
+  const { data, error, isLoading, mutate } = useSWR<DSNData>(
+    'dsn-status',
+    () => dsnService.fetchDSNStatus(),
+    {
+      // Keep polling until the stream has delivered a DSN snapshot
+      refreshInterval: live.connected && live.dsn ? 0 : refreshInterval,
+      revalidateOnFocus: false,
+      dedupingInterval: 5000,
+    }
+  );
+
+  const dsnData = (live.connected && live.dsn) || data || null;
+
+  return {
+    dsnData,
+    lastUpdate: dsnData ? new Date(dsnData.timestamp) : null,
+    isLoading: isLoading && !live.dsn,
+    error: dsnData ? null : error,
+    refresh: mutate,
+    isLive: live.connected,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * React hook for the /api/stream Server-Sent Events channel.
+ * One EventSource is shared by every subscribed component in the tab.
+ */
+
+import { useEffect, useState } from 'react';
+import type { DSNData } from '@/lib/api/dsn';
+import type { SpacecraftSummary } from '@/lib/services/live-stream';
+import { applyDiffById, applyDSNDiff, type DSNDiff, type KeyedDiff } from '@/lib/utils/live-diff';
+
+interface LiveStreamState {
+  dsn: DSNData | null;
+  spacecraft: SpacecraftSummary[] | null;
+  connected: boolean;
+  lastUpdate: Date | null;
+}
+
+type Listener = () => void;
+
+// Give up on the stream (and let hooks poll) after this many consecutive failures
+const MAX_FAILURES = 3;
+// Delay before trying the stream again after giving up; doubles each time, up to the max
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+let eventSource: EventSource | null = null;
+let subscriberCount = 0;
+let failures = 0;
+let retries = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let state: LiveStreamState = { dsn: null, spacecraft: null, connected: false, lastUpdate: null };
+const listeners = new Set<Listener>();
+
+function setState(update: Partial<LiveStreamState>) {
+  state = { ...state, ...update };
+  listeners.forEach((listener) => listener());
+}
+
+function connect() {
+  if (eventSource || typeof window === 'undefined' || typeof EventSource === 'undefined') return;
+  if (failures >= MAX_FAILURES) return;
+
+  eventSource = new EventSource('/api/stream');
+
+  eventSource.onopen = () => {
+    failures = 0;
+  };
+
+  eventSource.addEventListener('snapshot', (event) => {
+    const data = JSON.parse((event as MessageEvent).data);
+    failures = 0;
+    retries = 0;
+    setState({
+      dsn: data.dsn,
+      spacecraft: data.spacecraft,
+      connected: true,
+      lastUpdate: new Date(),
+    });
+  });
+
+  eventSource.addEventListener('dsn', (event) => {
+    if (!state.dsn) return; // Wait for the snapshot
+    const diff: DSNDiff = JSON.parse((event as MessageEvent).data);
+    setState({ dsn: applyDSNDiff(state.dsn, diff), lastUpdate: new Date() });
+  });
+
+  eventSource.addEventListener('spacecraft', (event) => {
+    if (!state.spacecraft) return;
+    const diff: KeyedDiff<SpacecraftSummary> = JSON.parse((event as MessageEvent).data);
+    setState({ spacecraft: applyDiffById(state.spacecraft, diff), lastUpdate: new Date() });
+  });
+
+  eventSource.onerror = () => {
+    failures++;
+    setState({ connected: false });
+
+    // EventSource retries on its own; stop after repeated failures so hooks fall back to
+    // polling, and try again later
+    if (failures >= MAX_FAILURES) {
+      disconnect();
+      scheduleRetry();
+    }
+  };
+}
+
+function scheduleRetry() {
+  if (retryTimer || subscriberCount === 0) return;
+
+  const delay = Math.min(RETRY_BASE_MS * 2 ** retries, RETRY_MAX_MS);
+  retries++;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    failures = 0;
+    connect();
+  }, delay);
+}
+
+function cancelRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  failures = 0;
+  retries = 0;
+}
+
+function disconnect() {
+  eventSource?.close();
+  eventSource = null;
+  setState({ connected: false });
+}
+
+/**
+ * Subscribe to the live stream. When `enabled` is false the hook is inert.
+ * `connected` is false while the stream is unavailable, so callers should poll instead.
+ */
+export function useLiveStream(enabled = true): LiveStreamState {
+  const [snapshot, setSnapshot] = useState<LiveStreamState>(state);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const listener = () => setSnapshot(state);
+    listeners.add(listener);
+    subscriberCount++;
+    connect();
+    setSnapshot(state);
+
+    return () => {
+      listeners.delete(listener);
+      subscriberCount--;
+      if (subscriberCount === 0) {
+        cancelRetry();
+        disconnect();
+        state = { dsn: null, spacecraft: null, connected: false, lastUpdate: null };
+      }
+    };
+  }, [enabled]);
+
+  return enabled ? snapshot : { dsn: null, spacecraft: null, connected: false, lastUpdate: null };
+}
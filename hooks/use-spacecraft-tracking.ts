@@ -3,13 +3,14 @@
  */
 
 import useSWR from 'swr';
-import { jplHorizons, SpacecraftPosition, SPACECRAFT_IDS } from '@/lib/api/jpl-horizons';
+import { jplHorizons, SpacecraftPosition } from '@/lib/api/jpl-horizons';
+import type { SpacecraftId } from '@/lib/types/horizons';
 
 /**
  * Hook to get position data for a specific spacecraft
  */
 export function useSpacecraftPosition(
-  spacecraft: keyof typeof SPACECRAFT_IDS,
+  spacecraft: SpacecraftId,
   options?: {
     refreshInterval?: number;
   }
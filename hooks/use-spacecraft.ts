@@ -3,6 +3,7 @@
  */
 
 import useSWR from 'swr';
+import { useLiveStream } from '@/hooks/use-live-stream';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
@@ -21,7 +22,8 @@ export interface SpacecraftData {
     vz: number;
   };
   distanceFromEarth: number;
-  distanceFromSun: number;
+  /** Null when only a static snapshot is available */
+  distanceFromSun: number | null;
   lightTimeFromEarth: number;
   communicationDelay: {
     oneWay: number;
@@ -35,18 +37,25 @@ export interface SpacecraftData {
 
 /**
  * Hook to get all spacecraft positions
+ * With `subscribe`, positions come from the /api/stream push channel and
+ * hourly polling only runs while the stream is unavailable.
  */
-export function useSpacecraft() {
+export function useSpacecraft(options: { subscribe?: boolean } = {}) {
+  const live = useLiveStream(!!options.subscribe);
+  // Summaries arrive as JSON in the same shape /api/spacecraft serves
+  const liveSpacecraft = live.spacecraft as SpacecraftData[] | null;
+
   const { data, error, isLoading, mutate } = useSWR('/api/spacecraft', fetcher, {
-    refreshInterval: 3600000, // Refresh every hour
+    refreshInterval: live.connected && liveSpacecraft ? 0 : 3600000, // Refresh every hour
     revalidateOnFocus: false,
   });
 
   return {
-    spacecraft: (data?.spacecraft as SpacecraftData[]) || [],
-    isLoading,
+    spacecraft: liveSpacecraft || (data?.spacecraft as SpacecraftData[]) || [],
+    isLoading: isLoading && !liveSpacecraft,
     error,
     refresh: mutate,
+    isLive: live.connected,
   };
 }
 
@@ -70,8 +79,8 @@ export function useSpacecraftById(id: string) {
 /**
  * Hook to get formatted communication delays
  */
-export function useSpacecraftDelays() {
-  const { spacecraft, isLoading, error } = useSpacecraft();
+export function useSpacecraftDelays(options: { subscribe?: boolean } = {}) {
+  const { spacecraft, isLoading, error } = useSpacecraft(options);
 
   const delays = spacecraft.map((sc) => ({
     id: sc.id,
@@ -88,3 +97,29 @@ export function useSpacecraftDelays() {
     error,
   };
 }
+
+export interface OrbitEventData {
+  type: 'perihelion' | 'aphelion' | 'closest-approach';
+  time: string;
+  bodyId: string;
+  bodyName: string;
+  distanceKm: number;
+  relativeSpeedKms: number;
+  heliocentricDistanceKm: number;
+}
+
+/**
+ * Hook to get the orbit events detected in a spacecraft's Horizons trajectory.
+ * Pass no ID for spacecraft without a Horizons ephemeris.
+ */
+export function useOrbitEvents(id?: string) {
+  const { data, error, isLoading } = useSWR(id ? `/api/spacecraft/${id}/events` : null, fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    events: (data?.success ? data.events : []) as OrbitEventData[],
+    isLoading,
+    error,
+  };
+}
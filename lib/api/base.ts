@@ -3,6 +3,7 @@
 import { NASAAPIError, APIRateLimit, RetryConfig } from '@/lib/types/nasa-api';
 import { getApiKey } from './config';
 import type { NextRequest } from 'next/server';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 // ================================
 // Rate Limiting Implementation
@@ -160,7 +161,7 @@ export class NASAApiBase {
     const url = this.buildUrl(endpoint);
 
     const requestFn = async (): Promise<T> => {
-      const response = await fetch(url, {
+      const response = await upstreamFetch(url, {
         ...options,
         headers: {
           'Content-Type': 'application/json',
@@ -0,0 +1,181 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { DSNData, DSNDish } from '@/lib/api/dsn';
+import { parseDSNXml } from '@/lib/api/dsn-xml';
+import { resolveDSNTarget } from '@/lib/utils/spacecraft-registry';
+
+const loadFixture = (name: string) =>
+  parseDSNXml(readFileSync(path.join(__dirname, '../../fixtures/dsn', `${name}.xml`), 'utf8'));
+
+function findDish(data: DSNData, name: string): DSNDish {
+  const dish = data.stations.flatMap((station) => station.dishes).find((d) => d.name === name);
+  if (!dish) throw new Error(`No dish ${name} in fixture`);
+  return dish;
+}
+
+describe('parseDSNXml', () => {
+  describe('nominal.xml', () => {
+    it('pairs dishes with the preceding station in document order', async () => {
+      const data = await loadFixture('nominal');
+
+      expect(data.timestamp).toBe(1760877000000);
+      expect(
+        data.stations.map((station) => [station.name, station.dishes.map((d) => d.name)])
+      ).toEqual([
+        ['gdscc', ['DSS14', 'DSS26']],
+        ['mdscc', ['DSS63']],
+        ['cdscc', ['DSS43']],
+      ]);
+      expect(data.stations[0].friendlyName).toBe('Goldstone');
+    });
+
+    it('parses ranges, light time and both signals of a target', async () => {
+      const target = findDish(await loadFixture('nominal'), 'DSS14').targets[0];
+
+      expect(target).toMatchObject({
+        id: 32,
+        name: 'VGR2',
+        spacecraftId: -32,
+        uplegRange: 2.1133e10,
+        downlegRange: 2.1133e10,
+        rtlt: 140985.44,
+      });
+      expect(target.downSignal).toMatchObject({
+        active: true,
+        band: 'X',
+        dataRate: 160,
+        frequency: 8420430000,
+        power: -156.37,
+      });
+      expect(target.upSignal).toMatchObject({ active: true, band: 'S', dataRate: 16 });
+    });
+
+    it('maps blank rates to 0 on an idle uplink', async () => {
+      const target = findDish(await loadFixture('nominal'), 'DSS63').targets[0];
+
+      expect(target.upSignal).toMatchObject({ active: false, dataRate: 0, frequency: undefined });
+      expect(target.downSignal?.dataRate).toBe(1000);
+    });
+  });
+
+  describe('sentinels-and-none.xml', () => {
+    it('maps -1 range and light-time sentinels to unknown', async () => {
+      const target = findDish(await loadFixture('sentinels-and-none'), 'DSS35').targets[0];
+
+      expect(target.uplegRange).toBeUndefined();
+      expect(target.downlegRange).toBeUndefined();
+      expect(target.rtlt).toBeUndefined();
+    });
+
+    it('treats a "none" data rate as 0 and "none" frequency as unknown', async () => {
+      const data = await loadFixture('sentinels-and-none');
+      const carrier = findDish(data, 'DSS35').targets[0].downSignal;
+      const idle = findDish(data, 'DSS34').targets[0].downSignal;
+
+      expect(carrier).toMatchObject({ active: true, signalType: 'carrier', dataRate: 0 });
+      expect(carrier?.frequency).toBe(8446000000);
+      expect(idle).toMatchObject({ active: false, dataRate: 0 });
+      expect(idle?.frequency).toBeUndefined();
+      expect(idle?.power).toBeUndefined();
+    });
+
+    it('keeps blank dish attributes and empty dishes', async () => {
+      const data = await loadFixture('sentinels-and-none');
+      const blank = findDish(data, 'DSS34');
+      const maintenance = findDish(data, 'DSS36');
+
+      expect(blank.azimuthAngle).toBe(0);
+      expect(blank.windSpeed).toBeUndefined();
+      expect(maintenance.activity).toBe('Antenna Maintenance');
+      expect(maintenance.targets).toEqual([]);
+    });
+  });
+
+  describe('mspa-multiple-targets.xml', () => {
+    it('keeps every target on a multiple-spacecraft-per-aperture dish', async () => {
+      const dish = findDish(await loadFixture('mspa-multiple-targets'), 'DSS55');
+
+      expect(dish.isMSPA).toBe(true);
+      expect(dish.targets.map((target) => target.name)).toEqual(['MRO', 'MVN', 'M20']);
+      expect(dish.targets.map((target) => target.downSignal?.dataRate)).toEqual([
+        2615000, 253000, 0,
+      ]);
+      expect(dish.targets[0].upSignal?.dataRate).toBe(2000);
+      expect(dish.targets[2].downSignal?.active).toBe(false);
+    });
+
+    it('prefers the active signal when a target reports several', async () => {
+      const target = findDish(await loadFixture('mspa-multiple-targets'), 'DSS56').targets[0];
+
+      expect(target.downSignal).toMatchObject({ active: true, band: 'X', dataRate: 40000 });
+    });
+  });
+
+  describe('array-and-signal-only.xml', () => {
+    it('reads array and DDOR flags', async () => {
+      const data = await loadFixture('array-and-signal-only');
+
+      expect(findDish(data, 'DSS34').isArray).toBe(true);
+      expect(findDish(data, 'DSS43').isArray).toBe(true);
+      expect(findDish(data, 'DSS36').isDDOR).toBe(true);
+    });
+
+    it('creates a target from a signal without a <target> element', async () => {
+      const dish = findDish(await loadFixture('array-and-signal-only'), 'DSS36');
+
+      expect(dish.targets).toHaveLength(1);
+      expect(dish.targets[0]).toMatchObject({ name: 'LUCY', spacecraftId: -49 });
+      expect(dish.targets[0].id).toBeUndefined();
+      expect(dish.targets[0].downSignal?.dataRate).toBe(32000);
+    });
+
+    it('keeps a station with no dishes', async () => {
+      const data = await loadFixture('array-and-signal-only');
+
+      expect(data.stations.find((station) => station.name === 'gdscc')?.dishes).toEqual([]);
+    });
+  });
+
+  describe('spacecraftID mapping', () => {
+    it('resolves every fixture target to its catalog entry', async () => {
+      const expected: Record<string, string> = {
+        VGR1: 'voyager-1',
+        VGR2: 'voyager-2',
+        JNO: 'juno',
+        NHPC: 'new-horizons',
+        MRO: 'mars-reconnaissance-orbiter',
+        MVN: 'maven',
+        M20: 'perseverance',
+        EURC: 'europa-clipper',
+        PSYC: 'psyche',
+        LUCY: 'lucy',
+      };
+      const fixtures = [
+        'nominal',
+        'sentinels-and-none',
+        'mspa-multiple-targets',
+        'array-and-signal-only',
+      ];
+      const data = await Promise.all(fixtures.map(loadFixture));
+      const targets = data.flatMap((snapshot) =>
+        snapshot.stations.flatMap((station) => station.dishes.flatMap((dish) => dish.targets))
+      );
+
+      for (const target of targets.filter((t) => t.name in expected)) {
+        expect(resolveDSNTarget(target)?.id).toBe(expected[target.name]);
+      }
+      expect(resolveDSNTarget(targets.find((t) => t.name === 'DSN')!)).toBeUndefined();
+    });
+
+    it('falls back to the negative spacecraftID when the code is unknown', () => {
+      expect(resolveDSNTarget({ name: 'XXXX', spacecraftId: -31 })?.id).toBe('voyager-1');
+    });
+  });
+
+  it('rejects documents with entity declarations', async () => {
+    await expect(parseDSNXml('<!DOCTYPE dsn [<!ENTITY x "y">]><dsn></dsn>')).rejects.toThrow(
+      'External entities not allowed'
+    );
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * DSN XML Feed
+ * Fetches the eyes.nasa.gov DSN XML feed and converts it to the DSNData model (server-side only).
+ * This is the only place the feed is parsed; every route and the live stream go through it.
+ *
+ * Feed quirks handled here (examples in fixtures/dsn/):
+ * - <station> and <dish> are siblings, so dishes belong to the preceding station
+ * - Ranges and RTLT use -1 as "unknown"
+ * - dataRate, frequency and power may be "none" or empty
+ * - A dish can carry several targets and several signals (MSPA, arrays)
+ * - Signals carry the spacecraft code plus a negative spacecraftID (e.g. VGR1 / -31)
+ */
+
+import { parseStringPromise } from 'xml2js';
+import type { DSNData, DSNDish, DSNSignal, DSNStation, DSNTarget } from '@/lib/api/dsn';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
+
+const DSN_XML_URL = 'https://eyes.nasa.gov/dsn/data/dsn.xml';
+
+// Maximum XML size to prevent DoS attacks (10MB)
+const MAX_XML_SIZE = 10 * 1024 * 1024;
+
+interface XMLElement {
+  '#name': string;
+  $?: Record<string, string>;
+  $$?: XMLElement[];
+  _?: string;
+}
+
+/**
+ * Parse a numeric attribute, returning undefined for blanks, "none" and NaN
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const trimmed = value.trim();
+  if (trimmed === '' || trimmed.toLowerCase() === 'none') return undefined;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse a distance or time attribute where negative values mean "unknown"
+ */
+function parseNonNegative(value: string | undefined): number | undefined {
+  const parsed = parseNumber(value);
+  return parsed !== undefined && parsed >= 0 ? parsed : undefined;
+}
+
+function parseSignal(attrs: Record<string, string>): DSNSignal {
+  const signalType = attrs.signalType || '';
+  const dataRate = parseNumber(attrs.dataRate);
+
+  return {
+    // Older feeds omit "active"; an idle signal reports signalType="none"
+    active:
+      attrs.active !== undefined
+        ? attrs.active === 'true'
+        : signalType !== '' && signalType !== 'none',
+    signalType,
+    signalTypeDebug: attrs.signalTypeDebug || undefined,
+    dataRate: dataRate !== undefined && dataRate > 0 ? dataRate : 0,
+    frequency: parseNonNegative(attrs.frequency),
+    power: parseNumber(attrs.power),
+    band: attrs.band || undefined,
+    spacecraftId: parseNumber(attrs.spacecraftID ?? attrs.spacecraftId),
+  };
+}
+
+/**
+ * Prefer an active signal over an idle one, then the higher data rate
+ */
+function preferSignal(existing: DSNSignal | undefined, candidate: DSNSignal): DSNSignal {
+  if (!existing) return candidate;
+  if (!!candidate.active !== !!existing.active) return candidate.active ? candidate : existing;
+  return candidate.dataRate > existing.dataRate ? candidate : existing;
+}
+
+function parseDish(element: XMLElement): DSNDish {
+  const attrs = element.$ || {};
+  const children = element.$$ || [];
+  const targets: DSNTarget[] = [];
+
+  const findTarget = (code: string, spacecraftId?: number) =>
+    targets.find(
+      (target) =>
+        target.name.toUpperCase() === code.toUpperCase() ||
+        (spacecraftId !== undefined &&
+          target.id !== undefined &&
+          target.id === Math.abs(spacecraftId))
+    );
+
+  // Targets first so signals can attach to them regardless of element order
+  children
+    .filter((child) => child['#name'] === 'target')
+    .forEach((child) => {
+      const target = child.$ || {};
+      const name = target.name || '';
+      if (!name) return;
+
+      targets.push({
+        id: parseNumber(target.id),
+        name,
+        spacecraft: [name],
+        uplegRange: parseNonNegative(target.uplegRange),
+        downlegRange: parseNonNegative(target.downlegRange),
+        rtlt: parseNonNegative(target.rtlt),
+      });
+    });
+
+  children
+    .filter((child) => child['#name'] === 'downSignal' || child['#name'] === 'upSignal')
+    .forEach((child) => {
+      const signalAttrs = child.$ || {};
+      const code = signalAttrs.spacecraft || '';
+      if (!code) return;
+
+      const signal = parseSignal(signalAttrs);
+      let target = findTarget(code, signal.spacecraftId);
+      if (!target) {
+        target = { name: code, spacecraft: [code] };
+        targets.push(target);
+      }
+      if (target.spacecraftId === undefined) {
+        target.spacecraftId = signal.spacecraftId;
+      }
+
+      if (child['#name'] === 'downSignal') {
+        target.downSignal = preferSignal(target.downSignal, signal);
+      } else {
+        target.upSignal = preferSignal(target.upSignal, signal);
+      }
+    });
+
+  return {
+    name: attrs.name || '',
+    azimuthAngle: parseNumber(attrs.azimuthAngle) ?? 0,
+    elevationAngle: parseNumber(attrs.elevationAngle) ?? 0,
+    windSpeed: parseNonNegative(attrs.windSpeed),
+    isMSPA: attrs.isMSPA === 'true',
+    isArray: attrs.isArray === 'true',
+    isDDOR: attrs.isDDOR === 'true',
+    activity: attrs.activity || '',
+    created: attrs.created || undefined,
+    updated: attrs.updated || undefined,
+    targets,
+  };
+}
+
+/**
+ * Complex code for a dish when no preceding <station> element is available
+ * (DSS-1x/2x Goldstone, DSS-3x/4x Canberra, DSS-5x/6x Madrid)
+ */
+function complexForDish(dishName: string): string | null {
+  const dishNumber = parseInt(dishName.replace(/\D/g, ''));
+  if (isNaN(dishNumber)) return null;
+  if (dishNumber >= 10 && dishNumber <= 29) return 'gdscc';
+  if (dishNumber >= 30 && dishNumber <= 49) return 'cdscc';
+  if (dishNumber >= 50 && dishNumber <= 69) return 'mdscc';
+  return null;
+}
+
+/**
+ * Parse the DSN XML document into the DSNData model
+ */
+export async function parseDSNXml(xml: string): Promise<DSNData> {
+  // Security: Validate XML size before parsing
+  if (xml.length > MAX_XML_SIZE) {
+    console.error(`XML too large: ${xml.length} bytes (max: ${MAX_XML_SIZE})`);
+    throw new Error('XML too large');
+  }
+
+  // Security: Validate no external entity declarations (XXE prevention)
+  if (xml.includes('<!ENTITY') || xml.includes('<!DOCTYPE')) {
+    console.error('XML contains entity declarations, rejecting for security');
+    throw new Error('External entities not allowed');
+  }
+
+  const result = await parseStringPromise(xml, {
+    explicitArray: false,
+    ignoreAttrs: false,
+    mergeAttrs: false,
+    // Stations and dishes are siblings; keep document order to pair them
+    explicitChildren: true,
+    preserveChildrenOrder: true,
+    // Security: Disable external entities and DTD processing
+    xmlns: false,
+    strict: true,
+  });
+
+  const root: XMLElement | undefined = result?.dsn;
+  if (!root) {
+    return { stations: [], timestamp: Date.now() };
+  }
+
+  const stations = new Map<string, DSNStation>();
+  let currentStation: DSNStation | null = null;
+  let feedTimestamp: number | undefined;
+
+  for (const element of root.$$ || []) {
+    const attrs = element.$ || {};
+
+    if (element['#name'] === 'station') {
+      const name = attrs.name || '';
+      currentStation = stations.get(name) || {
+        name,
+        friendlyName: attrs.friendlyName || '',
+        timeUTC: parseNumber(attrs.timeUTC) ?? 0,
+        timeZoneOffset: parseNumber(attrs.timeZoneOffset) ?? 0,
+        dishes: [],
+      };
+      stations.set(name, currentStation);
+    } else if (element['#name'] === 'dish') {
+      const dish = parseDish(element);
+      const code = complexForDish(dish.name);
+      const station = currentStation || (code ? stations.get(code) : undefined);
+
+      if (station) {
+        station.dishes.push(dish);
+      } else if (code) {
+        const orphan: DSNStation = {
+          name: code,
+          friendlyName: '',
+          timeUTC: 0,
+          timeZoneOffset: 0,
+          dishes: [dish],
+        };
+        stations.set(code, orphan);
+      }
+    } else if (element['#name'] === 'timestamp') {
+      feedTimestamp = parseNumber(element._);
+    }
+  }
+
+  return {
+    stations: Array.from(stations.values()),
+    timestamp: feedTimestamp && feedTimestamp > 0 ? feedTimestamp : Date.now(),
+  };
+}
+
+/**
+ * Fetch and parse the current DSN snapshot
+ */
+export async function fetchDSNSnapshot(): Promise<DSNData> {
+  const response = await upstreamFetch(DSN_XML_URL, {
+    next: { revalidate: 10 }, // Cache for 10 seconds
+    headers: {
+      Accept: 'application/xml',
+      'User-Agent': 'Mozilla/5.0 (compatible; DeepSix/1.0)',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const xmlText = await response.text();
+
+  // Security: Validate XML size before parsing
+  if (xmlText.length > MAX_XML_SIZE) {
+    console.error(`DSN XML too large: ${xmlText.length} bytes`);
+    throw new Error('XML response too large');
+  }
+
+  return parseDSNXml(xmlText);
+}
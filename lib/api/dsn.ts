@@ -3,6 +3,8 @@
  * Fetches real-time data from NASA's DSN tracking stations
  */
 
+import { getSpacecraftDisplayName } from '@/lib/utils/spacecraft-registry';
+
 export interface DSNStation {
   name: string;
   friendlyName: string;
@@ -15,7 +17,8 @@ export interface DSNDish {
   name: string;
   azimuthAngle: number;
   elevationAngle: number;
-  windSpeed: number | string;
+  /** km/h; undefined when the feed leaves it blank */
+  windSpeed?: number;
   activity?: string;
   isMSPA?: boolean;
   isArray?: boolean;
@@ -26,21 +29,32 @@ export interface DSNDish {
 }
 
 export interface DSNTarget {
-  id?: number | string;
+  /** DSN numeric target ID */
+  id?: number;
+  /** Target name as reported by the feed (usually the DSN spacecraft code) */
   name: string;
+  /** Spacecraft ID from the signal elements (negative, NAIF-style, e.g. -31 for VGR1) */
+  spacecraftId?: number;
   downSignal?: DSNSignal;
   upSignal?: DSNSignal;
   spacecraft?: string[];
-  rtlt?: string;
+  /** Distances in km; undefined when the feed reports the -1 sentinel */
+  uplegRange?: number;
+  downlegRange?: number;
+  /** Round-trip light time in seconds */
+  rtlt?: number;
 }
 
 export interface DSNSignal {
   active?: boolean;
   band?: string;
   signalType?: string;
+  /** Bits per second; 0 when the feed reports "none" or leaves it blank */
   dataRate: number;
+  /** Hz */
   frequency?: number;
-  power: number;
+  /** Received power in dBm for downlinks; transmitter power in kW for uplinks */
+  power?: number;
   signalTypeDebug?: string;
   spacecraftId?: number;
 }
@@ -50,6 +64,46 @@ export interface DSNData {
   timestamp: number;
 }
 
+/**
+ * A single active downlink, flattened for simple list views
+ */
+export interface DSNConnection {
+  spacecraft: string;
+  station: string;
+  dish: string;
+  dataRate: number;
+  /** MHz */
+  frequency: number;
+  /** dBm */
+  power: number;
+  signalType: string;
+  timestamp: string;
+}
+
+/**
+ * Flatten a DSN snapshot into its active downlinks
+ */
+export function getDSNConnections(data: DSNData): DSNConnection[] {
+  const timestamp = new Date(data.timestamp).toISOString();
+
+  return data.stations.flatMap((station) =>
+    station.dishes.flatMap((dish) =>
+      dish.targets
+        .filter((target) => target.downSignal?.active && target.name !== 'DSN')
+        .map((target) => ({
+          spacecraft: target.spacecraft?.[0] || target.name,
+          station: station.friendlyName,
+          dish: dish.name,
+          dataRate: target.downSignal!.dataRate,
+          frequency: (target.downSignal!.frequency || 0) / 1e6,
+          power: target.downSignal!.power ?? -999,
+          signalType: target.downSignal!.signalType || 'downlink',
+          timestamp,
+        }))
+    )
+  );
+}
+
 class DSNService {
   private baseUrl = 'https://eyes.nasa.gov/dsn/data';
   private cache: Map<string, { data: DSNData; timestamp: number }> = new Map();
@@ -152,24 +206,7 @@ class DSNService {
    * Format spacecraft name for display
    */
   formatSpacecraftName(code: string): string {
-    const spacecraftNames: Record<string, string> = {
-      'VGR1': 'Voyager 1',
-      'VGR2': 'Voyager 2',
-      'JNO': 'Juno',
-      'MRO': 'Mars Reconnaissance Orbiter',
-      'MVN': 'MAVEN',
-      'MSL': 'Curiosity Rover',
-      'M20': 'Perseverance Rover',
-      'NHPC': 'New Horizons',
-      'PSP': 'Parker Solar Probe',
-      'CHDR': 'Chandra X-ray Observatory',
-      'STA': 'STEREO-A',
-      'TGO': 'Trace Gas Orbiter',
-      'MMS4': 'Magnetospheric Multiscale 4',
-      'EURC': 'Europa Clipper'
-    };
-
-    return spacecraftNames[code] || code;
+    return getSpacecraftDisplayName(code);
   }
 }
 
@@ -1,4 +1,14 @@
 import { NextResponse } from 'next/server';
+import {
+  findMissionById,
+  getPositionTrackedIds,
+  type MissionDefinition,
+  type MissionPositionSnapshot,
+} from '@/lib/utils/mission-catalog';
+import { geocentricState, heliocentricState } from '@/lib/utils/planetary-ephemeris';
+
+const AU_KM = 149597870.7;
+const SPEED_OF_LIGHT_KMS = 299792.458;
 
 export interface ApiError {
   error: string;
@@ -118,6 +128,26 @@ export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number = 10
   });
 }
 
+/**
+ * Parse a time query parameter given as ISO 8601 or epoch milliseconds
+ * Returns undefined when the parameter is absent and null when it is invalid.
+ */
+export function parseTime(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * 400 response for a malformed query parameter
+ */
+export function invalidParameter(message: string): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Invalid Parameter', message },
+    { status: 400 }
+  );
+}
+
 /**
  * Validate spacecraft ID format with whitelist
  * Security: Uses explicit whitelist to prevent injection attacks
@@ -159,135 +189,93 @@ export function validateSpacecraftId(id: string): { valid: boolean; error?: stri
 }
 
 /**
- * Get available spacecraft IDs
+ * Get available spacecraft IDs (catalog entries with a Horizons ephemeris or position snapshot)
  */
 export function getAvailableSpacecraftIds(): string[] {
-  return [
-    'voyager-1',
-    'voyager-2',
-    'new-horizons',
-    'parker-solar-probe',
-    'perseverance',
-    'curiosity',
-    'europa-clipper',
-    'lucy',
-    'psyche',
-    'osiris-apex',
-    'juno',
-  ];
+  return getPositionTrackedIds();
 }
 
-export const FALLBACK_DATA = {
-  spacecraft: {
-    'voyager-1': {
-      id: 'voyager-1',
-      name: 'Voyager 1',
-      status: 'Data temporarily unavailable',
-      distance: { km: 24195000000, au: 161.8, lightTime: '22.45 hours' },
-      position: { x: 80.5, y: 120.3, z: 60.2 },
-      velocity: { kms: 17.0, kmh: 61200 },
-      coordinates: { lat: 34.0, lon: 174.0 },
-      communicationDelay: {
-        oneWay: '22.45 hours',
-        roundTrip: '44.9 hours',
-        formatted: { oneWay: '22.45 hours', roundTrip: '44.9 hours' },
-      },
-      timestamp: new Date().toISOString(),
-      dataSource: 'Cached/Fallback Data',
-      message: 'Live data is temporarily unavailable. Showing cached values.',
-      _realData: false,
-    },
-    'voyager-2': {
-      id: 'voyager-2',
-      name: 'Voyager 2',
-      status: 'Data temporarily unavailable',
-      distance: { km: 20125000000, au: 134.5, lightTime: '18.67 hours' },
-      position: { x: -67.2, y: -98.4, z: -45.1 },
-      velocity: { kms: 15.3, kmh: 55080 },
-      coordinates: { lat: -57.0, lon: 310.0 },
-      communicationDelay: {
-        oneWay: '18.67 hours',
-        roundTrip: '37.34 hours',
-        formatted: { oneWay: '18.67 hours', roundTrip: '37.34 hours' },
-      },
-      timestamp: new Date().toISOString(),
-      dataSource: 'Cached/Fallback Data',
-      message: 'Live data is temporarily unavailable. Showing cached values.',
-      _realData: false,
-    },
-    'new-horizons': {
-      id: 'new-horizons',
-      name: 'New Horizons',
-      status: 'Data temporarily unavailable',
-      distance: { km: 8700000000, au: 58.1, lightTime: '8.07 hours' },
-      position: { x: 45.2, y: 35.8, z: -2.1 },
-      velocity: { kms: 14.1, kmh: 50760 },
-      coordinates: { lat: -2.3, lon: 69.0 },
-      communicationDelay: {
-        oneWay: '8.07 hours',
-        roundTrip: '16.14 hours',
-        formatted: { oneWay: '8.07 hours', roundTrip: '16.14 hours' },
-      },
-      timestamp: new Date().toISOString(),
-      dataSource: 'Cached/Fallback Data',
-      message: 'Live data is temporarily unavailable. Showing cached values.',
-      _realData: false,
-    },
-    'parker-solar-probe': {
-      id: 'parker-solar-probe',
-      name: 'Parker Solar Probe',
-      status: 'Data temporarily unavailable',
-      distance: { km: 11200000, au: 0.075, lightTime: '0.01 hours' },
-      position: { x: 0.05, y: 0.04, z: 0.01 },
-      velocity: { kms: 163.0, kmh: 586800 },
-      coordinates: { lat: 0.0, lon: 0.0 },
-      communicationDelay: {
-        oneWay: '0.01 hours',
-        roundTrip: '0.02 hours',
-        formatted: { oneWay: '37s', roundTrip: '74s' },
-      },
-      timestamp: new Date().toISOString(),
-      dataSource: 'Cached/Fallback Data',
-      message: 'Live data is temporarily unavailable. Showing cached values.',
-      _realData: false,
-    },
-    perseverance: {
-      id: 'perseverance',
-      name: 'Mars Perseverance Rover',
-      status: 'Data temporarily unavailable',
-      distance: { km: 225000000, au: 1.5, lightTime: '14 minutes' },
-      position: { x: 1.2, y: 0.8, z: 0.1 },
-      velocity: { kms: 0.00005, kmh: 0.18 },
-      coordinates: { lat: 18.4447, lon: 77.4508 },
-      communicationDelay: {
-        oneWay: '14 minutes',
-        roundTrip: '28 minutes',
-        formatted: { oneWay: '14m', roundTrip: '28m' },
-      },
-      timestamp: new Date().toISOString(),
-      dataSource: 'Cached/Fallback Data',
-      message: 'Live data is temporarily unavailable. Showing cached values.',
-      _realData: false,
-    },
-    curiosity: {
-      id: 'curiosity',
-      name: 'Mars Curiosity Rover',
-      status: 'Data temporarily unavailable',
-      distance: { km: 225000000, au: 1.5, lightTime: '14 minutes' },
-      position: { x: 1.3, y: 0.7, z: -0.1 },
-      velocity: { kms: 0.00004, kmh: 0.14 },
-      coordinates: { lat: -4.5895, lon: 137.4417 },
-      communicationDelay: {
-        oneWay: '14 minutes',
-        roundTrip: '28 minutes',
-        formatted: { oneWay: '14m', roundTrip: '28m' },
+/**
+ * Format a one-way or round-trip light time in minutes for display
+ */
+function formatLightTime(minutes: number): string {
+  return minutes >= 60 ? `${(minutes / 60).toFixed(2)} hours` : `${Math.round(minutes)} minutes`;
+}
+
+/**
+ * Position snapshot of a mission with its heliocentric ecliptic position (AU). Landed
+ * assets have no stored snapshot; theirs is computed from the host planet's ephemeris.
+ * Null when the catalog has neither.
+ */
+export function getPositionSnapshot(
+  mission: MissionDefinition,
+  date: Date = new Date()
+): { snapshot: MissionPositionSnapshot; position: { x: number; y: number; z: number } } | null {
+  if (mission.position) {
+    const snapshot = mission.position;
+    const latRad = (snapshot.lat * Math.PI) / 180;
+    const lonRad = (snapshot.lon * Math.PI) / 180;
+    return {
+      snapshot,
+      position: {
+        x: snapshot.distanceAu * Math.cos(lonRad) * Math.cos(latRad),
+        y: snapshot.distanceAu * Math.sin(lonRad) * Math.cos(latRad),
+        z: snapshot.distanceAu * Math.sin(latRad),
       },
-      timestamp: new Date().toISOString(),
-      dataSource: 'Cached/Fallback Data',
-      message: 'Live data is temporarily unavailable. Showing cached values.',
-      _realData: false,
+    };
+  }
+
+  if (!mission.surface) return null;
+
+  const { position, velocity } = heliocentricState(mission.surface.body, date);
+  const [x, y, z] = position;
+  const distanceAu = Math.hypot(...geocentricState(mission.surface.body, date).position);
+  const distanceKm = distanceAu * AU_KM;
+  const lon = (Math.atan2(y, x) * 180) / Math.PI;
+
+  return {
+    snapshot: {
+      distanceKm,
+      distanceAu,
+      velocityKms: (Math.hypot(...velocity) * AU_KM) / 86400,
+      lat: (Math.atan2(z, Math.hypot(x, y)) * 180) / Math.PI,
+      lon: lon < 0 ? lon + 360 : lon,
+      lightTimeMinutes: distanceKm / SPEED_OF_LIGHT_KMS / 60,
     },
-  },
+    position: { x, y, z },
+  };
+}
+
+/**
+ * Cached-value response for a spacecraft built from its catalog position snapshot,
+ * or null when the catalog has none
+ */
+export function getSpacecraftFallback(spacecraftId: string) {
+  const mission = findMissionById(spacecraftId.toLowerCase().trim());
+  const entry = mission && getPositionSnapshot(mission);
+  if (!mission || !entry) return null;
+
+  const { snapshot, position } = entry;
+  const oneWay = formatLightTime(snapshot.lightTimeMinutes);
+  const roundTrip = formatLightTime(snapshot.lightTimeMinutes * 2);
+
+  return {
+    id: mission.id,
+    name: mission.name,
+    status: 'Data temporarily unavailable',
+    distance: { km: snapshot.distanceKm, au: snapshot.distanceAu, lightTime: oneWay },
+    position,
+    velocity: { kms: snapshot.velocityKms, kmh: snapshot.velocityKms * 3600 },
+    coordinates: { lat: snapshot.lat, lon: snapshot.lon },
+    communicationDelay: { oneWay, roundTrip, formatted: { oneWay, roundTrip } },
+    timestamp: new Date().toISOString(),
+    dataSource: 'Cached/Fallback Data',
+    message: 'Live data is temporarily unavailable. Showing cached values.',
+    _realData: false,
+  };
+}
+
+export const FALLBACK_DATA = {
   dsn: {
     message: 'Deep Space Network data is temporarily unavailable.',
     stations: [],
@@ -17,8 +17,13 @@ import {
   type HorizonsQuery,
   type SpacecraftPosition,
   type HorizonsApiResponse,
+  type StateVector,
+  type ObserverSite,
+  type ObserverRow,
   HorizonsApiError,
 } from '@/lib/types/horizons';
+import { parseObserverResult, parseVectorsResult } from '@/lib/api/horizons-parser';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 // Re-export SPACECRAFT_IDS for use in other modules
 export { SPACECRAFT_IDS } from '@/lib/types/horizons';
@@ -26,6 +31,9 @@ export { SPACECRAFT_IDS } from '@/lib/types/horizons';
 const HORIZONS_API_BASE = 'https://ssd.jpl.nasa.gov/api/horizons.api';
 const AU_TO_KM = 149597870.7; // 1 AU in kilometers
 
+// Astrometric RA/Dec, apparent Az/El, magnitude, range, elongation and phase angle
+const OBSERVER_QUANTITIES = '1,4,9,20,23,24';
+
 /**
  * Fetches spacecraft position data from JPL Horizons API
  */
@@ -53,52 +61,14 @@ export async function getSpacecraftPosition(
     outUnits: 'KM-S',
     refSystem: 'ICRF',
     vecTable: '2',
+    csvFormat: true,
     ...options,
   };
 
-  // Build URL with query parameters (filter out undefined values)
-  const paramObject: Record<string, string> = {
-    format: 'json',
-    COMMAND: query.command,
-    EPHEM_TYPE: query.ephemType || 'VECTORS',
-    CENTER: query.center || '500@399',
-    START_TIME: query.startTime || '',
-    STOP_TIME: query.stopTime || '',
-    STEP_SIZE: query.stepSize || '1d',
-    OUT_UNITS: query.outUnits || 'KM-S',
-    REF_SYSTEM: query.refSystem || 'ICRF',
-    VEC_TABLE: query.vecTable || '2',
-  };
-
-  const params = new URLSearchParams(paramObject);
-
-  const url = `${HORIZONS_API_BASE}?${params.toString()}`;
-
   try {
-    const response = await fetch(url, {
-      // Cache for 6 hours (positions change slowly for distant spacecraft)
-      next: { revalidate: 21600 },
-    });
-
-    if (!response.ok) {
-      throw new HorizonsApiError(
-        `Horizons API request failed: ${response.statusText}`,
-        response.status
-      );
-    }
-
-    const data: HorizonsApiResponse = await response.json();
-
-    if (data.error) {
-      throw new HorizonsApiError(`Horizons API error: ${data.error}`);
-    }
-
-    if (!data.result) {
-      throw new HorizonsApiError('Horizons API returned no result data');
-    }
-
-    // Parse the result text to extract position data
-    return parseHorizonsResult(spacecraftId, data.result, now);
+    const result = await fetchHorizonsResult(query);
+    const [vector] = parseVectorsResult(result);
+    return toSpacecraftPosition(spacecraftId, vector, now);
   } catch (error) {
     if (error instanceof HorizonsApiError) {
       throw error;
@@ -112,99 +82,183 @@ export async function getSpacecraftPosition(
 }
 
 /**
- * Parses the text result from Horizons API to extract position data
+ * Fetches a table of state vectors for a spacecraft over a time span
  */
-function parseHorizonsResult(
-  spacecraftId: string,
-  resultText: string,
-  timestamp: Date
-): SpacecraftPosition {
-  try {
-    // The result contains sections marked with $$ delimiters
-    // We need to find the SOE (Start of Ephemeris) and EOE (End of Ephemeris) section
-    const soeIndex = resultText.indexOf('$$SOE');
-    const eoeIndex = resultText.indexOf('$$EOE');
+export async function getSpacecraftVectors(
+  spacecraftId: SpacecraftId,
+  options: Partial<HorizonsQuery> & Pick<HorizonsQuery, 'startTime' | 'stopTime'>
+): Promise<StateVector[]> {
+  const naifId = SPACECRAFT_IDS[spacecraftId];
+
+  if (!naifId) {
+    throw new HorizonsApiError(`Unknown spacecraft ID: ${spacecraftId}`);
+  }
 
-    if (soeIndex === -1 || eoeIndex === -1) {
-      throw new Error('Could not find ephemeris data in result');
+  return getBodyVectors(naifId, options);
+}
+
+/**
+ * Fetches a table of state vectors for any Horizons target: a NAIF ID ('599'),
+ * or a small body followed by a semicolon ('3548;')
+ */
+export async function getBodyVectors(
+  command: string,
+  options: Partial<HorizonsQuery> & Pick<HorizonsQuery, 'startTime' | 'stopTime'>
+): Promise<StateVector[]> {
+  const query: HorizonsQuery = {
+    command,
+    ephemType: 'VECTORS',
+    center: '500@399',
+    stepSize: '1h',
+    outUnits: 'KM-S',
+    refSystem: 'ICRF',
+    vecTable: '2',
+    csvFormat: true,
+    ...options,
+  };
+
+  try {
+    const result = await fetchHorizonsResult(query);
+    return parseVectorsResult(result);
+  } catch (error) {
+    if (error instanceof HorizonsApiError) {
+      throw error;
     }
+    throw new HorizonsApiError('Failed to fetch state vectors', undefined, error);
+  }
+}
 
-    // Extract the data line(s) between SOE and EOE
-    const ephemerisData = resultText.substring(soeIndex + 5, eoeIndex).trim();
-    const lines = ephemerisData.split('\n').filter((line) => line.trim());
+/**
+ * Fetches an OBSERVER table (RA/Dec, Az/El, magnitude, elongation, phase angle) for any
+ * Horizons target, seen from a site on Earth or from the geocenter when no site is given
+ */
+export async function getObserverTable(
+  command: string,
+  site: ObserverSite | null,
+  options: Partial<HorizonsQuery> & Pick<HorizonsQuery, 'startTime' | 'stopTime'>
+): Promise<ObserverRow[]> {
+  const query: HorizonsQuery = {
+    command,
+    ephemType: 'OBSERVER',
+    center: site ? 'coord@399' : '500@399',
+    siteCoord: site ? `${site.longitude},${site.latitude},${site.elevationKm}` : undefined,
+    stepSize: '1h',
+    quantities: OBSERVER_QUANTITIES,
+    angleFormat: 'DEG',
+    csvFormat: true,
+    ...options,
+  };
 
-    if (lines.length < 2) {
-      throw new Error('No ephemeris data lines found');
+  try {
+    const result = await fetchHorizonsResult(query);
+    return parseObserverResult(result);
+  } catch (error) {
+    if (error instanceof HorizonsApiError) {
+      throw error;
     }
+    throw new HorizonsApiError('Failed to fetch observer ephemeris', undefined, error);
+  }
+}
 
-    // Format is multi-line:
-    // Line 1: JDTDB = date
-    // Line 2: X = ... Y = ... Z = ...
-    // Line 3: VX= ... VY= ... VZ= ...
+/**
+ * Sends a query to the Horizons API and returns the raw result text
+ */
+async function fetchHorizonsResult(query: HorizonsQuery): Promise<string> {
+  // Build URL with query parameters (filter out undefined values)
+  const paramObject: Record<string, string> = {
+    format: 'json',
+    COMMAND: query.command,
+    EPHEM_TYPE: query.ephemType || 'VECTORS',
+    CENTER: query.center || '500@399',
+    START_TIME: query.startTime || '',
+    STOP_TIME: query.stopTime || '',
+    STEP_SIZE: query.stepSize || '1d',
+    REF_SYSTEM: query.refSystem || 'ICRF',
+  };
 
-    // Find lines with position and velocity data (use the first occurrence)
-    const positionLine = lines.find((line) => line.trim().startsWith('X ='));
-    const velocityLine = lines.find((line) => line.trim().startsWith('VX='));
+  if (paramObject.EPHEM_TYPE === 'VECTORS') {
+    paramObject.OUT_UNITS = query.outUnits || 'KM-S';
+    paramObject.VEC_TABLE = query.vecTable || '2';
+  }
 
-    if (!positionLine || !velocityLine) {
-      throw new Error('Could not find position or velocity data');
-    }
+  if (query.refPlane) {
+    paramObject.REF_PLANE = query.refPlane;
+  }
 
-    // Parse position: X = value Y = value Z = value
-    const posMatch = positionLine.match(/X\s*=\s*([-+]?[\d.E+-]+)\s+Y\s*=\s*([-+]?[\d.E+-]+)\s+Z\s*=\s*([-+]?[\d.E+-]+)/);
-    if (!posMatch) {
-      throw new Error('Could not parse position data');
-    }
+  if (query.quantities) {
+    paramObject.QUANTITIES = `'${query.quantities}'`;
+  }
 
-    const x = parseFloat(posMatch[1]);
-    const y = parseFloat(posMatch[2]);
-    const z = parseFloat(posMatch[3]);
+  if (query.siteCoord) {
+    paramObject.COORD_TYPE = 'GEODETIC';
+    paramObject.SITE_COORD = `'${query.siteCoord}'`;
+  }
 
-    // Parse velocity: VX= value VY= value VZ= value
-    const velMatch = velocityLine.match(/VX=\s*([-+]?[\d.E+-]+)\s+VY=\s*([-+]?[\d.E+-]+)\s+VZ=\s*([-+]?[\d.E+-]+)/);
-    if (!velMatch) {
-      throw new Error('Could not parse velocity data');
-    }
+  if (query.angleFormat) {
+    paramObject.ANGLE_FORMAT = query.angleFormat;
+  }
 
-    const vx = parseFloat(velMatch[1]);
-    const vy = parseFloat(velMatch[2]);
-    const vz = parseFloat(velMatch[3]);
+  if (query.csvFormat) {
+    paramObject.CSV_FORMAT = 'YES';
+  }
 
-    // Calculate distance from Earth (magnitude of position vector)
-    const distanceKm = Math.sqrt(x * x + y * y + z * z);
-    const distanceAU = distanceKm / AU_TO_KM;
+  const params = new URLSearchParams(paramObject);
 
-    // Calculate velocity magnitude
-    const velocityKmPerSec = Math.sqrt(vx * vx + vy * vy + vz * vz);
+  const url = `${HORIZONS_API_BASE}?${params.toString()}`;
 
-    // Light time in minutes (distance / speed of light)
-    const lightTimeMinutes = distanceKm / 299792.458 / 60;
-
-    return {
-      spacecraftId,
-      timestamp,
-      distanceFromEarthKm: distanceKm,
-      distanceFromEarthAU: distanceAU,
-      velocityKmPerSec,
-      lightTimeMinutes,
-      positionX: x,
-      positionY: y,
-      positionZ: z,
-      velocityX: vx,
-      velocityY: vy,
-      velocityZ: vz,
-      source: 'horizons-api',
-      lastUpdated: timestamp,
-    };
-  } catch (error) {
+  const response = await upstreamFetch(url, {
+    // Cache for 6 hours (positions change slowly for distant spacecraft)
+    next: { revalidate: 21600 },
+  });
+
+  if (!response.ok) {
     throw new HorizonsApiError(
-      `Failed to parse Horizons result: ${
-        error instanceof Error ? error.message : 'Unknown error'
-      }`,
-      undefined,
-      error
+      `Horizons API request failed: ${response.statusText}`,
+      response.status
     );
   }
+
+  const data: HorizonsApiResponse = await response.json();
+
+  if (data.error) {
+    throw new HorizonsApiError(`Horizons API error: ${data.error}`);
+  }
+
+  if (!data.result) {
+    throw new HorizonsApiError('Horizons API returned no result data');
+  }
+
+  return data.result;
+}
+
+/**
+ * Distance, speed and light time of a geocentric state vector
+ */
+function toSpacecraftPosition(
+  spacecraftId: string,
+  vector: StateVector,
+  timestamp: Date
+): SpacecraftPosition {
+  const { x, y, z, vx, vy, vz } = vector;
+  const distanceKm = Math.sqrt(x * x + y * y + z * z);
+
+  return {
+    spacecraftId,
+    timestamp,
+    distanceFromEarthKm: distanceKm,
+    distanceFromEarthAU: distanceKm / AU_TO_KM,
+    velocityKmPerSec: Math.sqrt(vx * vx + vy * vy + vz * vz),
+    // Light time in minutes (distance / speed of light)
+    lightTimeMinutes: distanceKm / 299792.458 / 60,
+    positionX: x,
+    positionY: y,
+    positionZ: z,
+    velocityX: vx,
+    velocityY: vy,
+    velocityZ: vz,
+    source: 'horizons-api',
+    lastUpdated: timestamp,
+  };
 }
 
 /**
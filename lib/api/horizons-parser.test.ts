@@ -0,0 +1,225 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  parseElementsResult,
+  parseEphemerisLimit,
+  parseHorizonsHeader,
+  parseHorizonsTable,
+  parseObserverResult,
+  parseVectorsResult,
+} from '@/lib/api/horizons-parser';
+import { HorizonsResultError } from '@/lib/types/horizons';
+
+const loadFixture = (name: string) =>
+  readFileSync(path.join(__dirname, '../../fixtures/horizons', `${name}.txt`), 'utf8');
+
+/**
+ * Run a parser on a fixture and return the HorizonsResultError it throws
+ */
+function resultError(parse: (text: string) => unknown, fixture: string): HorizonsResultError {
+  try {
+    parse(loadFixture(fixture));
+  } catch (error) {
+    if (error instanceof HorizonsResultError) return error;
+    throw error;
+  }
+  throw new Error(`${fixture} parsed without an error`);
+}
+
+describe('parseVectorsResult', () => {
+  const text = loadFixture('vectors-voyager-1');
+
+  it('reads the header', () => {
+    expect(parseHorizonsHeader(text)).toEqual({
+      targetBody: 'Voyager 1 (spacecraft) (-31)',
+      centerBody: 'Earth (399)',
+      centerSite: 'BODY CENTER',
+      referenceFrame: 'ICRF',
+      coordinateSystem: null,
+      units: 'KM-S',
+      timeScale: 'TDB',
+    });
+  });
+
+  it('parses typed rows', () => {
+    const rows = parseVectorsResult(text);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({
+      jdTDB: 2460968.5,
+      x: -5.152830921465571e9,
+      y: -2.419447836051834e10,
+      z: 5.262907015276401e9,
+      vx: -24.75190531043617,
+      vy: -8.834420118760532,
+      vz: 11.68520403915177,
+    });
+    // 00:00 TDB is 69.184 s ahead of UTC, give or take the ~1.7 ms periodic term
+    expect(
+      Math.abs(rows[0].time.getTime() - Date.parse('2025-10-19T23:58:50.816Z'))
+    ).toBeLessThanOrEqual(2);
+    expect(rows[2].jdTDB - rows[0].jdTDB).toBe(2);
+  });
+
+  it('keeps the column names and raw fields', () => {
+    const table = parseHorizonsTable(text);
+
+    expect(table.columns.slice(0, 8)).toEqual([
+      'JDTDB',
+      'Calendar Date (TDB)',
+      'X',
+      'Y',
+      'Z',
+      'VX',
+      'VY',
+      'VZ',
+    ]);
+    expect(table.records[1][1]).toBe('A.D. 2025-Oct-21 00:00:00.0000');
+  });
+});
+
+describe('parseObserverResult', () => {
+  const text = loadFixture('observer-mars-goldstone');
+
+  it('reads the header of a topocentric table', () => {
+    expect(parseHorizonsHeader(text)).toMatchObject({
+      targetBody: 'Mars (499)',
+      centerBody: 'Earth (399)',
+      centerSite: '(user defined site below)',
+      referenceFrame: null,
+      timeScale: 'UT',
+    });
+  });
+
+  it('parses typed rows', () => {
+    const rows = parseObserverResult(text);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toEqual({
+      time: new Date('2025-10-20T00:00:00Z'),
+      ra: 210.61702,
+      dec: -12.14589,
+      azimuth: 233.160514,
+      elevation: 18.337102,
+      magnitude: 1.588,
+      range: 2.41964006458216,
+      rangeRate: 10.5498051,
+      solarElongation: 11.4826,
+      elongationSide: 'trailing',
+      phaseAngle: 4.6331,
+      solarPresence: 'day',
+      moonUp: false,
+      heliocentricRange: null,
+      illumination: null,
+    });
+  });
+
+  it('reads the solar and lunar presence flags', () => {
+    const rows = parseObserverResult(text);
+
+    expect(rows.map((row) => row.solarPresence)).toEqual(['day', 'civil-twilight', 'night']);
+    expect(rows.map((row) => row.moonUp)).toEqual([false, false, true]);
+    expect(rows[2].elevation).toBe(-2.62753);
+  });
+
+  it('leaves sky conditions null for a geocentric table', () => {
+    const geocentric = text.replace(
+      'Center-site name: (user defined site below)',
+      'Center-site name: GEOCENTRIC'
+    );
+    const [row] = parseObserverResult(geocentric);
+
+    expect(row.solarPresence).toBeNull();
+    expect(row.moonUp).toBeNull();
+  });
+});
+
+describe('parseElementsResult', () => {
+  const text = loadFixture('elements-3i-atlas');
+
+  it('reads the header', () => {
+    expect(parseHorizonsHeader(text)).toEqual({
+      targetBody: '3I/ATLAS (C/2025 N1)',
+      centerBody: 'Sun (10)',
+      centerSite: 'BODY CENTER',
+      referenceFrame: 'ICRF',
+      coordinateSystem: 'Ecliptic of J2000.0',
+      units: 'AU-D, deg, Julian Day Number (Tp)',
+      timeScale: 'TDB',
+    });
+  });
+
+  it('parses typed rows with null apoapsis and period for an open orbit', () => {
+    const rows = parseElementsResult(text);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      jdTDB: 2460968.5,
+      eccentricity: 6.139253125040232,
+      periapsisDistance: 1.356512139041271,
+      inclination: 175.113085410842,
+      longitudeOfNode: 322.156779904021,
+      argumentOfPeriapsis: 128.0105559871213,
+      timeOfPeriapsis: 2460977.983767829,
+      meanMotion: 2.479489812870216,
+      meanAnomaly: -22.40237398574802,
+      trueAnomaly: -41.55938015283165,
+      semiMajorAxis: -0.2639621473012741,
+      apoapsisDistance: null,
+      period: null,
+    });
+  });
+});
+
+describe('result errors', () => {
+  it('reports no ephemeris with the coverage limit', () => {
+    const error = resultError(parseVectorsResult, 'no-ephemeris-lucy');
+
+    expect(error.code).toBe('no-ephemeris');
+    expect(error.message).toBe(
+      'No ephemeris for target "Lucy (spacecraft)" after A.D. 2033-APR-01 00:01:09.1823 TDB'
+    );
+    const limit = parseEphemerisLimit(error.message);
+    expect(limit?.side).toBe('after');
+    // 00:01:09.1823 TDB is within a few ms of midnight UTC
+    expect(
+      Math.abs((limit?.time.getTime() ?? NaN) - Date.parse('2033-04-01T00:00:00Z'))
+    ).toBeLessThanOrEqual(5);
+  });
+
+  it('lists the candidates of an ambiguous major body', () => {
+    const error = resultError(parseVectorsResult, 'ambiguous-voyager');
+
+    expect(error.code).toBe('ambiguous-target');
+    expect(error.matches).toEqual([
+      { id: '-31', name: 'Voyager 1 (spacecraft)' },
+      { id: '-32', name: 'Voyager 2 (spacecraft)' },
+    ]);
+  });
+
+  it('lists the candidates of an ambiguous small body', () => {
+    const error = resultError(parseObserverResult, 'ambiguous-atlas-small-body');
+
+    expect(error.code).toBe('ambiguous-target');
+    expect(error.matches).toEqual([
+      { id: '90004503', name: 'C/2019 Y4' },
+      { id: '90004909', name: 'C/2025 N1' },
+      { id: '90004911', name: 'C/2025 K1' },
+    ]);
+  });
+
+  it('reports an unknown target', () => {
+    const error = resultError(parseElementsResult, 'unknown-target');
+
+    expect(error.code).toBe('unknown-target');
+    expect(error.matches).toEqual([]);
+  });
+
+  it('reports a table without the requested columns as malformed', () => {
+    const error = resultError(parseElementsResult, 'vectors-voyager-1');
+
+    expect(error.code).toBe('malformed-result');
+    expect(error.message).toMatch(/Missing column/);
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Horizons Result Parser
+ *
+ * Reads the text `result` of a Horizons API query: the header block (target, center,
+ * frame, units, time scale) and CSV_FORMAT=YES tables for VECTORS, OBSERVER and
+ * ELEMENTS ephemerides. Columns are located by name, so quantity and table options
+ * may change without breaking the parsers. When Horizons answers with prose instead
+ * of a table (ambiguous or unknown target, no coverage) a HorizonsResultError says why.
+ */
+
+import {
+  HorizonsResultError,
+  type HorizonsHeader,
+  type HorizonsTable,
+  type HorizonsTimeScale,
+  type ObserverRow,
+  type OsculatingElements,
+  type SolarPresence,
+  type StateVector,
+} from '@/lib/types/horizons';
+import { fromJulianDate, fromScale, type TimeScale } from '@/lib/utils/time-scales';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const SOLAR_PRESENCE: Record<string, SolarPresence> = {
+  '*': 'day',
+  C: 'civil-twilight',
+  N: 'nautical-twilight',
+  A: 'astronomical-twilight',
+  '': 'night',
+};
+
+// Horizons prints 9.999999999999998E+99 for the apoapsis and period of open orbits
+const UNDEFINED_VALUE = 1e99;
+
+const TIME_SCALES: Record<HorizonsTimeScale, TimeScale> = { TDB: 'TDB', TT: 'TT', UT: 'UTC' };
+
+/**
+ * Parse a Horizons calendar date ('2025-Oct-20 00:00', 'A.D. 2025-Oct-20 00:00:00.0000')
+ * on the given time scale into a UTC instant
+ */
+function parseCalendarDate(value: string, scale: HorizonsTimeScale): Date | null {
+  const match = value.match(
+    /(\d{4})-([A-Za-z]{3})-(\d{2})\s+(\d{2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?/
+  );
+  if (!match) return null;
+
+  // Messages print months in upper case ('2030-AUG-31'), tables in title case
+  const month = MONTHS.findIndex((name) => name.toLowerCase() === match[2].toLowerCase());
+  if (month < 0) return null;
+
+  const reading =
+    Date.UTC(
+      parseInt(match[1]),
+      month,
+      parseInt(match[3]),
+      parseInt(match[4]),
+      parseInt(match[5])
+    ) + Math.round(parseFloat(match[6] || '0') * 1000);
+  return fromScale(reading, TIME_SCALES[scale]);
+}
+
+/**
+ * Parse a number, or an angle in either decimal degrees or sexagesimal
+ * ('12 34 56.78', '-01 23 45.6') when `hours` says how to scale it
+ */
+function parseAngle(value: string | undefined, hours: boolean): number | null {
+  if (!value) return null;
+
+  const parts = value.trim().split(/\s+/);
+  if (parts.length === 3) {
+    const [whole, minutes, seconds] = parts.map(parseFloat);
+    if ([whole, minutes, seconds].some(isNaN)) return null;
+    const sign = parts[0].startsWith('-') ? -1 : 1;
+    const degrees = sign * (Math.abs(whole) + minutes / 60 + seconds / 3600);
+    return hours ? degrees * 15 : degrees;
+  }
+
+  const number = parseFloat(value);
+  return isNaN(number) ? null : number;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const number = parseFloat(value);
+  return isNaN(number) || Math.abs(number) >= UNDEFINED_VALUE ? null : number;
+}
+
+/**
+ * Candidate targets from a Horizons multiple-match listing. The dashed line under the
+ * column titles gives the column boundaries.
+ */
+function parseMatches(lines: string[]): { id: string; name: string }[] {
+  const dashIndex = lines.findIndex((line) => /^\s*-{3,}(\s+-{3,})+\s*$/.test(line));
+  if (dashIndex < 1) return [];
+
+  const spans = [...lines[dashIndex].matchAll(/-+/g)].map((match) => [
+    match.index ?? 0,
+    (match.index ?? 0) + match[0].length,
+  ]);
+  const titles = spans.map(([start, end]) => lines[dashIndex - 1].slice(start, end).trim());
+  const nameColumn = titles.findIndex((title) => title === 'Name');
+  const designationColumn = titles.findIndex((title) => title === 'Primary Desig');
+
+  const matches: { id: string; name: string }[] = [];
+  for (const line of lines.slice(dashIndex + 1)) {
+    if (!line.trim()) break;
+
+    // Each field runs from its column start to the next column start
+    const field = (column: number) =>
+      column < 0 ? '' : line.slice(spans[column][0], spans[column + 1]?.[0] ?? line.length).trim();
+
+    const name = [field(designationColumn), field(nameColumn)].filter(Boolean).join(' ');
+    matches.push({ id: field(0), name });
+  }
+
+  return matches;
+}
+
+/**
+ * Throw a HorizonsResultError describing a result that has no ephemeris table
+ */
+function throwResultError(resultText: string): never {
+  const lines = resultText.split('\n');
+
+  if (/Multiple major-bodies match|Matching small-bodies/i.test(resultText)) {
+    const matches = parseMatches(lines);
+    throw new HorizonsResultError(
+      `Target is ambiguous; Horizons lists ${matches.length || 'several'} matches`,
+      'ambiguous-target',
+      matches
+    );
+  }
+
+  if (/No matches found|No such (object|record)|Unknown target/i.test(resultText)) {
+    throw new HorizonsResultError('Horizons does not recognize the target', 'unknown-target');
+  }
+
+  const noEphemeris = lines.find((line) =>
+    /No ephemeris for target|Insufficient ephemeris data/i.test(line)
+  );
+  if (noEphemeris) {
+    throw new HorizonsResultError(noEphemeris.trim(), 'no-ephemeris');
+  }
+
+  const firstLine = lines.map((line) => line.trim()).find(Boolean);
+  throw new HorizonsResultError(
+    `Could not find ephemeris data in result${firstLine ? `: ${firstLine}` : ''}`,
+    'malformed-result'
+  );
+}
+
+/**
+ * Coverage limit from a 'no-ephemeris' message ('No ephemeris for target "Lucy" after
+ * A.D. 2033-APR-01 00:00:00.0000 TDB'), so a query can be retried inside it
+ */
+export function parseEphemerisLimit(
+  message: string
+): { side: 'before' | 'after'; time: Date } | null {
+  const match = message.match(/\b(prior to|before|after)\s+(?:A\.D\.\s+)?(.+)$/i);
+  if (!match) return null;
+
+  // Messages end with the time scale; vector and element limits are in TDB
+  const scale = match[2].match(/\s(TDB|TT|UT)\s*$/)?.[1] as HorizonsTimeScale | undefined;
+  const time = parseCalendarDate(match[2], scale ?? 'TDB');
+  if (!time) return null;
+
+  return { side: match[1].toLowerCase() === 'after' ? 'after' : 'before', time };
+}
+
+/**
+ * Metadata from the header block of a Horizons result
+ */
+export function parseHorizonsHeader(resultText: string): HorizonsHeader {
+  const soeIndex = resultText.indexOf('$$SOE');
+  const headerText = soeIndex === -1 ? resultText : resultText.substring(0, soeIndex);
+
+  // "Label : value   {source: ...}"
+  const field = (label: string): string | null => {
+    const match = headerText.match(
+      new RegExp(`^${label}\\s*:\\s*(.*?)\\s*(?:\\{[^}]*\\})?\\s*$`, 'm')
+    );
+    return match && match[1] ? match[1] : null;
+  };
+
+  const startTime = field('Start time') || '';
+  const scaleMatch = startTime.match(/\b(TDB|TT|UTC|UT)$/);
+  const timeScale = scaleMatch
+    ? ((scaleMatch[1] === 'UTC' ? 'UT' : scaleMatch[1]) as HorizonsTimeScale)
+    : null;
+
+  return {
+    targetBody: field('Target body name'),
+    centerBody: field('Center body name'),
+    centerSite: field('Center-site name'),
+    referenceFrame: field('Reference frame'),
+    coordinateSystem: field('Coordinate systm'),
+    units: field('Output units'),
+    timeScale,
+  };
+}
+
+/**
+ * Header, column names and raw fields of a CSV_FORMAT=YES table
+ */
+export function parseHorizonsTable(resultText: string): HorizonsTable {
+  const soeIndex = resultText.indexOf('$$SOE');
+  const eoeIndex = resultText.indexOf('$$EOE');
+
+  if (soeIndex === -1 || eoeIndex === -1) {
+    throwResultError(resultText);
+  }
+
+  // Column names sit on the last comma-separated line above the table
+  const columnLine = resultText
+    .substring(0, soeIndex)
+    .split('\n')
+    .reverse()
+    .find((line) => line.includes(','));
+
+  if (!columnLine) {
+    throw new HorizonsResultError('Result is not a CSV table', 'malformed-result');
+  }
+
+  const records = resultText
+    .substring(soeIndex + 5, eoeIndex)
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => line.split(',').map((value) => value.trim()));
+
+  if (records.length === 0) {
+    throw new HorizonsResultError('No ephemeris data lines found', 'no-ephemeris');
+  }
+
+  return {
+    header: parseHorizonsHeader(resultText),
+    columns: columnLine.split(',').map((name) => name.trim()),
+    records,
+  };
+}
+
+/**
+ * Index of the first column matching a pattern, throwing if a required one is missing
+ */
+function columnIndex(columns: string[], pattern: RegExp, required: boolean = true): number {
+  const index = columns.findIndex((name) => pattern.test(name));
+  if (index < 0 && required) {
+    throw new HorizonsResultError(`Missing column ${pattern.source}`, 'malformed-result');
+  }
+  return index;
+}
+
+/**
+ * State vectors from a CSV VECTORS table (VEC_TABLE=2 or wider)
+ */
+export function parseVectorsResult(resultText: string): StateVector[] {
+  const { columns, records } = parseHorizonsTable(resultText);
+  const index = {
+    jd: columnIndex(columns, /^JDTDB$/),
+    x: columnIndex(columns, /^X$/),
+    y: columnIndex(columns, /^Y$/),
+    z: columnIndex(columns, /^Z$/),
+    vx: columnIndex(columns, /^VX$/),
+    vy: columnIndex(columns, /^VY$/),
+    vz: columnIndex(columns, /^VZ$/),
+  };
+
+  return records.map((fields) => {
+    const jdTDB = parseFloat(fields[index.jd]);
+    return {
+      jdTDB,
+      time: fromJulianDate(jdTDB, 'TDB'),
+      x: parseFloat(fields[index.x]),
+      y: parseFloat(fields[index.y]),
+      z: parseFloat(fields[index.z]),
+      vx: parseFloat(fields[index.vx]),
+      vy: parseFloat(fields[index.vy]),
+      vz: parseFloat(fields[index.vz]),
+    };
+  });
+}
+
+/**
+ * Rows of a CSV OBSERVER table in either angle format. Sky conditions are reported
+ * only for a site on the surface; geocentric tables leave them null.
+ */
+export function parseObserverResult(resultText: string): ObserverRow[] {
+  const { header, columns, records } = parseHorizonsTable(resultText);
+  const index = {
+    date: columnIndex(columns, /^Date/),
+    ra: columnIndex(columns, /^R\.A\./),
+    dec: columnIndex(columns, /^DEC/),
+    azimuth: columnIndex(columns, /^Azi/, false),
+    elevation: columnIndex(columns, /^Elev/, false),
+    magnitude: columnIndex(columns, /^(APmag|T-mag)$/, false),
+    heliocentricRange: columnIndex(columns, /^r$/, false),
+    range: columnIndex(columns, /^delta$/),
+    rangeRate: columnIndex(columns, /^deldot$/, false),
+    illumination: columnIndex(columns, /^Illu%$/, false),
+    elongation: columnIndex(columns, /^S-O-T$/, false),
+    elongationSide: columnIndex(columns, /^\/r$/, false),
+    phaseAngle: columnIndex(columns, /^S-T-O$/, false),
+  };
+
+  const topocentric = !!header.centerSite && !/GEOCENTRIC|BODY CENTER/i.test(header.centerSite);
+  const at = (fields: string[], column: number) => (column < 0 ? undefined : fields[column]);
+
+  return records.flatMap((fields) => {
+    const time = parseCalendarDate(fields[index.date], header.timeScale ?? 'UT');
+    if (!time) return [];
+
+    const side = at(fields, index.elongationSide);
+
+    return [
+      {
+        time,
+        ra: parseAngle(fields[index.ra], true) ?? NaN,
+        dec: parseAngle(fields[index.dec], false) ?? NaN,
+        azimuth: parseNumber(at(fields, index.azimuth)),
+        elevation: parseNumber(at(fields, index.elevation)),
+        magnitude: parseNumber(at(fields, index.magnitude)),
+        range: parseNumber(fields[index.range]) ?? NaN,
+        rangeRate: parseNumber(at(fields, index.rangeRate)) ?? NaN,
+        solarElongation: parseNumber(at(fields, index.elongation)),
+        elongationSide: side === '/L' ? 'leading' : side === '/T' ? 'trailing' : null,
+        phaseAngle: parseNumber(at(fields, index.phaseAngle)),
+        // The solar and lunar presence flags follow the date
+        solarPresence: topocentric ? (SOLAR_PRESENCE[fields[index.date + 1]] ?? null) : null,
+        moonUp: topocentric ? /[mr]/.test(fields[index.date + 2] || '') : null,
+        heliocentricRange: parseNumber(at(fields, index.heliocentricRange)),
+        illumination: parseNumber(at(fields, index.illumination)),
+      },
+    ];
+  });
+}
+
+/**
+ * Osculating elements from a CSV ELEMENTS table
+ */
+export function parseElementsResult(resultText: string): OsculatingElements[] {
+  const { columns, records } = parseHorizonsTable(resultText);
+  const index = {
+    jd: columnIndex(columns, /^JDTDB$/),
+    EC: columnIndex(columns, /^EC$/),
+    QR: columnIndex(columns, /^QR$/),
+    IN: columnIndex(columns, /^IN$/),
+    OM: columnIndex(columns, /^OM$/),
+    W: columnIndex(columns, /^W$/),
+    Tp: columnIndex(columns, /^Tp$/),
+    N: columnIndex(columns, /^N$/),
+    MA: columnIndex(columns, /^MA$/),
+    TA: columnIndex(columns, /^TA$/),
+    A: columnIndex(columns, /^A$/),
+    AD: columnIndex(columns, /^AD$/),
+    PR: columnIndex(columns, /^PR$/),
+  };
+
+  return records.map((fields) => {
+    const value = (column: number) => parseFloat(fields[column]);
+    const jdTDB = value(index.jd);
+
+    return {
+      jdTDB,
+      time: fromJulianDate(jdTDB, 'TDB'),
+      eccentricity: value(index.EC),
+      periapsisDistance: value(index.QR),
+      inclination: value(index.IN),
+      longitudeOfNode: value(index.OM),
+      argumentOfPeriapsis: value(index.W),
+      timeOfPeriapsis: value(index.Tp),
+      meanMotion: value(index.N),
+      meanAnomaly: value(index.MA),
+      trueAnomaly: value(index.TA),
+      semiMajorAxis: value(index.A),
+      apoapsisDistance: parseNumber(fields[index.AD]),
+      period: parseNumber(fields[index.PR]),
+    };
+  });
+}
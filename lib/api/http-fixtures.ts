@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { FixtureMode } from '@/lib/api/upstream-fetch';
+
+/**
+ * HTTP Fixtures
+ * Server-only store behind upstreamFetch. Each response is a JSON file at
+ * <dir>/<host>/<path>-<endpoint hash>/<request hash>.json, where the endpoint hash
+ * leaves out time parameters and the request hash does not.
+ */
+
+interface Fixture {
+  method: string;
+  /** Request URL with secrets removed */
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  bodyEncoding: 'utf8' | 'base64';
+  recordedAt: string;
+}
+
+// Query parameters never written to disk or used in keys
+const SECRET_PARAMS = ['api_key'];
+
+// Query parameters that change with the clock rather than with what is asked for
+const VOLATILE_PARAM_PATTERN = /time|date|^_t$/i;
+
+// Response headers worth keeping; the rest describe the original transfer
+const KEPT_HEADERS = ['content-type', 'cache-control', 'last-modified', 'etag'];
+
+function getDirectory(): string {
+  return process.env.HTTP_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'http');
+}
+
+function hash(value: string, length: number): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, length);
+}
+
+/**
+ * URL with secrets removed and parameters sorted
+ */
+function redact(url: URL): URL {
+  const clean = new URL(url.toString());
+  for (const name of SECRET_PARAMS) clean.searchParams.delete(name);
+  clean.searchParams.sort();
+  return clean;
+}
+
+function locate(method: string, url: URL): { endpointDir: string; file: string } {
+  const clean = redact(url);
+  const requestKey = `${method} ${clean}`;
+
+  for (const name of [...clean.searchParams.keys()]) {
+    if (VOLATILE_PARAM_PATTERN.test(name)) clean.searchParams.delete(name);
+  }
+  const endpointKey = `${method} ${clean}`;
+
+  const slug =
+    url.pathname
+      .replace(/[^A-Za-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 60) || 'root';
+  const endpointDir = path.join(
+    getDirectory(),
+    url.hostname.toLowerCase(),
+    `${slug}-${hash(endpointKey, 8)}`
+  );
+
+  return { endpointDir, file: path.join(endpointDir, `${hash(requestKey, 16)}.json`) };
+}
+
+async function readFixture(file: string): Promise<Fixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as Fixture;
+  } catch {
+    return null; // Not recorded
+  }
+}
+
+/**
+ * The recording for this exact request, else the latest one for its endpoint
+ */
+async function findFixture(method: string, url: URL): Promise<Fixture | null> {
+  const { endpointDir, file } = locate(method, url);
+
+  const exact = await readFixture(file);
+  if (exact) return exact;
+
+  const names = await fs.readdir(endpointDir).catch(() => [] as string[]);
+  const fixtures = await Promise.all(
+    names
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => readFixture(path.join(endpointDir, name)))
+  );
+
+  const recorded = fixtures.filter((fixture): fixture is Fixture => !!fixture);
+  recorded.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  return recorded[0] ?? null;
+}
+
+async function saveFixture(method: string, url: URL, response: Response): Promise<void> {
+  const { endpointDir, file } = locate(method, url);
+  const contentType = response.headers.get('content-type') || '';
+  const textual = /^text\/|json|xml|javascript|rss|atom/i.test(contentType);
+
+  const headers: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = response.headers.get(name);
+    if (value) headers[name] = value;
+  }
+
+  const fixture: Fixture = {
+    method,
+    url: redact(url).toString(),
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: textual
+      ? await response.text()
+      : Buffer.from(await response.arrayBuffer()).toString('base64'),
+    bodyEncoding: textual ? 'utf8' : 'base64',
+    recordedAt: new Date().toISOString(),
+  };
+
+  try {
+    await fs.mkdir(endpointDir, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf8');
+  } catch (error) {
+    console.warn(`Could not record ${fixture.url}:`, error);
+  }
+}
+
+/**
+ * Serve or record one request in a non-live mode
+ */
+export async function fetchWithFixtures(
+  mode: Exclude<FixtureMode, 'live'>,
+  url: URL,
+  init?: RequestInit
+): Promise<Response> {
+  const method = (init?.method || 'GET').toUpperCase();
+
+  if (mode === 'replay' || mode === 'auto') {
+    const fixture = await findFixture(method, url);
+    if (fixture) {
+      const body =
+        fixture.bodyEncoding === 'base64' ? Buffer.from(fixture.body, 'base64') : fixture.body;
+      return new Response(body, {
+        status: fixture.status,
+        statusText: fixture.statusText,
+        headers: fixture.headers,
+      });
+    }
+
+    if (mode === 'replay') {
+      // Same shape as a network failure, so routes degrade the way they do offline
+      throw new TypeError(`fetch failed: no recorded response for ${method} ${redact(url)}`);
+    }
+  }
+
+  const response = await fetch(url, init);
+  await saveFixture(method, url, response.clone());
+  return response;
+}
@@ -4,16 +4,17 @@
  */
 
 import { NASAAPIError } from '@/lib/types/nasa-api';
+import { parseVectorsResult } from '@/lib/api/horizons-parser';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
+import { eclipticToEquatorial } from '@/lib/utils/ephemeris';
+import { heliocentricState } from '@/lib/utils/planetary-ephemeris';
+import { findMissionById } from '@/lib/utils/mission-catalog';
+import { SPACECRAFT_ID_LIST, SPACECRAFT_IDS, type SpacecraftId } from '@/lib/types/horizons';
 
-// Spacecraft IDs in JPL Horizons
-export const SPACECRAFT_IDS = {
-  VOYAGER_1: '-31',
-  VOYAGER_2: '-32',
-  NEW_HORIZONS: '-98',
-  PARKER_SOLAR_PROBE: '-96',
-  JUNO: '-61',
-  CASSINI: '-82', // Historical
-} as const;
+const AU_KM = 149597870.7;
+
+// Spacecraft IDs in JPL Horizons, keyed by catalog mission ID
+export { SPACECRAFT_IDS } from '@/lib/types/horizons';
 
 export interface SpacecraftPosition {
   id: string;
@@ -39,7 +40,7 @@ export interface SpacecraftPosition {
 }
 
 export interface HorizonsOptions {
-  spacecraft: keyof typeof SPACECRAFT_IDS;
+  spacecraft: SpacecraftId;
   startTime?: string; // ISO date
   stopTime?: string; // ISO date
   stepSize?: string; // e.g., '1d', '1h'
@@ -51,9 +52,7 @@ class JPLHorizonsService {
   /**
    * Get current position and telemetry for a spacecraft
    */
-  async getSpacecraftPosition(
-    spacecraft: keyof typeof SPACECRAFT_IDS
-  ): Promise<SpacecraftPosition> {
+  async getSpacecraftPosition(spacecraft: SpacecraftId): Promise<SpacecraftPosition> {
     const now = new Date();
     const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
 
@@ -67,15 +66,14 @@ class JPLHorizonsService {
       START_TIME: now.toISOString().split('T')[0],
       STOP_TIME: tomorrow.toISOString().split('T')[0],
       STEP_SIZE: '1d',
-      VEC_TABLE: '3', // Position and velocity
+      VEC_TABLE: '2', // Position and velocity
       REF_SYSTEM: 'ICRF',
       OUT_UNITS: 'KM-S',
-      VEC_LABELS: 'YES',
-      CSV_FORMAT: 'NO',
+      CSV_FORMAT: 'YES',
     });
 
     try {
-      const response = await fetch(`${this.baseUrl}?${params}`);
+      const response = await upstreamFetch(`${this.baseUrl}?${params}`);
 
       if (!response.ok) {
         throw new NASAAPIError(`JPL Horizons API error: ${response.statusText}`, response.status);
@@ -93,15 +91,8 @@ class JPLHorizonsService {
    * Get positions for all tracked spacecraft
    */
   async getAllSpacecraftPositions(): Promise<SpacecraftPosition[]> {
-    const spacecraftList: (keyof typeof SPACECRAFT_IDS)[] = [
-      'VOYAGER_1',
-      'VOYAGER_2',
-      'NEW_HORIZONS',
-      'PARKER_SOLAR_PROBE',
-    ];
-
     const positions = await Promise.allSettled(
-      spacecraftList.map((sc) => this.getSpacecraftPosition(sc))
+      SPACECRAFT_ID_LIST.map((sc) => this.getSpacecraftPosition(sc))
     );
 
     return positions
@@ -112,50 +103,19 @@ class JPLHorizonsService {
   /**
    * Parse JPL Horizons response into our format
    */
-  private parseHorizonsResponse(
-    data: any,
-    spacecraft: keyof typeof SPACECRAFT_IDS
-  ): SpacecraftPosition {
+  private parseHorizonsResponse(data: any, spacecraft: SpacecraftId): SpacecraftPosition {
     // Extract ephemeris data from response
     const result = data.result;
     if (!result) {
       throw new NASAAPIError('Invalid Horizons response format');
     }
 
-    // Parse the ephemeris table
-    const lines = result.split('\n');
-    let inDataSection = false;
-    let dataLine = '';
-
-    for (const line of lines) {
-      if (line.includes('$$SOE')) {
-        inDataSection = true;
-        continue;
-      }
-      if (line.includes('$$EOE')) {
-        break;
-      }
-      if (inDataSection && line.trim()) {
-        dataLine = line;
-        break; // Get first data line
-      }
-    }
-
-    // Parse position and velocity from data line
-    // Format: JDTDB, Calendar Date (TDB), X, Y, Z, VX, VY, VZ
-    const parts = dataLine.trim().split(/\s+/);
-
-    // Extract values (typically starts at index 2 after date/time)
-    const x = parseFloat(parts[2]) || 0;
-    const y = parseFloat(parts[3]) || 0;
-    const z = parseFloat(parts[4]) || 0;
-    const vx = parseFloat(parts[5]) || 0;
-    const vy = parseFloat(parts[6]) || 0;
-    const vz = parseFloat(parts[7]) || 0;
+    // First row of the ephemeris table
+    const [{ time, x, y, z, vx, vy, vz }] = parseVectorsResult(result);
 
     // Calculate distances
     const distanceFromEarth = Math.sqrt(x * x + y * y + z * z);
-    const distanceFromSun = this.calculateSolarDistance(x, y, z);
+    const distanceFromSun = this.calculateSolarDistance(x, y, z, time);
 
     // Calculate communication delay (speed of light = 299,792 km/s)
     const lightSpeed = 299792; // km/s
@@ -178,28 +138,19 @@ class JPLHorizonsService {
   }
 
   /**
-   * Calculate distance from Sun (assuming Earth at ~1 AU)
+   * Calculate distance from Sun by adding Earth's heliocentric position (ICRF, km)
    */
-  private calculateSolarDistance(x: number, y: number, z: number): number {
-    // Rough approximation - Earth's position would need to be subtracted
-    // for accurate Sun distance
-    const earthOrbitRadius = 149597870.7; // 1 AU in km
-    return Math.sqrt((x + earthOrbitRadius) ** 2 + y ** 2 + z ** 2);
+  private calculateSolarDistance(x: number, y: number, z: number, date: Date): number {
+    const [ex, ey, ez] = heliocentricState('earth', date).position;
+    const earth = eclipticToEquatorial(ex * AU_KM, ey * AU_KM, ez * AU_KM);
+    return Math.sqrt((x + earth.x) ** 2 + (y + earth.y) ** 2 + (z + earth.z) ** 2);
   }
 
   /**
    * Get human-readable spacecraft name
    */
-  private getSpacecraftName(id: keyof typeof SPACECRAFT_IDS): string {
-    const names = {
-      VOYAGER_1: 'Voyager 1',
-      VOYAGER_2: 'Voyager 2',
-      NEW_HORIZONS: 'New Horizons',
-      PARKER_SOLAR_PROBE: 'Parker Solar Probe',
-      JUNO: 'Juno',
-      CASSINI: 'Cassini',
-    };
-    return names[id] || id;
+  private getSpacecraftName(id: SpacecraftId): string {
+    return findMissionById(id)?.name ?? id;
   }
 
   /**
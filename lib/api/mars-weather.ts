@@ -8,6 +8,7 @@ import {
   NASAAPIError,
   CacheConfig,
 } from '@/lib/types/nasa-api';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 export interface MarsWeatherOptions {
   feedtype?: 'json';
@@ -77,7 +78,7 @@ export class MarsWeatherAPI extends NASAApiBase {
       const url = this.buildUrlWithParams('/insight_weather/', params);
 
       try {
-        const response = await fetch(url);
+        const response = await upstreamFetch(url);
 
         if (!response.ok) {
           throw new NASAAPIError(
@@ -11,6 +11,7 @@ import {
   NASAAPIError,
   CacheConfig,
 } from '@/lib/types/nasa-api';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 export interface MediaSearchOptions extends NASASearchParams {
   includeAssets?: boolean; // Whether to fetch asset URLs for each item
@@ -106,7 +107,7 @@ export class NASAMediaAPI extends NASAApiBase {
       const url = `${this.baseMediaUrl}/search?${searchParams.toString()}`;
 
       try {
-        const response = await fetch(url);
+        const response = await upstreamFetch(url);
 
         if (!response.ok) {
           throw new NASAAPIError(
@@ -156,7 +157,7 @@ export class NASAMediaAPI extends NASAApiBase {
       const url = `${this.baseMediaUrl}/asset/${nasaId}`;
 
       try {
-        const response = await fetch(url);
+        const response = await upstreamFetch(url);
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -5,6 +5,7 @@
 
 import { getApiKey } from './config';
 import type { NextRequest } from 'next/server';
+import { upstreamFetch } from '@/lib/api/upstream-fetch';
 
 export interface RoverPhoto {
   id: number;
@@ -126,7 +127,7 @@ export class NASARoverService {
       throw new Error('Rate limit exceeded. Please try again later.');
     }
 
-    const response = await fetch(url, {
+    const response = await upstreamFetch(url, {
       headers: {
         'User-Agent': 'Stellar-Navigator-Dashboard/1.0',
       },
@@ -0,0 +1,67 @@
+/**
+ * Upstream Fetch with Record/Replay
+ *
+ * Drop-in replacement for fetch() on calls to external services (JPL SSD, Horizons,
+ * api.nasa.gov, DSN Now, RSS feeds, ISS). Set HTTP_FIXTURES_MODE to save responses under
+ * fixtures/http and serve them back, so the app and its regression checks run offline:
+ *
+ * - live (default): always call the service
+ * - record: call the service and save every response
+ * - replay: serve saved responses only; a missing one fails like a network error
+ * - auto: replay when a response is saved, otherwise call the service and save it
+ *
+ * HTTP_FIXTURES_HOSTS overrides the mode per host, e.g. "api.nasa.gov=live,nasa.gov=replay"
+ * (a host entry also matches its subdomains). HTTP_FIXTURES_DIR moves the directory.
+ *
+ * Requests are keyed on method, host, path and query with the API key removed. A request
+ * differing from a saved one only in its time parameters (START_TIME, date, ...) replays
+ * the latest saved response for that endpoint, so "now"-relative queries work offline.
+ * Recording needs a filesystem and is only active on the server.
+ */
+
+export type FixtureMode = 'live' | 'record' | 'replay' | 'auto';
+
+const FIXTURE_MODES: FixtureMode[] = ['live', 'record', 'replay', 'auto'];
+
+function parseMode(value: string | undefined): FixtureMode | null {
+  const mode = value?.trim().toLowerCase();
+  return FIXTURE_MODES.includes(mode as FixtureMode) ? (mode as FixtureMode) : null;
+}
+
+/**
+ * Mode for a host: the most specific HTTP_FIXTURES_HOSTS entry, then HTTP_FIXTURES_MODE
+ */
+function getMode(host: string): FixtureMode {
+  let best: { host: string; mode: FixtureMode } | null = null;
+
+  for (const entry of (process.env.HTTP_FIXTURES_HOSTS || '').split(',')) {
+    const [pattern, value] = entry.split('=').map((part) => part?.trim().toLowerCase());
+    const mode = parseMode(value);
+    if (!pattern || !mode) continue;
+
+    const matches = host === pattern || host.endsWith(`.${pattern}`);
+    if (matches && (!best || pattern.length > best.host.length)) {
+      best = { host: pattern, mode };
+    }
+  }
+
+  return best?.mode ?? parseMode(process.env.HTTP_FIXTURES_MODE) ?? 'live';
+}
+
+/**
+ * fetch() that records or replays responses according to HTTP_FIXTURES_MODE
+ */
+export async function upstreamFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+  // The fixture store uses Node APIs; this branch is compiled out of client bundles
+  if (typeof window === 'undefined') {
+    const url = new URL(input.toString());
+    const mode = getMode(url.hostname.toLowerCase());
+
+    if (mode !== 'live') {
+      const { fetchWithFixtures } = await import('@/lib/api/http-fixtures');
+      return fetchWithFixtures(mode, url, init);
+    }
+  }
+
+  return fetch(input, init);
+}
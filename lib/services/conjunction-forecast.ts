@@ -0,0 +1,127 @@
+import { SPACECRAFT_ID_LIST, type SpacecraftId } from '@/lib/types/horizons';
+import { trajectoryCache } from '@/lib/services/trajectory-cache';
+import {
+  DEFAULT_CONJUNCTION_THRESHOLDS,
+  findConjunctions,
+  sunEarthProbeAngle,
+  type ConjunctionPeriod,
+  type SEPSample,
+} from '@/lib/utils/solar-conjunction';
+
+/**
+ * Conjunction Forecast
+ * Computes Sun-Earth-Probe angles over the coming months for Horizons-tracked
+ * spacecraft and flags the periods when DSN links degrade or drop near the Sun.
+ * Geocentric and heliocentric tables come from the trajectory cache, so repeated
+ * forecasts within its lifetime cost no upstream calls.
+ */
+
+export interface ConjunctionForecast {
+  spacecraftId: SpacecraftId;
+  start: Date;
+  /** End of the window, earlier than requested where the ephemeris coverage ends */
+  stop: Date;
+  thresholds: number[];
+  /** SEP angle at the first sample of the window (degrees) */
+  currentAngle: number;
+  /** Smallest SEP angle in the window */
+  closestApproach: SEPSample;
+  periods: ConjunctionPeriod[];
+  /** Daily SEP angles across the window */
+  samples: SEPSample[];
+}
+
+export interface ConjunctionForecastOptions {
+  /** Forecast length (default: 365) */
+  days?: number;
+  /** SEP thresholds in degrees (default: 2 and 5) */
+  thresholds?: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class ConjunctionForecaster {
+  private readonly DEFAULT_DAYS = 365;
+  private readonly STEP_MINUTES = 720; // Fine enough to catch Parker's short dips
+  private readonly SAMPLES_PER_DAY = 1440 / this.STEP_MINUTES;
+
+  /**
+   * Forecast for one spacecraft, starting today (UTC)
+   */
+  async getForecast(
+    spacecraftId: SpacecraftId,
+    options: ConjunctionForecastOptions = {}
+  ): Promise<ConjunctionForecast> {
+    const days = options.days ?? this.DEFAULT_DAYS;
+    const thresholds = [...(options.thresholds ?? DEFAULT_CONJUNCTION_THRESHOLDS)].sort(
+      (a, b) => a - b
+    );
+
+    // Day-aligned so every request made today shares the cached tables
+    const start = new Date(Math.floor(Date.now() / DAY_MS) * DAY_MS);
+    const stop = new Date(start.getTime() + days * DAY_MS);
+    const query = {
+      spacecraftId,
+      start,
+      stop,
+      stepMinutes: this.STEP_MINUTES,
+      frame: 'equatorial' as const,
+    };
+
+    const [geocentric, heliocentric] = await Promise.all([
+      trajectoryCache.get({ ...query, center: 'earth' }),
+      trajectoryCache.get({ ...query, center: 'sun' }),
+    ]);
+
+    const heliocentricByTime = new Map(
+      heliocentric.trajectory.samples.map((sample) => [sample.time, sample])
+    );
+    const samples: SEPSample[] = geocentric.trajectory.samples
+      .filter((sample) => heliocentricByTime.has(sample.time))
+      .map((sample) => ({
+        time: new Date(sample.time),
+        angle: sunEarthProbeAngle(sample, heliocentricByTime.get(sample.time)!),
+      }))
+      .filter((sample) => isFinite(sample.angle));
+
+    if (samples.length === 0) {
+      throw new Error(`No ephemeris samples for ${spacecraftId}`);
+    }
+
+    return {
+      spacecraftId,
+      start,
+      stop: new Date(geocentric.trajectory.stop),
+      thresholds,
+      currentAngle: samples[0].angle,
+      closestApproach: samples.reduce((min, sample) => (sample.angle < min.angle ? sample : min)),
+      periods: findConjunctions(samples, thresholds),
+      samples: samples.filter((_, index) => index % this.SAMPLES_PER_DAY === 0),
+    };
+  }
+
+  /**
+   * Forecasts for several spacecraft (default: all tracked). Failures are returned
+   * per spacecraft so one unreachable table doesn't hide the rest.
+   */
+  async getForecasts(
+    spacecraftIds: SpacecraftId[] = SPACECRAFT_ID_LIST,
+    options: ConjunctionForecastOptions = {}
+  ): Promise<Array<ConjunctionForecast | { spacecraftId: SpacecraftId; error: string }>> {
+    const results = await Promise.allSettled(
+      spacecraftIds.map((id) => this.getForecast(id, options))
+    );
+
+    return results.map((result, index) =>
+      result.status === 'fulfilled'
+        ? result.value
+        : {
+            spacecraftId: spacecraftIds[index],
+            error: result.reason instanceof Error ? result.reason.message : 'Forecast failed',
+          }
+    );
+  }
+}
+
+// Create singleton instance
+export const conjunctionForecaster = new ConjunctionForecaster();
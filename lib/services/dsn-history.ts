@@ -0,0 +1,248 @@
+import { promises as fs } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import path from 'path';
+import type { DSNData, DSNSignal } from '@/lib/api/dsn';
+
+/**
+ * DSN History Recorder
+ * Persists parsed DSN snapshots to newline-delimited JSON files (one file per UTC day)
+ * so contact history can be queried by spacecraft, complex, dish and time range.
+ */
+
+interface DSNHistoryRecord {
+  timestamp: number;
+  station: string;
+  stationName: string;
+  dish: string;
+  azimuthAngle: number;
+  elevationAngle: number;
+  activity?: string;
+  isArray?: boolean;
+  isDDOR?: boolean;
+  isMSPA?: boolean;
+  target: string;
+  spacecraft: string[];
+  downSignal?: DSNSignal;
+  upSignal?: DSNSignal;
+}
+
+interface DSNHistoryQuery {
+  /** Spacecraft code or target name (e.g. VGR2) */
+  spacecraft?: string;
+  /** Complex code or friendly name (e.g. mdscc, Madrid) */
+  complex?: string;
+  /** Dish name (e.g. DSS43) */
+  dish?: string;
+  /** Start of range (ms since epoch) */
+  from?: number;
+  /** End of range (ms since epoch) */
+  to?: number;
+  /** Maximum number of records returned, newest first */
+  limit?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshots are written timestamp first so out-of-range lines are skipped unparsed;
+// lines written before that ordering carry it last
+const LEADING_TIMESTAMP = /^\{"timestamp":(\d+),/;
+const TRAILING_TIMESTAMP = /,"timestamp":(\d+)\}$/;
+
+class DSNHistoryStore {
+  private readonly directory =
+    process.env.DSN_HISTORY_DIR || path.join(process.cwd(), '.dsn-history');
+  private readonly retentionDays = parseInt(process.env.DSN_HISTORY_RETENTION_DAYS || '30');
+  private readonly MIN_INTERVAL_MS = 30 * 1000; // Upstream XML refreshes every few seconds
+  private readonly MAX_MEMORY_SNAPSHOTS = 2880; // 24 hours at the minimum interval
+  private readonly MAX_QUERY_DAYS = 31;
+
+  private lastRecorded = 0;
+  private lastPruned = '';
+  // Holds new snapshots when the filesystem is read-only (e.g. serverless deployments)
+  private memory: DSNData[] = [];
+  private diskWritable = true;
+
+  /**
+   * Get the file holding snapshots for the UTC day containing the timestamp
+   */
+  private getFilePath(timestamp: number): string {
+    return path.join(this.directory, `dsn-${new Date(timestamp).toISOString().slice(0, 10)}.jsonl`);
+  }
+
+  /**
+   * Persist a parsed DSN snapshot, skipping snapshots taken too close to the previous one
+   */
+  async record(data: DSNData): Promise<boolean> {
+    if (!data.stations || data.stations.length === 0) {
+      return false;
+    }
+
+    const timestamp = data.timestamp || Date.now();
+    if (timestamp - this.lastRecorded < this.MIN_INTERVAL_MS) {
+      return false;
+    }
+    this.lastRecorded = timestamp;
+
+    const snapshot: DSNData = { timestamp, stations: data.stations };
+
+    if (this.diskWritable) {
+      try {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.appendFile(this.getFilePath(timestamp), JSON.stringify(snapshot) + '\n', 'utf8');
+        await this.prune(timestamp);
+        return true;
+      } catch (error) {
+        console.warn('DSN history disk store unavailable, keeping history in memory:', error);
+        this.diskWritable = false;
+      }
+    }
+
+    this.memory.push(snapshot);
+    if (this.memory.length > this.MAX_MEMORY_SNAPSHOTS) {
+      this.memory.splice(0, this.memory.length - this.MAX_MEMORY_SNAPSHOTS);
+    }
+    return true;
+  }
+
+  /**
+   * Remove day files older than the retention window (checked once per day)
+   */
+  private async prune(now: number): Promise<void> {
+    const today = new Date(now).toISOString().slice(0, 10);
+    if (this.lastPruned === today) return;
+    this.lastPruned = today;
+
+    const cutoff = new Date(now - this.retentionDays * DAY_MS).toISOString().slice(0, 10);
+    const files = await fs.readdir(this.directory);
+
+    for (const file of files) {
+      const match = file.match(/^dsn-(\d{4}-\d{2}-\d{2})\.jsonl$/);
+      if (match && match[1] < cutoff) {
+        await fs.unlink(path.join(this.directory, file));
+      }
+    }
+  }
+
+  /**
+   * Load snapshots within a time range from disk and memory. Files recorded before a
+   * write failure are still read; only new snapshots move to memory.
+   */
+  async getSnapshots(from: number, to: number): Promise<DSNData[]> {
+    const snapshots: DSNData[] = [];
+
+    const start = Math.max(from, to - this.MAX_QUERY_DAYS * DAY_MS);
+    for (let day = start - (start % DAY_MS); day <= to; day += DAY_MS) {
+      let file: FileHandle;
+      try {
+        file = await fs.open(this.getFilePath(day), 'r');
+      } catch {
+        continue; // No snapshots recorded that day
+      }
+
+      // Streamed line by line; the handle closes itself at the end of the file
+      for await (const line of file.readLines()) {
+        const match = LEADING_TIMESTAMP.exec(line) ?? TRAILING_TIMESTAMP.exec(line);
+        if (match) {
+          const timestamp = Number(match[1]);
+          if (timestamp < from || timestamp > to) continue;
+        } else if (!line.trim()) {
+          continue;
+        }
+
+        try {
+          const snapshot = JSON.parse(line) as DSNData;
+          if (snapshot.timestamp >= from && snapshot.timestamp <= to) {
+            snapshots.push(snapshot);
+          }
+        } catch {
+          // Skip partially written lines
+        }
+      }
+    }
+
+    snapshots.push(...this.memory.filter((s) => s.timestamp >= from && s.timestamp <= to));
+
+    return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Query dish/target records matching the filter, newest first
+   */
+  async query(filter: DSNHistoryQuery = {}): Promise<DSNHistoryRecord[]> {
+    const to = filter.to ?? Date.now();
+    const from = filter.from ?? to - DAY_MS;
+    const limit = filter.limit ?? 500;
+
+    const snapshots = await this.getSnapshots(from, to);
+    const records: DSNHistoryRecord[] = [];
+
+    for (let i = snapshots.length - 1; i >= 0 && records.length < limit; i--) {
+      for (const record of flattenSnapshot(snapshots[i])) {
+        if (matchesFilter(record, filter)) {
+          records.push(record);
+          if (records.length >= limit) break;
+        }
+      }
+    }
+
+    return records;
+  }
+}
+
+/**
+ * Flatten a snapshot into one record per dish/target pair
+ */
+export function flattenSnapshot(snapshot: DSNData): DSNHistoryRecord[] {
+  const records: DSNHistoryRecord[] = [];
+
+  snapshot.stations.forEach((station) => {
+    station.dishes.forEach((dish) => {
+      dish.targets.forEach((target) => {
+        records.push({
+          timestamp: snapshot.timestamp,
+          station: station.name,
+          stationName: station.friendlyName,
+          dish: dish.name,
+          azimuthAngle: dish.azimuthAngle,
+          elevationAngle: dish.elevationAngle,
+          activity: dish.activity,
+          isArray: dish.isArray,
+          isDDOR: dish.isDDOR,
+          isMSPA: dish.isMSPA,
+          target: target.name,
+          spacecraft: target.spacecraft || [target.name],
+          downSignal: target.downSignal,
+          upSignal: target.upSignal,
+        });
+      });
+    });
+  });
+
+  return records;
+}
+
+function matchesFilter(record: DSNHistoryRecord, filter: DSNHistoryQuery): boolean {
+  if (filter.spacecraft) {
+    const spacecraft = filter.spacecraft.toUpperCase();
+    const names = [record.target, ...record.spacecraft].map((name) => name.toUpperCase());
+    if (!names.includes(spacecraft)) return false;
+  }
+
+  if (filter.complex) {
+    const complex = filter.complex.toLowerCase();
+    if (record.station.toLowerCase() !== complex && record.stationName.toLowerCase() !== complex) {
+      return false;
+    }
+  }
+
+  if (filter.dish && record.dish.toUpperCase() !== filter.dish.toUpperCase()) {
+    return false;
+  }
+
+  return true;
+}
+
+// Create singleton instance
+export const dsnHistory = new DSNHistoryStore();
+
+export type { DSNHistoryRecord, DSNHistoryQuery };
@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getSpacecraftVectors } from '@/lib/api/horizons-client';
+import {
+  HorizonsApiError,
+  isSpacecraftId,
+  SPACECRAFT_ID_LIST,
+  type SpacecraftId,
+  type StateVector,
+} from '@/lib/types/horizons';
+import { formatHorizonsTime } from '@/lib/services/trajectory-cache';
+import { coversRange, interpolateVectors } from '@/lib/utils/ephemeris';
+import { fromJulianDate } from '@/lib/utils/time-scales';
+
+/**
+ * Ephemeris Cache
+ * Keeps multi-day Horizons state-vector tables (geocentric, ICRF equatorial) for every
+ * tracked spacecraft and interpolates states at any time inside them, so callers no
+ * longer make their own Horizons request. Tables are persisted to disk when possible.
+ */
+
+type EphemerisSource = 'horizons-cache' | 'horizons-cache-stale';
+
+interface EphemerisTable {
+  spacecraftId: SpacecraftId;
+  /** When the table was pulled from Horizons (ms since epoch) */
+  fetchedAt: number;
+  vectors: StateVector[];
+}
+
+interface EphemerisVectors {
+  vectors: StateVector[];
+  source: EphemerisSource;
+  fetchedAt: number;
+}
+
+interface EphemerisState extends StateVector {
+  spacecraftId: SpacecraftId;
+  source: EphemerisSource;
+  fetchedAt: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+class EphemerisCache {
+  private readonly directory =
+    process.env.EPHEMERIS_CACHE_DIR || path.join(process.cwd(), '.ephemeris-cache');
+  private readonly REFRESH_MS = 6 * HOUR_MS; // Tables are smooth; no need to refetch often
+  private readonly PAST_DAYS = 3; // Covers the upleg of a round trip to Voyager 1
+  private readonly FUTURE_DAYS = 14; // Covers the longest pass prediction window
+  private readonly MAX_HOURLY_DAYS = 30; // Wider requests use a coarser step
+
+  private tables = new Map<SpacecraftId, EphemerisTable>();
+  private pending = new Map<SpacecraftId, Promise<EphemerisTable>>();
+  private diskAvailable = true;
+
+  /**
+   * Whether the spacecraft can be served from Horizons
+   */
+  isTracked(spacecraftId: string): spacecraftId is SpacecraftId {
+    return isSpacecraftId(spacecraftId);
+  }
+
+  /**
+   * State vectors covering [from, to] (UTC). Refreshes the table when it is old or
+   * too short, and serves the previous table (labeled stale) if Horizons is down.
+   */
+  async getVectors(spacecraftId: SpacecraftId, from: Date, to: Date): Promise<EphemerisVectors> {
+    const table = this.tables.get(spacecraftId) || (await this.readFromDisk(spacecraftId));
+    const covers = !!table && coversRange(table.vectors, from, to);
+
+    if (table && covers && Date.now() - table.fetchedAt < this.REFRESH_MS) {
+      return { vectors: table.vectors, source: 'horizons-cache', fetchedAt: table.fetchedAt };
+    }
+
+    try {
+      const fresh = await this.refresh(spacecraftId, from, to);
+      return { vectors: fresh.vectors, source: 'horizons-cache', fetchedAt: fresh.fetchedAt };
+    } catch (error) {
+      if (table && covers) {
+        console.warn(`Ephemeris refresh failed for ${spacecraftId}, serving cached table:`, error);
+        return {
+          vectors: table.vectors,
+          source: 'horizons-cache-stale',
+          fetchedAt: table.fetchedAt,
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Interpolated geocentric state at a UTC time (default: now)
+   */
+  async getState(spacecraftId: SpacecraftId, date: Date = new Date()): Promise<EphemerisState> {
+    const { vectors, source, fetchedAt } = await this.getVectors(spacecraftId, date, date);
+    const state = interpolateVectors(vectors, date);
+
+    if (!state) {
+      throw new HorizonsApiError(
+        `No ephemeris coverage for ${spacecraftId} at ${date.toISOString()}`
+      );
+    }
+
+    return { ...state, spacecraftId, source, fetchedAt };
+  }
+
+  /**
+   * Table row nearest a UTC time, however old the table is. Seeds offline propagation
+   * when Horizons is unreachable and no table covers the time; null if nothing is held.
+   */
+  async getLastKnownState(
+    spacecraftId: SpacecraftId,
+    date: Date = new Date()
+  ): Promise<EphemerisState | null> {
+    const table = this.tables.get(spacecraftId) || (await this.readFromDisk(spacecraftId));
+    if (!table || table.vectors.length === 0) return null;
+
+    const time = date.getTime();
+    const nearest = table.vectors.reduce((best, v) =>
+      Math.abs(v.time.getTime() - time) < Math.abs(best.time.getTime() - time) ? v : best
+    );
+
+    return {
+      ...nearest,
+      spacecraftId,
+      source: 'horizons-cache-stale',
+      fetchedAt: table.fetchedAt,
+    };
+  }
+
+  /**
+   * Pull tables for every tracked spacecraft (failures are logged, not thrown)
+   */
+  async prefetch(spacecraftIds: SpacecraftId[] = SPACECRAFT_ID_LIST) {
+    const now = new Date();
+    await Promise.all(
+      spacecraftIds.map((id) =>
+        this.getVectors(id, now, now).catch((error) =>
+          console.warn(`Ephemeris prefetch failed for ${id}:`, error)
+        )
+      )
+    );
+  }
+
+  /**
+   * Fetch a table spanning the default window widened to [from, to].
+   * Concurrent requests for the same spacecraft share one upstream call; a caller whose
+   * range the shared table does not cover fetches again once it lands.
+   */
+  private async refresh(spacecraftId: SpacecraftId, from: Date, to: Date): Promise<EphemerisTable> {
+    const inFlight = this.pending.get(spacecraftId);
+    if (inFlight) {
+      const table = await inFlight;
+      if (coversRange(table.vectors, from, to)) return table;
+      return this.refresh(spacecraftId, from, to);
+    }
+
+    const request = (async () => {
+      const now = Date.now();
+      const startMs = Math.min(from.getTime(), now - this.PAST_DAYS * DAY_MS);
+      const stopMs = Math.max(to.getTime(), now + this.FUTURE_DAYS * DAY_MS);
+      const start = new Date(startMs - (startMs % DAY_MS));
+      const stop = new Date(stopMs - (stopMs % DAY_MS) + DAY_MS);
+      const spanDays = (stop.getTime() - start.getTime()) / DAY_MS;
+
+      const vectors = await getSpacecraftVectors(spacecraftId, {
+        startTime: formatHorizonsTime(start),
+        stopTime: formatHorizonsTime(stop),
+        stepSize: spanDays > this.MAX_HOURLY_DAYS ? '6h' : '1h',
+        refPlane: 'FRAME',
+      });
+
+      const table: EphemerisTable = { spacecraftId, fetchedAt: Date.now(), vectors };
+      this.tables.set(spacecraftId, table);
+      await this.writeToDisk(table);
+      return table;
+    })().finally(() => this.pending.delete(spacecraftId));
+
+    // Removed before waiters resume, so a waiter that refetches starts a new request
+    this.pending.set(spacecraftId, request);
+    return request;
+  }
+
+  private getFilePath(spacecraftId: SpacecraftId): string {
+    return path.join(this.directory, `${spacecraftId}.json`);
+  }
+
+  private async writeToDisk(table: EphemerisTable): Promise<void> {
+    if (!this.diskAvailable) return;
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.getFilePath(table.spacecraftId), JSON.stringify(table), 'utf8');
+    } catch (error) {
+      console.warn('Ephemeris disk cache unavailable, keeping tables in memory:', error);
+      this.diskAvailable = false;
+    }
+  }
+
+  private async readFromDisk(spacecraftId: SpacecraftId): Promise<EphemerisTable | null> {
+    if (!this.diskAvailable) return null;
+
+    try {
+      const content = await fs.readFile(this.getFilePath(spacecraftId), 'utf8');
+      const parsed = JSON.parse(content) as EphemerisTable;
+      const table: EphemerisTable = {
+        ...parsed,
+        // The Julian Date is the unambiguous epoch; the UTC time is derived from it
+        vectors: parsed.vectors.map((v) => ({ ...v, time: fromJulianDate(v.jdTDB, 'TDB') })),
+      };
+      this.tables.set(spacecraftId, table);
+      return table;
+    } catch {
+      return null; // Not cached yet
+    }
+  }
+}
+
+// Create singleton instance
+export const ephemerisCache = new EphemerisCache();
+
+export type { EphemerisSource, EphemerisState };
@@ -0,0 +1,152 @@
+import type { DSNData } from '@/lib/api/dsn';
+import { fetchDSNSnapshot } from '@/lib/api/dsn-xml';
+import { getSpacecraftSummaries } from '@/lib/api/spacecraft-positions';
+import { dsnHistory } from '@/lib/services/dsn-history';
+import { ephemerisCache } from '@/lib/services/ephemeris-cache';
+import { diffById, diffDSNData, isDSNDiffEmpty } from '@/lib/utils/live-diff';
+
+/**
+ * Live Stream Hub
+ * Polls upstream once per interval on the server and fans the changes out to every
+ * connected /api/stream client, so browser tabs no longer fetch the DSN XML themselves.
+ */
+
+type SpacecraftSummary = Awaited<ReturnType<typeof getSpacecraftSummaries>>[number];
+
+type LiveStreamEvent = 'snapshot' | 'dsn' | 'spacecraft';
+
+type Subscriber = (event: LiveStreamEvent, data: unknown) => void;
+
+// Fields that change on every poll without the underlying state changing
+const SPACECRAFT_VOLATILE_FIELDS = ['timestamp', 'lastUpdate'];
+
+class LiveStreamHub {
+  private subscribers = new Set<Subscriber>();
+  private dsnState: DSNData | null = null;
+  private spacecraftState: SpacecraftSummary[] | null = null;
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private ready: Promise<void> | null = null;
+  // Set once the first polls have settled and subscribers have had their snapshot
+  private primed = false;
+
+  readonly DSN_INTERVAL_MS = 10 * 1000; // Matches the DSN XML refresh cadence
+  readonly SPACECRAFT_INTERVAL_MS = 60 * 1000; // 1 minute
+
+  /**
+   * Register a client. It receives a full snapshot first, then diffs only.
+   * Returns an unsubscribe function.
+   */
+  async subscribe(subscriber: Subscriber): Promise<() => void> {
+    this.subscribers.add(subscriber);
+
+    if (this.timers.length === 0) {
+      this.start();
+    }
+
+    await this.ready;
+    subscriber('snapshot', this.getSnapshot());
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Number of connected clients (for monitoring)
+   */
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  private start(): void {
+    // Warm ephemeris tables for every tracked spacecraft, not just the streamed ones
+    ephemerisCache.prefetch();
+    this.ready = Promise.all([this.pollDSN(), this.pollSpacecraft()]).then(() => {
+      this.primed = true;
+    });
+    this.timers = [
+      setInterval(() => this.pollDSN(), this.DSN_INTERVAL_MS),
+      setInterval(() => this.pollSpacecraft(), this.SPACECRAFT_INTERVAL_MS),
+    ];
+  }
+
+  private stop(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+    // Drop state so a later client does not receive a stale snapshot
+    this.dsnState = null;
+    this.spacecraftState = null;
+    this.ready = null;
+    this.primed = false;
+  }
+
+  private getSnapshot() {
+    return { dsn: this.dsnState, spacecraft: this.spacecraftState, timestamp: Date.now() };
+  }
+
+  private broadcast(event: LiveStreamEvent, data: unknown): void {
+    this.subscribers.forEach((subscriber) => {
+      try {
+        subscriber(event, data);
+      } catch (error) {
+        console.error('Live stream subscriber error:', error);
+        this.subscribers.delete(subscriber);
+      }
+    });
+  }
+
+  private async pollDSN(): Promise<void> {
+    try {
+      const data = await fetchDSNSnapshot();
+      if (data.stations.length === 0) return;
+
+      // Keep the history recorder fed while clients are streaming instead of polling
+      dsnHistory
+        .record(data)
+        .catch((error) => console.error('DSN history recording error:', error));
+
+      const previous = this.dsnState;
+      this.dsnState = data;
+
+      if (previous) {
+        const diff = diffDSNData(previous, data);
+        if (!isDSNDiffEmpty(diff)) {
+          this.broadcast('dsn', diff);
+        }
+      } else if (this.primed) {
+        // The first poll failed, so clients hold no DSN state to apply diffs to
+        this.broadcast('snapshot', this.getSnapshot());
+      }
+    } catch (error) {
+      console.error('Live stream DSN poll failed:', error);
+    }
+  }
+
+  private async pollSpacecraft(): Promise<void> {
+    try {
+      const spacecraft = await getSpacecraftSummaries();
+
+      const previous = this.spacecraftState;
+      this.spacecraftState = spacecraft;
+
+      if (previous) {
+        const diff = diffById(previous, spacecraft, SPACECRAFT_VOLATILE_FIELDS);
+        if (diff.updated.length > 0 || diff.removed.length > 0) {
+          this.broadcast('spacecraft', { ...diff, timestamp: Date.now() });
+        }
+      } else if (this.primed) {
+        this.broadcast('snapshot', this.getSnapshot());
+      }
+    } catch (error) {
+      console.error('Live stream spacecraft poll failed:', error);
+    }
+  }
+}
+
+// Create singleton instance
+export const liveStreamHub = new LiveStreamHub();
+
+export type { LiveStreamEvent, SpacecraftSummary };
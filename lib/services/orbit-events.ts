@@ -0,0 +1,209 @@
+import { getBodyVectors, getSpacecraftVectors } from '@/lib/api/horizons-client';
+import {
+  formatHorizonsTime,
+  formatStep,
+  getCoveredVectors,
+  TRAJECTORY_CENTERS,
+} from '@/lib/services/trajectory-cache';
+import { SPACECRAFT_IDS, type SpacecraftId, type StateVector } from '@/lib/types/horizons';
+import { GM_SUN } from '@/lib/utils/kepler';
+import { findMissionById, type MissionEventBody } from '@/lib/utils/mission-catalog';
+import {
+  findDistanceExtrema,
+  relativeStates,
+  type DistanceExtremum,
+  type OrbitEventType,
+} from '@/lib/utils/orbit-events';
+
+/**
+ * Orbit Events
+ * Scans daily heliocentric Horizons tables for a spacecraft's perihelia and aphelia,
+ * and for its closest approaches to the bodies listed under `eventBodies` in the
+ * mission catalog. A flyby bends the path too sharply to interpolate across a day, so
+ * each close approach is measured again on a 10-minute grid around it. The window is
+ * clipped to the spacecraft's ephemeris coverage when Horizons reports a limit.
+ */
+
+export interface OrbitEvent {
+  type: OrbitEventType;
+  /** UTC epoch of the extremum */
+  time: Date;
+  /** Horizons ID and name of the body ('10' and 'Sun' for perihelia and aphelia) */
+  bodyId: string;
+  bodyName: string;
+  /** Distance to the body (km) */
+  distanceKm: number;
+  /** Speed relative to the body (km/s) */
+  relativeSpeedKms: number;
+  /** Distance from the Sun (km) */
+  heliocentricDistanceKm: number;
+}
+
+export interface OrbitEventList {
+  spacecraftId: SpacecraftId;
+  /** Window that was scanned (UTC), after clipping to the ephemeris */
+  start: Date;
+  stop: Date;
+  events: OrbitEvent[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SUN = { id: '10', name: 'Sun' };
+
+// Distance from the Sun at the sample closest to `time`
+function heliocentricDistanceAt(samples: StateVector[], time: Date): number {
+  const nearest = samples.reduce((best, sample) =>
+    Math.abs(sample.time.getTime() - time.getTime()) <
+    Math.abs(best.time.getTime() - time.getTime())
+      ? sample
+      : best
+  );
+  return Math.hypot(nearest.x, nearest.y, nearest.z);
+}
+
+class OrbitEventDetector {
+  private cache = new Map<SpacecraftId, { data: OrbitEventList; expiresAt: number }>();
+  private readonly TTL = 12 * 60 * 60 * 1000;
+  private readonly PAST_DAYS = 365;
+  private readonly FUTURE_DAYS = 5 * 365;
+  private readonly SCAN_STEP_MINUTES = 1440;
+  private readonly REFINE_STEP_MINUTES = 10;
+  // Daily interpolation can be far off for a flyby, so candidates get some slack
+  private readonly CANDIDATE_MARGIN = 3;
+
+  /**
+   * Events for one spacecraft from a year ago to five years ahead, in time order
+   */
+  async getEvents(spacecraftId: SpacecraftId): Promise<OrbitEventList> {
+    const entry = this.cache.get(spacecraftId);
+    if (entry && Date.now() < entry.expiresAt) {
+      return entry.data;
+    }
+
+    // Day-aligned so the tables of every body share epochs
+    const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    const { start, stop, vectors } = await getCoveredVectors(
+      SPACECRAFT_IDS[spacecraftId],
+      new Date(today - this.PAST_DAYS * DAY_MS),
+      new Date(today + this.FUTURE_DAYS * DAY_MS),
+      this.SCAN_STEP_MINUTES,
+      { center: TRAJECTORY_CENTERS.sun }
+    );
+
+    const events: OrbitEvent[] = findDistanceExtrema(vectors, GM_SUN).map((extremum) => ({
+      type: extremum.kind === 'minimum' ? 'perihelion' : 'aphelion',
+      time: extremum.time,
+      bodyId: SUN.id,
+      bodyName: SUN.name,
+      distanceKm: extremum.distanceKm,
+      relativeSpeedKms: extremum.speedKms,
+      heliocentricDistanceKm: extremum.distanceKm,
+    }));
+
+    if (vectors.length > 1) {
+      const approaches = await Promise.all(
+        (findMissionById(spacecraftId)?.eventBodies ?? []).map((body) =>
+          this.findCloseApproaches(spacecraftId, body, vectors, start, stop)
+        )
+      );
+      events.push(...approaches.flat());
+    }
+
+    const data: OrbitEventList = {
+      spacecraftId,
+      start,
+      stop,
+      events: events.sort((a, b) => a.time.getTime() - b.time.getTime()),
+    };
+    this.cache.set(spacecraftId, { data, expiresAt: Date.now() + this.TTL });
+    return data;
+  }
+
+  private async findCloseApproaches(
+    spacecraftId: SpacecraftId,
+    body: MissionEventBody,
+    spacecraft: StateVector[],
+    start: Date,
+    stop: Date
+  ): Promise<OrbitEvent[]> {
+    const maxDistanceKm = body.maxDistanceKm ?? Infinity;
+    const bodyVectors = await getBodyVectors(body.id, this.query(start, stop));
+
+    const candidates = findDistanceExtrema(relativeStates(spacecraft, bodyVectors)).filter(
+      (extremum) =>
+        extremum.kind === 'minimum' && extremum.distanceKm < maxDistanceKm * this.CANDIDATE_MARGIN
+    );
+
+    const approaches = await Promise.all(
+      candidates.map(async (candidate) => {
+        try {
+          return await this.measureApproach(spacecraftId, body, candidate.time);
+        } catch {
+          // Keep the daily estimate if the fine tables are unavailable
+          return {
+            type: 'closest-approach' as const,
+            time: candidate.time,
+            bodyId: body.id,
+            bodyName: body.name,
+            distanceKm: candidate.distanceKm,
+            relativeSpeedKms: candidate.speedKms,
+            heliocentricDistanceKm: heliocentricDistanceAt(spacecraft, candidate.time),
+          };
+        }
+      })
+    );
+
+    return approaches.filter(
+      (approach): approach is OrbitEvent => !!approach && approach.distanceKm < maxDistanceKm
+    );
+  }
+
+  /**
+   * Closest approach on a fine grid one day either side of a daily estimate
+   */
+  private async measureApproach(
+    spacecraftId: SpacecraftId,
+    body: MissionEventBody,
+    around: Date
+  ): Promise<OrbitEvent | null> {
+    const query = this.query(
+      new Date(around.getTime() - DAY_MS),
+      new Date(around.getTime() + DAY_MS),
+      this.REFINE_STEP_MINUTES
+    );
+    const [spacecraft, bodyVectors] = await Promise.all([
+      getSpacecraftVectors(spacecraftId, query),
+      getBodyVectors(body.id, query),
+    ]);
+
+    const closest = findDistanceExtrema(relativeStates(spacecraft, bodyVectors))
+      .filter((extremum) => extremum.kind === 'minimum')
+      .reduce<DistanceExtremum | null>(
+        (best, extremum) => (!best || extremum.distanceKm < best.distanceKm ? extremum : best),
+        null
+      );
+    if (!closest) return null;
+
+    return {
+      type: 'closest-approach',
+      time: closest.time,
+      bodyId: body.id,
+      bodyName: body.name,
+      distanceKm: closest.distanceKm,
+      relativeSpeedKms: closest.speedKms,
+      heliocentricDistanceKm: heliocentricDistanceAt(spacecraft, closest.time),
+    };
+  }
+
+  private query(start: Date, stop: Date, stepMinutes: number = this.SCAN_STEP_MINUTES) {
+    return {
+      startTime: formatHorizonsTime(start),
+      stopTime: formatHorizonsTime(stop),
+      stepSize: formatStep(stepMinutes),
+      center: TRAJECTORY_CENTERS.sun,
+    };
+  }
+}
+
+// Create singleton instance
+export const orbitEventDetector = new OrbitEventDetector();
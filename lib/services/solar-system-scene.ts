@@ -0,0 +1,127 @@
+import { getCoveredVectors, TRAJECTORY_CENTERS } from '@/lib/services/trajectory-cache';
+import { TTLCache } from '@/lib/services/ttl-cache';
+import { SPACECRAFT_IDS } from '@/lib/types/horizons';
+import { findMissionById } from '@/lib/utils/mission-catalog';
+import type { SceneBody, SceneBodyKind, TrackSample } from '@/lib/utils/solar-system-scene';
+
+/**
+ * Solar System Scene
+ * Heliocentric ecliptic tracks from Horizons for the 3D solar system view: the planets,
+ * every Horizons-tracked spacecraft, a few asteroids and the interstellar objects.
+ * All bodies share one time grid; a spacecraft's track is cut to its ephemeris
+ * coverage. A body Horizons can't serve is returned with an error, not dropped.
+ */
+
+interface SceneBodyDefinition {
+  id: string;
+  name: string;
+  kind: SceneBodyKind;
+  /** Horizons COMMAND */
+  command: string;
+  color: string;
+}
+
+export interface SolarSystemScene {
+  start: Date;
+  stop: Date;
+  stepMinutes: number;
+  bodies: SceneBody[];
+}
+
+const SCENE_PLANETS: SceneBodyDefinition[] = [
+  { id: 'mercury', name: 'Mercury', kind: 'planet', command: '199', color: '#a8a29e' },
+  { id: 'venus', name: 'Venus', kind: 'planet', command: '299', color: '#fcd34d' },
+  { id: 'earth', name: 'Earth', kind: 'planet', command: '399', color: '#3b82f6' },
+  { id: 'mars', name: 'Mars', kind: 'planet', command: '499', color: '#ef4444' },
+  { id: 'jupiter', name: 'Jupiter', kind: 'planet', command: '599', color: '#f59e0b' },
+  { id: 'saturn', name: 'Saturn', kind: 'planet', command: '699', color: '#eab308' },
+  { id: 'uranus', name: 'Uranus', kind: 'planet', command: '799', color: '#67e8f9' },
+  { id: 'neptune', name: 'Neptune', kind: 'planet', command: '899', color: '#6366f1' },
+];
+
+const SCENE_SMALL_BODIES: SceneBodyDefinition[] = [
+  { id: 'ceres', name: 'Ceres', kind: 'asteroid', command: '1;', color: '#d6d3d1' },
+  { id: 'vesta', name: 'Vesta', kind: 'asteroid', command: '4;', color: '#d6d3d1' },
+  { id: 'bennu', name: 'Bennu', kind: 'asteroid', command: '101955;', color: '#d6d3d1' },
+  { id: 'apophis', name: 'Apophis', kind: 'asteroid', command: '99942;', color: '#d6d3d1' },
+  { id: '1i', name: "1I/'Oumuamua", kind: 'interstellar', command: 'A/2017 U1', color: '#f472b6' },
+  { id: '2i', name: '2I/Borisov', kind: 'interstellar', command: 'C/2019 Q4', color: '#f472b6' },
+  { id: '3i', name: '3I/ATLAS', kind: 'interstellar', command: 'C/2025 N1', color: '#f472b6' },
+];
+
+const SPACECRAFT_COLOR = '#4ade80';
+const AU_KM = 149597870.7;
+const DAY_S = 86400;
+
+const round = (value: number) => Math.round(value * 1e7) / 1e7;
+
+class SolarSystemSceneService {
+  private cache = new TTLCache<SolarSystemScene>(6 * 60 * 60 * 1000, 20);
+
+  /**
+   * Tracks for every scene body from `start` to `stop` (aligned to the step)
+   */
+  async getScene(start: Date, stop: Date, stepMinutes: number): Promise<SolarSystemScene> {
+    const stepMs = stepMinutes * 60 * 1000;
+    const alignedStart = new Date(Math.floor(start.getTime() / stepMs) * stepMs);
+    const alignedStop = new Date(Math.ceil(stop.getTime() / stepMs) * stepMs);
+
+    const key = `${alignedStart.toISOString()}|${alignedStop.toISOString()}|${stepMinutes}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const definitions = [
+      ...SCENE_PLANETS,
+      ...Object.entries(SPACECRAFT_IDS).map(([id, naifId]) => ({
+        id,
+        name: findMissionById(id)?.name ?? id,
+        kind: 'spacecraft' as const,
+        command: naifId,
+        color: SPACECRAFT_COLOR,
+      })),
+      ...SCENE_SMALL_BODIES,
+    ];
+
+    const results = await Promise.allSettled(
+      definitions.map((body) =>
+        getCoveredVectors(body.command, alignedStart, alignedStop, stepMinutes, {
+          center: TRAJECTORY_CENTERS.sun,
+        })
+      )
+    );
+
+    const bodies: SceneBody[] = definitions.map(({ id, name, kind, color }, index) => {
+      const result = results[index];
+      if (result.status === 'rejected') {
+        return {
+          id,
+          name,
+          kind,
+          color,
+          samples: [],
+          error: result.reason instanceof Error ? result.reason.message : 'Ephemeris unavailable',
+        };
+      }
+
+      const samples: TrackSample[] = result.value.vectors.map((v) => [
+        v.time.getTime(),
+        round(v.x / AU_KM),
+        round(v.y / AU_KM),
+        round(v.z / AU_KM),
+        round((v.vx * DAY_S) / AU_KM),
+        round((v.vy * DAY_S) / AU_KM),
+        round((v.vz * DAY_S) / AU_KM),
+      ]);
+      return { id, name, kind, color, samples };
+    });
+
+    const data = { start: alignedStart, stop: alignedStop, stepMinutes, bodies };
+    this.cache.set(key, data);
+    return data;
+  }
+}
+
+// Create singleton instance
+export const solarSystemScene = new SolarSystemSceneService();
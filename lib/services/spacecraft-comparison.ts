@@ -0,0 +1,187 @@
+import { fetchDSNSnapshot } from '@/lib/api/dsn-xml';
+import { withTimeout } from '@/lib/api/error-handler';
+import { getSpacecraftPositionEnhanced } from '@/lib/api/spacecraft-positions';
+import { conjunctionForecaster } from '@/lib/services/conjunction-forecast';
+import { dsnHistory } from '@/lib/services/dsn-history';
+import { orbitEventDetector } from '@/lib/services/orbit-events';
+import { isSpacecraftId } from '@/lib/types/horizons';
+import type { MissionDefinition } from '@/lib/utils/mission-catalog';
+import { calculateMissionData } from '@/lib/utils/mission-tracking';
+import { mergeOrbitEvents, type DetectedMilestone } from '@/lib/utils/orbit-events';
+import {
+  CONTACT_LOOKBACK_DAYS,
+  findLastContacts,
+  type ComparisonEvent,
+  type DSNContact,
+  type SpacecraftComparisonRow,
+} from '@/lib/utils/spacecraft-comparison';
+
+/**
+ * Spacecraft Comparison
+ * One row per spacecraft for the comparison view: catalog facts and mission elapsed
+ * time from calculateMissionData, the current position from
+ * getSpacecraftPositionEnhanced, the last DSN contact (live feed first, then recorded
+ * history) and the next catalog milestones, orbit events and solar conjunctions.
+ * A source that fails leaves its cells empty and a warning on the row.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPEED_OF_LIGHT_KMS = 299792.458;
+
+class SpacecraftComparisonService {
+  private readonly EVENT_TIMEOUT_MS = 15000;
+  private readonly MAX_EVENTS = 3;
+
+  /**
+   * Rows for catalog spacecraft, in the order given. `warnings` lists DSN sources that
+   * failed for the whole comparison; per-spacecraft failures are on the rows.
+   */
+  async compare(
+    missions: MissionDefinition[]
+  ): Promise<{ rows: SpacecraftComparisonRow[]; warnings: string[] }> {
+    const now = new Date();
+    const [{ contacts, warnings }, ...rows] = await Promise.all([
+      this.getLastContacts(missions.map((mission) => mission.id)),
+      ...missions.map((mission) => this.buildRow(mission, now)),
+    ]);
+
+    return {
+      rows: rows.map((row) => ({ ...row, lastContact: contacts.get(row.id) ?? null })),
+      warnings,
+    };
+  }
+
+  private async buildRow(mission: MissionDefinition, now: Date): Promise<SpacecraftComparisonRow> {
+    const warnings: string[] = [];
+
+    // Dashboard tracker entries go through the shared mission calculations
+    const missionData = mission.tracker ? calculateMissionData(mission.id, now) : null;
+    const launch = new Date(mission.launchDate);
+    const elapsedMs = now.getTime() - launch.getTime();
+
+    const [position, upcomingEvents] = await Promise.all([
+      getSpacecraftPositionEnhanced(mission.id).catch(() => null),
+      this.getUpcomingEvents(mission, now, warnings),
+    ]);
+    if (!position) warnings.push('Position unavailable');
+
+    return {
+      id: mission.id,
+      name: mission.name,
+      phase: mission.phase,
+      location: mission.tracker?.location ?? mission.page?.location,
+      launchDate: mission.launchDate,
+      missionElapsedDays: missionData?.missionDurationDays ?? Math.floor(elapsedMs / DAY_MS),
+      missionElapsedYears:
+        missionData?.missionDurationYears ?? Math.floor((elapsedMs / (DAY_MS * 365.25)) * 10) / 10,
+      earthDistanceKm: position ? position.distance.km : null,
+      sunDistanceKm: position ? position.distanceFromSunKm : null,
+      geocentricSpeedKms: position ? position.velocity.kms : null,
+      lightTimeSeconds: position ? position.distance.km / SPEED_OF_LIGHT_KMS : null,
+      positionSource: position?.dataSource,
+      positionTime: position?.lastUpdate,
+      lastContact: null,
+      upcomingEvents,
+      warnings,
+    };
+  }
+
+  /**
+   * Future catalog milestones, orbit events detected by Horizons and solar conjunction
+   * periods, soonest first
+   */
+  private async getUpcomingEvents(
+    mission: MissionDefinition,
+    now: Date,
+    warnings: string[]
+  ): Promise<ComparisonEvent[]> {
+    let milestones: DetectedMilestone[] = mission.milestones;
+    const events: ComparisonEvent[] = [];
+
+    if (isSpacecraftId(mission.id)) {
+      const spacecraftId = mission.id;
+      const [orbitEvents, forecast] = await Promise.allSettled([
+        withTimeout(orbitEventDetector.getEvents(spacecraftId), this.EVENT_TIMEOUT_MS),
+        withTimeout(conjunctionForecaster.getForecast(spacecraftId), this.EVENT_TIMEOUT_MS),
+      ]);
+
+      if (orbitEvents.status === 'fulfilled') {
+        milestones = mergeOrbitEvents(
+          mission.milestones,
+          orbitEvents.value.events.map((event) => ({ ...event, time: event.time.toISOString() }))
+        );
+      } else {
+        warnings.push('Orbit events unavailable');
+      }
+
+      if (forecast.status === 'fulfilled') {
+        // The widest threshold marks when links start to degrade
+        const threshold = Math.max(...forecast.value.thresholds);
+        forecast.value.periods
+          .filter((period) => period.threshold === threshold)
+          .forEach((period) => {
+            if (period.start) {
+              events.push({
+                date: period.start.toISOString(),
+                title: `Solar conjunction (within ${threshold}° of the Sun)`,
+                source: 'conjunction',
+              });
+            } else if (period.end) {
+              events.push({
+                date: period.end.toISOString(),
+                title: `Leaves solar conjunction (beyond ${threshold}° of the Sun)`,
+                source: 'conjunction',
+              });
+            }
+          });
+      } else {
+        warnings.push('Conjunction forecast unavailable');
+      }
+    }
+
+    milestones
+      .filter((milestone) => Date.parse(milestone.date) > now.getTime())
+      .forEach((milestone) =>
+        events.push({
+          date: milestone.date,
+          title: milestone.event,
+          source: milestone.detected ? 'horizons' : 'catalog',
+          estimated: milestone.estimated,
+        })
+      );
+
+    return events.sort((a, b) => Date.parse(a.date) - Date.parse(b.date)).slice(0, this.MAX_EVENTS);
+  }
+
+  /**
+   * Latest active DSN link per spacecraft: the live feed, then recorded snapshots
+   */
+  private async getLastContacts(
+    ids: string[]
+  ): Promise<{ contacts: Map<string, DSNContact>; warnings: string[] }> {
+    const warnings: string[] = [];
+    let contacts = new Map<string, DSNContact>();
+
+    try {
+      contacts = findLastContacts([await withTimeout(fetchDSNSnapshot(), 10000)], ids, true);
+    } catch {
+      warnings.push('Live DSN feed unavailable');
+    }
+
+    const missing = ids.filter((id) => !contacts.has(id));
+    if (missing.length > 0) {
+      try {
+        const to = Date.now();
+        const snapshots = await dsnHistory.getSnapshots(to - CONTACT_LOOKBACK_DAYS * DAY_MS, to);
+        findLastContacts(snapshots, missing).forEach((contact, id) => contacts.set(id, contact));
+      } catch {
+        warnings.push('DSN history unavailable');
+      }
+    }
+
+    return { contacts, warnings };
+  }
+}
+
+// Create singleton instance
+export const spacecraftComparison = new SpacecraftComparisonService();
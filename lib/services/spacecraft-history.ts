@@ -0,0 +1,65 @@
+import { formatStep, getCoveredVectors, TRAJECTORY_CENTERS } from '@/lib/services/trajectory-cache';
+import { TTLCache } from '@/lib/services/ttl-cache';
+import { SPACECRAFT_IDS, type SpacecraftId } from '@/lib/types/horizons';
+import { buildHistoryPoints, type SpacecraftHistory } from '@/lib/utils/spacecraft-history';
+
+/**
+ * Spacecraft History
+ * Distance, speed and light-time series over any span, past or future, for the history
+ * charts and their exports. The span is clipped to the spacecraft's ephemeris coverage
+ * (nothing before launch, nothing past the end of a predicted trajectory); the
+ * geocentric table is then fetched over the clipped span so both share one grid.
+ */
+
+class SpacecraftHistoryService {
+  private cache = new TTLCache<SpacecraftHistory>(6 * 60 * 60 * 1000, 50);
+
+  /**
+   * History from `start` to `stop` (aligned to the step)
+   */
+  async getHistory(
+    spacecraftId: SpacecraftId,
+    start: Date,
+    stop: Date,
+    stepMinutes: number
+  ): Promise<SpacecraftHistory> {
+    const stepMs = stepMinutes * 60 * 1000;
+    const alignedStart = new Date(Math.floor(start.getTime() / stepMs) * stepMs);
+    const alignedStop = new Date(Math.ceil(stop.getTime() / stepMs) * stepMs);
+
+    const key = [
+      spacecraftId,
+      alignedStart.toISOString(),
+      alignedStop.toISOString(),
+      stepMinutes,
+    ].join('|');
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const command = SPACECRAFT_IDS[spacecraftId];
+    const heliocentric = await getCoveredVectors(command, alignedStart, alignedStop, stepMinutes, {
+      center: TRAJECTORY_CENTERS.sun,
+    });
+    const geocentric =
+      heliocentric.vectors.length > 0
+        ? await getCoveredVectors(command, heliocentric.start, heliocentric.stop, stepMinutes, {
+            center: TRAJECTORY_CENTERS.earth,
+          })
+        : heliocentric;
+
+    const data: SpacecraftHistory = {
+      spacecraftId,
+      start: heliocentric.start.toISOString(),
+      stop: heliocentric.stop.toISOString(),
+      step: formatStep(stepMinutes),
+      points: buildHistoryPoints(geocentric.vectors, heliocentric.vectors),
+    };
+    this.cache.set(key, data);
+    return data;
+  }
+}
+
+// Create singleton instance
+export const spacecraftHistory = new SpacecraftHistoryService();
@@ -0,0 +1,225 @@
+import { getBodyVectors } from '@/lib/api/horizons-client';
+import { parseEphemerisLimit } from '@/lib/api/horizons-parser';
+import {
+  HorizonsResultError,
+  SPACECRAFT_IDS,
+  type HorizonsQuery,
+  type SpacecraftId,
+  type StateVector,
+} from '@/lib/types/horizons';
+import { TTLCache } from '@/lib/services/ttl-cache';
+import { toScale } from '@/lib/utils/time-scales';
+
+/**
+ * Trajectory Cache
+ * Fetches state-vector time series from Horizons and caches them in memory keyed on
+ * the normalized query. Start and stop are aligned to the step so overlapping
+ * requests (e.g. "last 30 days" asked a minute apart) share one entry, then clipped
+ * to the spacecraft's ephemeris coverage.
+ */
+
+export const TRAJECTORY_CENTERS = {
+  earth: '500@399',
+  sun: '500@10',
+} as const;
+
+export const TRAJECTORY_FRAMES = {
+  ecliptic: 'ECLIPTIC',
+  equatorial: 'FRAME',
+} as const;
+
+export type TrajectoryCenter = keyof typeof TRAJECTORY_CENTERS;
+export type TrajectoryFrame = keyof typeof TRAJECTORY_FRAMES;
+
+export interface TrajectoryQuery {
+  spacecraftId: SpacecraftId;
+  start: Date;
+  stop: Date;
+  stepMinutes: number;
+  center: TrajectoryCenter;
+  frame: TrajectoryFrame;
+}
+
+export interface TrajectorySample {
+  /** UTC epoch of the sample (Horizons tabulates in TDB) */
+  time: string;
+  jdTDB: number;
+  /** Position (km) and velocity (km/s) relative to the center */
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  distanceKm: number;
+  speedKms: number;
+}
+
+export interface Trajectory {
+  spacecraftId: SpacecraftId;
+  center: TrajectoryCenter;
+  frame: TrajectoryFrame;
+  start: string;
+  stop: string;
+  step: string;
+  samples: TrajectorySample[];
+  fetchedAt: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Format a step for Horizons (e.g. 90 → '90m', 120 → '2h', 2880 → '2d')
+ */
+export function formatStep(stepMinutes: number): string {
+  if (stepMinutes % 1440 === 0) return `${stepMinutes / 1440}d`;
+  if (stepMinutes % 60 === 0) return `${stepMinutes / 60}h`;
+  return `${stepMinutes}m`;
+}
+
+/**
+ * Parse a step such as '30m', '6h' or '1d' into minutes (null if invalid)
+ */
+export function parseStep(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*(m|min|h|d)$/i);
+  if (!match) return null;
+
+  const amount = parseInt(match[1]);
+  const unit = match[2].toLowerCase();
+  const minutes = unit === 'd' ? amount * 1440 : unit === 'h' ? amount * 60 : amount;
+  return minutes > 0 ? minutes : null;
+}
+
+/**
+ * Number of samples a query produces after aligning start and stop to the step
+ */
+export function countSamples(start: Date, stop: Date, stepMinutes: number): number {
+  const stepMs = stepMinutes * MINUTE_MS;
+  const first = Math.floor(start.getTime() / stepMs);
+  const last = Math.ceil(stop.getTime() / stepMs);
+  return last - first + 1;
+}
+
+// Horizons START_TIME/STOP_TIME for vector tables, which Horizons reads as TDB, so
+// rows land on the requested UTC times
+export function formatHorizonsTime(date: Date): string {
+  return new Date(toScale(date, 'TDB')).toISOString().slice(0, 23).replace('T', ' ');
+}
+
+/**
+ * Vectors for any Horizons target over a span at a step, narrowed to the target's
+ * ephemeris coverage (before launch, past the end of a predicted trajectory) when
+ * Horizons reports a limit. Narrowed ends stay aligned to the step.
+ */
+export async function getCoveredVectors(
+  command: string,
+  start: Date,
+  stop: Date,
+  stepMinutes: number,
+  options: Partial<HorizonsQuery> = {}
+): Promise<{ start: Date; stop: Date; vectors: StateVector[] }> {
+  const stepMs = stepMinutes * 60 * 1000;
+
+  // One retry per end of the span
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const vectors = await getBodyVectors(command, {
+        ...options,
+        startTime: formatHorizonsTime(start),
+        stopTime: formatHorizonsTime(stop),
+        stepSize: formatStep(stepMinutes),
+      });
+      return { start, stop, vectors };
+    } catch (error) {
+      const limit =
+        error instanceof HorizonsResultError && error.code === 'no-ephemeris'
+          ? parseEphemerisLimit(error.message)
+          : null;
+      if (!limit || attempt >= 2) throw error;
+
+      if (limit.side === 'after') {
+        stop = new Date(Math.floor(limit.time.getTime() / stepMs) * stepMs);
+      } else {
+        start = new Date(Math.ceil(limit.time.getTime() / stepMs) * stepMs);
+      }
+      if (stop.getTime() - start.getTime() < 2 * stepMs) {
+        return { start, stop, vectors: [] };
+      }
+    }
+  }
+}
+
+class TrajectoryCache {
+  // 6 hours matches the Horizons fetch revalidation
+  private cache = new TTLCache<Trajectory>(6 * 60 * 60 * 1000, 100);
+
+  /**
+   * Align the query to the step and build its cache key
+   */
+  private normalize(query: TrajectoryQuery): { key: string; start: Date; stop: Date } {
+    const stepMs = query.stepMinutes * MINUTE_MS;
+    const start = new Date(Math.floor(query.start.getTime() / stepMs) * stepMs);
+    const stop = new Date(Math.ceil(query.stop.getTime() / stepMs) * stepMs);
+    const key = [
+      query.spacecraftId,
+      query.center,
+      query.frame,
+      start.toISOString(),
+      stop.toISOString(),
+      query.stepMinutes,
+    ].join('|');
+
+    return { key, start, stop };
+  }
+
+  /**
+   * Get a trajectory from the cache or Horizons. `cached` tells which one served it.
+   * Its start and stop are narrower than the query's where the ephemeris coverage ends.
+   */
+  async get(query: TrajectoryQuery): Promise<{ trajectory: Trajectory; cached: boolean }> {
+    const { key, start, stop } = this.normalize(query);
+    const cached = this.cache.get(key);
+    if (cached) {
+      return { trajectory: cached, cached: true };
+    }
+
+    const covered = await getCoveredVectors(
+      SPACECRAFT_IDS[query.spacecraftId],
+      start,
+      stop,
+      query.stepMinutes,
+      {
+        center: TRAJECTORY_CENTERS[query.center],
+        refPlane: TRAJECTORY_FRAMES[query.frame],
+      }
+    );
+
+    const trajectory: Trajectory = {
+      spacecraftId: query.spacecraftId,
+      center: query.center,
+      frame: query.frame,
+      start: covered.start.toISOString(),
+      stop: covered.stop.toISOString(),
+      step: formatStep(query.stepMinutes),
+      samples: covered.vectors.map((v) => ({
+        time: v.time.toISOString(),
+        jdTDB: v.jdTDB,
+        x: v.x,
+        y: v.y,
+        z: v.z,
+        vx: v.vx,
+        vy: v.vy,
+        vz: v.vz,
+        distanceKm: Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z),
+        speedKms: Math.sqrt(v.vx * v.vx + v.vy * v.vy + v.vz * v.vz),
+      })),
+      fetchedAt: new Date().toISOString(),
+    };
+
+    this.cache.set(key, trajectory);
+    return { trajectory, cached: false };
+  }
+}
+
+// Create singleton instance
+export const trajectoryCache = new TrajectoryCache();
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TTLCache } from '@/lib/services/ttl-cache';
+
+describe('TTLCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves an entry until its lifetime ends', () => {
+    const cache = new TTLCache<string>(1000, 10);
+    cache.set('a', 'first');
+
+    vi.advanceTimersByTime(999);
+    expect(cache.get('a')).toBe('first');
+    vi.advanceTimersByTime(1);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('evicts the oldest entry when full', () => {
+    const cache = new TTLCache<number>(1000, 2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('treats a replaced entry as the newest', () => {
+    const cache = new TTLCache<number>(1000, 2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 3);
+    cache.set('c', 4);
+
+    expect(cache.get('a')).toBe(3);
+    expect(cache.get('b')).toBeUndefined();
+  });
+});
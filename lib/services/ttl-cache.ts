@@ -0,0 +1,37 @@
+/**
+ * TTL Cache
+ * In-memory map whose entries expire a fixed time after they are stored. Once full,
+ * storing a new key evicts the oldest entry.
+ */
+export class TTLCache<T> {
+  private entries = new Map<string, { data: T; expiresAt: number }>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number
+  ) {}
+
+  /**
+   * Cached value for a key, or undefined when missing or expired
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.data;
+  }
+
+  set(key: string, data: T): void {
+    this.entries.delete(key);
+    // Map preserves insertion order, so the first key is the oldest
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { data, expiresAt: Date.now() + this.ttlMs });
+  }
+}
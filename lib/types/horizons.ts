@@ -3,24 +3,36 @@
  * API Documentation: https://ssd-api.jpl.nasa.gov/doc/horizons.html
  */
 
+import { MISSION_CATALOG } from '@/lib/utils/mission-catalog';
+
+declare const spacecraftIdBrand: unique symbol;
+
+/** Catalog ID of a Horizons-tracked spacecraft; narrow a string with isSpacecraftId() */
+export type SpacecraftId = string & { readonly [spacecraftIdBrand]: true };
+
 /**
- * Spacecraft identifiers (NAIF IDs) for JPL Horizons API
+ * Spacecraft identifiers (NAIF IDs) for JPL Horizons API,
+ * taken from catalog entries marked "horizons"
  */
-export const SPACECRAFT_IDS = {
-  'europa-clipper': '-159',
-  'lucy': '-49',
-  'psyche': '-255',
-  'osiris-apex': '-64',
-  'juno': '-61',
-  'new-horizons': '-98',
-  'voyager-1': '-31',
-  'voyager-2': '-32',
-  'parker-solar-probe': '-96',
-} as const;
+export const SPACECRAFT_IDS: Readonly<Record<SpacecraftId, string>> = Object.fromEntries(
+  MISSION_CATALOG.filter((mission) => mission.horizons).map((mission) => [
+    mission.id,
+    mission.naifId!,
+  ])
+);
 
 export type SpacecraftIdMap = typeof SPACECRAFT_IDS;
 
-export type SpacecraftId = keyof typeof SPACECRAFT_IDS;
+/** Horizons-tracked spacecraft in catalog order */
+export const SPACECRAFT_ID_LIST = Object.keys(SPACECRAFT_IDS) as SpacecraftId[];
+
+/**
+ * Whether a string is the catalog ID of a Horizons-tracked spacecraft.
+ * Own keys only, so names like "constructor" are rejected.
+ */
+export function isSpacecraftId(value: string): value is SpacecraftId {
+  return Object.hasOwn(SPACECRAFT_IDS, value);
+}
 
 /**
  * Query parameters for Horizons API
@@ -42,8 +54,18 @@ export interface HorizonsQuery {
   outUnits?: string;
   /** Reference system: 'ICRF' = International Celestial Reference Frame */
   refSystem?: string;
+  /** Reference plane: 'ECLIPTIC' (Horizons default) or 'FRAME' (Earth mean equator) */
+  refPlane?: 'ECLIPTIC' | 'FRAME' | 'BODY EQUATOR';
   /** Vector table format */
   vecTable?: string;
+  /** OBSERVER quantity codes (e.g. '1,4,9') */
+  quantities?: string;
+  /** Site for a 'coord@399' center: 'east longitude,latitude,elevation km' (geodetic) */
+  siteCoord?: string;
+  /** OBSERVER angle format: 'HMS' (Horizons default) or 'DEG' */
+  angleFormat?: 'HMS' | 'DEG';
+  /** Comma-separated table columns */
+  csvFormat?: boolean;
 }
 
 /**
@@ -84,6 +106,143 @@ export interface SpacecraftPosition {
   lastUpdated: Date;
 }
 
+/**
+ * Single row of a Horizons VECTORS table
+ */
+export interface StateVector {
+  /** Julian Date (TDB) of the row */
+  jdTDB: number;
+  /** UTC epoch of the row */
+  time: Date;
+  /** Position (km) */
+  x: number;
+  y: number;
+  z: number;
+  /** Velocity (km/s) */
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+/**
+ * Observer location for topocentric ephemerides
+ */
+export interface ObserverSite {
+  /** Geodetic latitude (degrees, north positive) */
+  latitude: number;
+  /** Longitude (degrees, east positive) */
+  longitude: number;
+  /** Height above the WGS84 ellipsoid (km) */
+  elevationKm: number;
+}
+
+/**
+ * Sun altitude class at the observer, from the Horizons solar presence flag
+ */
+export type SolarPresence =
+  | 'day'
+  | 'civil-twilight'
+  | 'nautical-twilight'
+  | 'astronomical-twilight'
+  | 'night';
+
+/**
+ * Single row of a Horizons OBSERVER table (quantities 1, 4, 9, 20, 23 and 24).
+ * Values Horizons reports as n.a. are null.
+ */
+export interface ObserverRow {
+  /** UTC time of the row */
+  time: Date;
+  /** Astrometric right ascension and declination (ICRF, degrees) */
+  ra: number;
+  dec: number;
+  /** Apparent azimuth (east of north) and elevation (degrees, refraction not applied) */
+  azimuth: number | null;
+  elevation: number | null;
+  /** Apparent visual magnitude (total magnitude for comets) */
+  magnitude: number | null;
+  /** Distance from the observer (AU) */
+  range: number;
+  /** Range rate (km/s, positive receding) */
+  rangeRate: number;
+  /** Sun-observer-target angle (degrees) */
+  solarElongation: number | null;
+  /** Whether the target leads the Sun (morning sky) or trails it (evening sky) */
+  elongationSide: 'leading' | 'trailing' | null;
+  /** Sun-target-observer angle (degrees) */
+  phaseAngle: number | null;
+  /** Sun at the site; null for a geocentric observer */
+  solarPresence: SolarPresence | null;
+  /** Whether the Moon is above the site horizon; null for a geocentric observer */
+  moonUp: boolean | null;
+  /** Distance from the Sun (AU), when quantity 19 is requested */
+  heliocentricRange: number | null;
+  /** Illuminated fraction of the disk (%), when quantity 10 is requested */
+  illumination: number | null;
+}
+
+/**
+ * Single row of a Horizons ELEMENTS table (osculating elements, AU-D units)
+ */
+export interface OsculatingElements {
+  /** Julian Date (TDB) of the row */
+  jdTDB: number;
+  /** UTC epoch of the row */
+  time: Date;
+  eccentricity: number;
+  /** Periapsis distance (AU) */
+  periapsisDistance: number;
+  /** Inclination, longitude of the ascending node and argument of periapsis (degrees) */
+  inclination: number;
+  longitudeOfNode: number;
+  argumentOfPeriapsis: number;
+  /** Time of periapsis (Julian Date, TDB) */
+  timeOfPeriapsis: number;
+  /** Mean motion (degrees/day) */
+  meanMotion: number;
+  /** Mean and true anomaly (degrees) */
+  meanAnomaly: number;
+  trueAnomaly: number;
+  /** Semi-major axis (AU, negative for hyperbolic orbits) */
+  semiMajorAxis: number;
+  /** Apoapsis distance (AU) and period (days); null for open orbits */
+  apoapsisDistance: number | null;
+  period: number | null;
+}
+
+/**
+ * Time scale of the epochs in a Horizons table
+ */
+export type HorizonsTimeScale = 'TDB' | 'TT' | 'UT';
+
+/**
+ * Metadata from the header block of a Horizons result
+ */
+export interface HorizonsHeader {
+  /** e.g. 'Voyager 1 (spacecraft) (-31)' */
+  targetBody: string | null;
+  /** e.g. 'Earth (399)' */
+  centerBody: string | null;
+  /** e.g. 'GEOCENTRIC' or a named observatory */
+  centerSite: string | null;
+  /** e.g. 'ICRF' */
+  referenceFrame: string | null;
+  /** e.g. 'Ecliptic of J2000.0' (VECTORS and ELEMENTS only) */
+  coordinateSystem: string | null;
+  /** e.g. 'KM-S' or 'AU-D' */
+  units: string | null;
+  timeScale: HorizonsTimeScale | null;
+}
+
+/**
+ * A CSV_FORMAT=YES Horizons table: header metadata, column names and raw fields
+ */
+export interface HorizonsTable {
+  header: HorizonsHeader;
+  columns: string[];
+  records: string[][];
+}
+
 /**
  * Raw response structure from Horizons API
  */
@@ -117,3 +276,27 @@ export class HorizonsApiError extends Error {
     this.name = 'HorizonsApiError';
   }
 }
+
+/**
+ * Reasons Horizons returns a result without an ephemeris table
+ */
+export type HorizonsResultErrorCode =
+  | 'ambiguous-target'
+  | 'unknown-target'
+  | 'no-ephemeris'
+  | 'malformed-result';
+
+/**
+ * Horizons answered, but with a message instead of the requested table
+ */
+export class HorizonsResultError extends HorizonsApiError {
+  constructor(
+    message: string,
+    public code: HorizonsResultErrorCode,
+    /** Candidate targets listed by Horizons for an ambiguous query */
+    public matches: { id: string; name: string }[] = []
+  ) {
+    super(message);
+    this.name = 'HorizonsResultError';
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Command Round-Trip Planning
+ * From a desired command time, finds the first DSN uplink opportunity, when the
+ * command reaches the spacecraft, and when each complex can first hear the reply.
+ * Light time is solved from Horizons state vectors along each leg, so it follows
+ * the actual geometry instead of a fixed delay.
+ */
+
+import type { StateVector } from '@/lib/types/horizons';
+import {
+  DSN_COMPLEXES,
+  DEFAULT_ELEVATION_MASK,
+  predictPasses,
+  vectorToRaDec,
+  type DSNComplex,
+  type PassWindow,
+} from '@/lib/utils/dsn-visibility';
+import { legRangeRate } from '@/lib/utils/doppler';
+
+export interface UplinkWindow {
+  complex: string;
+  name: string;
+  /** Earliest transmit time at or after the requested time */
+  transmitTime: Date;
+  /** End of the pass the command goes out in (null if beyond the table) */
+  windowEnd: Date | null;
+  /** Wait between the requested time and transmission (ms) */
+  waitMs: number;
+}
+
+export interface ReplyReception {
+  complex: string;
+  name: string;
+  /** When the reply's signal front reaches the complex */
+  signalArrival: Date;
+  /**
+   * Earliest time the complex can hear the reply: on arrival if in view, otherwise
+   * at its next rise, provided the spacecraft keeps transmitting (null if beyond the table)
+   */
+  receiveTime: Date | null;
+  inViewOnArrival: boolean;
+  /** Downleg one-way light time (ms) */
+  lightTimeMs: number;
+}
+
+export interface CommandPlan {
+  requestedTime: Date;
+  uplink: UplinkWindow;
+  /** Upleg one-way light time (ms) */
+  uplinkLightTimeMs: number;
+  /** Command arrival at the spacecraft */
+  arrivalTime: Date;
+  /** Reply transmission, after the onboard turnaround */
+  replyTime: Date;
+  downlink: ReplyReception[];
+  /** Earliest reception across complexes (null if none within the table) */
+  firstReceiveTime: Date | null;
+}
+
+// How far ahead to look for an uplink pass, and for each complex after the reply arrives
+export const COMMAND_SEARCH_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Ephemeris span (ms after the requested time) a plan needs, given a one-way light time
+ */
+export function planningSpanMs(oneWayLightTimeMs: number, turnaroundMs = 0): number {
+  return 2 * COMMAND_SEARCH_HOURS * HOUR_MS + 2 * oneWayLightTimeMs + turnaroundMs + HOUR_MS;
+}
+
+/**
+ * First visible interval at or after a time: the pass it falls in, or the next rise
+ */
+function nextVisibility(
+  passes: PassWindow[],
+  time: number,
+  trackEnd: number
+): { start: number; end: Date | null } | null {
+  if (time > trackEnd) return null;
+
+  for (const pass of passes) {
+    const rise = pass.rise ? pass.rise.getTime() : -Infinity;
+    const set = pass.set ? pass.set.getTime() : Infinity;
+    if (set < time) continue;
+    return { start: Math.max(rise, time), end: pass.set };
+  }
+
+  return null;
+}
+
+/**
+ * Upleg light time (ms) for a command leaving a complex at `transmit`
+ */
+function solveUplegLightTime(
+  vectors: StateVector[],
+  complex: DSNComplex,
+  transmit: number
+): number | null {
+  let lightTimeMs = 0;
+  for (let i = 0; i < 4; i++) {
+    const leg = legRangeRate(vectors, complex, new Date(transmit + lightTimeMs), false);
+    if (!leg) return null;
+    lightTimeMs = leg.lightTimeMs;
+  }
+  return lightTimeMs;
+}
+
+/**
+ * Downleg light time (ms) for a signal leaving the spacecraft at `transmit`
+ */
+function solveDownlegLightTime(
+  vectors: StateVector[],
+  complex: DSNComplex,
+  transmit: number
+): number | null {
+  let lightTimeMs = 0;
+  for (let i = 0; i < 4; i++) {
+    const leg = legRangeRate(vectors, complex, new Date(transmit + lightTimeMs), true);
+    if (!leg) return null;
+    lightTimeMs = leg.lightTimeMs;
+  }
+  return lightTimeMs;
+}
+
+/**
+ * Plan a command and its reply. Vectors are geocentric ICRF and should cover
+ * planningSpanMs() after the requested time; null if no complex can uplink in time.
+ */
+export function planCommandRoundTrip(
+  vectors: StateVector[],
+  requestedTime: Date,
+  options: { elevationMask?: number; turnaroundMs?: number } = {}
+): CommandPlan | null {
+  const elevationMask = options.elevationMask ?? DEFAULT_ELEVATION_MASK;
+  const turnaroundMs = options.turnaroundMs ?? 0;
+  const requested = requestedTime.getTime();
+
+  // Sky track in UTC, starting at the last row before the requested time
+  const track = vectors
+    .map((v) => ({
+      time: v.time,
+      ...vectorToRaDec(v.x, v.y, v.z),
+    }))
+    .filter((p, i, all) => i === all.length - 1 || all[i + 1].time.getTime() > requested);
+  if (track.length < 2) return null;
+
+  const trackEnd = track[track.length - 1].time.getTime();
+  const complexes = Object.values(DSN_COMPLEXES).map((complex) => ({
+    complex,
+    passes: predictPasses(track, complex, { elevationMask }),
+  }));
+
+  // Earliest uplink; on a tie, the complex whose pass lasts longest
+  let uplink: (UplinkWindow & { complexInfo: DSNComplex }) | null = null;
+  for (const { complex, passes } of complexes) {
+    const visibility = nextVisibility(passes, requested, trackEnd);
+    if (!visibility) continue;
+
+    const endsLater =
+      !!uplink &&
+      (visibility.end?.getTime() ?? Infinity) > (uplink.windowEnd?.getTime() ?? Infinity);
+    if (
+      !uplink ||
+      visibility.start < uplink.transmitTime.getTime() ||
+      (visibility.start === uplink.transmitTime.getTime() && endsLater)
+    ) {
+      uplink = {
+        complex: complex.code,
+        name: complex.name,
+        transmitTime: new Date(visibility.start),
+        windowEnd: visibility.end,
+        waitMs: visibility.start - requested,
+        complexInfo: complex,
+      };
+    }
+  }
+  if (!uplink) return null;
+
+  const { complexInfo, ...uplinkWindow } = uplink;
+  const uplinkLightTimeMs = solveUplegLightTime(
+    vectors,
+    complexInfo,
+    uplink.transmitTime.getTime()
+  );
+  if (uplinkLightTimeMs === null) return null;
+
+  const arrival = uplink.transmitTime.getTime() + uplinkLightTimeMs;
+  const reply = arrival + turnaroundMs;
+
+  const downlink: ReplyReception[] = [];
+  for (const { complex, passes } of complexes) {
+    const lightTimeMs = solveDownlegLightTime(vectors, complex, reply);
+    if (lightTimeMs === null) continue;
+
+    const signalArrival = reply + lightTimeMs;
+    const visibility = nextVisibility(passes, signalArrival, trackEnd);
+    downlink.push({
+      complex: complex.code,
+      name: complex.name,
+      signalArrival: new Date(signalArrival),
+      receiveTime: visibility ? new Date(visibility.start) : null,
+      inViewOnArrival: visibility?.start === signalArrival,
+      lightTimeMs,
+    });
+  }
+
+  const receiveTimes = downlink.filter((d) => d.receiveTime).map((d) => d.receiveTime!.getTime());
+
+  return {
+    requestedTime,
+    uplink: uplinkWindow,
+    uplinkLightTimeMs,
+    arrivalTime: new Date(arrival),
+    replyTime: new Date(reply),
+    downlink,
+    firstReceiveTime: receiveTimes.length > 0 ? new Date(Math.min(...receiveTimes)) : null,
+  };
+}
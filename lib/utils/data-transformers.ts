@@ -2,6 +2,7 @@
 // Provides standardized data processing and formatting functions
 
 import { MarsWeatherSol, RoverPhoto, EPICImageData } from '@/lib/types/nasa-api';
+import { fromMarsSolDate, marsSolDate } from '@/lib/utils/mars-sol';
 
 // ================================
 // Date and Time Utilities
@@ -14,8 +15,7 @@ export class DateTimeUtils {
   static solToEarthDate(sol: number, landingDate: string): string {
     try {
       const landing = new Date(landingDate);
-      const marsDay = 24 * 60 * 60 * 1000 + 39 * 60 * 1000 + 35 * 1000; // 24h 39m 35s
-      const approximateDate = new Date(landing.getTime() + sol * marsDay);
+      const approximateDate = fromMarsSolDate(marsSolDate(landing) + sol);
       return approximateDate.toISOString().split('T')[0];
     } catch {
       return new Date().toISOString().split('T')[0];
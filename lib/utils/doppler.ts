@@ -0,0 +1,343 @@
+/**
+ * Doppler Analysis
+ * Predicts the coherent downlink frequency of a DSN link from Horizons state
+ * vectors and compares it with the frequency reported by the feed.
+ *
+ * Geocentric ICRF vectors are precessed to the equator of date so they share a
+ * frame with the GMST-rotated station; nutation and UT1-UTC are ignored (well
+ * under 0.1 m/s of range rate). Doppler is first order in v/c.
+ */
+
+import type { DSNData, DSNTarget } from '@/lib/api/dsn';
+import type { StateVector } from '@/lib/types/horizons';
+import {
+  DSN_COMPLEXES,
+  greenwichMeanSiderealTime,
+  type DSNComplex,
+} from '@/lib/utils/dsn-visibility';
+import { isSignalActive } from '@/lib/utils/dsn-events';
+import { resolveBand, toHz, type Band } from '@/lib/utils/link-budget';
+import { interpolateVectors } from '@/lib/utils/ephemeris';
+import { julianCenturies } from '@/lib/utils/time-scales';
+
+export type Vec3 = [number, number, number];
+
+export type DopplerMode = 'two-way' | 'three-way' | 'one-way';
+
+export interface DopplerResidual {
+  /** DSN code of the spacecraft */
+  spacecraft: string;
+  /** Receiving complex and dish */
+  station: string;
+  stationName: string;
+  dish: string;
+  mode: DopplerMode;
+  /** Transmitting dish for coherent links */
+  uplinkStation?: string;
+  uplinkDish?: string;
+  uplinkBand?: Band;
+  downlinkBand: Band;
+  uplinkFrequencyHz?: number;
+  observedFrequencyHz: number;
+  /** Predicted received frequency (null for one-way links) */
+  expectedFrequencyHz: number | null;
+  turnaroundRatio: number | null;
+  /** Range rates along each leg (km/s, positive when receding) */
+  uplegRangeRate: number | null;
+  downlegRangeRate: number | null;
+  /** Observed minus expected (Hz) */
+  residualHz: number | null;
+  /** Residual expressed as two-way range rate (m/s) */
+  residualRangeRate: number | null;
+  /** Rounding of the reported frequencies, mapped to the downlink (Hz) */
+  resolutionHz: number | null;
+  /** Whether the residual is explained by the feed's rounding alone */
+  withinResolution: boolean | null;
+}
+
+const C_KM_S = 299792.458;
+const EARTH_ROTATION_RAD_S = 7.292115e-5;
+const WGS84_A_KM = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const ARCSEC = Math.PI / (180 * 3600);
+
+// Transponder turnaround ratios (downlink/uplink) keyed by "up-down" band
+const TURNAROUND_RATIOS: Record<string, number> = {
+  'S-S': 240 / 221,
+  'S-X': 880 / 221,
+  'X-S': 240 / 749,
+  'X-X': 880 / 749,
+  'X-Ka': 3344 / 749,
+  'Ka-Ka': 3360 / 3599,
+};
+
+export function getTurnaroundRatio(uplink: Band, downlink: Band): number | null {
+  return TURNAROUND_RATIOS[`${uplink}-${downlink}`] ?? null;
+}
+
+function subtract(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function norm(a: Vec3): number {
+  return Math.sqrt(dot(a, a));
+}
+
+/**
+ * Station position (km) and velocity (km/s) in the mean equator-of-date frame
+ */
+export function stationState(complex: DSNComplex, date: Date): { position: Vec3; velocity: Vec3 } {
+  const phi = (complex.lat * Math.PI) / 180;
+  const lambda = (complex.lon * Math.PI) / 180;
+  const h = complex.heightM / 1000;
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const n = WGS84_A_KM / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+
+  const xEcef = (n + h) * Math.cos(phi) * Math.cos(lambda);
+  const yEcef = (n + h) * Math.cos(phi) * Math.sin(lambda);
+  const z = (n * (1 - e2) + h) * Math.sin(phi);
+
+  const theta = (greenwichMeanSiderealTime(date) * Math.PI) / 180;
+  const x = xEcef * Math.cos(theta) - yEcef * Math.sin(theta);
+  const y = xEcef * Math.sin(theta) + yEcef * Math.cos(theta);
+
+  return {
+    position: [x, y, z],
+    velocity: [-EARTH_ROTATION_RAD_S * y, EARTH_ROTATION_RAD_S * x, 0],
+  };
+}
+
+/**
+ * Rotate a J2000/ICRF vector to the mean equator of date (IAU 1976 precession)
+ */
+export function precessFromJ2000(v: Vec3, date: Date): Vec3 {
+  const t = julianCenturies(date, 'TDB');
+  const zeta = (2306.2181 * t + 0.30188 * t * t + 0.017998 * t * t * t) * ARCSEC;
+  const z = (2306.2181 * t + 1.09468 * t * t + 0.018203 * t * t * t) * ARCSEC;
+  const theta = (2004.3109 * t - 0.42665 * t * t - 0.041833 * t * t * t) * ARCSEC;
+
+  const [cZeta, sZeta] = [Math.cos(zeta), Math.sin(zeta)];
+  const [cZ, sZ] = [Math.cos(z), Math.sin(z)];
+  const [cTheta, sTheta] = [Math.cos(theta), Math.sin(theta)];
+
+  return [
+    (cZeta * cTheta * cZ - sZeta * sZ) * v[0] +
+      (-sZeta * cTheta * cZ - cZeta * sZ) * v[1] +
+      -sTheta * cZ * v[2],
+    (cZeta * cTheta * sZ + sZeta * cZ) * v[0] +
+      (-sZeta * cTheta * sZ + cZeta * cZ) * v[1] +
+      -sTheta * sZ * v[2],
+    cZeta * sTheta * v[0] - sZeta * sTheta * v[1] + cTheta * v[2],
+  ];
+}
+
+/**
+ * Geocentric spacecraft state at a UTC time, equator of date (null outside the table)
+ */
+export function interpolateState(
+  vectors: StateVector[],
+  date: Date
+): { position: Vec3; velocity: Vec3 } | null {
+  const state = interpolateVectors(vectors, date);
+  if (!state) return null;
+
+  return {
+    position: precessFromJ2000([state.x, state.y, state.z], date),
+    velocity: precessFromJ2000([state.vx, state.vy, state.vz], date),
+  };
+}
+
+/**
+ * Light-time corrected range rate (km/s) between a station and the spacecraft.
+ * `receive` solves for the spacecraft transmit time given the station receive time;
+ * otherwise `time` is the spacecraft receive time and the station transmit time is solved.
+ */
+export function legRangeRate(
+  vectors: StateVector[],
+  complex: DSNComplex,
+  time: Date,
+  receive: boolean
+): { rangeRate: number; lightTimeMs: number } | null {
+  let lightTimeMs = 0;
+  let result: { rangeRate: number; lightTimeMs: number } | null = null;
+
+  for (let i = 0; i < 3; i++) {
+    const other = new Date(time.getTime() - lightTimeMs);
+    const spacecraft = interpolateState(vectors, receive ? other : time);
+    if (!spacecraft) return null;
+    const station = stationState(complex, receive ? time : other);
+
+    const los = subtract(spacecraft.position, station.position);
+    const range = norm(los);
+    lightTimeMs = (range / C_KM_S) * 1000;
+    result = {
+      rangeRate: dot(los, subtract(spacecraft.velocity, station.velocity)) / range,
+      lightTimeMs,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Predict the received frequency of a coherent link (Hz)
+ */
+export function predictCoherentDownlink(
+  vectors: StateVector[],
+  options: {
+    uplinkComplex: DSNComplex;
+    downlinkComplex: DSNComplex;
+    receiveTime: Date;
+    uplinkFrequencyHz: number;
+    turnaroundRatio: number;
+  }
+): { expectedFrequencyHz: number; uplegRangeRate: number; downlegRangeRate: number } | null {
+  const downleg = legRangeRate(vectors, options.downlinkComplex, options.receiveTime, true);
+  if (!downleg) return null;
+
+  const turnaround = new Date(options.receiveTime.getTime() - downleg.lightTimeMs);
+  const upleg = legRangeRate(vectors, options.uplinkComplex, turnaround, false);
+  if (!upleg) return null;
+
+  return {
+    expectedFrequencyHz:
+      options.uplinkFrequencyHz *
+      options.turnaroundRatio *
+      (1 - (upleg.rangeRate + downleg.rangeRate) / C_KM_S),
+    uplegRangeRate: upleg.rangeRate,
+    downlegRangeRate: downleg.rangeRate,
+  };
+}
+
+/**
+ * Resolution implied by how a frequency is written in the feed (Hz). Uplinks in
+ * MHz resolve to their last decimal; Hz values to their trailing zeros.
+ */
+export function reportedResolutionHz(frequency: number): number {
+  const isMHz = frequency < 1e6;
+  const [integer, fraction] = String(frequency).split('.');
+  if (fraction) return Math.pow(10, -fraction.length) * (isMHz ? 1e6 : 1);
+  if (isMHz) return 1e6;
+
+  const trailingZeros = integer.length - integer.replace(/0+$/, '').length;
+  return Math.pow(10, trailingZeros);
+}
+
+interface LinkEnd {
+  station: string;
+  stationName: string;
+  dish: string;
+  target: DSNTarget;
+}
+
+/**
+ * Compare every active downlink of a spacecraft in a snapshot with the
+ * frequency predicted from its state vectors
+ */
+export function analyzeDoppler(
+  data: DSNData,
+  vectors: StateVector[],
+  matches: (target: DSNTarget) => boolean
+): DopplerResidual[] {
+  const downlinks: LinkEnd[] = [];
+  const uplinks: LinkEnd[] = [];
+
+  data.stations.forEach((station) => {
+    station.dishes.forEach((dish) => {
+      dish.targets.filter(matches).forEach((target) => {
+        const end = {
+          station: station.name,
+          stationName: station.friendlyName,
+          dish: dish.name,
+          target,
+        };
+        if (target.downSignal?.frequency && isSignalActive(target.downSignal)) downlinks.push(end);
+        if (target.upSignal?.frequency && isSignalActive(target.upSignal)) uplinks.push(end);
+      });
+    });
+  });
+
+  const receiveTime = new Date(data.timestamp);
+  const results: DopplerResidual[] = [];
+
+  downlinks.forEach((down) => {
+    const signal = down.target.downSignal;
+    const downlinkComplex = DSN_COMPLEXES[down.station];
+    const downlinkBand = resolveBand(signal?.band, signal?.frequency);
+    if (!signal?.frequency || !downlinkComplex || !downlinkBand) return;
+
+    const observedFrequencyHz = toHz(signal.frequency);
+    const base = {
+      spacecraft: down.target.spacecraft?.[0] || down.target.name,
+      station: down.station,
+      stationName: down.stationName,
+      dish: down.dish,
+      downlinkBand,
+      observedFrequencyHz,
+    };
+
+    // Same dish first (two-way), then any other transmitting dish (three-way)
+    const up =
+      uplinks.find((u) => u.station === down.station && u.dish === down.dish) || uplinks[0];
+    const upSignal = up?.target.upSignal;
+    const uplinkComplex = up ? DSN_COMPLEXES[up.station] : undefined;
+    const uplinkBand = upSignal ? resolveBand(upSignal.band, upSignal.frequency) : null;
+    const turnaroundRatio = uplinkBand ? getTurnaroundRatio(uplinkBand, downlinkBand) : null;
+
+    if (!up || !upSignal?.frequency || !uplinkComplex || !uplinkBand || !turnaroundRatio) {
+      const downleg = legRangeRate(vectors, downlinkComplex, receiveTime, true);
+      results.push({
+        ...base,
+        mode: 'one-way',
+        expectedFrequencyHz: null,
+        turnaroundRatio: null,
+        uplegRangeRate: null,
+        downlegRangeRate: downleg?.rangeRate ?? null,
+        residualHz: null,
+        residualRangeRate: null,
+        resolutionHz: null,
+        withinResolution: null,
+      });
+      return;
+    }
+
+    const uplinkFrequencyHz = toHz(upSignal.frequency);
+    const prediction = predictCoherentDownlink(vectors, {
+      uplinkComplex,
+      downlinkComplex,
+      receiveTime,
+      uplinkFrequencyHz,
+      turnaroundRatio,
+    });
+
+    const residualHz = prediction ? observedFrequencyHz - prediction.expectedFrequencyHz : null;
+    const resolutionHz =
+      (reportedResolutionHz(upSignal.frequency) * turnaroundRatio +
+        reportedResolutionHz(signal.frequency)) /
+      2;
+
+    results.push({
+      ...base,
+      mode: up.station === down.station && up.dish === down.dish ? 'two-way' : 'three-way',
+      uplinkStation: up.station,
+      uplinkDish: up.dish,
+      uplinkBand,
+      uplinkFrequencyHz,
+      expectedFrequencyHz: prediction?.expectedFrequencyHz ?? null,
+      turnaroundRatio,
+      uplegRangeRate: prediction?.uplegRangeRate ?? null,
+      downlegRangeRate: prediction?.downlegRangeRate ?? null,
+      residualHz,
+      residualRangeRate:
+        residualHz !== null ? ((-C_KM_S * residualHz) / (2 * observedFrequencyHz)) * 1000 : null,
+      resolutionHz,
+      withinResolution: residualHz !== null ? Math.abs(residualHz) <= resolutionHz : null,
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,246 @@
+/**
+ * DSN Contact Event Detection
+ * Diffs consecutive DSN snapshots to find link transitions that a single snapshot cannot show
+ */
+
+import type { DSNData, DSNDish, DSNSignal, DSNTarget } from '@/lib/api/dsn';
+
+export type DSNEventType =
+  | 'acquisition-of-signal'
+  | 'loss-of-signal'
+  | 'data-rate-change'
+  | 'band-change'
+  | 'array-formed'
+  | 'array-dissolved';
+
+export interface DSNEvent {
+  /** Deterministic ID so the same transition detected twice can be de-duplicated */
+  id: string;
+  type: DSNEventType;
+  /** Snapshot time at which the transition was detected (ms since epoch) */
+  timestamp: number;
+  station: string;
+  stationName: string;
+  dish: string;
+  spacecraft?: string;
+  direction?: 'up' | 'down';
+  previous?: number | string;
+  current?: number | string;
+  message: string;
+}
+
+export const DSN_EVENT_LABELS: Record<DSNEventType, string> = {
+  'acquisition-of-signal': 'Acquisition of Signal',
+  'loss-of-signal': 'Loss of Signal',
+  'data-rate-change': 'Data Rate Change',
+  'band-change': 'Band Switch',
+  'array-formed': 'Array Formed',
+  'array-dissolved': 'Array Dissolved',
+};
+
+// Relative change below which data rate jitter is ignored
+const DATA_RATE_TOLERANCE = 0.01;
+
+interface SignalState {
+  station: string;
+  stationName: string;
+  dish: string;
+  spacecraft: string;
+  direction: 'up' | 'down';
+  signal: DSNSignal;
+}
+
+interface DishState {
+  station: string;
+  stationName: string;
+  dish: DSNDish;
+}
+
+/**
+ * Whether a signal is carrying an active link
+ */
+export function isSignalActive(signal?: DSNSignal): boolean {
+  if (!signal) return false;
+  return signal.active ?? signal.dataRate > 0;
+}
+
+function getSpacecraftCode(target: DSNTarget): string {
+  return target.spacecraft?.[0] || target.name;
+}
+
+function formatRate(rate: number): string {
+  if (rate < 1000) return `${rate} b/s`;
+  if (rate < 1000000) return `${(rate / 1000).toFixed(1)} kb/s`;
+  return `${(rate / 1000000).toFixed(2)} Mb/s`;
+}
+
+function indexSignals(data: DSNData): Map<string, SignalState> {
+  const signals = new Map<string, SignalState>();
+
+  data.stations.forEach((station) => {
+    station.dishes.forEach((dish) => {
+      dish.targets.forEach((target) => {
+        const spacecraft = getSpacecraftCode(target);
+        // The DSN placeholder target is used for testing and calibration
+        if (!spacecraft || spacecraft === 'DSN') return;
+
+        (['down', 'up'] as const).forEach((direction) => {
+          const signal = direction === 'down' ? target.downSignal : target.upSignal;
+          if (!isSignalActive(signal)) return;
+
+          signals.set(`${station.name}/${dish.name}/${spacecraft}/${direction}`, {
+            station: station.name,
+            stationName: station.friendlyName,
+            dish: dish.name,
+            spacecraft,
+            direction,
+            signal: signal!,
+          });
+        });
+      });
+    });
+  });
+
+  return signals;
+}
+
+function indexDishes(data: DSNData): Map<string, DishState> {
+  const dishes = new Map<string, DishState>();
+
+  data.stations.forEach((station) => {
+    station.dishes.forEach((dish) => {
+      dishes.set(`${station.name}/${dish.name}`, {
+        station: station.name,
+        stationName: station.friendlyName,
+        dish,
+      });
+    });
+  });
+
+  return dishes;
+}
+
+/**
+ * Compare two consecutive snapshots and return the transitions between them
+ */
+export function detectDSNEvents(previous: DSNData, current: DSNData): DSNEvent[] {
+  const events: DSNEvent[] = [];
+  const timestamp = current.timestamp;
+
+  const makeEvent = (event: Omit<DSNEvent, 'id' | 'timestamp'>): DSNEvent => ({
+    ...event,
+    id: [timestamp, event.type, event.station, event.dish, event.spacecraft, event.direction]
+      .filter(Boolean)
+      .join(':'),
+    timestamp,
+  });
+
+  const before = indexSignals(previous);
+  const after = indexSignals(current);
+  const linkLabel = (state: SignalState) =>
+    `${state.spacecraft} ${state.direction === 'down' ? 'downlink' : 'uplink'} on ${state.dish} (${state.stationName})`;
+
+  after.forEach((state, key) => {
+    const old = before.get(key);
+
+    if (!old) {
+      events.push(
+        makeEvent({
+          type: 'acquisition-of-signal',
+          station: state.station,
+          stationName: state.stationName,
+          dish: state.dish,
+          spacecraft: state.spacecraft,
+          direction: state.direction,
+          current: state.signal.dataRate,
+          message: `AOS: ${linkLabel(state)}`,
+        })
+      );
+      return;
+    }
+
+    if (old.signal.band && state.signal.band && old.signal.band !== state.signal.band) {
+      events.push(
+        makeEvent({
+          type: 'band-change',
+          station: state.station,
+          stationName: state.stationName,
+          dish: state.dish,
+          spacecraft: state.spacecraft,
+          direction: state.direction,
+          previous: old.signal.band,
+          current: state.signal.band,
+          message: `${linkLabel(state)} switched from ${old.signal.band}-band to ${state.signal.band}-band`,
+        })
+      );
+    }
+
+    const oldRate = old.signal.dataRate;
+    const newRate = state.signal.dataRate;
+    if (Math.abs(newRate - oldRate) > Math.max(oldRate, newRate) * DATA_RATE_TOLERANCE) {
+      events.push(
+        makeEvent({
+          type: 'data-rate-change',
+          station: state.station,
+          stationName: state.stationName,
+          dish: state.dish,
+          spacecraft: state.spacecraft,
+          direction: state.direction,
+          previous: oldRate,
+          current: newRate,
+          message: `${linkLabel(state)} changed from ${formatRate(oldRate)} to ${formatRate(newRate)}`,
+        })
+      );
+    }
+  });
+
+  before.forEach((state, key) => {
+    if (after.has(key)) return;
+    events.push(
+      makeEvent({
+        type: 'loss-of-signal',
+        station: state.station,
+        stationName: state.stationName,
+        dish: state.dish,
+        spacecraft: state.spacecraft,
+        direction: state.direction,
+        previous: state.signal.dataRate,
+        message: `LOS: ${linkLabel(state)}`,
+      })
+    );
+  });
+
+  const dishesBefore = indexDishes(previous);
+  indexDishes(current).forEach((state, key) => {
+    const old = dishesBefore.get(key);
+    if (!old || !!old.dish.isArray === !!state.dish.isArray) return;
+
+    const spacecraft = state.dish.targets.map(getSpacecraftCode).filter(Boolean).join(', ');
+    const formed = !!state.dish.isArray;
+    events.push(
+      makeEvent({
+        type: formed ? 'array-formed' : 'array-dissolved',
+        station: state.station,
+        stationName: state.stationName,
+        dish: state.dish.name,
+        spacecraft: spacecraft || undefined,
+        message: `${state.dish.name} (${state.stationName}) ${formed ? 'joined' : 'left'} an array${
+          spacecraft ? ` for ${spacecraft}` : ''
+        }`,
+      })
+    );
+  });
+
+  return events;
+}
+
+/**
+ * Detect events across an ordered series of snapshots (oldest first)
+ */
+export function detectDSNEventsInSeries(snapshots: DSNData[]): DSNEvent[] {
+  const events: DSNEvent[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    events.push(...detectDSNEvents(snapshots[i - 1], snapshots[i]));
+  }
+  return events;
+}
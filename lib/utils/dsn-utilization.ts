@@ -0,0 +1,291 @@
+/**
+ * DSN Utilization Statistics
+ * Aggregates sampled DSN snapshots into tracking time per complex, dish and spacecraft.
+ * Each snapshot stands for the time until the next one, capped so recorder gaps
+ * (server restarts, no traffic) are not counted as tracking.
+ */
+
+import type { DSNData, DSNDish } from '@/lib/api/dsn';
+import { isSignalActive } from '@/lib/utils/dsn-events';
+
+export interface SpacecraftUtilization {
+  spacecraft: string;
+  hours: number;
+  /** Share of the parent's tracked time (MSPA dishes count every spacecraft in full) */
+  share: number;
+}
+
+export interface DailyUtilization {
+  /** UTC date (YYYY-MM-DD) */
+  date: string;
+  trackedHours: number;
+}
+
+interface UtilizationTotals {
+  /** Time covered by snapshots */
+  sampledHours: number;
+  /** Time with at least one active link */
+  trackedHours: number;
+  /** trackedHours / sampledHours (0-1) */
+  utilization: number;
+  downlinkHours: number;
+  uplinkHours: number;
+  spacecraft: SpacecraftUtilization[];
+  daily: DailyUtilization[];
+}
+
+export interface DishUtilization extends UtilizationTotals {
+  station: string;
+  stationName: string;
+  dish: string;
+}
+
+/** Complex totals are antenna-hours summed over the complex's dishes */
+export interface ComplexUtilization extends UtilizationTotals {
+  station: string;
+  stationName: string;
+  dishCount: number;
+}
+
+export interface DSNUtilization {
+  from: number;
+  to: number;
+  snapshots: number;
+  complexes: ComplexUtilization[];
+  dishes: DishUtilization[];
+}
+
+interface Accumulator {
+  sampledMs: number;
+  trackedMs: number;
+  downlinkMs: number;
+  uplinkMs: number;
+  spacecraftMs: Map<string, number>;
+  dailyMs: Map<string, number>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest interval a single snapshot may represent
+export const MAX_SAMPLE_MS = 5 * 60 * 1000;
+
+function createAccumulator(): Accumulator {
+  return {
+    sampledMs: 0,
+    trackedMs: 0,
+    downlinkMs: 0,
+    uplinkMs: 0,
+    spacecraftMs: new Map(),
+    dailyMs: new Map(),
+  };
+}
+
+function addTo(map: Map<string, number>, key: string, value: number): void {
+  map.set(key, (map.get(key) || 0) + value);
+}
+
+/**
+ * Link state of a dish in one snapshot ('DSN' placeholder targets are ignored)
+ */
+function dishLinks(dish: DSNDish): { spacecraft: string[]; downlink: boolean; uplink: boolean } {
+  const spacecraft = new Set<string>();
+  let downlink = false;
+  let uplink = false;
+
+  dish.targets.forEach((target) => {
+    const code = target.spacecraft?.[0] || target.name;
+    if (!code || code === 'DSN') return;
+
+    const down = !!target.downSignal && isSignalActive(target.downSignal);
+    const up = !!target.upSignal && isSignalActive(target.upSignal);
+    if (down || up) spacecraft.add(code);
+    downlink = downlink || down;
+    uplink = uplink || up;
+  });
+
+  return { spacecraft: Array.from(spacecraft), downlink, uplink };
+}
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function toTotals(acc: Accumulator): UtilizationTotals {
+  const spacecraft = Array.from(acc.spacecraftMs.entries())
+    .map(([code, ms]) => ({
+      spacecraft: code,
+      hours: round(ms / HOUR_MS),
+      share: acc.trackedMs > 0 ? round(ms / acc.trackedMs, 3) : 0,
+    }))
+    .sort((a, b) => b.hours - a.hours);
+
+  const daily = Array.from(acc.dailyMs.entries())
+    .map(([date, ms]) => ({ date, trackedHours: round(ms / HOUR_MS) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    sampledHours: round(acc.sampledMs / HOUR_MS),
+    trackedHours: round(acc.trackedMs / HOUR_MS),
+    utilization: acc.sampledMs > 0 ? round(acc.trackedMs / acc.sampledMs, 3) : 0,
+    downlinkHours: round(acc.downlinkMs / HOUR_MS),
+    uplinkHours: round(acc.uplinkMs / HOUR_MS),
+    spacecraft,
+    daily,
+  };
+}
+
+/**
+ * Aggregate snapshots (any order) over [from, to]
+ */
+export function aggregateUtilization(
+  snapshots: DSNData[],
+  from: number,
+  to: number
+): DSNUtilization {
+  const sorted = snapshots
+    .filter((s) => s.timestamp >= from && s.timestamp <= to)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const dishes = new Map<
+    string,
+    { station: string; stationName: string; dish: string; acc: Accumulator }
+  >();
+  const complexes = new Map<
+    string,
+    { stationName: string; dishNames: Set<string>; acc: Accumulator }
+  >();
+
+  sorted.forEach((snapshot, index) => {
+    const next = sorted[index + 1]?.timestamp ?? to;
+    const weight = Math.min(Math.max(next - snapshot.timestamp, 0), MAX_SAMPLE_MS);
+    if (weight === 0) return;
+
+    const day = new Date(snapshot.timestamp).toISOString().slice(0, 10);
+
+    snapshot.stations.forEach((station) => {
+      const complex = complexes.get(station.name) || {
+        stationName: station.friendlyName,
+        dishNames: new Set<string>(),
+        acc: createAccumulator(),
+      };
+      complexes.set(station.name, complex);
+      if (station.friendlyName) complex.stationName = station.friendlyName;
+
+      station.dishes.forEach((dish) => {
+        const key = `${station.name}/${dish.name}`;
+        const entry = dishes.get(key) || {
+          station: station.name,
+          stationName: station.friendlyName,
+          dish: dish.name,
+          acc: createAccumulator(),
+        };
+        dishes.set(key, entry);
+        complex.dishNames.add(dish.name);
+
+        const links = dishLinks(dish);
+
+        // Complex totals are antenna-hours summed over their dishes
+        [entry.acc, complex.acc].forEach((acc) => {
+          acc.sampledMs += weight;
+          if (links.spacecraft.length > 0) {
+            acc.trackedMs += weight;
+            addTo(acc.dailyMs, day, weight);
+          }
+          if (links.downlink) acc.downlinkMs += weight;
+          if (links.uplink) acc.uplinkMs += weight;
+          links.spacecraft.forEach((code) => addTo(acc.spacecraftMs, code, weight));
+        });
+      });
+    });
+  });
+
+  return {
+    from,
+    to,
+    snapshots: sorted.length,
+    complexes: Array.from(complexes.entries()).map(([station, complex]) => ({
+      station,
+      stationName: complex.stationName,
+      dishCount: complex.dishNames.size,
+      ...toTotals(complex.acc),
+    })),
+    dishes: Array.from(dishes.values()).map((entry) => ({
+      station: entry.station,
+      stationName: entry.stationName,
+      dish: entry.dish,
+      ...toTotals(entry.acc),
+    })),
+  };
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten utilization statistics into CSV, one row per complex, dish and
+ * dish/spacecraft pair (the "level" column tells them apart)
+ */
+export function utilizationToCSV(stats: DSNUtilization): string {
+  const header = [
+    'level',
+    'station',
+    'dish',
+    'spacecraft',
+    'sampled_hours',
+    'tracked_hours',
+    'utilization_pct',
+    'downlink_hours',
+    'uplink_hours',
+    'share_pct',
+  ];
+  const rows: Array<Array<string | number>> = [header];
+
+  stats.complexes.forEach((complex) => {
+    rows.push([
+      'complex',
+      complex.station,
+      '',
+      '',
+      complex.sampledHours,
+      complex.trackedHours,
+      round(complex.utilization * 100, 1),
+      complex.downlinkHours,
+      complex.uplinkHours,
+      '',
+    ]);
+  });
+
+  stats.dishes.forEach((dish) => {
+    rows.push([
+      'dish',
+      dish.station,
+      dish.dish,
+      '',
+      dish.sampledHours,
+      dish.trackedHours,
+      round(dish.utilization * 100, 1),
+      dish.downlinkHours,
+      dish.uplinkHours,
+      '',
+    ]);
+    dish.spacecraft.forEach((sc) => {
+      rows.push([
+        'spacecraft',
+        dish.station,
+        dish.dish,
+        sc.spacecraft,
+        '',
+        sc.hours,
+        '',
+        '',
+        '',
+        round(sc.share * 100, 1),
+      ]);
+    });
+  });
+
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,241 @@
+/**
+ * DSN Visibility Utilities
+ * Station geodetic coordinates and line-of-sight calculations for the three
+ * Deep Space Network complexes. Topocentric parallax is ignored, which is
+ * accurate to well under a degree for anything beyond lunar distance.
+ */
+
+import { J2000, toJulianDate } from '@/lib/utils/time-scales';
+
+export interface DSNComplex {
+  /** Complex code used in the DSN feed (gdscc, mdscc, cdscc) */
+  code: string;
+  name: string;
+  region: string;
+  /** Geodetic latitude (degrees, north positive) */
+  lat: number;
+  /** Geodetic longitude (degrees, east positive) */
+  lon: number;
+  /** Height above the WGS84 ellipsoid (meters) */
+  heightM: number;
+}
+
+export interface SkyPosition {
+  time: Date;
+  /** Right ascension (degrees) */
+  ra: number;
+  /** Declination (degrees) */
+  dec: number;
+}
+
+export interface PassWindow {
+  complex: string;
+  /** Rise above the elevation mask (null if already up at the start of the window) */
+  rise: Date | null;
+  /** Set below the elevation mask (null if still up at the end of the window) */
+  set: Date | null;
+  maxElevation: number;
+  maxElevationTime: Date;
+  /** Azimuth at rise/set (degrees) */
+  riseAzimuth: number | null;
+  setAzimuth: number | null;
+}
+
+// Reference antenna coordinates (DSS-14, DSS-63, DSS-43)
+export const DSN_COMPLEXES: Record<string, DSNComplex> = {
+  gdscc: {
+    code: 'gdscc',
+    name: 'Goldstone',
+    region: 'California, USA',
+    lat: 35.4259,
+    lon: -116.8895,
+    heightM: 1002,
+  },
+  mdscc: {
+    code: 'mdscc',
+    name: 'Madrid',
+    region: 'Spain',
+    lat: 40.4313,
+    lon: -4.248,
+    heightM: 865,
+  },
+  cdscc: {
+    code: 'cdscc',
+    name: 'Canberra',
+    region: 'Australia',
+    lat: -35.4014,
+    lon: 148.9817,
+    heightM: 689,
+  },
+};
+
+export const DEFAULT_ELEVATION_MASK = 10; // degrees
+
+const DEG = Math.PI / 180;
+
+function normalizeDegrees(angle: number): number {
+  const result = angle % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Greenwich Mean Sidereal Time (degrees), IAU 1982 expression
+ */
+export function greenwichMeanSiderealTime(date: Date): number {
+  const jd = toJulianDate(date); // UT1 is within a second of UTC
+  const d = jd - J2000;
+  const t = d / 36525;
+  return normalizeDegrees(
+    280.46061837 + 360.98564736629 * d + 0.000387933 * t * t - (t * t * t) / 38710000
+  );
+}
+
+/**
+ * Convert an equatorial Cartesian vector to right ascension and declination (degrees)
+ */
+export function vectorToRaDec(x: number, y: number, z: number): { ra: number; dec: number } {
+  const r = Math.sqrt(x * x + y * y + z * z);
+  return {
+    ra: normalizeDegrees(Math.atan2(y, x) / DEG),
+    dec: Math.asin(z / r) / DEG,
+  };
+}
+
+/**
+ * Convert RA/Dec to azimuth (from north, through east) and elevation for an observer
+ */
+export function equatorialToHorizontal(
+  ra: number,
+  dec: number,
+  lat: number,
+  lon: number,
+  date: Date
+): { azimuth: number; elevation: number } {
+  const hourAngle = (greenwichMeanSiderealTime(date) + lon - ra) * DEG;
+  const phi = lat * DEG;
+  const delta = dec * DEG;
+
+  const sinEl =
+    Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle);
+  const elevation = Math.asin(Math.max(-1, Math.min(1, sinEl))) / DEG;
+  const azimuth = normalizeDegrees(
+    Math.atan2(
+      -Math.cos(delta) * Math.sin(hourAngle),
+      Math.sin(delta) * Math.cos(phi) - Math.cos(delta) * Math.cos(hourAngle) * Math.sin(phi)
+    ) / DEG
+  );
+
+  return { azimuth, elevation };
+}
+
+/**
+ * Interpolate RA/Dec linearly between samples (handles the 0/360 RA wrap)
+ */
+export function interpolateSkyPosition(track: SkyPosition[], time: Date): SkyPosition | null {
+  if (track.length === 0) return null;
+
+  const t = time.getTime();
+  if (t <= track[0].time.getTime()) return { ...track[0], time };
+  if (t >= track[track.length - 1].time.getTime()) return { ...track[track.length - 1], time };
+
+  for (let i = 0; i < track.length - 1; i++) {
+    const a = track[i];
+    const b = track[i + 1];
+    const ta = a.time.getTime();
+    const tb = b.time.getTime();
+
+    if (t >= ta && t <= tb) {
+      const f = tb === ta ? 0 : (t - ta) / (tb - ta);
+      let deltaRa = b.ra - a.ra;
+      if (deltaRa > 180) deltaRa -= 360;
+      if (deltaRa < -180) deltaRa += 360;
+
+      return {
+        time,
+        ra: normalizeDegrees(a.ra + f * deltaRa),
+        dec: a.dec + f * (b.dec - a.dec),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find rise/set/max-elevation windows above the elevation mask for one complex
+ */
+export function predictPasses(
+  track: SkyPosition[],
+  complex: DSNComplex,
+  options: { elevationMask?: number; stepMinutes?: number } = {}
+): PassWindow[] {
+  const mask = options.elevationMask ?? DEFAULT_ELEVATION_MASK;
+  const stepMs = (options.stepMinutes ?? 2) * 60000;
+
+  if (track.length === 0) return [];
+
+  const start = track[0].time.getTime();
+  const end = track[track.length - 1].time.getTime();
+
+  const sample = (t: number) => {
+    const position = interpolateSkyPosition(track, new Date(t))!;
+    return equatorialToHorizontal(position.ra, position.dec, complex.lat, complex.lon, new Date(t));
+  };
+
+  const passes: PassWindow[] = [];
+  let current: PassWindow | null = null;
+  let previous = sample(start);
+  let previousTime = start;
+
+  if (previous.elevation >= mask) {
+    current = {
+      complex: complex.code,
+      rise: null,
+      set: null,
+      maxElevation: previous.elevation,
+      maxElevationTime: new Date(start),
+      riseAzimuth: null,
+      setAzimuth: null,
+    };
+  }
+
+  for (let t = start + stepMs; t <= end; t += stepMs) {
+    const next = sample(t);
+
+    // Linear interpolation of the mask crossing between samples
+    const crossingTime = () => {
+      const f = (mask - previous.elevation) / (next.elevation - previous.elevation);
+      return new Date(previousTime + f * (t - previousTime));
+    };
+
+    if (!current && next.elevation >= mask) {
+      const rise = crossingTime();
+      current = {
+        complex: complex.code,
+        rise,
+        set: null,
+        maxElevation: next.elevation,
+        maxElevationTime: new Date(t),
+        riseAzimuth: sample(rise.getTime()).azimuth,
+        setAzimuth: null,
+      };
+    } else if (current && next.elevation < mask) {
+      current.set = crossingTime();
+      current.setAzimuth = sample(current.set.getTime()).azimuth;
+      passes.push(current);
+      current = null;
+    } else if (current && next.elevation > current.maxElevation) {
+      current.maxElevation = next.elevation;
+      current.maxElevationTime = new Date(t);
+    }
+
+    previous = next;
+    previousTime = t;
+  }
+
+  if (current) {
+    passes.push(current);
+  }
+
+  return passes;
+}
@@ -0,0 +1,87 @@
+/**
+ * Ephemeris Utilities
+ * Interpolation of Horizons state-vector tables and frame helpers shared by
+ * the ephemeris cache and the radiometric analyses.
+ */
+
+import type { StateVector } from '@/lib/types/horizons';
+
+// Mean obliquity of the ecliptic at J2000 (degrees)
+const OBLIQUITY_J2000 = 23.4392911;
+
+/**
+ * Interpolate a table (sorted by time) at a UTC time using cubic Hermite splines
+ * on position and velocity. Returns null outside the table.
+ */
+export function interpolateVectors(vectors: StateVector[], date: Date): StateVector | null {
+  const time = date.getTime();
+  const index = vectors.findIndex((v) => v.time.getTime() >= time);
+  if (index < 0) return null;
+  if (vectors[index].time.getTime() === time) return vectors[index];
+  if (index === 0) return null;
+
+  const a = vectors[index - 1];
+  const b = vectors[index];
+  const h = (b.time.getTime() - a.time.getTime()) / 1000;
+  const s = (time - a.time.getTime()) / 1000 / h;
+
+  const h00 = 2 * s ** 3 - 3 * s ** 2 + 1;
+  const h10 = s ** 3 - 2 * s ** 2 + s;
+  const h01 = -2 * s ** 3 + 3 * s ** 2;
+  const h11 = s ** 3 - s ** 2;
+  const d00 = (6 * s ** 2 - 6 * s) / h;
+  const d10 = 3 * s ** 2 - 4 * s + 1;
+  const d01 = (-6 * s ** 2 + 6 * s) / h;
+  const d11 = 3 * s ** 2 - 2 * s;
+
+  const position = (p0: number, v0: number, p1: number, v1: number) =>
+    h00 * p0 + h10 * h * v0 + h01 * p1 + h11 * h * v1;
+  const velocity = (p0: number, v0: number, p1: number, v1: number) =>
+    d00 * p0 + d10 * v0 + d01 * p1 + d11 * v1;
+
+  return {
+    jdTDB: a.jdTDB + (b.jdTDB - a.jdTDB) * s,
+    time: new Date(time),
+    x: position(a.x, a.vx, b.x, b.vx),
+    y: position(a.y, a.vy, b.y, b.vy),
+    z: position(a.z, a.vz, b.z, b.vz),
+    vx: velocity(a.x, a.vx, b.x, b.vx),
+    vy: velocity(a.y, a.vy, b.y, b.vy),
+    vz: velocity(a.z, a.vz, b.z, b.vz),
+  };
+}
+
+/**
+ * Whether a table covers a UTC time range
+ */
+export function coversRange(vectors: StateVector[], from: Date, to: Date): boolean {
+  if (vectors.length === 0) return false;
+  return (
+    vectors[0].time.getTime() <= from.getTime() &&
+    vectors[vectors.length - 1].time.getTime() >= to.getTime()
+  );
+}
+
+/**
+ * Rotate an ICRF equatorial vector into the J2000 ecliptic frame
+ */
+export function equatorialToEcliptic(x: number, y: number, z: number) {
+  const eps = (OBLIQUITY_J2000 * Math.PI) / 180;
+  return {
+    x,
+    y: y * Math.cos(eps) + z * Math.sin(eps),
+    z: -y * Math.sin(eps) + z * Math.cos(eps),
+  };
+}
+
+/**
+ * Rotate a J2000 ecliptic vector into the ICRF equatorial frame
+ */
+export function eclipticToEquatorial(x: number, y: number, z: number) {
+  const eps = (OBLIQUITY_J2000 * Math.PI) / 180;
+  return {
+    x,
+    y: y * Math.cos(eps) - z * Math.sin(eps),
+    z: y * Math.sin(eps) + z * Math.cos(eps),
+  };
+}
@@ -0,0 +1,234 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GM_SUN,
+  propagate,
+  solveBarker,
+  solveKeplerElliptic,
+  solveKeplerHyperbolic,
+  stateToElements,
+  trueAnomalyAt,
+  type KeplerianElements,
+  type Vec3,
+} from '@/lib/utils/kepler';
+
+const DEG = Math.PI / 180;
+const MU_EARTH = 398600.4418; // km^3/s^2
+
+const wrapRadians = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+const norm = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
+
+describe('Kepler equation solvers', () => {
+  it('solves the elliptic equation (Vallado example 2-1)', () => {
+    // M = 235.4°, e = 0.4 → E = 220.512074767522°
+    const E = solveKeplerElliptic(235.4 * DEG, 0.4);
+    expect(wrapRadians(E - 220.512074767522 * DEG)).toBeCloseTo(0, 12);
+  });
+
+  it('solves the elliptic equation (Curtis example 3.3)', () => {
+    // M = 3.6029 rad, e = 0.37255 → E = 3.4794 rad
+    const E = solveKeplerElliptic(3.6029, 0.37255);
+    expect(wrapRadians(E - 3.4794)).toBeCloseTo(0, 4);
+  });
+
+  it('converges for near-parabolic ellipses', () => {
+    for (const M of [0.001, 0.5, 2, 3.1]) {
+      const E = solveKeplerElliptic(M, 0.999);
+      expect(E - 0.999 * Math.sin(E)).toBeCloseTo(M, 12);
+    }
+  });
+
+  it('solves the hyperbolic equation (Vallado example 2-3)', () => {
+    // M = 235.4° taken as a hyperbolic mean anomaly, e = 2.4 → H = 1.6013761449
+    expect(solveKeplerHyperbolic(235.4 * DEG, 2.4)).toBeCloseTo(1.6013761449, 10);
+  });
+
+  it('solves the hyperbolic equation (Curtis example 3.5)', () => {
+    // Mh = 40.69, e = 2.7696 → F = 3.4631
+    expect(solveKeplerHyperbolic(40.69, 2.7696)).toBeCloseTo(3.4631, 4);
+  });
+
+  it("solves Barker's equation (Vallado example 2-2)", () => {
+    // p = 25512 km, Δt = 53.7874 min → B = tan(ν/2) = 0.817751
+    expect(solveBarker(25512 / 2, 53.7874 * 60, MU_EARTH)).toBeCloseTo(0.817751, 6);
+  });
+
+  it('puts a parabolic orbit at ν = 90° after √(2q³/μ)·4/3', () => {
+    const q = 1.2;
+    const dt = Math.sqrt((2 * q ** 3) / GM_SUN) * (4 / 3);
+    expect(solveBarker(q, dt)).toBeCloseTo(1, 12);
+    expect(
+      trueAnomalyAt({ q, e: 1, i: 0, Omega: 0, omega: 0, tp: 2460000.5 }, 2460000.5 + dt)
+    ).toBeCloseTo(Math.PI / 2, 10);
+  });
+});
+
+describe('stateToElements', () => {
+  it('recovers the elements of Vallado example 2-5', () => {
+    const elements = stateToElements(
+      { position: [6524.834, 6862.875, 6448.296], velocity: [4.901327, 5.533756, -1.976341] },
+      0,
+      MU_EARTH
+    );
+
+    // p = 11067.790 km, so q = p / (1 + e)
+    expect(elements.e).toBeCloseTo(0.832853, 5);
+    expect(elements.q * (1 + elements.e)).toBeCloseTo(11067.79, 0);
+    expect(elements.i).toBeCloseTo(87.87, 2);
+    expect(elements.Omega).toBeCloseTo(227.89, 1);
+    expect(elements.omega).toBeCloseTo(53.38, 1);
+  });
+
+  it('recovers the elements of Curtis example 4.3', () => {
+    const elements = stateToElements(
+      { position: [-6045, -3490, 2500], velocity: [-3.457, 6.618, 2.533] },
+      0,
+      398600
+    );
+
+    expect(elements.e).toBeCloseTo(0.1712, 4);
+    expect(elements.i).toBeCloseTo(153.2, 1);
+    expect(elements.Omega).toBeCloseTo(255.3, 1);
+    expect(elements.omega).toBeCloseTo(20.07, 1);
+  });
+
+  it('puts the periapsis time before a state moving away from periapsis', () => {
+    const elements = stateToElements(
+      { position: [-6045, -3490, 2500], velocity: [-3.457, 6.618, 2.533] },
+      0,
+      398600
+    );
+    // Curtis: θ = 28.45°, so periapsis was a few minutes earlier
+    expect(elements.tp).toBeLessThan(0);
+    expect(elements.tp).toBeGreaterThan(-3600);
+  });
+});
+
+describe('propagate', () => {
+  const epoch = 2460000.5;
+
+  it('starts at periapsis along the periapsis direction', () => {
+    const elements: KeplerianElements = {
+      q: 0.8,
+      e: 0.3,
+      i: 0,
+      Omega: 0,
+      omega: 90,
+      tp: epoch,
+    };
+    const { position, velocity } = propagate(elements, epoch);
+
+    expect(distance(position, [0, 0.8, 0])).toBeLessThan(1e-12);
+    // Vis-viva at periapsis: v² = μ(1 + e)/q
+    expect(norm(velocity)).toBeCloseTo(Math.sqrt((GM_SUN * 1.3) / 0.8), 12);
+    expect(velocity[0]).toBeLessThan(0);
+  });
+
+  it('returns to the same state after one period', () => {
+    const elements: KeplerianElements = { q: 1, e: 0.5, i: 10, Omega: 20, omega: 30, tp: epoch };
+    const a = elements.q / (1 - elements.e);
+    const period = (2 * Math.PI) / Math.sqrt(GM_SUN / a ** 3);
+
+    const start = propagate(elements, epoch + 100);
+    const end = propagate(elements, epoch + 100 + period);
+    expect(distance(start.position, end.position)).toBeLessThan(1e-10);
+  });
+
+  describe('round trip through stateToElements', () => {
+    const cases: Array<[string, KeplerianElements]> = [
+      ['elliptic', { q: 0.98, e: 0.2, i: 23, Omega: 75, omega: 130, tp: epoch - 40 }],
+      ['highly elliptic', { q: 0.3, e: 0.95, i: 162, Omega: 300, omega: 10, tp: epoch + 20 }],
+      ['parabolic', { q: 1.5, e: 1, i: 45, Omega: 200, omega: 250, tp: epoch - 90 }],
+      ['hyperbolic', { q: 1.36, e: 2.3, i: 123, Omega: 24.6, omega: 241.8, tp: epoch - 150 }],
+      ['interstellar', { q: 0.25, e: 6.1, i: 4.5, Omega: 322, omega: 128, tp: epoch + 400 }],
+    ];
+
+    it.each(cases)('recovers %s elements', (_, elements) => {
+      const jd = epoch + 12.5;
+      const recovered = stateToElements(propagate(elements, jd), jd);
+
+      expect(recovered.q).toBeCloseTo(elements.q, 9);
+      expect(recovered.e).toBeCloseTo(elements.e, 9);
+      expect(recovered.i).toBeCloseTo(elements.i, 8);
+      expect(recovered.Omega).toBeCloseTo(elements.Omega, 8);
+      expect(recovered.omega).toBeCloseTo(elements.omega, 8);
+      expect(recovered.tp).toBeCloseTo(elements.tp, 6);
+    });
+
+    it.each(cases)('reproduces %s states at other epochs', (_, elements) => {
+      const recovered = stateToElements(propagate(elements, epoch), epoch);
+
+      for (const offset of [-200, -3, 0, 7, 365]) {
+        const original = propagate(elements, epoch + offset);
+        const replay = propagate(recovered, epoch + offset);
+        expect(distance(original.position, replay.position)).toBeLessThan(
+          1e-9 * norm(original.position)
+        );
+        expect(distance(original.velocity, replay.velocity)).toBeLessThan(
+          1e-9 * norm(original.velocity)
+        );
+      }
+    });
+  });
+
+  describe('special cases', () => {
+    it('gives equatorial orbits Ω = 0 and ω as the longitude of periapsis', () => {
+      const elements: KeplerianElements = {
+        q: 1,
+        e: 0.1,
+        i: 0,
+        Omega: 60,
+        omega: 40,
+        tp: epoch,
+      };
+      const recovered = stateToElements(propagate(elements, epoch + 30), epoch + 30);
+
+      expect(recovered.i).toBeCloseTo(0, 10);
+      expect(recovered.Omega).toBe(0);
+      expect(recovered.omega).toBeCloseTo(100, 8);
+      expect(recovered.tp).toBeCloseTo(epoch, 6);
+    });
+
+    it('handles retrograde equatorial orbits', () => {
+      const elements: KeplerianElements = {
+        q: 1,
+        e: 0.1,
+        i: 180,
+        Omega: 0,
+        omega: 40,
+        tp: epoch,
+      };
+      const state = propagate(elements, epoch + 30);
+      const recovered = stateToElements(state, epoch + 30);
+
+      expect(recovered.i).toBeCloseTo(180, 10);
+      expect(recovered.Omega).toBe(0);
+      const replay = propagate(recovered, epoch + 30);
+      expect(distance(replay.position, state.position)).toBeLessThan(1e-10);
+    });
+
+    it('measures circular orbits from the ascending node', () => {
+      const elements: KeplerianElements = { q: 1, e: 0, i: 30, Omega: 40, omega: 0, tp: epoch };
+      const quarter = (Math.PI / 2) * Math.sqrt(1 / GM_SUN);
+      const recovered = stateToElements(propagate(elements, epoch + quarter), epoch + quarter);
+
+      expect(recovered.e).toBeLessThan(1e-10);
+      expect(recovered.omega).toBe(0);
+      expect(recovered.Omega).toBeCloseTo(40, 8);
+      // A quarter period past the node, so the node crossing is recovered as tp
+      expect(recovered.tp).toBeCloseTo(epoch, 6);
+    });
+
+    it('measures circular equatorial orbits from the +x axis', () => {
+      const state = { position: [0, 1, 0] as Vec3, velocity: [-Math.sqrt(GM_SUN), 0, 0] as Vec3 };
+      const recovered = stateToElements(state, epoch);
+
+      expect(recovered.e).toBeLessThan(1e-10);
+      expect(recovered.Omega).toBe(0);
+      expect(recovered.omega).toBe(0);
+      // A quarter period after crossing +x
+      expect(recovered.tp).toBeCloseTo(epoch - (Math.PI / 2) * Math.sqrt(1 / GM_SUN), 6);
+      expect(distance(propagate(recovered, epoch).position, state.position)).toBeLessThan(1e-10);
+    });
+  });
+});
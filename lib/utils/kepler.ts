@@ -0,0 +1,216 @@
+/**
+ * Two-Body Propagator
+ * Keplerian propagation for elliptic, parabolic and hyperbolic orbits. Elements use
+ * periapsis distance and time of periapsis so every conic shares one form; states
+ * are in the frame the elements are referred to (AU and AU/day).
+ */
+
+export type Vec3 = [number, number, number];
+
+export interface KeplerianElements {
+  /** Periapsis distance (AU) */
+  q: number;
+  /** Eccentricity (< 1 elliptic, 1 parabolic, > 1 hyperbolic) */
+  e: number;
+  /** Inclination (degrees) */
+  i: number;
+  /** Longitude of the ascending node (degrees) */
+  Omega: number;
+  /** Argument of periapsis (degrees) */
+  omega: number;
+  /** Time of periapsis passage (Julian Date) */
+  tp: number;
+  /** Gravitational parameter (AU^3/day^2, default: Sun) */
+  mu?: number;
+}
+
+export interface OrbitalState {
+  /** AU */
+  position: Vec3;
+  /** AU/day */
+  velocity: Vec3;
+}
+
+// Gaussian gravitational constant squared
+export const GM_SUN = 0.01720209895 ** 2;
+
+const DEG = Math.PI / 180;
+const PARABOLIC_TOLERANCE = 1e-8;
+const MAX_ITERATIONS = 50;
+
+/**
+ * Solve M = E - e sin E for the eccentric anomaly (radians)
+ */
+export function solveKeplerElliptic(meanAnomaly: number, e: number): number {
+  const M = Math.atan2(Math.sin(meanAnomaly), Math.cos(meanAnomaly));
+  let E = e < 0.8 ? M : Math.PI * Math.sign(M || 1);
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const delta = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-14) break;
+  }
+
+  return E;
+}
+
+/**
+ * Solve M = e sinh H - H for the hyperbolic anomaly
+ */
+export function solveKeplerHyperbolic(meanAnomaly: number, e: number): number {
+  let H = Math.asinh(meanAnomaly / e);
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const delta = (e * Math.sinh(H) - H - meanAnomaly) / (e * Math.cosh(H) - 1);
+    H -= delta;
+    if (Math.abs(delta) < 1e-14 * Math.max(1, Math.abs(H))) break;
+  }
+
+  return H;
+}
+
+/**
+ * Solve Barker's equation for tan(ν/2) given the time since periapsis
+ */
+export function solveBarker(q: number, dt: number, mu: number = GM_SUN): number {
+  const W = 1.5 * Math.sqrt(mu / (2 * q * q * q)) * dt;
+  const Y = Math.cbrt(W + Math.sqrt(W * W + 1));
+  return Y - 1 / Y;
+}
+
+/**
+ * True anomaly (radians) at a Julian Date
+ */
+export function trueAnomalyAt(elements: KeplerianElements, jd: number): number {
+  const { q, e } = elements;
+  const mu = elements.mu ?? GM_SUN;
+  const dt = jd - elements.tp;
+
+  if (Math.abs(e - 1) < PARABOLIC_TOLERANCE) {
+    return 2 * Math.atan(solveBarker(q, dt, mu));
+  }
+
+  const a = q / Math.abs(1 - e);
+  const n = Math.sqrt(mu / (a * a * a));
+
+  if (e < 1) {
+    const E = solveKeplerElliptic(n * dt, e);
+    return 2 * Math.atan2(Math.sqrt(1 + e) * Math.sin(E / 2), Math.sqrt(1 - e) * Math.cos(E / 2));
+  }
+
+  const H = solveKeplerHyperbolic(n * dt, e);
+  return 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(H / 2));
+}
+
+/**
+ * Rotate a perifocal vector by ω, i and Ω into the reference frame
+ */
+function perifocalToReference(x: number, y: number, elements: KeplerianElements): Vec3 {
+  const [cO, sO] = [Math.cos(elements.Omega * DEG), Math.sin(elements.Omega * DEG)];
+  const [cw, sw] = [Math.cos(elements.omega * DEG), Math.sin(elements.omega * DEG)];
+  const [ci, si] = [Math.cos(elements.i * DEG), Math.sin(elements.i * DEG)];
+
+  return [
+    (cO * cw - sO * sw * ci) * x + (-cO * sw - sO * cw * ci) * y,
+    (sO * cw + cO * sw * ci) * x + (-sO * sw + cO * cw * ci) * y,
+    sw * si * x + cw * si * y,
+  ];
+}
+
+/**
+ * Position and velocity at a Julian Date
+ */
+export function propagate(elements: KeplerianElements, jd: number): OrbitalState {
+  const { q, e } = elements;
+  const mu = elements.mu ?? GM_SUN;
+  const nu = trueAnomalyAt(elements, jd);
+
+  const p = q * (1 + e);
+  const r = p / (1 + e * Math.cos(nu));
+  const speedFactor = Math.sqrt(mu / p);
+
+  return {
+    position: perifocalToReference(r * Math.cos(nu), r * Math.sin(nu), elements),
+    velocity: perifocalToReference(
+      -speedFactor * Math.sin(nu),
+      speedFactor * (e + Math.cos(nu)),
+      elements
+    ),
+  };
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalizeDegrees(angle: number): number {
+  const result = angle % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Osculating elements from a state vector (AU, AU/day) at a Julian Date.
+ * Equatorial orbits get Ω = 0; circular orbits measure ω from the node.
+ */
+export function stateToElements(
+  state: OrbitalState,
+  jd: number,
+  mu: number = GM_SUN
+): KeplerianElements {
+  const { position: r, velocity: v } = state;
+  const rMag = Math.sqrt(dot(r, r));
+  const h = cross(r, v);
+  const hMag = Math.sqrt(dot(h, h));
+  const p = (hMag * hMag) / mu;
+  const rv = dot(r, v);
+  const v2 = dot(v, v);
+
+  const eVec = [0, 1, 2].map((k) => ((v2 - mu / rMag) * r[k] - rv * v[k]) / mu) as Vec3;
+  const e = Math.sqrt(dot(eVec, eVec));
+  const q = p / (1 + e);
+
+  const i = Math.acos(Math.max(-1, Math.min(1, h[2] / hMag)));
+  const equatorial = Math.abs(Math.sin(i)) < 1e-12;
+  const Omega = equatorial ? 0 : Math.atan2(h[0], -h[1]);
+
+  // Argument of latitude of the periapsis and of the current position
+  const latitudeOf = (vec: Vec3) =>
+    equatorial
+      ? Math.atan2(vec[1], vec[0]) * Math.sign(h[2] || 1)
+      : Math.atan2(vec[2] / Math.sin(i), vec[0] * Math.cos(Omega) + vec[1] * Math.sin(Omega));
+
+  const circular = e < 1e-10;
+  const omega = circular ? 0 : latitudeOf(eVec);
+  const nu = circular ? latitudeOf(r) : Math.atan2((rv * Math.sqrt(p / mu)) / rMag, p / rMag - 1);
+
+  let sincePeriapsis: number;
+  if (Math.abs(e - 1) < PARABOLIC_TOLERANCE) {
+    const s = Math.tan(nu / 2);
+    sincePeriapsis = Math.sqrt((2 * q * q * q) / mu) * (s + (s * s * s) / 3);
+  } else {
+    const a = q / Math.abs(1 - e);
+    const n = Math.sqrt(mu / (a * a * a));
+    if (e < 1) {
+      const E =
+        2 * Math.atan2(Math.sqrt(1 - e) * Math.sin(nu / 2), Math.sqrt(1 + e) * Math.cos(nu / 2));
+      sincePeriapsis = (E - e * Math.sin(E)) / n;
+    } else {
+      const H = 2 * Math.atanh(Math.sqrt((e - 1) / (e + 1)) * Math.tan(nu / 2));
+      sincePeriapsis = (e * Math.sinh(H) - H) / n;
+    }
+  }
+
+  return {
+    q,
+    e,
+    i: i / DEG,
+    Omega: normalizeDegrees(Omega / DEG),
+    omega: normalizeDegrees(omega / DEG),
+    tp: jd - sincePeriapsis,
+    mu,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * DSN Link Budget Utilities
+ * Estimates downlink signal-to-noise and margin from the received power reported in
+ * the DSN feed, using nominal antenna gain and system noise temperature per dish
+ * class and band (values rounded from DSN Telecommunications Link Design Handbook
+ * 810-005). The data estimate assumes all received power is in the data channel,
+ * so it is an upper bound for links with a residual carrier.
+ */
+
+export type DishClass = '70m' | '34m BWG' | '34m HEF';
+
+export type Band = 'S' | 'X' | 'Ka';
+
+export interface LinkBudgetInput {
+  /** Dish name from the feed (e.g. DSS43) */
+  dishName: string;
+  band?: string;
+  /** Hz (MHz values from uplink-style fields are accepted) */
+  frequency?: number;
+  /** Received power (dBm) */
+  power?: number;
+  /** Bits per second; 0 for carrier-only links */
+  dataRate: number;
+  /** Downleg range (km), used for free-space loss */
+  rangeKm?: number;
+  /** Antenna elevation (degrees), used for atmospheric noise */
+  elevation?: number;
+}
+
+export interface LinkBudget {
+  dishClass: DishClass;
+  band: Band;
+  antennaGainDbi: number;
+  systemNoiseK: number;
+  /** G/T figure of merit (dB/K) */
+  gOverTDb: number;
+  receivedPowerDbm: number;
+  noiseDensityDbmHz: number;
+  /** Carrier-to-noise density (dB-Hz) */
+  cn0DbHz: number;
+  /** Energy per bit to noise density (dB); null for carrier-only links */
+  ebN0Db: number | null;
+  /** Margin above the decoding (data) or carrier-lock threshold (dB) */
+  marginDb: number;
+  marginKind: 'data' | 'carrier';
+  /** Free-space loss (dB); null when the range is unknown */
+  freeSpaceLossDb: number | null;
+  /** Spacecraft EIRP implied by the measured power (dBm); null when the range is unknown */
+  impliedEirpDbm: number | null;
+}
+
+// Boltzmann's constant in dBm/(Hz·K)
+const BOLTZMANN_DBM = -198.6;
+const SPEED_OF_LIGHT_KM_S = 299792.458;
+
+// Required Eb/N0 for a typical deep-space code (turbo rate 1/2, BER 1e-6) plus 1 dB implementation loss
+export const REQUIRED_EB_N0_DB = 2.0;
+
+// Carrier tracking: 10 Hz loop bandwidth, 10 dB loop SNR threshold
+const CARRIER_LOOP_BANDWIDTH_HZ = 10;
+const REQUIRED_LOOP_SNR_DB = 10;
+
+const DISH_CLASSES: Record<number, DishClass> = {
+  14: '70m',
+  43: '70m',
+  63: '70m',
+  65: '34m HEF',
+};
+
+// Receive gain at the reference frequency (dBi)
+const ANTENNA_GAIN: Record<DishClass, Partial<Record<Band, number>>> = {
+  '70m': { S: 63.3, X: 74.2 },
+  '34m BWG': { S: 56.7, X: 68.2, Ka: 78.5 },
+  '34m HEF': { X: 67.6 },
+};
+
+// Zenith system noise temperature, low-noise configuration (K)
+const ZENITH_NOISE: Record<DishClass, Partial<Record<Band, number>>> = {
+  '70m': { S: 20, X: 21 },
+  '34m BWG': { S: 38, X: 33, Ka: 31 },
+  '34m HEF': { X: 24 },
+};
+
+// Zenith clear-sky atmospheric contribution (K), scaled by airmass below zenith
+const ATMOSPHERE_NOISE: Record<Band, number> = { S: 2, X: 2.5, Ka: 9 };
+
+/**
+ * The feed reports downlink frequencies in Hz but some uplinks in MHz
+ */
+export function toHz(frequency: number): number {
+  return frequency < 1e6 ? frequency * 1e6 : frequency;
+}
+
+/**
+ * Classify a DSN antenna from its dish name (every unlisted antenna is a 34m BWG)
+ */
+export function getDishClass(dishName: string): DishClass {
+  const dishNumber = parseInt(dishName.replace(/\D/g, ''));
+  return DISH_CLASSES[dishNumber] || '34m BWG';
+}
+
+/**
+ * Resolve the band from the feed label, falling back to the frequency
+ */
+export function resolveBand(band?: string, frequency?: number): Band | null {
+  const label = band?.trim().toUpperCase();
+  if (label === 'S' || label === 'X') return label;
+  if (label === 'KA') return 'Ka';
+
+  if (!frequency) return null;
+  const ghz = toHz(frequency) / 1e9;
+  if (ghz >= 2 && ghz < 4) return 'S';
+  if (ghz >= 7 && ghz < 9) return 'X';
+  if (ghz >= 25 && ghz < 40) return 'Ka';
+  return null;
+}
+
+/**
+ * Free-space path loss (dB) for a range in km and frequency in Hz
+ */
+export function freeSpaceLoss(rangeKm: number, frequencyHz: number): number {
+  const wavelengthKm = SPEED_OF_LIGHT_KM_S / frequencyHz;
+  return 20 * Math.log10((4 * Math.PI * rangeKm) / wavelengthKm);
+}
+
+/**
+ * System noise temperature (K) at a given elevation
+ */
+export function systemNoiseTemperature(
+  dishClass: DishClass,
+  band: Band,
+  elevation = 90
+): number | null {
+  const zenith = ZENITH_NOISE[dishClass][band];
+  if (zenith === undefined) return null;
+
+  // Flat-earth airmass, clamped near the horizon
+  const airmass = 1 / Math.sin((Math.max(elevation, 6) * Math.PI) / 180);
+  return zenith + ATMOSPHERE_NOISE[band] * (airmass - 1);
+}
+
+/**
+ * Estimate the link budget for an active downlink.
+ * Returns null when the measured power, band or antenna configuration is unknown.
+ */
+export function estimateLinkBudget(input: LinkBudgetInput): LinkBudget | null {
+  if (input.power === undefined || !Number.isFinite(input.power) || input.power >= 0) return null;
+
+  const band = resolveBand(input.band, input.frequency);
+  if (!band) return null;
+
+  const dishClass = getDishClass(input.dishName);
+  const antennaGainDbi = ANTENNA_GAIN[dishClass][band];
+  const systemNoiseK = systemNoiseTemperature(dishClass, band, input.elevation);
+  if (antennaGainDbi === undefined || systemNoiseK === null) return null;
+
+  const noiseDensityDbmHz = BOLTZMANN_DBM + 10 * Math.log10(systemNoiseK);
+  const cn0DbHz = input.power - noiseDensityDbmHz;
+
+  const ebN0Db = input.dataRate > 0 ? cn0DbHz - 10 * Math.log10(input.dataRate) : null;
+  const marginDb =
+    ebN0Db !== null
+      ? ebN0Db - REQUIRED_EB_N0_DB
+      : cn0DbHz - 10 * Math.log10(CARRIER_LOOP_BANDWIDTH_HZ) - REQUIRED_LOOP_SNR_DB;
+
+  const frequencyHz = input.frequency ? toHz(input.frequency) : undefined;
+  const freeSpaceLossDb =
+    input.rangeKm && input.rangeKm > 0 && frequencyHz
+      ? freeSpaceLoss(input.rangeKm, frequencyHz)
+      : null;
+
+  return {
+    dishClass,
+    band,
+    antennaGainDbi,
+    systemNoiseK,
+    gOverTDb: antennaGainDbi - 10 * Math.log10(systemNoiseK),
+    receivedPowerDbm: input.power,
+    noiseDensityDbmHz,
+    cn0DbHz,
+    ebN0Db,
+    marginDb,
+    marginKind: ebN0Db !== null ? 'data' : 'carrier',
+    freeSpaceLossDb,
+    impliedEirpDbm:
+      freeSpaceLossDb !== null ? input.power - antennaGainDbi + freeSpaceLossDb : null,
+  };
+}
+
+/**
+ * Tailwind text colour for a margin value
+ */
+export function marginColor(marginDb: number): string {
+  if (marginDb >= 3) return 'text-green-400';
+  if (marginDb >= 0) return 'text-yellow-400';
+  return 'text-red-400';
+}
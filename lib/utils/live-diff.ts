@@ -0,0 +1,138 @@
+/**
+ * Live Stream Diffs
+ * Compact diffs between consecutive DSN and spacecraft states, shared by the
+ * /api/stream server and the browser subscription so both sides agree on the format
+ */
+
+import type { DSNData, DSNDish, DSNStation } from '@/lib/api/dsn';
+
+export interface DSNDiff {
+  timestamp: number;
+  /** Station headers are always sent (timeUTC advances on every update) */
+  stations: Array<Omit<DSNStation, 'dishes'>>;
+  /** Dishes whose state changed, including new dishes */
+  updated: Array<{ station: string; dish: DSNDish }>;
+  removed: Array<{ station: string; dish: string }>;
+}
+
+export interface KeyedDiff<T> {
+  updated: T[];
+  removed: string[];
+}
+
+function stationHeader(station: DSNStation): Omit<DSNStation, 'dishes'> {
+  const { dishes: _dishes, ...header } = station;
+  return header;
+}
+
+/**
+ * Compute the dish-level changes between two DSN snapshots
+ */
+export function diffDSNData(previous: DSNData, current: DSNData): DSNDiff {
+  const before = new Map<string, string>();
+  previous.stations.forEach((station) => {
+    station.dishes.forEach((dish) =>
+      before.set(`${station.name}/${dish.name}`, JSON.stringify(dish))
+    );
+  });
+
+  const updated: DSNDiff['updated'] = [];
+  const seen = new Set<string>();
+
+  current.stations.forEach((station) => {
+    station.dishes.forEach((dish) => {
+      const key = `${station.name}/${dish.name}`;
+      seen.add(key);
+      if (before.get(key) !== JSON.stringify(dish)) {
+        updated.push({ station: station.name, dish });
+      }
+    });
+  });
+
+  const removed: DSNDiff['removed'] = [];
+  before.forEach((_, key) => {
+    if (!seen.has(key)) {
+      const [station, dish] = key.split('/');
+      removed.push({ station, dish });
+    }
+  });
+
+  return {
+    timestamp: current.timestamp,
+    stations: current.stations.map(stationHeader),
+    updated,
+    removed,
+  };
+}
+
+/**
+ * Apply a DSN diff to the previous snapshot, preserving dish order
+ */
+export function applyDSNDiff(previous: DSNData, diff: DSNDiff): DSNData {
+  const stations: DSNStation[] = diff.stations.map((header) => {
+    const old = previous.stations.find((s) => s.name === header.name);
+    const removed = new Set(
+      diff.removed.filter((r) => r.station === header.name).map((r) => r.dish)
+    );
+    const updates = new Map(
+      diff.updated.filter((u) => u.station === header.name).map((u) => [u.dish.name, u.dish])
+    );
+
+    const dishes = (old?.dishes || [])
+      .filter((dish) => !removed.has(dish.name))
+      .map((dish) => {
+        const update = updates.get(dish.name);
+        updates.delete(dish.name);
+        return update || dish;
+      });
+
+    return { ...header, dishes: [...dishes, ...Array.from(updates.values())] };
+  });
+
+  return { stations, timestamp: diff.timestamp };
+}
+
+/**
+ * Whether a DSN diff carries any dish changes
+ */
+export function isDSNDiffEmpty(diff: DSNDiff): boolean {
+  return diff.updated.length === 0 && diff.removed.length === 0;
+}
+
+/**
+ * Compute changed and removed items between two lists keyed by ID.
+ * Fields listed in `ignore` (e.g. per-request timestamps) do not count as changes.
+ */
+export function diffById<T extends { id: string }>(
+  previous: T[],
+  current: T[],
+  ignore: string[] = []
+): KeyedDiff<T> {
+  const fingerprint = (item: T) =>
+    JSON.stringify(item, (key, value) => (ignore.includes(key) ? undefined : value));
+  const before = new Map(previous.map((item) => [item.id, fingerprint(item)]));
+  const currentIds = new Set(current.map((item) => item.id));
+
+  return {
+    updated: current.filter((item) => before.get(item.id) !== fingerprint(item)),
+    removed: previous.filter((item) => !currentIds.has(item.id)).map((item) => item.id),
+  };
+}
+
+/**
+ * Apply a keyed diff, keeping the previous order and appending new items
+ */
+export function applyDiffById<T extends { id: string }>(previous: T[], diff: KeyedDiff<T>): T[] {
+  const removed = new Set(diff.removed);
+  const updates = new Map(diff.updated.map((item) => [item.id, item]));
+
+  const items = previous
+    .filter((item) => !removed.has(item.id))
+    .map((item) => {
+      const update = updates.get(item.id);
+      updates.delete(item.id);
+      return update || item;
+    });
+
+  return [...items, ...Array.from(updates.values())];
+}
@@ -1,8 +1,12 @@
 /**
  * Mars Sol Calculation Utilities
- * Handles conversion between Earth dates and Mars sols for rover missions
+ * Handles conversion between Earth dates and Mars sols for rover missions. Sols are
+ * counted on the Mars Sol Date (Mars24 algorithm, evaluated in TT) at each rover's
+ * longitude, so sol boundaries fall at local mean solar midnight.
  */
 
+import { fromJulianDate, toJulianDate } from '@/lib/utils/time-scales';
+
 export interface SolData {
   rover: string;
   currentSol: number;
@@ -66,11 +70,32 @@ export const ROVER_DATA: Record<string, RoverLandingData> = {
 };
 
 // Mars constants
-const MARS_SOL_DURATION_MS = 88775244; // 24h 39m 35.244s in milliseconds
+const MARS_SOL_EARTH_DAYS = 1.0274912517; // 24h 39m 35.244s
 const EARTH_DAY_MS = 86400000; // 24 hours in milliseconds
 const MARS_YEAR_SOLS = 668.6; // Mars year in sols
 const MARS_YEAR_EARTH_DAYS = 687; // Mars year in Earth days
 
+/**
+ * Mars Sol Date: sols elapsed at the prime meridian since 1873-12-29 (Mars24)
+ */
+export function marsSolDate(date: Date): number {
+  return (toJulianDate(date, 'TT') - 2451549.5) / MARS_SOL_EARTH_DAYS + 44796.0 - 0.0009626;
+}
+
+/**
+ * UTC instant of a Mars Sol Date
+ */
+export function fromMarsSolDate(msd: number): Date {
+  return fromJulianDate((msd - 44796.0 + 0.0009626) * MARS_SOL_EARTH_DAYS + 2451549.5, 'TT');
+}
+
+/**
+ * Mars Sol Date shifted to local mean solar time at the rover's (east) longitude
+ */
+function localSolDate(rover: RoverLandingData, date: Date): number {
+  return marsSolDate(date) + rover.landingCoordinates.longitude / 360;
+}
+
 /**
  * Calculate the current sol for a Mars rover
  */
@@ -87,18 +112,18 @@ export function calculateSol(
   const timeSinceLanding = currentDate.getTime() - rover.landingDate.getTime();
   
   // Calculate sol number (sol 0 is landing day)
-  const currentSol = Math.floor(timeSinceLanding / MARS_SOL_DURATION_MS);
+  const localSol = localSolDate(rover, currentDate);
+  const currentSol = Math.floor(localSol) - Math.floor(localSolDate(rover, rover.landingDate));
   
   // Calculate mission duration in Earth days
   const missionDurationEarthDays = Math.floor(timeSinceLanding / EARTH_DAY_MS);
   
   // Calculate sol progress (percentage of current sol completed)
-  const solStartTime = rover.landingDate.getTime() + (currentSol * MARS_SOL_DURATION_MS);
-  const timeSinceSolStart = currentDate.getTime() - solStartTime;
-  const solProgress = Math.min(100, Math.max(0, (timeSinceSolStart / MARS_SOL_DURATION_MS) * 100));
+  const solFraction = localSol - Math.floor(localSol);
+  const solProgress = solFraction * 100;
   
-  // Calculate Mars Local Solar Time (approximate)
-  const marsHours = (timeSinceSolStart / MARS_SOL_DURATION_MS) * 24;
+  // Calculate Local Mean Solar Time at the landing site
+  const marsHours = solFraction * 24;
   const marsLocalHours = Math.floor(marsHours);
   const marsLocalMinutes = Math.floor((marsHours - marsLocalHours) * 60);
   const marsLocalSolarTime = `${String(marsLocalHours).padStart(2, '0')}:${String(marsLocalMinutes).padStart(2, '0')}`;
@@ -145,12 +170,14 @@ export function earthDateToSol(
     throw new Error(`Unknown rover: ${roverName}`);
   }
   
-  const timeSinceLanding = earthDate.getTime() - rover.landingDate.getTime();
-  return Math.floor(timeSinceLanding / MARS_SOL_DURATION_MS);
+  return (
+    Math.floor(localSolDate(rover, earthDate)) -
+    Math.floor(localSolDate(rover, rover.landingDate))
+  );
 }
 
 /**
- * Convert sol to approximate Earth date for a specific rover
+ * Convert sol to the Earth date at which it begins (local midnight) for a specific rover
  */
 export function solToEarthDate(
   roverName: keyof typeof ROVER_DATA,
@@ -161,8 +188,11 @@ export function solToEarthDate(
     throw new Error(`Unknown rover: ${roverName}`);
   }
   
-  const millisecondsSinceLanding = sol * MARS_SOL_DURATION_MS;
-  return new Date(rover.landingDate.getTime() + millisecondsSinceLanding);
+  const solStart = Math.floor(localSolDate(rover, rover.landingDate)) + sol;
+  let time = fromMarsSolDate(solStart - rover.landingCoordinates.longitude / 360).getTime();
+  // Dates hold whole milliseconds; take the first one inside the sol
+  while (Math.floor(localSolDate(rover, new Date(time))) < solStart) time++;
+  return new Date(time);
 }
 
 /**
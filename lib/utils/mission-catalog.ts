@@ -0,0 +1,377 @@
+/**
+ * Mission Catalog
+ * Every mission and tracked spacecraft is defined once in lib/data/missions.json:
+ * identifiers, launch, target, phase and milestones, plus optional blocks for the
+ * static position fallback, offline orbital elements, the dashboard tracker card and
+ * the /missions pages.
+ * Pages, routes and validators read from here, so adding a mission is a data change.
+ * Definitions are validated when this module loads; a bad entry fails loudly.
+ */
+
+import catalogData from '@/lib/data/missions.json';
+import type { KeplerianElements } from '@/lib/utils/kepler';
+import type { PlanetId } from '@/lib/utils/planetary-ephemeris';
+
+export type MissionPhase = 'en-route' | 'active' | 'extended' | 'ended';
+
+export interface MissionMilestone {
+  /** ISO date; a bare year or year-month for estimates */
+  date: string;
+  event: string;
+  description?: string;
+  /** Distance from the Sun at the time (AU) */
+  distanceAu?: number;
+  /** The date is a forecast rather than a record */
+  estimated?: boolean;
+}
+
+/** Body whose close approaches the orbit event detector looks for */
+export interface MissionEventBody {
+  /** Horizons COMMAND: a NAIF ID ('299'), or a small-body number with ';' ('3548;') */
+  id: string;
+  name: string;
+  /** Report closest approaches within this distance only (km; default: all) */
+  maxDistanceKm?: number;
+}
+
+/** Snapshot used when neither Horizons nor offline propagation is available */
+export interface MissionPositionSnapshot {
+  distanceKm: number;
+  distanceAu: number;
+  velocityKms: number;
+  /** Heliocentric ecliptic latitude/longitude (degrees) */
+  lat: number;
+  lon: number;
+  lightTimeMinutes: number;
+}
+
+/** Landing site of a surface asset, which moves with the planet it sits on */
+export interface MissionSurfaceSite {
+  body: PlanetId;
+  /** Planetocentric latitude and east longitude of the site (degrees) */
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Heliocentric ecliptic (J2000) elements propagated when Horizons is unreachable and
+ * no cached table exists; angles in degrees, q in AU, tp as a TDB Julian date
+ */
+export interface MissionOrbitalElements extends KeplerianElements {
+  /** Where the elements come from and the arc they hold for */
+  note?: string;
+}
+
+/** Dashboard card shown by MissionTracker */
+export interface MissionTrackerInfo {
+  section: 'deep-space' | 'mars-orbiters' | 'en-route';
+  type: 'probe' | 'orbiter' | 'lander' | 'flyby' | 'telescope' | 'rover';
+  location: string;
+  primaryObjective: string;
+  /** Distance from Earth (AU) as of the last data update */
+  distanceAu?: number;
+  speedKms?: number;
+  keyMetric: { label: string; value: string | number; unit?: string };
+  achievements?: string[];
+}
+
+/** Card on /missions and the /missions/[id] detail page */
+export interface MissionPageInfo {
+  category: string;
+  /** One-line description for the mission list */
+  summary: string;
+  icon: 'rover' | 'probe' | 'solar' | 'satellite';
+  /** Tailwind gradient classes for the list icon */
+  color: string;
+  description: string;
+  location: string;
+  landingDate?: string;
+  endDate?: string;
+  endReason?: string;
+  distance?: string;
+  objectives: string[];
+  instruments: string[];
+  achievements?: string[];
+  /** Final weather report of a landed mission */
+  lastData?: {
+    sol: string;
+    date: string;
+    temperature: { min: number; max: number; avg: number };
+    pressure: { min: number; max: number; avg: number };
+    windSpeed: { min: number; max: number; avg: number };
+    season: string;
+  };
+  /** Photo gallery component for the detail page */
+  gallery?: 'rover' | 'insight' | 'jwst';
+  /** Science telemetry feeds exist for this mission */
+  telemetry?: boolean;
+  /** False for missions with no live data at all (default: true) */
+  liveData?: boolean;
+}
+
+export interface MissionDefinition {
+  /** Canonical ID (kebab-case); used in URLs and API parameters */
+  id: string;
+  name: string;
+  /** NAIF ID used by JPL Horizons (e.g. '-31') */
+  naifId?: string;
+  /** Codes seen in the DSN feed; the first is the primary code */
+  dsnCodes: string[];
+  /** DSN numeric spacecraft ID (the feed reports it negated in spacecraftID) */
+  dsnId?: number;
+  /** ISO 8601 launch date (UTC) */
+  launchDate: string;
+  target: string;
+  phase: MissionPhase;
+  /** Live positions from the Horizons ephemeris cache */
+  horizons?: boolean;
+  /** Included in /api/spacecraft and the live stream */
+  featured?: boolean;
+  milestones: MissionMilestone[];
+  /** Bodies besides the Sun to detect close approaches to (Horizons missions only) */
+  eventBodies?: MissionEventBody[];
+  position?: MissionPositionSnapshot;
+  /** Landed assets: positioned by their host planet's ephemeris instead of a snapshot */
+  surface?: MissionSurfaceSite;
+  elements?: MissionOrbitalElements;
+  tracker?: MissionTrackerInfo;
+  page?: MissionPageInfo;
+}
+
+export const MISSION_PHASES: MissionPhase[] = ['en-route', 'active', 'extended', 'ended'];
+
+export const PHASE_LABELS: Record<MissionPhase, string> = {
+  'en-route': 'En Route',
+  active: 'Active',
+  extended: 'Extended',
+  ended: 'Ended',
+};
+
+// Same shape validateSpacecraftId accepts
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const NAIF_PATTERN = /^-?\d+$/;
+const HORIZONS_COMMAND_PATTERN = /^-?\d+;?$/;
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2}(T[\d:.]+Z)?)?)?$/;
+const TRACKER_SECTIONS = ['deep-space', 'mars-orbiters', 'en-route'];
+const TRACKER_TYPES = ['probe', 'orbiter', 'lander', 'flyby', 'telescope', 'rover'];
+const PAGE_ICONS = ['rover', 'probe', 'solar', 'satellite'];
+const PAGE_GALLERIES = ['rover', 'insight', 'jwst'];
+const SURFACE_BODIES: PlanetId[] = ['mercury', 'venus', 'mars'];
+
+type Check = (condition: unknown, problem: string) => void;
+
+const isString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+const isDate = (value: unknown): value is string =>
+  isString(value) && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+function checkMilestone(milestone: MissionMilestone, check: Check) {
+  check(isDate(milestone?.date), `milestone date "${milestone?.date}" is not an ISO date`);
+  check(isString(milestone?.event), 'milestone is missing "event"');
+  if (milestone?.distanceAu !== undefined) {
+    check(isNumber(milestone.distanceAu), `milestone "${milestone.event}" has a bad distanceAu`);
+  }
+}
+
+function checkEventBody(body: MissionEventBody, check: Check) {
+  check(
+    isString(body?.id) && HORIZONS_COMMAND_PATTERN.test(body.id),
+    `event body "${body?.id}" must be a NAIF ID or a small-body number ending in ';'`
+  );
+  check(isString(body?.name), `event body "${body?.id}" is missing "name"`);
+  if (body?.maxDistanceKm !== undefined) {
+    check(
+      isNumber(body.maxDistanceKm) && body.maxDistanceKm > 0,
+      `event body "${body.name}" has a bad maxDistanceKm`
+    );
+  }
+}
+
+function checkPosition(position: MissionPositionSnapshot, check: Check) {
+  for (const field of [
+    'distanceKm',
+    'distanceAu',
+    'velocityKms',
+    'lat',
+    'lon',
+    'lightTimeMinutes',
+  ]) {
+    check(
+      isNumber(position[field as keyof MissionPositionSnapshot]),
+      `position.${field} must be a number`
+    );
+  }
+}
+
+function checkSurface(surface: MissionSurfaceSite, check: Check) {
+  check(SURFACE_BODIES.includes(surface.body), `surface.body "${surface.body}" is unknown`);
+  check(
+    isNumber(surface.lat) && Math.abs(surface.lat) <= 90,
+    'surface.lat must be between -90 and 90 degrees'
+  );
+  check(isNumber(surface.lon), 'surface.lon must be a number');
+}
+
+function checkElements(elements: MissionOrbitalElements, check: Check) {
+  for (const field of ['q', 'e', 'i', 'Omega', 'omega', 'tp'] as const) {
+    check(isNumber(elements[field]), `elements.${field} must be a number`);
+  }
+  check(elements.q > 0, 'elements.q must be positive');
+  check(elements.e >= 0, 'elements.e must not be negative');
+  check(elements.i >= 0 && elements.i <= 180, 'elements.i must be between 0 and 180 degrees');
+}
+
+function checkTracker(tracker: MissionTrackerInfo, check: Check) {
+  check(
+    TRACKER_SECTIONS.includes(tracker.section),
+    `tracker.section "${tracker.section}" is unknown`
+  );
+  check(TRACKER_TYPES.includes(tracker.type), `tracker.type "${tracker.type}" is unknown`);
+  check(isString(tracker.location), 'tracker is missing "location"');
+  check(isString(tracker.primaryObjective), 'tracker is missing "primaryObjective"');
+  check(
+    isString(tracker.keyMetric?.label) && tracker.keyMetric.value !== undefined,
+    'tracker.keyMetric needs a label and a value'
+  );
+}
+
+function checkPage(page: MissionPageInfo, check: Check) {
+  for (const field of ['category', 'summary', 'color', 'description', 'location'] as const) {
+    check(isString(page[field]), `page is missing "${field}"`);
+  }
+  check(PAGE_ICONS.includes(page.icon), `page.icon "${page.icon}" is unknown`);
+  check(isStringList(page.objectives), 'page.objectives must be a list of strings');
+  check(isStringList(page.instruments), 'page.instruments must be a list of strings');
+  if (page.landingDate !== undefined)
+    check(isDate(page.landingDate), 'page.landingDate is not an ISO date');
+  if (page.endDate !== undefined) check(isDate(page.endDate), 'page.endDate is not an ISO date');
+  if (page.gallery !== undefined) {
+    check(PAGE_GALLERIES.includes(page.gallery), `page.gallery "${page.gallery}" is unknown`);
+  }
+}
+
+/**
+ * Validate raw catalog entries; throws with every problem found
+ */
+export function validateMissionCatalog(entries: unknown): MissionDefinition[] {
+  if (!Array.isArray(entries)) {
+    throw new Error('Invalid mission catalog: expected an array of missions');
+  }
+
+  const problems: string[] = [];
+  const seen = { ids: new Set<string>(), codes: new Set<string>(), naif: new Set<string>() };
+
+  entries.forEach((entry: MissionDefinition, index) => {
+    const label = isString(entry?.id) ? entry.id : `entry ${index}`;
+    const check: Check = (condition, problem) => {
+      if (!condition) problems.push(`${label}: ${problem}`);
+    };
+
+    check(isString(entry?.id) && ID_PATTERN.test(entry.id), 'id must be lowercase kebab-case');
+    check(!seen.ids.has(entry?.id), 'duplicate id');
+    seen.ids.add(entry?.id);
+
+    check(isString(entry?.name), 'missing "name"');
+    check(isDate(entry?.launchDate), 'launchDate is not an ISO date');
+    check(isString(entry?.target), 'missing "target"');
+    check(MISSION_PHASES.includes(entry?.phase), `phase "${entry?.phase}" is unknown`);
+
+    check(isStringList(entry?.dsnCodes), 'dsnCodes must be a list of strings');
+    for (const code of isStringList(entry?.dsnCodes) ? entry.dsnCodes : []) {
+      check(!seen.codes.has(code.toUpperCase()), `DSN code ${code} is already used`);
+      seen.codes.add(code.toUpperCase());
+    }
+    if (entry?.dsnId !== undefined)
+      check(Number.isInteger(entry.dsnId), 'dsnId must be an integer');
+
+    if (entry?.naifId !== undefined) {
+      check(isString(entry.naifId) && NAIF_PATTERN.test(entry.naifId), 'naifId must be numeric');
+      check(!seen.naif.has(entry.naifId), `NAIF ID ${entry.naifId} is already used`);
+      seen.naif.add(entry.naifId);
+    }
+    check(!entry?.horizons || entry.naifId !== undefined, 'horizons tracking needs a naifId');
+
+    check(Array.isArray(entry?.milestones), 'milestones must be a list');
+    (Array.isArray(entry?.milestones) ? entry.milestones : []).forEach((m) =>
+      checkMilestone(m, check)
+    );
+
+    if (entry?.eventBodies !== undefined) {
+      check(Array.isArray(entry.eventBodies), 'eventBodies must be a list');
+      check(entry.horizons, 'eventBodies need horizons tracking');
+      (Array.isArray(entry.eventBodies) ? entry.eventBodies : []).forEach((body) =>
+        checkEventBody(body, check)
+      );
+    }
+
+    if (entry?.position) checkPosition(entry.position, check);
+    if (entry?.surface) {
+      checkSurface(entry.surface, check);
+      check(!entry.position, 'a landed asset takes its position from surface, not a snapshot');
+    }
+    if (entry?.elements) checkElements(entry.elements, check);
+    if (entry?.tracker) checkTracker(entry.tracker, check);
+    if (entry?.page) checkPage(entry.page, check);
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid mission catalog:\n  ${problems.join('\n  ')}`);
+  }
+
+  return entries as MissionDefinition[];
+}
+
+export const MISSION_CATALOG: MissionDefinition[] = validateMissionCatalog(catalogData);
+
+const byId = new Map(MISSION_CATALOG.map((mission) => [mission.id, mission]));
+
+export function findMissionById(id: string): MissionDefinition | undefined {
+  return byId.get(id);
+}
+
+/**
+ * Missions with a /missions page, in catalog order
+ */
+export function getMissionPages(): (MissionDefinition & { page: MissionPageInfo })[] {
+  return MISSION_CATALOG.filter(
+    (mission): mission is MissionDefinition & { page: MissionPageInfo } => !!mission.page
+  );
+}
+
+/**
+ * Missions with a dashboard tracker card, optionally for one section
+ */
+export function getTrackedMissions(
+  section?: MissionTrackerInfo['section']
+): (MissionDefinition & { tracker: MissionTrackerInfo })[] {
+  return MISSION_CATALOG.filter(
+    (mission): mission is MissionDefinition & { tracker: MissionTrackerInfo } =>
+      !!mission.tracker && (!section || mission.tracker.section === section)
+  );
+}
+
+/**
+ * IDs served by /api/spacecraft/[id]: a Horizons ephemeris, a position snapshot or a
+ * landing site
+ */
+export function getPositionTrackedIds(): string[] {
+  return MISSION_CATALOG.filter(
+    (mission) => mission.horizons || mission.position || mission.surface
+  ).map((mission) => mission.id);
+}
+
+/**
+ * Display form of a milestone date ("Mar 5, 1979", or "2025 (Est)" for forecasts)
+ */
+export function formatMilestoneDate(milestone: MissionMilestone): string {
+  if (milestone.estimated) return `${milestone.date} (Est)`;
+  return new Date(milestone.date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
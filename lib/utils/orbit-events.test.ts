@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { GM_SUN, propagate, type KeplerianElements } from '@/lib/utils/kepler';
+import { findDistanceExtrema, relativeStates, type StateSample } from '@/lib/utils/orbit-events';
+import { fromJulianDate } from '@/lib/utils/time-scales';
+
+const AU_KM = 149597870.7;
+const DAY_S = 86400;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const START_JD = 2460676.5; // 2025-01-01 TDB
+
+/**
+ * Daily heliocentric states (km, km/s) of a two-body orbit
+ */
+function sampleOrbit(elements: KeplerianElements, days: number, stepDays = 1): StateSample[] {
+  const samples: StateSample[] = [];
+  for (let d = 0; d <= days; d += stepDays) {
+    const jd = START_JD + d;
+    const { position, velocity } = propagate(elements, jd);
+    samples.push({
+      time: fromJulianDate(jd, 'TDB'),
+      x: position[0] * AU_KM,
+      y: position[1] * AU_KM,
+      z: position[2] * AU_KM,
+      vx: (velocity[0] * AU_KM) / DAY_S,
+      vy: (velocity[1] * AU_KM) / DAY_S,
+      vz: (velocity[2] * AU_KM) / DAY_S,
+    });
+  }
+  return samples;
+}
+
+// a = 1.5 AU, e = 0.4: perihelion 0.9 AU, aphelion 2.1 AU, period about 671 days
+const ELLIPSE: KeplerianElements = {
+  q: 0.9,
+  e: 0.4,
+  i: 12,
+  Omega: 80,
+  omega: 140,
+  tp: START_JD + 100.37,
+};
+const A = ELLIPSE.q / (1 - ELLIPSE.e);
+const PERIOD_DAYS = 2 * Math.PI * Math.sqrt(A ** 3 / GM_SUN);
+const APHELION_JD = ELLIPSE.tp + PERIOD_DAYS / 2;
+
+// Vis-viva speeds at the apsides (km/s)
+const apsisSpeed = (r: number) => (Math.sqrt(GM_SUN * (2 / r - 1 / A)) * AU_KM) / DAY_S;
+
+describe('findDistanceExtrema', () => {
+  const samples = sampleOrbit(ELLIPSE, 500);
+
+  it('finds perihelion and aphelion of a daily-sampled ellipse by interpolation', () => {
+    const extrema = findDistanceExtrema(samples);
+    expect(extrema.map((e) => e.kind)).toEqual(['minimum', 'maximum']);
+
+    const [perihelion, aphelion] = extrema;
+    expect(
+      Math.abs(perihelion.time.getTime() - fromJulianDate(ELLIPSE.tp, 'TDB').getTime())
+    ).toBeLessThan(MINUTE_MS);
+    expect(Math.abs(perihelion.distanceKm - ELLIPSE.q * AU_KM)).toBeLessThan(1);
+    expect(perihelion.speedKms).toBeCloseTo(apsisSpeed(ELLIPSE.q), 2);
+
+    expect(
+      Math.abs(aphelion.time.getTime() - fromJulianDate(APHELION_JD, 'TDB').getTime())
+    ).toBeLessThan(MINUTE_MS);
+    expect(Math.abs(aphelion.distanceKm - A * (1 + ELLIPSE.e) * AU_KM)).toBeLessThan(1);
+    expect(aphelion.speedKms).toBeCloseTo(apsisSpeed(A * (1 + ELLIPSE.e)), 2);
+  });
+
+  it('takes apsides from the osculating orbit given the central mass', () => {
+    const [perihelion, aphelion] = findDistanceExtrema(samples, GM_SUN);
+
+    expect(
+      Math.abs(perihelion.time.getTime() - fromJulianDate(ELLIPSE.tp, 'TDB').getTime())
+    ).toBeLessThan(1000);
+    expect(perihelion.distanceKm).toBeCloseTo(ELLIPSE.q * AU_KM, 0);
+    expect(perihelion.speedKms).toBeCloseTo(apsisSpeed(ELLIPSE.q), 6);
+
+    expect(
+      Math.abs(aphelion.time.getTime() - fromJulianDate(APHELION_JD, 'TDB').getTime())
+    ).toBeLessThan(1000);
+    expect(aphelion.distanceKm).toBeCloseTo(A * (1 + ELLIPSE.e) * AU_KM, 0);
+  });
+
+  it('dates a fast perihelion that a weekly step cannot follow', () => {
+    // q = 0.1 AU, e = 0.95: the radius halves and doubles again within a few days
+    const comet: KeplerianElements = { ...ELLIPSE, q: 0.1, e: 0.95, tp: START_JD + 30.6 };
+    const weekly = sampleOrbit(comet, 63, 7);
+    const tpMs = fromJulianDate(comet.tp, 'TDB').getTime();
+
+    // The spline alone misses by hours and millions of km
+    const [interpolated] = findDistanceExtrema(weekly);
+    expect(Math.abs(interpolated.time.getTime() - tpMs)).toBeGreaterThan(HOUR_MS);
+
+    const [perihelion] = findDistanceExtrema(weekly, GM_SUN);
+
+    expect(perihelion.kind).toBe('minimum');
+    expect(Math.abs(perihelion.time.getTime() - tpMs)).toBeLessThan(1000);
+    expect(perihelion.distanceKm).toBeCloseTo(comet.q * AU_KM, 0);
+  });
+
+  it('reports the periapsis of a hyperbolic pass and no apoapsis', () => {
+    const flyby: KeplerianElements = { ...ELLIPSE, q: 1.2, e: 1.8, tp: START_JD + 45.2 };
+    const extrema = findDistanceExtrema(sampleOrbit(flyby, 90), GM_SUN);
+
+    expect(extrema).toHaveLength(1);
+    expect(extrema[0].kind).toBe('minimum');
+    expect(
+      Math.abs(extrema[0].time.getTime() - fromJulianDate(flyby.tp, 'TDB').getTime())
+    ).toBeLessThan(1000);
+    expect(extrema[0].distanceKm).toBeCloseTo(flyby.q * AU_KM, 0);
+  });
+
+  it('keeps the interpolated extremum when the osculating apsis falls outside the step', () => {
+    // Unaccelerated pass 1 AU from the origin at 1 km/s. Far below circular speed,
+    // the osculating orbit puts the closest point at aphelion and its perihelion half
+    // an orbit away, so the straight-line answer must win.
+    const closestMs = Date.UTC(2025, 0, 11, 7, 30);
+    const line: StateSample[] = Array.from({ length: 21 }, (_, d) => {
+      const time = new Date(Date.UTC(2025, 0, 1) + d * DAY_S * 1000);
+      const t = (time.getTime() - closestMs) / 1000;
+      return { time, x: t, y: AU_KM, z: 0, vx: 1, vy: 0, vz: 0 };
+    });
+
+    const extrema = findDistanceExtrema(line, GM_SUN);
+    expect(extrema).toHaveLength(1);
+    expect(Math.abs(extrema[0].time.getTime() - closestMs)).toBeLessThan(1000);
+    expect(extrema[0].distanceKm).toBeCloseTo(AU_KM, 3);
+    expect(extrema[0].speedKms).toBeCloseTo(1, 9);
+  });
+
+  it('leaves out a turn before the first sample', () => {
+    // Perihelion a few hours before the series starts; aphelion is inside it
+    const late = sampleOrbit({ ...ELLIPSE, tp: START_JD - 0.2 }, 400);
+    expect(findDistanceExtrema(late, GM_SUN).map((e) => e.kind)).toEqual(['maximum']);
+  });
+});
+
+describe('relativeStates', () => {
+  it('subtracts the body state at shared epochs only', () => {
+    const time = new Date('2025-01-01T00:00:00Z');
+    const later = new Date('2025-01-02T00:00:00Z');
+    const target = [
+      { time, x: 10, y: 20, z: 30, vx: 1, vy: 2, vz: 3 },
+      { time: later, x: 11, y: 21, z: 31, vx: 1, vy: 2, vz: 3 },
+    ];
+    const body = [{ time, x: 1, y: 2, z: 3, vx: 0.5, vy: 0.5, vz: 0.5 }];
+
+    expect(relativeStates(target, body)).toEqual([
+      { time, x: 9, y: 18, z: 27, vx: 0.5, vy: 1.5, vz: 2.5 },
+    ]);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Orbit Event Detection
+ * Local minima and maxima of the distance between a spacecraft and a body, found in
+ * sampled state vectors. An extremum lies where the radial rate r·v changes sign;
+ * inside the bracketing step the relative position is interpolated with a cubic
+ * Hermite spline (it uses the velocities at both ends), so a daily table dates an
+ * event to well within the day. Around the Sun, where a perihelion can turn the path
+ * faster than a daily step can follow, apsides come from the osculating orbit instead.
+ */
+
+import { stateToElements } from '@/lib/utils/kepler';
+import type { MissionMilestone } from '@/lib/utils/mission-catalog';
+import { fromJulianDate, toJulianDate } from '@/lib/utils/time-scales';
+
+export type OrbitEventType = 'perihelion' | 'aphelion' | 'closest-approach';
+
+export interface StateSample {
+  time: Date;
+  /** Position (km) */
+  x: number;
+  y: number;
+  z: number;
+  /** Velocity (km/s) */
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+export type ExtremumKind = 'minimum' | 'maximum';
+
+export interface DistanceExtremum {
+  kind: ExtremumKind;
+  time: Date;
+  distanceKm: number;
+  /** Relative speed at the extremum (km/s) */
+  speedKms: number;
+}
+
+const BISECTION_ITERATIONS = 40;
+const AU_KM = 149597870.7;
+const DAY_S = 86400;
+const DAY_MS = DAY_S * 1000;
+
+/**
+ * State of `target` relative to `body` at the epochs both tables share
+ */
+export function relativeStates(target: StateSample[], body: StateSample[]): StateSample[] {
+  const bodyByTime = new Map(body.map((sample) => [sample.time.getTime(), sample]));
+
+  return target
+    .filter((sample) => bodyByTime.has(sample.time.getTime()))
+    .map((sample) => {
+      const other = bodyByTime.get(sample.time.getTime())!;
+      return {
+        time: sample.time,
+        x: sample.x - other.x,
+        y: sample.y - other.y,
+        z: sample.z - other.z,
+        vx: sample.vx - other.vx,
+        vy: sample.vy - other.vy,
+        vz: sample.vz - other.vz,
+      };
+    });
+}
+
+/**
+ * Radial rate r·v: negative while closing, positive while receding
+ */
+function radialRate(state: StateSample): number {
+  return state.x * state.vx + state.y * state.vy + state.z * state.vz;
+}
+
+/**
+ * State at fraction `s` (0-1) of the step from `a` to `b`
+ */
+function interpolate(a: StateSample, b: StateSample, s: number): StateSample {
+  const t0 = a.time.getTime();
+  const dt = (b.time.getTime() - t0) / 1000; // Velocities are per second
+
+  const s2 = s * s;
+  const s3 = s2 * s;
+  const h00 = 2 * s3 - 3 * s2 + 1;
+  const h10 = s3 - 2 * s2 + s;
+  const h01 = -2 * s3 + 3 * s2;
+  const h11 = s3 - s2;
+  const d00 = 6 * s2 - 6 * s;
+  const d10 = 3 * s2 - 4 * s + 1;
+  const d01 = -6 * s2 + 6 * s;
+  const d11 = 3 * s2 - 2 * s;
+
+  const position = (p0: number, v0: number, p1: number, v1: number) =>
+    h00 * p0 + h10 * dt * v0 + h01 * p1 + h11 * dt * v1;
+  const velocity = (p0: number, v0: number, p1: number, v1: number) =>
+    (d00 * p0 + d01 * p1) / dt + d10 * v0 + d11 * v1;
+
+  return {
+    time: new Date(t0 + s * dt * 1000),
+    x: position(a.x, a.vx, b.x, b.vx),
+    y: position(a.y, a.vy, b.y, b.vy),
+    z: position(a.z, a.vz, b.z, b.vz),
+    vx: velocity(a.x, a.vx, b.x, b.vx),
+    vy: velocity(a.y, a.vy, b.y, b.vy),
+    vz: velocity(a.z, a.vz, b.z, b.vz),
+  };
+}
+
+/**
+ * Periapsis or apoapsis of the two-body orbit osculating at `state`, nearest its epoch
+ * (null for an apoapsis of an open orbit)
+ */
+function osculatingApsis(
+  state: StateSample,
+  kind: ExtremumKind,
+  mu: number
+): DistanceExtremum | null {
+  const jd = toJulianDate(state.time, 'TDB');
+  const { q, e, tp } = stateToElements(
+    {
+      position: [state.x / AU_KM, state.y / AU_KM, state.z / AU_KM],
+      velocity: [
+        (state.vx * DAY_S) / AU_KM,
+        (state.vy * DAY_S) / AU_KM,
+        (state.vz * DAY_S) / AU_KM,
+      ],
+    },
+    jd,
+    mu
+  );
+
+  let apsisJd = tp;
+  let distance = q;
+  if (kind === 'maximum') {
+    if (e >= 1) return null;
+    const a = q / (1 - e);
+    const halfPeriod = Math.PI * Math.sqrt((a * a * a) / mu);
+    apsisJd =
+      Math.abs(tp + halfPeriod - jd) < Math.abs(tp - halfPeriod - jd)
+        ? tp + halfPeriod
+        : tp - halfPeriod;
+    distance = a * (1 + e);
+  }
+  // Vis-viva with the semi-latus rectum: v = h / r at an apsis
+  const speed = Math.sqrt(mu * q * (1 + e)) / distance;
+
+  return {
+    kind,
+    time: fromJulianDate(apsisJd, 'TDB'),
+    distanceKm: distance * AU_KM,
+    speedKms: (speed * AU_KM) / DAY_S,
+  };
+}
+
+/**
+ * Distance minima and maxima in a time-ordered series of relative states. Extrema at
+ * the very ends of the series are not reported, since the turn can't be seen. Given
+ * the central body's gravitational parameter (AU³/day², e.g. GM_SUN) apsides come
+ * from the osculating orbit at the nearer sample.
+ */
+export function findDistanceExtrema(samples: StateSample[], mu?: number): DistanceExtremum[] {
+  const extrema: DistanceExtremum[] = [];
+
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1];
+    const b = samples[i];
+    const rateA = radialRate(a);
+    const rateB = radialRate(b);
+
+    let kind: ExtremumKind;
+    if (rateA < 0 && rateB >= 0) kind = 'minimum';
+    else if (rateA > 0 && rateB <= 0) kind = 'maximum';
+    else continue;
+
+    // Bisect on the interpolated radial rate, which keeps its end signs
+    let low = 0;
+    let high = 1;
+    for (let n = 0; n < BISECTION_ITERATIONS; n++) {
+      const mid = (low + high) / 2;
+      const rate = radialRate(interpolate(a, b, mid));
+      if (kind === 'minimum' ? rate < 0 : rate > 0) low = mid;
+      else high = mid;
+    }
+
+    const state = interpolate(a, b, (low + high) / 2);
+    const apsis = mu ? osculatingApsis(low < 0.5 ? a : b, kind, mu) : null;
+    const step = b.time.getTime() - a.time.getTime();
+
+    // Keep the interpolated extremum if the osculating one lands outside the bracket
+    extrema.push(
+      apsis &&
+        apsis.time.getTime() > a.time.getTime() - step &&
+        apsis.time.getTime() < b.time.getTime() + step
+        ? apsis
+        : {
+            kind,
+            time: state.time,
+            distanceKm: Math.hypot(state.x, state.y, state.z),
+            speedKms: Math.hypot(state.vx, state.vy, state.vz),
+          }
+    );
+  }
+
+  return extrema;
+}
+
+/** Timeline entry for a detected event */
+export type DetectedMilestone = MissionMilestone & { detected?: boolean };
+
+/**
+ * Timeline title for a detected event ('Perihelion', 'Venus closest approach')
+ */
+export function orbitEventTitle(event: { type: OrbitEventType; bodyName: string }): string {
+  if (event.type === 'perihelion') return 'Perihelion';
+  if (event.type === 'aphelion') return 'Aphelion';
+  return `${event.bodyName} closest approach`;
+}
+
+/**
+ * Catalog milestones plus detected events, in date order. An event within a day of
+ * a catalog milestone is taken to be the same one and left out.
+ */
+export function mergeOrbitEvents(
+  milestones: MissionMilestone[],
+  events: {
+    type: OrbitEventType;
+    time: string;
+    bodyName: string;
+    distanceKm: number;
+    relativeSpeedKms: number;
+    heliocentricDistanceKm: number;
+  }[]
+): DetectedMilestone[] {
+  const recorded = milestones.map((milestone) => Date.parse(milestone.date));
+
+  const detected = events
+    .filter((event) => {
+      const time = Date.parse(event.time);
+      return !recorded.some((date) => Math.abs(date - time) < DAY_MS);
+    })
+    .map((event) => {
+      const distance =
+        event.type === 'closest-approach'
+          ? `${Math.round(event.distanceKm).toLocaleString()} km from ${event.bodyName}`
+          : `${(event.distanceKm / AU_KM).toFixed(3)} AU from the Sun`;
+      return {
+        date: event.time,
+        event: orbitEventTitle(event),
+        description: `${distance} at ${event.relativeSpeedKms.toFixed(1)} km/s`,
+        distanceAu: Number((event.heliocentricDistanceKm / AU_KM).toFixed(2)),
+        detected: true,
+      };
+    });
+
+  return [...milestones, ...detected].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+}
@@ -0,0 +1,77 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { Vec3 } from '@/lib/utils/kepler';
+import {
+  EPHEMERIS_ACCURACY,
+  geocentricState,
+  heliocentricDistance,
+  heliocentricState,
+  type EphemerisBody,
+} from '@/lib/utils/planetary-ephemeris';
+
+interface ReferencePositions {
+  bodies: Record<EphemerisBody, Array<{ time: string; position: Vec3 }>>;
+}
+
+const reference: ReferencePositions = JSON.parse(
+  readFileSync(path.join(__dirname, '../../fixtures/ephemeris/reference-positions.json'), 'utf8')
+);
+
+const AU_KM = 149597870.7;
+const ARCSEC = Math.PI / (180 * 3600);
+
+function spherical([x, y, z]: Vec3) {
+  return {
+    longitude: Math.atan2(y, x),
+    latitude: Math.atan2(z, Math.hypot(x, y)),
+    r: Math.hypot(x, y, z),
+  };
+}
+
+describe('planetary ephemeris accuracy', () => {
+  const bodies = Object.keys(EPHEMERIS_ACCURACY) as EphemerisBody[];
+
+  it('has reference positions for every body', () => {
+    expect(Object.keys(reference.bodies).sort()).toEqual([...bodies].sort());
+  });
+
+  describe.each(bodies)('%s', (body) => {
+    const bound = EPHEMERIS_ACCURACY[body];
+    // The Moon's bounds are geocentric
+    const state = body === 'moon' ? geocentricState : heliocentricState;
+
+    it.each(reference.bodies[body].map((row) => [row.time, row.position] as const))(
+      'stays within bounds at %s',
+      (time, position) => {
+        const computed = spherical(state(body, new Date(time)).position);
+        const expected = spherical(position);
+        const dLongitude = Math.atan2(
+          Math.sin(computed.longitude - expected.longitude),
+          Math.cos(computed.longitude - expected.longitude)
+        );
+
+        expect(Math.abs(dLongitude) / ARCSEC).toBeLessThanOrEqual(bound.longitudeArcsec);
+        expect(Math.abs(computed.latitude - expected.latitude) / ARCSEC).toBeLessThanOrEqual(
+          bound.latitudeArcsec
+        );
+        expect(Math.abs(computed.r - expected.r) * AU_KM).toBeLessThanOrEqual(bound.distanceKm);
+      }
+    );
+  });
+});
+
+describe('heliocentric states', () => {
+  it('places the Moon at Earth plus its geocentric position', () => {
+    const date = new Date('2025-10-20T00:00:00Z');
+    const earth = heliocentricState('earth', date).position;
+    const moon = heliocentricState('moon', date).position;
+    const geocentricMoon = geocentricState('moon', date).position;
+
+    [0, 1, 2].forEach((k) => expect(moon[k] - earth[k]).toBeCloseTo(geocentricMoon[k], 12));
+  });
+
+  it('reports distance from the Sun', () => {
+    expect(heliocentricDistance('earth', new Date('2026-01-03T00:00:00Z'))).toBeCloseTo(0.9833, 3);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Planetary Ephemeris
+ * Offline heliocentric positions of the planets and the Moon, for features that need
+ * a body in the right place without a Horizons round trip. Planets follow VSOP87B
+ * (Bretagnon & Francou), truncated to the terms that matter over 1800-2050; the Moon
+ * follows a truncated lunar theory (Montenbruck & Pfleger's longitude and latitude
+ * terms with Meeus' main longitude and distance terms). States are ecliptic J2000 in
+ * AU and AU/day.
+ *
+ * Worst-case errors over 1800-2050 are in EPHEMERIS_ACCURACY. Outside that span the
+ * dropped terms grow with time. Anything needing better than this (radiometrics,
+ * conjunction timing) should use Horizons tables instead.
+ */
+
+import type { OrbitalState, Vec3 } from '@/lib/utils/kepler';
+import vsop87b from '@/lib/data/vsop87b-truncated.json';
+import { J2000, toJulianDate } from '@/lib/utils/time-scales';
+
+export type PlanetId =
+  | 'mercury'
+  | 'venus'
+  | 'earth'
+  | 'mars'
+  | 'jupiter'
+  | 'saturn'
+  | 'uranus'
+  | 'neptune';
+
+export type EphemerisBody = PlanetId | 'moon';
+
+/**
+ * Error bounds in heliocentric ecliptic coordinates (geocentric for the Moon)
+ */
+export interface EphemerisAccuracy {
+  /** Heliocentric ecliptic longitude (arcseconds) */
+  longitudeArcsec: number;
+  /** Heliocentric ecliptic latitude (arcseconds) */
+  latitudeArcsec: number;
+  /** Heliocentric distance (km) */
+  distanceKm: number;
+}
+
+/**
+ * Maximum errors over 1800-2050. The planetary series keep every term whose omission
+ * could cost more than a quarter of these; the Moon's are geocentric, for the
+ * truncated series. Reference positions are in fixtures/ephemeris/.
+ */
+export const EPHEMERIS_ACCURACY: Record<EphemerisBody, EphemerisAccuracy> = {
+  mercury: { longitudeArcsec: 15, latitudeArcsec: 1, distanceKm: 1000 },
+  venus: { longitudeArcsec: 20, latitudeArcsec: 1, distanceKm: 4000 },
+  earth: { longitudeArcsec: 20, latitudeArcsec: 8, distanceKm: 6000 },
+  mars: { longitudeArcsec: 40, latitudeArcsec: 2, distanceKm: 25000 },
+  jupiter: { longitudeArcsec: 400, latitudeArcsec: 10, distanceKm: 600000 },
+  saturn: { longitudeArcsec: 600, latitudeArcsec: 25, distanceKm: 1500000 },
+  uranus: { longitudeArcsec: 50, latitudeArcsec: 2, distanceKm: 1000000 },
+  neptune: { longitudeArcsec: 10, latitudeArcsec: 1, distanceKm: 200000 },
+  moon: { longitudeArcsec: 300, latitudeArcsec: 120, distanceKm: 500 },
+};
+
+/**
+ * VSOP87 series for one coordinate: for each power of τ (Julian millennia from
+ * J2000), terms [A, B, C] contributing A·cos(B + C·τ)
+ */
+type VsopSeries = number[][][];
+
+/** Heliocentric ecliptic longitude and latitude (radians) and distance (AU) */
+const VSOP87B: Record<PlanetId, Record<'L' | 'B' | 'R', VsopSeries>> = vsop87b;
+
+const DEG = Math.PI / 180;
+const ARCSEC = DEG / 3600;
+const AU_KM = 149597870.7;
+
+// General precession in longitude (degrees per Julian century), of-date to J2000
+const PRECESSION_PER_CENTURY = 1.3969713;
+
+// Half-width of the central difference for velocities (days)
+const VELOCITY_STEP = 1 / 24;
+
+function julianCenturies(jd: number): number {
+  return (jd - J2000) / 36525;
+}
+
+function frac(x: number): number {
+  return x - Math.floor(x);
+}
+
+function evaluateSeries(series: VsopSeries, tau: number): number {
+  let value = 0;
+  for (let power = series.length - 1; power >= 0; power--) {
+    let sum = 0;
+    for (const [A, B, C] of series[power]) sum += A * Math.cos(B + C * tau);
+    value = value * tau + sum;
+  }
+  return value;
+}
+
+/**
+ * Heliocentric planet position (ecliptic J2000, AU) at a Julian Date (TDB)
+ */
+function planetPosition(body: PlanetId, jd: number): Vec3 {
+  const tau = (jd - J2000) / 365250;
+  const { L, B, R } = VSOP87B[body];
+  const longitude = evaluateSeries(L, tau);
+  const latitude = evaluateSeries(B, tau);
+  const r = evaluateSeries(R, tau);
+
+  return [
+    r * Math.cos(latitude) * Math.cos(longitude),
+    r * Math.cos(latitude) * Math.sin(longitude),
+    r * Math.sin(latitude),
+  ];
+}
+
+/**
+ * Geocentric Moon position (ecliptic J2000, AU) at a Julian Date (TDB)
+ */
+function moonPosition(jd: number): Vec3 {
+  const T = julianCenturies(jd);
+
+  // Mean longitude (revolutions) and fundamental arguments (radians)
+  const L0 = frac(0.606433 + 1336.855225 * T);
+  const l = 2 * Math.PI * frac(0.374897 + 1325.55241 * T); // Moon's mean anomaly
+  const ls = 2 * Math.PI * frac(0.993133 + 99.997361 * T); // Sun's mean anomaly
+  const D = 2 * Math.PI * frac(0.827361 + 1236.853086 * T); // Mean elongation
+  const F = 2 * Math.PI * frac(0.259086 + 1342.227825 * T); // Argument of latitude
+  const { sin, cos } = Math;
+
+  // Longitude perturbations (arcseconds)
+  const dL =
+    22640 * sin(l) -
+    4586 * sin(l - 2 * D) +
+    2370 * sin(2 * D) +
+    769 * sin(2 * l) -
+    668 * sin(ls) -
+    412 * sin(2 * F) -
+    212 * sin(2 * l - 2 * D) -
+    206 * sin(l + ls - 2 * D) +
+    192 * sin(l + 2 * D) -
+    165 * sin(ls - 2 * D) -
+    125 * sin(D) -
+    110 * sin(l + ls) +
+    148 * sin(l - ls) -
+    55 * sin(2 * F - 2 * D) -
+    45.1 * sin(l + 2 * F) +
+    39.5 * sin(l - 2 * F) +
+    38.4 * sin(4 * D - l) +
+    36.1 * sin(3 * l) +
+    30.8 * sin(4 * D - 2 * l) -
+    28.4 * sin(2 * D + ls - l) -
+    24.4 * sin(2 * D + ls) -
+    18.6 * sin(D - l) +
+    18 * sin(D + ls) +
+    14.5 * sin(2 * D - ls + l) +
+    14.4 * sin(2 * D + 2 * l) +
+    13.9 * sin(4 * D) +
+    13.2 * sin(2 * D - 3 * l) -
+    9.7 * sin(ls - 2 * l);
+
+  const S = F + (dL + 412 * sin(2 * F) + 541 * sin(ls)) * ARCSEC;
+  const h = F - 2 * D;
+  const N =
+    -526 * sin(h) +
+    44 * sin(l + h) -
+    31 * sin(-l + h) -
+    23 * sin(ls + h) +
+    11 * sin(-ls + h) -
+    25 * sin(-2 * l + F) +
+    21 * sin(-l + F);
+
+  const distanceKm =
+    385000.56 -
+    20905.355 * cos(l) -
+    3699.111 * cos(2 * D - l) -
+    2955.968 * cos(2 * D) -
+    569.925 * cos(2 * l) +
+    48.888 * cos(ls) -
+    3.149 * cos(2 * F) +
+    246.158 * cos(2 * D - 2 * l) -
+    152.138 * cos(2 * D - ls - l) -
+    170.733 * cos(2 * D + l) -
+    204.586 * cos(2 * D - ls) -
+    129.62 * cos(ls - l) +
+    108.743 * cos(D) +
+    104.755 * cos(ls + l);
+
+  // The series gives the ecliptic of date; take out precession since J2000
+  const longitude = 2 * Math.PI * frac(L0 + dL / 1296000) - PRECESSION_PER_CENTURY * T * DEG;
+  const latitude = (18520 * sin(S) + N) * ARCSEC;
+  const r = distanceKm / AU_KM;
+
+  return [
+    r * cos(latitude) * cos(longitude),
+    r * cos(latitude) * sin(longitude),
+    r * sin(latitude),
+  ];
+}
+
+/**
+ * State at a Julian Date (TDB) from a position function, with the velocity by
+ * central difference
+ */
+function differentiate(positionAt: (jd: number) => Vec3, jd: number): OrbitalState {
+  const before = positionAt(jd - VELOCITY_STEP);
+  const after = positionAt(jd + VELOCITY_STEP);
+
+  return {
+    position: positionAt(jd),
+    velocity: [0, 1, 2].map((k) => (after[k] - before[k]) / (2 * VELOCITY_STEP)) as Vec3,
+  };
+}
+
+function combine(a: OrbitalState, b: OrbitalState, scale: number): OrbitalState {
+  const add = (u: Vec3, v: Vec3) => [0, 1, 2].map((k) => u[k] + scale * v[k]) as Vec3;
+  return { position: add(a.position, b.position), velocity: add(a.velocity, b.velocity) };
+}
+
+/**
+ * Heliocentric state (ecliptic J2000, AU and AU/day) of a planet or the Moon at a
+ * UTC time
+ */
+export function heliocentricState(body: EphemerisBody, date: Date): OrbitalState {
+  const jd = toJulianDate(date, 'TDB');
+
+  if (body !== 'moon') {
+    return differentiate((t) => planetPosition(body, t), jd);
+  }
+
+  const earth = differentiate((t) => planetPosition('earth', t), jd);
+  return combine(earth, differentiate(moonPosition, jd), 1);
+}
+
+/**
+ * Geocentric state (ecliptic J2000, AU and AU/day) of a planet or the Moon at a
+ * UTC time
+ */
+export function geocentricState(body: EphemerisBody, date: Date): OrbitalState {
+  const earth = heliocentricState('earth', date);
+  return combine(heliocentricState(body, date), earth, -1);
+}
+
+/**
+ * Distance from the Sun (AU) at a UTC time
+ */
+export function heliocentricDistance(body: EphemerisBody, date: Date): number {
+  const [x, y, z] = heliocentricState(body, date).position;
+  return Math.hypot(x, y, z);
+}
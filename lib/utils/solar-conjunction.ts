@@ -0,0 +1,108 @@
+/**
+ * Solar Conjunction Utilities
+ * Sun-Earth-Probe (SEP) angles and the periods when they drop below a threshold.
+ * Near conjunction the downlink passes through the solar corona: scintillation
+ * degrades the signal from roughly 5° and contact is usually lost below 2°.
+ */
+
+export interface SEPSample {
+  time: Date;
+  /** Sun-Earth-Probe angle (degrees) */
+  angle: number;
+}
+
+export interface ConjunctionPeriod {
+  /** SEP threshold the period is below (degrees) */
+  threshold: number;
+  /** Drop below the threshold (null if already below at the start of the window) */
+  start: Date | null;
+  /** Rise back above the threshold (null if still below at the end of the window) */
+  end: Date | null;
+  minAngle: number;
+  minAngleTime: Date;
+}
+
+export const DEFAULT_CONJUNCTION_THRESHOLDS = [2, 5]; // degrees
+
+type Vector = { x: number; y: number; z: number };
+
+/**
+ * SEP angle (degrees) from a spacecraft's geocentric and heliocentric positions in the
+ * same frame. Their difference is the Sun as seen from Earth, so no Earth ephemeris is needed.
+ */
+export function sunEarthProbeAngle(geocentric: Vector, heliocentric: Vector): number {
+  const sun = {
+    x: geocentric.x - heliocentric.x,
+    y: geocentric.y - heliocentric.y,
+    z: geocentric.z - heliocentric.z,
+  };
+  const dot = geocentric.x * sun.x + geocentric.y * sun.y + geocentric.z * sun.z;
+  const norms =
+    Math.hypot(geocentric.x, geocentric.y, geocentric.z) * Math.hypot(sun.x, sun.y, sun.z);
+  if (norms === 0) return NaN;
+
+  return (Math.acos(Math.min(Math.max(dot / norms, -1), 1)) * 180) / Math.PI;
+}
+
+/**
+ * Periods with the SEP angle below each threshold, ordered by start time.
+ * Crossings are interpolated linearly between samples.
+ */
+export function findConjunctions(
+  samples: SEPSample[],
+  thresholds: number[] = DEFAULT_CONJUNCTION_THRESHOLDS
+): ConjunctionPeriod[] {
+  const periods: ConjunctionPeriod[] = [];
+  if (samples.length === 0) return periods;
+
+  for (const threshold of thresholds) {
+    let current: ConjunctionPeriod | null =
+      samples[0].angle < threshold
+        ? {
+            threshold,
+            start: null,
+            end: null,
+            minAngle: samples[0].angle,
+            minAngleTime: samples[0].time,
+          }
+        : null;
+
+    for (let i = 1; i < samples.length; i++) {
+      const previous = samples[i - 1];
+      const next = samples[i];
+
+      const crossingTime = () => {
+        const f = (threshold - previous.angle) / (next.angle - previous.angle);
+        const t0 = previous.time.getTime();
+        return new Date(t0 + f * (next.time.getTime() - t0));
+      };
+
+      if (!current && next.angle < threshold) {
+        current = {
+          threshold,
+          start: crossingTime(),
+          end: null,
+          minAngle: next.angle,
+          minAngleTime: next.time,
+        };
+      } else if (current && next.angle >= threshold) {
+        current.end = crossingTime();
+        periods.push(current);
+        current = null;
+      } else if (current && next.angle < current.minAngle) {
+        current.minAngle = next.angle;
+        current.minAngleTime = next.time;
+      }
+    }
+
+    if (current) {
+      periods.push(current);
+    }
+  }
+
+  return periods.sort(
+    (a, b) =>
+      (a.start?.getTime() ?? -Infinity) - (b.start?.getTime() ?? -Infinity) ||
+      b.threshold - a.threshold
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Solar System Scene Geometry
+ * Heliocentric tracks (ecliptic J2000, AU) and their mapping to scene units. The
+ * logarithmic mode compresses radius only, keeping directions, so Parker Solar Probe
+ * inside Mercury's orbit and Voyager 1 past 160 AU fit in one view.
+ */
+
+import { GM_SUN, propagate, stateToElements, type Vec3 } from '@/lib/utils/kepler';
+import { toJulianDate } from '@/lib/utils/time-scales';
+
+export type SceneBodyKind = 'planet' | 'spacecraft' | 'asteroid' | 'interstellar';
+export type DistanceScale = 'linear' | 'log';
+
+/** [UTC epoch ms, x, y, z (AU), vx, vy, vz (AU/day)] */
+export type TrackSample = [number, number, number, number, number, number, number];
+
+export interface SceneBody {
+  id: string;
+  name: string;
+  kind: SceneBodyKind;
+  /** CSS color of the marker and track */
+  color: string;
+  /** Time-ordered samples; empty when Horizons has no coverage in the window */
+  samples: TrackSample[];
+  error?: string;
+}
+
+export interface BodyState {
+  /** AU */
+  position: Vec3;
+  /** AU/day */
+  velocity: Vec3;
+}
+
+// Scene units per AU in linear mode, and per decade of (1 + r / LOG_REFERENCE_AU)
+const LINEAR_UNITS_PER_AU = 10;
+const LOG_UNITS_PER_DECADE = 12;
+const LOG_REFERENCE_AU = 0.05;
+
+/**
+ * Heliocentric state at `time` (epoch ms), interpolated linearly between samples
+ * (null outside the track)
+ */
+export function stateAt(samples: TrackSample[], time: number): BodyState | null {
+  if (samples.length === 0 || time < samples[0][0] || time > samples[samples.length - 1][0]) {
+    return null;
+  }
+
+  // Binary search for the last sample at or before `time`
+  let low = 0;
+  let high = samples.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (samples[mid][0] <= time) low = mid;
+    else high = mid;
+  }
+
+  const a = samples[low];
+  const b = samples[high];
+  const f = b[0] === a[0] ? 0 : (time - a[0]) / (b[0] - a[0]);
+  const lerp = (k: number) => a[k] + f * (b[k] - a[k]);
+
+  return {
+    position: [lerp(1), lerp(2), lerp(3)],
+    velocity: [lerp(4), lerp(5), lerp(6)],
+  };
+}
+
+/**
+ * Scene coordinates of an ecliptic position: the ecliptic is the XZ plane with
+ * ecliptic north up (+Y)
+ */
+export function toScene(position: Vec3, scale: DistanceScale): Vec3 {
+  const r = Math.hypot(position[0], position[1], position[2]);
+  if (r === 0) return [0, 0, 0];
+
+  const radius =
+    scale === 'log'
+      ? Math.log10(1 + r / LOG_REFERENCE_AU) * LOG_UNITS_PER_DECADE
+      : r * LINEAR_UNITS_PER_AU;
+  const k = radius / r;
+
+  return [position[0] * k, position[2] * k, -position[1] * k];
+}
+
+/**
+ * Scene radius of a heliocentric distance, e.g. for distance rings
+ */
+export function sceneRadius(au: number, scale: DistanceScale): number {
+  return toScene([au, 0, 0], scale)[0];
+}
+
+/**
+ * One revolution of the two-body orbit osculating at `state` (ecliptic AU), or an
+ * empty list for an open orbit
+ */
+export function osculatingOrbit(state: BodyState, time: number, points: number = 180): Vec3[] {
+  const jd = toJulianDate(new Date(time), 'TDB');
+  const elements = stateToElements(state, jd, GM_SUN);
+  if (elements.e >= 1) return [];
+
+  const a = elements.q / (1 - elements.e);
+  const periodDays = (2 * Math.PI) / Math.sqrt(GM_SUN / (a * a * a));
+
+  return Array.from(
+    { length: points + 1 },
+    (_, i) => propagate(elements, elements.tp + (i / points) * periodDays).position
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Spacecraft Comparison
+ * Row format and helpers for comparing two to five tracked spacecraft side by side.
+ * The selection travels in the page URL as `?ids=voyager-1,voyager-2`, so comparisons
+ * can be linked; the page and the API parse it the same way.
+ */
+
+import type { DSNData } from '@/lib/api/dsn';
+import { isSignalActive } from '@/lib/utils/dsn-events';
+import type { MissionPhase } from '@/lib/utils/mission-catalog';
+import { resolveDSNTarget } from '@/lib/utils/spacecraft-registry';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 5;
+
+// How far back recorded DSN history is searched for a last contact
+export const CONTACT_LOOKBACK_DAYS = 7;
+
+export interface DSNContact {
+  /** Snapshot time of the latest active link (ISO 8601) */
+  time: string;
+  station: string;
+  dish: string;
+  /** In the current DSN feed rather than recorded history */
+  live: boolean;
+}
+
+export interface ComparisonEvent {
+  /** ISO 8601; a bare year or year-month for estimated catalog milestones */
+  date: string;
+  title: string;
+  source: 'catalog' | 'horizons' | 'conjunction';
+  estimated?: boolean;
+}
+
+export interface SpacecraftComparisonRow {
+  id: string;
+  name: string;
+  phase: MissionPhase;
+  /** Where the spacecraft operates (e.g. "Jupiter orbit"), when the catalog says */
+  location?: string;
+  launchDate: string;
+  missionElapsedDays: number;
+  missionElapsedYears: number;
+  /** Null when no position is available */
+  earthDistanceKm: number | null;
+  sunDistanceKm: number | null;
+  /** Speed relative to Earth, as shown in the live position panel */
+  geocentricSpeedKms: number | null;
+  lightTimeSeconds: number | null;
+  /** Label of the position source (Horizons, propagation or static snapshot) */
+  positionSource?: string;
+  positionTime?: string;
+  lastContact: DSNContact | null;
+  /** Next few events, soonest first */
+  upcomingEvents: ComparisonEvent[];
+  /** Sources that failed while building the row */
+  warnings: string[];
+}
+
+/**
+ * Parse a comma-separated ID list, lower-cased and de-duplicated in order
+ */
+export function parseComparisonIds(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const ids = value
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(ids)];
+}
+
+/**
+ * Latest snapshot with an active up- or downlink for each spacecraft. Snapshots are
+ * scanned newest first; spacecraft with no active link in any of them are left out.
+ */
+export function findLastContacts(
+  snapshots: DSNData[],
+  ids: string[],
+  live = false
+): Map<string, DSNContact> {
+  const contacts = new Map<string, DSNContact>();
+  const ordered = [...snapshots].sort((a, b) => b.timestamp - a.timestamp);
+
+  for (const snapshot of ordered) {
+    if (contacts.size === ids.length) break;
+
+    for (const station of snapshot.stations) {
+      for (const dish of station.dishes) {
+        for (const target of dish.targets) {
+          const id = resolveDSNTarget(target)?.id;
+          if (!id || !ids.includes(id) || contacts.has(id)) continue;
+          if (!isSignalActive(target.downSignal) && !isSignalActive(target.upSignal)) continue;
+
+          contacts.set(id, {
+            time: new Date(snapshot.timestamp).toISOString(),
+            station: station.friendlyName || station.name,
+            dish: dish.name,
+            live,
+          });
+        }
+      }
+    }
+  }
+
+  return contacts;
+}
@@ -0,0 +1,108 @@
+/**
+ * Spacecraft History
+ * Distance, speed and light-time series built from a pair of Horizons vector tables,
+ * one geocentric and one heliocentric, on the same time grid. Shared by the history
+ * API (JSON and CSV) and the chart, so both report the same numbers.
+ */
+
+import type { StateVector } from '@/lib/types/horizons';
+
+export type HistoryMetric =
+  | 'earthDistanceKm'
+  | 'sunDistanceKm'
+  | 'heliocentricSpeedKms'
+  | 'geocentricSpeedKms'
+  | 'lightTimeSeconds';
+
+export interface HistoryPoint {
+  /** UTC epoch of the sample (ISO 8601) */
+  time: string;
+  earthDistanceKm: number;
+  sunDistanceKm: number;
+  /** Speed relative to the Sun */
+  heliocentricSpeedKms: number;
+  /** Speed relative to Earth, as shown in the live position panel */
+  geocentricSpeedKms: number;
+  /** One-way light time from Earth */
+  lightTimeSeconds: number;
+}
+
+export interface SpacecraftHistory {
+  spacecraftId: string;
+  /** Span actually covered, which Horizons may narrow to the ephemeris coverage */
+  start: string;
+  stop: string;
+  step: string;
+  points: HistoryPoint[];
+}
+
+export const HISTORY_METRICS: Record<HistoryMetric, { label: string; description: string }> = {
+  earthDistanceKm: { label: 'From Earth', description: 'Distance from Earth' },
+  sunDistanceKm: { label: 'From Sun', description: 'Distance from the Sun' },
+  heliocentricSpeedKms: { label: 'Speed (Sun)', description: 'Speed relative to the Sun' },
+  geocentricSpeedKms: { label: 'Speed (Earth)', description: 'Speed relative to Earth' },
+  lightTimeSeconds: { label: 'Light time', description: 'One-way light time from Earth' },
+};
+
+const AU_KM = 149597870.7;
+const SPEED_OF_LIGHT_KMS = 299792.458;
+
+const magnitude = (x: number, y: number, z: number) => Math.sqrt(x * x + y * y + z * z);
+
+/**
+ * Join geocentric and heliocentric vectors on their UTC epochs. Rows present in only
+ * one table (the two ends narrowed differently) are dropped.
+ */
+export function buildHistoryPoints(
+  geocentric: StateVector[],
+  heliocentric: StateVector[]
+): HistoryPoint[] {
+  const sunByTime = new Map(heliocentric.map((v) => [v.time.getTime(), v]));
+
+  return geocentric.flatMap((earth) => {
+    const sun = sunByTime.get(earth.time.getTime());
+    if (!sun) return [];
+
+    const earthDistanceKm = magnitude(earth.x, earth.y, earth.z);
+    return [
+      {
+        time: earth.time.toISOString(),
+        earthDistanceKm,
+        sunDistanceKm: magnitude(sun.x, sun.y, sun.z),
+        heliocentricSpeedKms: magnitude(sun.vx, sun.vy, sun.vz),
+        geocentricSpeedKms: magnitude(earth.vx, earth.vy, earth.vz),
+        lightTimeSeconds: earthDistanceKm / SPEED_OF_LIGHT_KMS,
+      },
+    ];
+  });
+}
+
+/**
+ * One row per sample; distances in both km and AU since reports tend to want one or
+ * the other
+ */
+export function historyToCSV(history: SpacecraftHistory): string {
+  const header = [
+    'time_utc',
+    'earth_distance_km',
+    'earth_distance_au',
+    'sun_distance_km',
+    'sun_distance_au',
+    'heliocentric_speed_kms',
+    'geocentric_speed_kms',
+    'light_time_s',
+  ];
+
+  const rows = history.points.map((point) => [
+    point.time,
+    point.earthDistanceKm.toFixed(0),
+    (point.earthDistanceKm / AU_KM).toFixed(8),
+    point.sunDistanceKm.toFixed(0),
+    (point.sunDistanceKm / AU_KM).toFixed(8),
+    point.heliocentricSpeedKms.toFixed(6),
+    point.geocentricSpeedKms.toFixed(6),
+    point.lightTimeSeconds.toFixed(3),
+  ]);
+
+  return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,94 @@
+/**
+ * Spacecraft Registry
+ * One lookup table linking the codes used by the DSN feed to NAIF IDs, display
+ * names and mission pages. Entries come from the mission catalog (lib/data/missions.json).
+ */
+
+import { MISSION_CATALOG, type MissionDefinition } from '@/lib/utils/mission-catalog';
+import type { SpacecraftId } from '@/lib/types/horizons';
+import type { DSNTarget } from '@/lib/api/dsn';
+
+export type SpacecraftRegistryEntry = MissionDefinition;
+
+export const SPACECRAFT_REGISTRY: SpacecraftRegistryEntry[] = MISSION_CATALOG;
+
+const byCode = new Map<string, SpacecraftRegistryEntry>();
+const byDsnId = new Map<number, SpacecraftRegistryEntry>();
+const byNaifId = new Map<string, SpacecraftRegistryEntry>();
+
+SPACECRAFT_REGISTRY.forEach((entry) => {
+  entry.dsnCodes.forEach((code) => byCode.set(code.toUpperCase(), entry));
+  if (entry.dsnId !== undefined) byDsnId.set(entry.dsnId, entry);
+  if (entry.naifId) byNaifId.set(entry.naifId, entry);
+});
+
+/**
+ * Look up a spacecraft by DSN code (case-insensitive)
+ */
+export function findSpacecraftByDSNCode(code: string): SpacecraftRegistryEntry | undefined {
+  return byCode.get(code.trim().toUpperCase());
+}
+
+/**
+ * Look up a spacecraft by DSN numeric ID; accepts the negated form from the feed
+ */
+export function findSpacecraftByDSNId(dsnId: number): SpacecraftRegistryEntry | undefined {
+  return byDsnId.get(Math.abs(dsnId));
+}
+
+export function findSpacecraftByNaifId(
+  naifId: string | number
+): SpacecraftRegistryEntry | undefined {
+  return byNaifId.get(String(naifId));
+}
+
+export function findSpacecraftById(id: string): SpacecraftRegistryEntry | undefined {
+  return SPACECRAFT_REGISTRY.find((entry) => entry.id === id);
+}
+
+/**
+ * Resolve a DSN target by code first, then by its numeric IDs
+ */
+export function resolveDSNTarget(target: DSNTarget): SpacecraftRegistryEntry | undefined {
+  const codes = [target.name, ...(target.spacecraft || [])];
+  for (const code of codes) {
+    const entry = code ? findSpacecraftByDSNCode(code) : undefined;
+    if (entry) return entry;
+  }
+
+  const numericId = target.spacecraftId ?? target.id;
+  return numericId !== undefined ? findSpacecraftByDSNId(numericId) : undefined;
+}
+
+/**
+ * Display name for a DSN code, falling back to the code itself
+ */
+export function getSpacecraftDisplayName(code: string): string {
+  return findSpacecraftByDSNCode(code)?.name || code;
+}
+
+/**
+ * Whether live positions are available from Horizons via /api/spacecraft/[id]
+ */
+export function hasLivePosition(
+  entry: SpacecraftRegistryEntry
+): entry is SpacecraftRegistryEntry & {
+  id: SpacecraftId;
+} {
+  return !!entry.horizons;
+}
+
+/**
+ * Mission page URL, or null when the spacecraft has no page
+ */
+export function getMissionPath(entry: SpacecraftRegistryEntry): string | null {
+  return entry.page ? `/missions/${entry.id}` : null;
+}
+
+/**
+ * URL of the live position panel on the mission page, or null when unavailable
+ */
+export function getLivePositionPath(entry: SpacecraftRegistryEntry): string | null {
+  const missionPath = getMissionPath(entry);
+  return missionPath && hasLivePosition(entry) ? `${missionPath}#live-position` : null;
+}
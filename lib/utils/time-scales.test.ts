@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fromJulianDate,
+  fromModifiedJulianDate,
+  fromScale,
+  J2000,
+  julianCenturies,
+  taiMinusUtc,
+  tdbMinusTt,
+  toJulianDate,
+  toModifiedJulianDate,
+  toScale,
+  type TimeScale,
+} from '@/lib/utils/time-scales';
+
+const SCALES: TimeScale[] = ['UTC', 'TAI', 'TT', 'TDB'];
+const DATES = [
+  '1890-03-14T06:00:00Z',
+  '1977-09-05T12:56:00Z',
+  '1999-12-31T23:59:59.999Z',
+  '2016-12-31T23:59:59Z',
+  '2017-01-01T00:00:00Z',
+  '2025-06-15T08:30:15.250Z',
+].map((iso) => new Date(iso));
+
+describe('leap second table', () => {
+  it('steps TAI-UTC at the start of the UTC day after each leap second', () => {
+    expect(taiMinusUtc(new Date('2016-12-31T23:59:59.999Z'))).toBe(36);
+    expect(taiMinusUtc(new Date('2017-01-01T00:00:00Z'))).toBe(37);
+    expect(taiMinusUtc(new Date('1972-06-30T23:59:59Z'))).toBe(10);
+    expect(taiMinusUtc(new Date('1972-07-01T00:00:00Z'))).toBe(11);
+  });
+
+  it('follows ΔT before the table starts', () => {
+    // TT-UT was 33.2 s at the start of 1960 and -2.7 s at the start of 1900
+    const ttMinusUt = (iso: string) => toScale(new Date(iso), 'TT') - Date.parse(iso);
+    expect(Math.abs(ttMinusUt('1960-01-01T00:00:00Z') - 33150)).toBeLessThan(200);
+    expect(Math.abs(ttMinusUt('1900-01-01T00:00:00Z') + 2720)).toBeLessThan(200);
+    expect(Math.abs(ttMinusUt('1971-12-31T23:59:59Z') - 42184)).toBeLessThan(200);
+    expect(taiMinusUtc(new Date('1960-01-01T00:00:00Z'))).toBeCloseTo(33.15 - 32.184, 0);
+  });
+
+  it('maps 2016-12-31T23:59:60 to 2017-01-01T00:00:00', () => {
+    // 23:59:59 UTC reads 00:00:35 TAI, so the inserted second reads 00:00:36
+    expect(toScale(new Date('2016-12-31T23:59:59Z'), 'TAI')).toBe(Date.UTC(2017, 0, 1, 0, 0, 35));
+    expect(toScale(new Date('2017-01-01T00:00:00Z'), 'TAI')).toBe(Date.UTC(2017, 0, 1, 0, 0, 37));
+    expect(fromScale(Date.UTC(2017, 0, 1, 0, 0, 36), 'TAI').toISOString()).toBe(
+      '2017-01-01T00:00:00.000Z'
+    );
+  });
+});
+
+describe('scale offsets', () => {
+  it('puts TT 69.184 s ahead of UTC since 2017', () => {
+    const date = new Date('2025-01-01T00:00:00Z');
+    expect(toScale(date, 'TT') - date.getTime()).toBe(69184);
+    expect(toScale(date, 'TT') - toScale(date, 'TAI')).toBe(32184);
+  });
+
+  it('keeps TDB within 1.7 ms of TT', () => {
+    for (let day = 0; day < 366; day += 7) {
+      const date = new Date(Date.UTC(2025, 0, 1) + day * 86400000);
+      expect(Math.abs(toScale(date, 'TDB') - toScale(date, 'TT'))).toBeLessThan(1.7);
+    }
+  });
+
+  it('peaks TDB-TT near the annual extreme', () => {
+    // g = 90° about 93 days after perihelion (early April)
+    expect(tdbMinusTt(toJulianDate(new Date('2025-04-04T00:00:00Z'), 'TT'))).toBeCloseTo(
+      0.001657,
+      5
+    );
+  });
+});
+
+describe('round trips', () => {
+  it('recovers the UTC instant from a reading on every scale', () => {
+    for (const date of DATES) {
+      for (const scale of SCALES) {
+        expect(fromScale(toScale(date, scale), scale).getTime()).toBe(date.getTime());
+      }
+    }
+  });
+
+  it('converts between scales through UTC', () => {
+    for (const date of DATES) {
+      const tai = toScale(date, 'TAI');
+      const tt = toScale(fromScale(tai, 'TAI'), 'TT');
+      const tdb = toScale(fromScale(tt, 'TT'), 'TDB');
+      const utc = fromScale(tdb, 'TDB');
+
+      expect(tt - tai).toBe(32184);
+      expect(utc.getTime()).toBe(date.getTime());
+    }
+  });
+});
+
+describe('Julian dates', () => {
+  it('counts from the Unix epoch and MJD 0', () => {
+    expect(toJulianDate(new Date(0))).toBe(2440587.5);
+    expect(toJulianDate(new Date('2017-01-01T00:00:00Z'))).toBe(2457754.5);
+    expect(toModifiedJulianDate(new Date('1858-11-17T00:00:00Z'))).toBe(0);
+  });
+
+  it('places J2000.0 at 2000-01-01 11:58:55.816 UTC', () => {
+    const j2000 = new Date('2000-01-01T11:58:55.816Z');
+    expect(toJulianDate(j2000, 'TT')).toBeCloseTo(J2000, 8);
+    expect(julianCenturies(j2000)).toBeCloseTo(0, 12);
+    expect(fromJulianDate(J2000, 'TT').toISOString()).toBe(j2000.toISOString());
+  });
+
+  it('inverts toJulianDate on every scale', () => {
+    for (const date of DATES) {
+      for (const scale of SCALES) {
+        // A Julian Date near 2.45e6 resolves to about 40 µs, so rounding restores the ms
+        const jd = toJulianDate(date, scale);
+        expect(fromJulianDate(jd, scale).getTime()).toBe(date.getTime());
+        expect(fromModifiedJulianDate(jd - 2400000.5, scale).getTime()).toBe(date.getTime());
+      }
+    }
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Time Scales
+ * Conversions between the scales our sources use: UTC (JavaScript Dates, DSN Now,
+ * most APIs), TAI, TT and TDB (Horizons and SSD API epochs), and the Julian Date,
+ * Modified Julian Date and Unix time counts. A Date always holds a UTC instant; a
+ * time on another scale is a "reading", milliseconds on that scale's clock counted
+ * the way Unix time counts UTC.
+ *
+ * Leap seconds come from LEAP_SECONDS, which needs a new row whenever IERS Bulletin C
+ * announces one. Before 1972 a Date is read as UT, as Horizons reads early epochs, and
+ * TT-UT follows ΔT; TAI-UTC is whatever that implies rather than the fractional
+ * offsets of the rubber-second era.
+ */
+
+export type TimeScale = 'UTC' | 'TAI' | 'TT' | 'TDB';
+
+/** Julian Date of the Unix epoch, 1970-01-01 00:00 */
+export const JD_UNIX_EPOCH = 2440587.5;
+/** Julian Date of MJD 0, 1858-11-17 00:00 */
+export const MJD_EPOCH = 2400000.5;
+/** Julian Date of the J2000.0 epoch, 2000-01-01 12:00 TT */
+export const J2000 = 2451545.0;
+
+const DAY_MS = 86400000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+// TT runs a fixed 32.184 s ahead of TAI
+const TT_MINUS_TAI_MS = 32184;
+
+/**
+ * [UTC epoch ms from which it applies, TAI-UTC (s)], from IERS Bulletin C. The
+ * 2017-01-01 leap second is the latest; none is scheduled through 2026.
+ */
+const LEAP_SECONDS: [number, number][] = [
+  [Date.UTC(1972, 0, 1), 10],
+  [Date.UTC(1972, 6, 1), 11],
+  [Date.UTC(1973, 0, 1), 12],
+  [Date.UTC(1974, 0, 1), 13],
+  [Date.UTC(1975, 0, 1), 14],
+  [Date.UTC(1976, 0, 1), 15],
+  [Date.UTC(1977, 0, 1), 16],
+  [Date.UTC(1978, 0, 1), 17],
+  [Date.UTC(1979, 0, 1), 18],
+  [Date.UTC(1980, 0, 1), 19],
+  [Date.UTC(1981, 6, 1), 20],
+  [Date.UTC(1982, 6, 1), 21],
+  [Date.UTC(1983, 6, 1), 22],
+  [Date.UTC(1985, 6, 1), 23],
+  [Date.UTC(1988, 0, 1), 24],
+  [Date.UTC(1990, 0, 1), 25],
+  [Date.UTC(1991, 0, 1), 26],
+  [Date.UTC(1992, 6, 1), 27],
+  [Date.UTC(1993, 6, 1), 28],
+  [Date.UTC(1994, 6, 1), 29],
+  [Date.UTC(1996, 0, 1), 30],
+  [Date.UTC(1997, 6, 1), 31],
+  [Date.UTC(1999, 0, 1), 32],
+  [Date.UTC(2006, 0, 1), 33],
+  [Date.UTC(2009, 0, 1), 34],
+  [Date.UTC(2012, 6, 1), 35],
+  [Date.UTC(2015, 6, 1), 36],
+  [Date.UTC(2017, 0, 1), 37],
+];
+
+/**
+ * ΔT = TT-UT (s) before 1972, from Espenak & Meeus' polynomials (Five Millennium
+ * Canon): [first year, year t counts from, coefficients of t^0, t^1, ...]
+ */
+const DELTA_T: [number, number, number[]][] = [
+  [
+    1800,
+    1800,
+    [13.72, -0.332447, 0.0068612, 0.0041116, -0.00037436, 1.21272e-5, -1.699e-7, 8.75e-10],
+  ],
+  [1860, 1860, [7.62, 0.5737, -0.251754, 0.01680668, -0.0004473624, 1 / 233174]],
+  [1900, 1900, [-2.79, 1.494119, -0.0598939, 0.0061966, -0.000197]],
+  [1920, 1920, [21.2, 0.84493, -0.0761, 0.0020936]],
+  [1941, 1950, [29.07, 0.407, -1 / 233, 1 / 2547]],
+  [1961, 1975, [45.45, 1.067, -1 / 260, -1 / 718]],
+];
+
+/**
+ * TT-UT (seconds) at a UT instant before 1972, held at its 1800 value before that
+ */
+function deltaT(time: number): number {
+  const year = Math.max(1970 + time / YEAR_MS, DELTA_T[0][0]);
+  let k = DELTA_T.length - 1;
+  while (k > 0 && year < DELTA_T[k][0]) k--;
+
+  const [, origin, coefficients] = DELTA_T[k];
+  const t = year - origin;
+  return coefficients.reduceRight((sum, c) => sum * t + c, 0);
+}
+
+/**
+ * TAI-UTC (seconds) at a UTC instant
+ */
+export function taiMinusUtc(date: Date): number {
+  const time = date.getTime();
+  if (time < LEAP_SECONDS[0][0]) return deltaT(time) - TT_MINUS_TAI_MS / 1000;
+
+  let k = LEAP_SECONDS.length - 1;
+  while (time < LEAP_SECONDS[k][0]) k--;
+  return LEAP_SECONDS[k][1];
+}
+
+/**
+ * TDB-TT (seconds) at a TT Julian Date: the annual and semi-annual terms, good to
+ * about 30 µs
+ */
+export function tdbMinusTt(jdTT: number): number {
+  const g = ((357.53 + 0.98560028 * (jdTT - J2000)) * Math.PI) / 180;
+  return 0.001657 * Math.sin(g) + 0.000014 * Math.sin(2 * g);
+}
+
+/**
+ * Milliseconds a clock on `scale` reads ahead of UTC at a UTC instant
+ */
+function offsetFromUtc(time: number, scale: TimeScale): number {
+  if (scale === 'UTC') return 0;
+
+  const tai = taiMinusUtc(new Date(time)) * 1000;
+  if (scale === 'TAI') return tai;
+
+  const tt = tai + TT_MINUS_TAI_MS;
+  if (scale === 'TT') return tt;
+
+  return tt + tdbMinusTt((time + tt) / DAY_MS + JD_UNIX_EPOCH) * 1000;
+}
+
+/**
+ * Reading on `scale` (ms) at a UTC instant
+ */
+export function toScale(date: Date, scale: TimeScale): number {
+  return date.getTime() + offsetFromUtc(date.getTime(), scale);
+}
+
+/**
+ * UTC instant of a reading on `scale` (ms). The offset is evaluated at the
+ * approximate UTC time and refined once, which settles TDB to well under a
+ * microsecond; readings inside an inserted leap second map to the second after it.
+ * The result is rounded to the whole millisecond a Date holds (Date truncates).
+ */
+export function fromScale(reading: number, scale: TimeScale): Date {
+  let time = reading - offsetFromUtc(reading, scale);
+  time = reading - offsetFromUtc(time, scale);
+  return new Date(Math.round(time));
+}
+
+/**
+ * Julian Date on `scale` of a UTC instant
+ */
+export function toJulianDate(date: Date, scale: TimeScale = 'UTC'): number {
+  return toScale(date, scale) / DAY_MS + JD_UNIX_EPOCH;
+}
+
+/**
+ * UTC instant of a Julian Date on `scale`
+ */
+export function fromJulianDate(jd: number, scale: TimeScale = 'UTC'): Date {
+  return fromScale((jd - JD_UNIX_EPOCH) * DAY_MS, scale);
+}
+
+/**
+ * Modified Julian Date (JD - 2400000.5) on `scale` of a UTC instant
+ */
+export function toModifiedJulianDate(date: Date, scale: TimeScale = 'UTC'): number {
+  return toJulianDate(date, scale) - MJD_EPOCH;
+}
+
+/**
+ * UTC instant of a Modified Julian Date on `scale`
+ */
+export function fromModifiedJulianDate(mjd: number, scale: TimeScale = 'UTC'): Date {
+  return fromJulianDate(mjd + MJD_EPOCH, scale);
+}
+
+/**
+ * Julian centuries since J2000 on `scale` (TT for precession and mean elements)
+ */
+export function julianCenturies(date: Date, scale: TimeScale = 'TT'): number {
+  return (toJulianDate(date, scale) - J2000) / 36525;
+}
+
+/**
+ * Unix time (seconds, leap seconds not counted) of a UTC instant
+ */
+export function toUnixSeconds(date: Date): number {
+  return date.getTime() / 1000;
+}
+
+/**
+ * UTC instant of a Unix time (seconds)
+ */
+export function fromUnixSeconds(seconds: number): Date {
+  return new Date(seconds * 1000);
+}